@@ -0,0 +1,33 @@
+/* global self, clients */
+
+// Service worker for desktop notifications. The app shows notifications
+// through this worker's registration so a click can bring the app forward
+// on the right thread even after the tab was closed.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(clients.claim());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/";
+
+  event.waitUntil(
+    clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const existing = windows.find(
+          (client) => new URL(client.url).origin === self.location.origin,
+        );
+        if (existing) {
+          existing.postMessage({ type: "notification-click", url });
+          return existing.focus();
+        }
+        return clients.openWindow(url);
+      }),
+  );
+});
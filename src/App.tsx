@@ -8,13 +8,16 @@ import { Composer } from "./components/Composer";
 import { CompressionTest } from "./components/CompressionTest";
 import { ConversationsSimple as Conversations } from "./components/ConversationsSimple";
 import { DebugConsole } from "./components/DebugConsole";
+import { DesktopNotificationHandler } from "./components/DesktopNotificationHandler";
 import { DirectMessages } from "./components/DirectMessages";
 import { Header } from "./components/Header";
 import { LandingPage } from "./components/LandingPage";
 import { MobileTabBar } from "./components/MobileTabBar";
 import { Notifications } from "./components/Notifications";
 import { NotificationsAnalytics } from "./components/NotificationsAnalytics";
+import { PostAnalytics } from "./components/PostAnalytics";
 import { RateLimitStatus } from "./components/RateLimitStatus";
+import { ScheduledPosts } from "./components/ScheduledPosts";
 import { Search } from "./components/Search";
 import { Sidebar } from "./components/Sidebar";
 import SkyDeck from "./components/SkyDeck";
@@ -26,6 +29,12 @@ import { ModalProvider } from "./contexts/ModalContext";
 import { ModerationProvider } from "./contexts/ModerationContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { useErrorTracking, usePageTracking } from "./hooks/useAnalytics";
+import { useDraftSyncRunner } from "./hooks/useDraftSync";
+import { useFollowerSnapshotRunner } from "./hooks/useFollowerSnapshots";
+import { useJetstream } from "./hooks/useJetstream";
+import { useNotificationArchiveRunner } from "./hooks/useNotificationArchive";
+import { useNotificationReadStateSync } from "./hooks/useNotificationReadState";
+import { useScheduledPostRunner } from "./hooks/useScheduledPosts";
 import { useSwipeNavigation } from "./hooks/useSwipeNavigation";
 import ProfilePage from "./pages/ProfilePage";
 import { Settings } from "./pages/Settings";
@@ -72,6 +81,24 @@ function AppContent() {
   usePageTracking();
   useErrorTracking();
 
+  // Live notifications over Jetstream, polling takes over while it's down
+  useJetstream();
+
+  // Publish scheduled threads when they come due
+  useScheduledPostRunner();
+
+  // Notification archive backfill and retention pruning
+  useNotificationArchiveRunner();
+
+  // Read state follows the server seenAt, and local reads advance it
+  useNotificationReadStateSync();
+
+  // Follower and following lists, snapshotted every few hours
+  useFollowerSnapshotRunner();
+
+  // Drafts shared with other devices through the repo, when turned on
+  useDraftSyncRunner();
+
   // Auto-collapse sidebar when viewport is too narrow for 3 columns
   useEffect(() => {
     const checkViewportWidth = () => {
@@ -142,6 +169,7 @@ function AppContent() {
       {...swipeHandlers}
     >
       <BackgroundNotificationLoader />
+      <DesktopNotificationHandler />
       <Header onMenuToggle={() => setIsSidebarOpen(!isSidebarOpen)} />
       <div className="flex">
         <Sidebar
@@ -157,11 +185,13 @@ function AppContent() {
             <Route path="/" element={<SkyDeck />} />
             <Route path="/timeline" element={<VisualTimeline />} />
             <Route path="/analytics" element={<NotificationsAnalytics />} />
+            <Route path="/analytics/posts" element={<PostAnalytics />} />
             <Route path="/notifications" element={<Notifications />} />
             <Route path="/conversations" element={<Conversations />} />
             <Route path="/messages" element={<DirectMessages />} />
             <Route path="/bookmarks" element={<Bookmarks />} />
             <Route path="/compose" element={<Composer />} />
+            <Route path="/scheduled" element={<ScheduledPosts />} />
             <Route path="/search" element={<Search />} />
             <Route path="/profile/:handle" element={<ProfilePage />} />
             <Route path="/settings" element={<Settings />} />
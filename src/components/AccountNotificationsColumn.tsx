@@ -0,0 +1,114 @@
+import type { AppBskyNotificationListNotifications } from "@atproto/api";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Loader } from "lucide-react";
+import React, { useEffect, useRef } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { CompactNotificationItem } from "./CompactNotificationItem";
+
+type Notification = AppBskyNotificationListNotifications.Notification;
+
+interface AccountNotificationsColumnProps {
+  refreshKey?: number;
+}
+
+/**
+ * Notifications for a column bound to another signed in account. The full
+ * notifications feed reads the active account's caches and archive, so this
+ * lists straight from the API with the scoped agent instead.
+ */
+export const AccountNotificationsColumn: React.FC<
+  AccountNotificationsColumnProps
+> = ({ refreshKey }) => {
+  const { agent, session } = useAuth();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ["accountNotifications", session?.did],
+    queryFn: async ({ pageParam }) => {
+      if (!agent) throw new Error("Not authenticated");
+      const response = await agent.listNotifications({
+        cursor: pageParam,
+        limit: 50,
+      });
+      return response.data;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: !!agent,
+    staleTime: 60 * 1000,
+    refetchInterval: 2 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (refreshKey) refetch();
+  }, [refreshKey, refetch]);
+
+  // Load the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const notifications: Notification[] =
+    data?.pages.flatMap((page) => page.notifications) || [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader className="h-6 w-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 text-center text-sm text-red-500">
+        {(error as Error).message || "Failed to load notifications"}
+      </div>
+    );
+  }
+
+  if (notifications.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+        No notifications yet
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {notifications.map((notification) => (
+        <CompactNotificationItem
+          key={notification.uri}
+          notification={notification}
+        />
+      ))}
+
+      <div ref={loadMoreRef} className="flex justify-center p-4">
+        {isFetchingNextPage && (
+          <Loader className="h-5 w-5 animate-spin text-gray-400" />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { subHours } from "date-fns";
+import {
+  Download,
+  FileJson,
+  FileSpreadsheet,
+  FileText,
+  Loader2,
+} from "lucide-react";
+import React from "react";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  buildAnalyticsReport,
+  exportReport,
+  fetchSentInteractions,
+  REPORT_DATASETS,
+  TIME_RANGE_HOURS,
+  type AnalyticsTimeRange,
+  type ReportExport,
+} from "../services/analytics-report";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("AnalyticsReportMenu");
+
+interface AnalyticsReportMenuProps {
+  timeRange: AnalyticsTimeRange;
+  notifications: Notification[];
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Exports the dashboard's time range as an HTML report or CSV/JSON data */
+export const AnalyticsReportMenu: React.FC<AnalyticsReportMenuProps> = ({
+  timeRange,
+  notifications,
+}) => {
+  const { agent, session } = useAuth();
+  const [showMenu, setShowMenu] = React.useState(false);
+  const [exporting, setExporting] = React.useState<ReportExport | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const menuRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleExport = async (kind: ReportExport) => {
+    if (!agent || !session) return;
+    setShowMenu(false);
+    setExporting(kind);
+    setError(null);
+
+    try {
+      const now = new Date();
+      const sent = await fetchSentInteractions(
+        agent,
+        session.did,
+        subHours(now, TIME_RANGE_HOURS[timeRange]),
+      );
+      const report = buildAnalyticsReport({
+        account: { did: session.did, handle: session.handle },
+        timeRange,
+        notifications,
+        sent,
+        now,
+      });
+      const { blob, fileName } = exportReport(report, kind);
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      logger.error("Failed to export analytics report:", err);
+      setError("Export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const items: { kind: ReportExport; label: string; Icon: typeof Download }[] =
+    [
+      { kind: "html", label: "HTML report", Icon: FileText },
+      { kind: "json", label: "All data (JSON)", Icon: FileJson },
+      ...REPORT_DATASETS.map(({ dataset, label }) => ({
+        kind: dataset,
+        label: `${label} (CSV)`,
+        Icon: FileSpreadsheet,
+      })),
+    ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        disabled={!!exporting}
+        className="flex items-center gap-2 rounded-lg px-3 py-1 text-sm font-medium hover:opacity-80 disabled:opacity-50"
+        style={{
+          backgroundColor: "var(--bsky-bg-tertiary)",
+          color: error ? "var(--bsky-error)" : "var(--bsky-text-primary)",
+        }}
+        title={error || undefined}
+      >
+        {exporting ? (
+          <Loader2 size={14} className="animate-spin" />
+        ) : (
+          <Download size={14} />
+        )}
+        Export
+      </button>
+      {showMenu && (
+        <div
+          className="absolute right-0 z-50 mt-1 w-56 overflow-hidden rounded-lg shadow-lg"
+          style={{
+            backgroundColor: "var(--bsky-bg-secondary)",
+            border: "1px solid var(--bsky-border-primary)",
+          }}
+        >
+          {items.map(({ kind, label, Icon }) => (
+            <button
+              key={kind}
+              onClick={() => handleExport(kind)}
+              className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm transition-colors hover:bg-blue-500 hover:text-white"
+              style={{ color: "var(--bsky-text-primary)" }}
+            >
+              <Icon size={14} />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,12 +2,18 @@ import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notif
 import { debug } from "@bsky/shared";
 import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
 import { subDays } from "date-fns";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { useNotificationTracking } from "../hooks/useAnalytics";
+import { useFollowing } from "../hooks/useFollowing";
+import { useNotificationPollingInterval } from "../hooks/useJetstream";
+import { useNotificationRuleOutcomes } from "../hooks/useNotificationRules";
 import { analytics } from "../services/analytics";
 import { getNotificationService } from "../services/atproto/notifications";
+import { desktopNotifications } from "../services/desktop-notifications";
+import { notificationArchive } from "../services/notification-archive";
 import { NotificationCacheService } from "../services/notification-cache-service";
+import { notificationReadState } from "../services/notification-read-state";
 import { ExtendedFetchCache } from "../utils/extendedFetchCache";
 import {
   prefetchNotificationPosts,
@@ -30,6 +36,7 @@ export const BackgroundNotificationLoader: React.FC = () => {
   const [hasFetched, setHasFetched] = useState(false);
   const [enablePolling, setEnablePolling] = useState(false);
   const { trackNotificationLoad } = useNotificationTracking();
+  const pollingInterval = useNotificationPollingInterval();
 
   // Check if we already have cached data
   const cachedData = queryClient.getQueryData([
@@ -77,6 +84,11 @@ export const BackgroundNotificationLoader: React.FC = () => {
         100,
       );
 
+      // The top page carries the server seenAt, picks up reads from other clients
+      if (!pageParam) {
+        void notificationReadState.applyServerSeenAt(result.seenAt);
+      }
+
       debug.log("[BackgroundNotificationLoader] Fetched notifications page:", {
         notificationCount: result.notifications.length,
         cursor: result.cursor,
@@ -90,7 +102,7 @@ export const BackgroundNotificationLoader: React.FC = () => {
     getNextPageParam: (lastPage) => lastPage.cursor,
     enabled: enablePolling, // Enable polling after initial load
     staleTime: 30 * 60 * 1000, // 30 minutes
-    refetchInterval: enablePolling ? 60 * 1000 : false, // Poll every 60 seconds when enabled - reduced from 10s
+    refetchInterval: enablePolling ? pollingInterval : false, // Poll every 60 seconds when enabled, unless Jetstream is live
   });
 
   // Initialize IndexedDB
@@ -480,6 +492,10 @@ export const BackgroundNotificationLoader: React.FC = () => {
           await cacheService.cacheNotifications(page.notifications, i + 1);
         }
 
+        // The first page is always fetched from the top, see whether it
+        // still reaches the archive
+        notificationArchive.reconcileWindow(data.pages[0].notifications);
+
         // Update metadata
         const oldestDate = new Date(
           allNotifications[allNotifications.length - 1].indexedAt,
@@ -531,6 +547,36 @@ export const BackgroundNotificationLoader: React.FC = () => {
     saveNewNotifications();
   }, [data, isIndexedDBReady, enablePolling, cacheService, queryClient]);
 
+  // Desktop notifications for new arrivals, plus matches of rules with the
+  // alert action. What's already loaded when the app starts isn't shown.
+  const { data: followingSet } = useFollowing();
+  const latestNotifications: Notification[] = React.useMemo(
+    () => data?.pages?.[0]?.notifications || [],
+    [data],
+  );
+  const ruleOutcomes = useNotificationRuleOutcomes(latestNotifications, {
+    followingSet,
+  });
+  const alertedUris = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (latestNotifications.length === 0) return;
+    if (!alertedUris.current) {
+      alertedUris.current = new Set(latestNotifications.map((n) => n.uri));
+      return;
+    }
+    const seen = alertedUris.current;
+    const arrived = latestNotifications.filter((n) => !seen.has(n.uri));
+    if (arrived.length === 0) return;
+    arrived.forEach((n) => seen.add(n.uri));
+    desktopNotifications.enqueue(
+      arrived,
+      new Set(
+        arrived.filter((n) => ruleOutcomes.get(n.uri)?.alert).map((n) => n.uri),
+      ),
+    );
+  }, [latestNotifications, ruleOutcomes]);
+
   // Debug lifecycle
   React.useEffect(() => {
     debug.log("[BackgroundNotificationLoader] Component state:", {
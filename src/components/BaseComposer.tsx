@@ -1,11 +1,13 @@
 import { AlertCircle, Image, Loader, Send, Smile, X } from "lucide-react";
-import React, { useRef, useState } from "react";
+import React, { useCallback, useRef, useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
+import { useRichTextTypeahead } from "../hooks/useRichTextTypeahead";
 import { generateAltText } from "../services/anthropic";
 import { debug } from "../shared/debug";
 import { compressImage, isCompressibleImage } from "../utils/image-compression";
 import { EmojiPicker } from "./EmojiPicker";
 import { GiphySearch } from "./GiphySearch";
+import { TypeaheadSuggestions } from "./TypeaheadSuggestions";
 
 interface UploadedMedia {
   id: string;
@@ -93,6 +95,21 @@ export function BaseComposer({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const applySuggestionText = useCallback(
+    (newText: string) => {
+      if (newText.length <= maxLength) {
+        setText(newText);
+        onChange?.(newText);
+      }
+    },
+    [maxLength, onChange],
+  );
+  const typeahead = useRichTextTypeahead(
+    text,
+    applySuggestionText,
+    textareaRef,
+  );
+
   // Handle text change
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newText = e.target.value;
@@ -105,6 +122,10 @@ export function BaseComposer({
 
   // Handle keyboard shortcuts
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (typeahead.handleKeyDown(e)) {
+      e.stopPropagation();
+      return;
+    }
     if (features.shortcuts && e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
       e.preventDefault();
       handleSubmit();
@@ -331,29 +352,41 @@ export function BaseComposer({
       {/* Main composer area */}
       <div className={`flex ${isInline ? "gap-2" : "flex-col gap-3"}`}>
         <div className="flex-1">
-          <textarea
-            ref={textareaRef}
-            value={text}
-            onChange={handleTextChange}
-            onKeyDown={handleKeyDown}
-            onPaste={handlePaste}
-            autoFocus={autoFocus}
-            onFocus={() => {
-              onFocus?.();
-              // Stop propagation to prevent parent handlers
-              event?.stopPropagation();
-            }}
-            onBlur={onBlur}
-            placeholder={placeholder}
-            className={`w-full resize-none rounded-lg border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-              isInline ? "min-h-[40px]" : "min-h-[100px]"
-            }`}
-            style={{
-              backgroundColor: "var(--bsky-bg-secondary)",
-              borderColor: "var(--bsky-border-primary)",
-              color: "var(--bsky-text-primary)",
-            }}
-          />
+          <div className="relative">
+            <textarea
+              ref={textareaRef}
+              value={text}
+              onChange={handleTextChange}
+              onKeyDown={handleKeyDown}
+              onSelect={typeahead.trackCursor}
+              onPaste={handlePaste}
+              autoFocus={autoFocus}
+              onFocus={() => {
+                onFocus?.();
+                // Stop propagation to prevent parent handlers
+                event?.stopPropagation();
+              }}
+              onBlur={() => {
+                typeahead.handleBlur();
+                onBlur?.();
+              }}
+              placeholder={placeholder}
+              className={`w-full resize-none rounded-lg border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                isInline ? "min-h-[40px]" : "min-h-[100px]"
+              }`}
+              style={{
+                backgroundColor: "var(--bsky-bg-secondary)",
+                borderColor: "var(--bsky-border-primary)",
+                color: "var(--bsky-text-primary)",
+              }}
+            />
+            <TypeaheadSuggestions
+              suggestions={typeahead.suggestions}
+              selectedIndex={typeahead.selectedIndex}
+              onSelect={typeahead.selectSuggestion}
+              onHover={typeahead.setSelectedIndex}
+            />
+          </div>
 
           {/* Media preview */}
           {media.length > 0 && (
@@ -9,6 +9,7 @@ import {
   X,
 } from "lucide-react";
 import React from "react";
+import { useAuth } from "../contexts/AuthContext";
 import type { Column } from "./SkyDeck";
 
 interface ColumnHeaderProps {
@@ -20,6 +21,8 @@ interface ColumnHeaderProps {
   onMoveLeft?: () => void;
   onMoveRight?: () => void;
   currentFeedLabel?: string;
+  // Unread notifications in the column, shown next to the title
+  unreadCount?: number;
   feedOptions?: Array<{ type: string; label: string; icon: LucideIcon }>;
   children?: React.ReactNode;
 }
@@ -33,9 +36,11 @@ export const ColumnHeader: React.FC<ColumnHeaderProps> = ({
   onMoveLeft,
   onMoveRight,
   currentFeedLabel,
+  unreadCount = 0,
   feedOptions,
   children,
 }) => {
+  const { session, accounts } = useAuth();
   const [showMenu, setShowMenu] = React.useState(false);
   const [showFeedDropdown, setShowFeedDropdown] = React.useState(false);
   const dropdownRef = React.useRef<HTMLDivElement>(null);
@@ -70,6 +75,16 @@ export const ColumnHeader: React.FC<ColumnHeaderProps> = ({
         return "Messages";
       case "bookmarks":
         return "Bookmarks";
+      case "profile":
+        return column.title || `@${column.data}`;
+      case "list":
+        return column.title || "List";
+      case "search":
+        return column.title || `Search: ${column.data}`;
+      case "hashtag":
+        return column.title || `#${column.data}`;
+      case "notificationRule":
+        return column.title || "Notification Rule";
       default:
         return column.title || column.type;
     }
@@ -89,6 +104,24 @@ export const ColumnHeader: React.FC<ColumnHeaderProps> = ({
             ? currentFeedLabel
             : getDisplayTitle()}
         </h2>
+        {unreadCount > 0 && (
+          <span
+            className="rounded-full bg-blue-500 px-1.5 py-0.5 text-xs font-semibold leading-none text-white"
+            title={`${unreadCount} unread`}
+          >
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+        {column.accountDid && column.accountDid !== session?.did && (
+          <span
+            className="truncate rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700 dark:bg-blue-900/40 dark:text-blue-300"
+            title="This column shows another account"
+          >
+            @
+            {accounts.find((account) => account.did === column.accountDid)
+              ?.handle || "signed out account"}
+          </span>
+        )}
       </div>
 
       <div className="flex items-center gap-1">
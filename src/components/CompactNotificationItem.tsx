@@ -0,0 +1,108 @@
+import type { AppBskyNotificationListNotifications } from "@atproto/api";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AtSign,
+  Heart,
+  MessageCircle,
+  Quote,
+  Repeat2,
+  UserPlus,
+} from "lucide-react";
+import React from "react";
+
+type Notification = AppBskyNotificationListNotifications.Notification;
+
+export const REASON_LABELS: Record<string, string> = {
+  like: "liked your post",
+  repost: "reposted your post",
+  follow: "followed you",
+  mention: "mentioned you",
+  reply: "replied to you",
+  quote: "quoted your post",
+};
+
+const reasonIcon = (reason: string) => {
+  switch (reason) {
+    case "like":
+      return (
+        <Heart
+          size={16}
+          style={{ color: "var(--bsky-like)" }}
+          fill="currentColor"
+        />
+      );
+    case "repost":
+      return <Repeat2 size={16} style={{ color: "var(--bsky-repost)" }} />;
+    case "follow":
+      return <UserPlus size={16} style={{ color: "var(--bsky-follow)" }} />;
+    case "mention":
+      return <AtSign size={16} style={{ color: "var(--bsky-mention)" }} />;
+    case "reply":
+      return <MessageCircle size={16} style={{ color: "var(--bsky-reply)" }} />;
+    case "quote":
+      return <Quote size={16} style={{ color: "var(--bsky-quote)" }} />;
+    default:
+      return null;
+  }
+};
+
+interface CompactNotificationItemProps {
+  notification: Notification;
+}
+
+/** A one-line summary of a notification, for lists outside the main feed */
+export const CompactNotificationItem: React.FC<
+  CompactNotificationItemProps
+> = ({ notification }) => {
+  const text = (notification.record as { text?: string })?.text;
+  return (
+    <div
+      className="flex gap-3 border-b px-4 py-3 dark:border-gray-700"
+      style={{
+        backgroundColor: notification.isRead
+          ? undefined
+          : "var(--bsky-bg-secondary)",
+      }}
+    >
+      <div className="mt-1 flex-shrink-0">
+        {reasonIcon(notification.reason)}
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          {notification.author.avatar && (
+            <img
+              src={notification.author.avatar}
+              alt=""
+              className="h-6 w-6 rounded-full"
+            />
+          )}
+          <span
+            className="truncate text-sm"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            <span className="font-semibold">
+              {notification.author.displayName || notification.author.handle}
+            </span>{" "}
+            {REASON_LABELS[notification.reason] || notification.reason}
+          </span>
+        </div>
+        {text && (
+          <p
+            className="mt-1 line-clamp-3 whitespace-pre-wrap text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            {text}
+          </p>
+        )}
+        <div
+          className="mt-1 text-xs"
+          style={{ color: "var(--bsky-text-tertiary)" }}
+        >
+          {formatDistanceToNow(new Date(notification.indexedAt), {
+            addSuffix: true,
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,57 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
 import {
   AlertCircle,
+  CalendarClock,
   CheckCircle,
   FileText,
   GripVertical,
   Image,
+  Languages,
+  Link2,
   Loader,
   Plus,
   Save,
   Send,
   Settings,
+  ShieldCheck,
   Smile,
   Sparkles,
   Split,
-  Trash2,
   Undo,
   Video,
   Wand2,
   X,
 } from "lucide-react";
 import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router";
 import { useAuth } from "../contexts/AuthContext";
+import { useDrafts, useInvalidateDrafts } from "../hooks/useDrafts";
+import { useRichTextTypeahead } from "../hooks/useRichTextTypeahead";
 import { analytics } from "../services/analytics";
 import {
   adjustTone,
   generateAltText,
   type ToneOption,
 } from "../services/anthropic";
+import {
+  DEFAULT_POST_GATE_SETTINGS,
+  describePostGateSettings,
+  isDefaultPostGateSettings,
+  PostGateService,
+  type PostGateSettings,
+} from "../services/atproto/post-gates";
 import { VideoUploadService } from "../services/atproto/video-upload";
 import {
   deleteDraft,
   generateDraftId,
   getComposerSettings,
-  getDrafts,
+  loadDraftMedia,
   saveComposerSettings,
   saveDraft,
+  type DraftRevisionReason,
   type ThreadDraft,
 } from "../services/drafts";
+import { linkMetadataService } from "../services/link-metadata";
+import { scheduledPostRunner } from "../services/scheduled-post-runner";
+import {
+  generateScheduledThreadId,
+  type ScheduledPost,
+} from "../services/scheduled-posts-db";
 import { debug } from "../shared/debug";
 import { isGifFile } from "../utils/gif-to-video";
 import { compressImage, isCompressibleImage } from "../utils/image-compression";
+import {
+  detectLanguage,
+  getBrowserLanguage,
+  languageName,
+  POST_LANGUAGES,
+} from "../utils/language-detect";
 import { createLogger } from "../utils/logger";
+import { buildQuoteEmbed } from "../utils/quote-embed";
+import { buildPostRichText, extractLinks } from "../utils/rich-text";
+import {
+  applyThreadNumbering,
+  NUMBERING_FORMATS,
+} from "../utils/thread-numbering";
+import {
+  countGraphemes,
+  followSegment,
+  MAX_POST_GRAPHEMES,
+  splitThread,
+  type ThreadSegment,
+} from "../utils/thread-splitter";
+import { DraftsBrowser } from "./DraftsBrowser";
 import { EmojiPicker } from "./EmojiPicker";
 import { GiphySearch } from "./GiphySearch";
+import { LinkCardPreview } from "./LinkCardPreview";
+import { PostGateControls } from "./PostGateControls";
+import { QuotedPostCard } from "./QuotedPostCard";
+import { TypeaheadSuggestions } from "./TypeaheadSuggestions";
 
 const logger = createLogger("Composer");
 
-interface NumberingFormat {
-  id: string;
-  name: string;
-  format: (index: number, total: number) => string;
-  example: string;
-}
-
 interface UploadedMedia {
   id: string;
   file: File;
@@ -62,39 +101,6 @@ interface UploadedMedia {
   order?: number; // Track order within a post
 }
 
-const NUMBERING_FORMATS: NumberingFormat[] = [
-  {
-    id: "none",
-    name: "No numbering",
-    format: () => "",
-    example: "",
-  },
-  {
-    id: "simple",
-    name: "Simple",
-    format: (i, t) => `${i}/${t}`,
-    example: "1/5",
-  },
-  {
-    id: "brackets",
-    name: "Brackets",
-    format: (i, t) => `[${i}/${t}]`,
-    example: "[1/5]",
-  },
-  {
-    id: "thread",
-    name: "Thread",
-    format: (i, t) => (i === 1 ? "🧵 1/" + t : `${i}/${t}`),
-    example: "🧵 1/5",
-  },
-  {
-    id: "dots",
-    name: "Dots",
-    format: (i, t) => `${i}•${t}`,
-    example: "1•5",
-  },
-];
-
 const TONE_OPTIONS: {
   value: ToneOption;
   label: string;
@@ -133,14 +139,17 @@ const TONE_OPTIONS: {
   },
 ];
 
-const MAX_POST_LENGTH = 300;
 const MAX_IMAGE_SIZE = 1000000; // 1MB (Bluesky's exact limit)
 const MAX_VIDEO_SIZE = 50 * 1024 * 1024; // 50MB
 const MAX_IMAGES_PER_POST = 4;
+const AUTOSAVE_DELAY_MS = 3000;
 const SUPPORTED_VIDEO_FORMATS = [".mp4", ".mpeg", ".webm", ".mov"];
 
 export function Composer() {
   const { agent } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Post being quoted by the first post of the thread, from ?quote=<at-uri>
+  const quoteUri = searchParams.get("quote");
   const [text, setText] = useState("");
   const [posts, setPosts] = useState<string[]>([]);
   const [numberingFormat, setNumberingFormat] = useState<
@@ -159,9 +168,21 @@ export function Composer() {
   // Draft and scheduling state
   const [currentDraftId, setCurrentDraftId] = useState<string | null>(null);
   const [draftTitle, setDraftTitle] = useState("");
-  const [drafts, setDrafts] = useState<ThreadDraft[]>([]);
+  const { data: drafts = [] } = useDrafts();
+  const invalidateDrafts = useInvalidateDrafts();
   const [showDrafts, setShowDrafts] = useState(false);
   const [delaySeconds, setDelaySeconds] = useState(3);
+  // datetime-local value, empty when posting right away
+  const [scheduleAt, setScheduleAt] = useState("");
+  // Reply and quote controls applied to the thread root
+  const [postGate, setPostGate] = useState<PostGateSettings>(
+    DEFAULT_POST_GATE_SETTINGS,
+  );
+  const [showPostGateSettings, setShowPostGateSettings] = useState(false);
+  // Per post (original index): chosen link card URL, or null once removed
+  const [linkCardOverrides, setLinkCardOverrides] = useState<
+    Record<number, string | null>
+  >({});
   const [numberingPosition, setNumberingPosition] = useState<
     "beginning" | "end"
   >("end");
@@ -171,6 +192,10 @@ export function Composer() {
     media: UploadedMedia[];
   } | null>(null);
   const [autoGenerateAltText, setAutoGenerateAltText] = useState(false);
+  const [autoSplit, setAutoSplit] = useState(true);
+  const [defaultLanguage, setDefaultLanguage] = useState("");
+  // Picked for this thread instead of the detected language
+  const [languageOverride, setLanguageOverride] = useState("");
   const countdownInterval = useRef<NodeJS.Timeout | null>(null);
   const sendTimeout = useRef<NodeJS.Timeout | null>(null);
   const autoGenerateAltTextRef = useRef<
@@ -199,6 +224,7 @@ export function Composer() {
   const [showGiphySearch, setShowGiphySearch] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const typeahead = useRichTextTypeahead(text, setText, textareaRef);
 
   // Tone adjustment state
   const [showToneOptions, setShowToneOptions] = useState(false);
@@ -218,6 +244,8 @@ export function Composer() {
     setDelaySeconds(settings.defaultDelaySeconds);
     setNumberingPosition(settings.numberingPosition || "end");
     setAutoGenerateAltText(settings.autoGenerateAltText || false);
+    setAutoSplit(settings.autoSplit);
+    setDefaultLanguage(settings.defaultLanguage);
   }, []);
 
   // Save settings when they change
@@ -228,6 +256,8 @@ export function Composer() {
       defaultDelaySeconds: delaySeconds,
       numberingPosition,
       autoGenerateAltText,
+      autoSplit,
+      defaultLanguage,
     });
   }, [
     numberingFormat,
@@ -235,13 +265,10 @@ export function Composer() {
     delaySeconds,
     numberingPosition,
     autoGenerateAltText,
+    autoSplit,
+    defaultLanguage,
   ]);
 
-  // Load drafts
-  useEffect(() => {
-    setDrafts(getDrafts());
-  }, []);
-
   // Cleanup intervals on unmount
   useEffect(() => {
     return () => {
@@ -256,130 +283,125 @@ export function Composer() {
     };
   }, []);
 
-  // Auto-split text into posts when it changes
+  // Split text into posts as it changes, keeping attachments with the text
+  // they were added to when the boundaries move
+  const splitRef = useRef<{ text: string; segments: ThreadSegment[] }>({
+    text: "",
+    segments: [],
+  });
   useEffect(() => {
     // Skip processing if we're in the middle of reordering
     if (isReorderingPosts) return;
 
-    if (!text.trim()) {
-      setPosts([]);
-      setPostOrder([]);
-      return;
+    const segments = text.trim()
+      ? splitThread(text, { numberingFormat, autoSplit })
+      : [];
+    const before = splitRef.current;
+    const after = { text, segments };
+    splitRef.current = after;
+
+    if (before.segments.length > 0 && segments.length > 0) {
+      setMedia((current) => {
+        let moved = false;
+        const next = current.map((m) => {
+          if (m.postIndex === undefined) return m;
+          const postIndex = followSegment(before, after, m.postIndex);
+          if (postIndex === m.postIndex) return m;
+          moved = true;
+          return { ...m, postIndex };
+        });
+        return moved ? next : current;
+      });
     }
 
-    // First check for manual splits (using --- as the delimiter)
-    const manualSplitMarker = "\n---\n";
-    if (text.includes(manualSplitMarker)) {
-      // Split by manual markers first
-      const manualSplits = text
-        .split(manualSplitMarker)
-        .map((s) => s.trim())
-        .filter((s) => s.length > 0);
-      const finalPosts: string[] = [];
-
-      // Then check each manually split section for length
-      for (const section of manualSplits) {
-        if (section.length <= MAX_POST_LENGTH) {
-          finalPosts.push(section);
-        } else {
-          // If a manual section is too long, auto-split it
-          const words = section.split(" ");
-          let currentPost = "";
+    setPosts(segments.map((segment) => segment.text));
+    // Initialize post order if it doesn't match
+    if (postOrder.length !== segments.length) {
+      setPostOrder(segments.map((_, index) => index));
+    }
+  }, [text, numberingFormat, autoSplit, isReorderingPosts]);
 
-          for (const word of words) {
-            const testPost = currentPost ? `${currentPost} ${word}` : word;
+  const applyNumbering = useCallback(
+    (posts: string[], order?: number[]): string[] =>
+      applyThreadNumbering(posts, numberingFormat, numberingPosition, order),
+    [numberingFormat, numberingPosition],
+  );
 
-            // Account for numbering in length calculation
-            const format = NUMBERING_FORMATS.find(
-              (f) => f.id === numberingFormat,
-            );
-            const numberingLength =
-              format && numberingFormat !== "none"
-                ? format.format(finalPosts.length + 1, 999).length + 2
-                : 0; // +2 for space and safety margin
-
-            if (testPost.length + numberingLength <= MAX_POST_LENGTH) {
-              currentPost = testPost;
-            } else {
-              if (currentPost) {
-                finalPosts.push(currentPost);
-              }
-              currentPost = word;
-            }
-          }
+  // The link card a post will carry; defaults to its first link
+  const getLinkCardUrl = useCallback(
+    (originalIndex: number): string | null => {
+      const override = linkCardOverrides[originalIndex];
+      if (override === null) return null;
 
-          if (currentPost) {
-            finalPosts.push(currentPost);
-          }
-        }
-      }
+      const links = extractLinks(posts[originalIndex] || "");
+      if (override && links.includes(override)) return override;
+      return links[0] || null;
+    },
+    [posts, linkCardOverrides],
+  );
 
-      setPosts(finalPosts);
-      // Initialize post order if it doesn't match
-      if (postOrder.length !== finalPosts.length) {
-        setPostOrder(finalPosts.map((_, index) => index));
+  const {
+    data: quotedPost,
+    isLoading: isLoadingQuote,
+    error: quoteError,
+  } = useQuery({
+    queryKey: ["quotedPost", quoteUri],
+    queryFn: async () => {
+      const response = await agent!.getPosts({ uris: [quoteUri!] });
+      const post = response.data.posts[0];
+      if (!post) throw new Error("The quoted post couldn't be found");
+      if (post.viewer?.embeddingDisabled) {
+        throw new Error("The author has disabled quoting this post");
       }
-    } else {
-      // No manual splits, use auto-split logic
-      const words = text.split(" ");
-      const splitPosts: string[] = [];
-      let currentPost = "";
-
-      for (const word of words) {
-        const testPost = currentPost ? `${currentPost} ${word}` : word;
-
-        // Account for numbering in length calculation
-        const format = NUMBERING_FORMATS.find((f) => f.id === numberingFormat);
-        const numberingLength =
-          format && numberingFormat !== "none"
-            ? format.format(splitPosts.length + 1, 999).length + 2
-            : 0; // +2 for space and safety margin
-
-        if (testPost.length + numberingLength <= MAX_POST_LENGTH) {
-          currentPost = testPost;
-        } else {
-          if (currentPost) {
-            splitPosts.push(currentPost);
+      return post;
+    },
+    enabled: !!agent && !!quoteUri,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  const setQuoteUri = useCallback(
+    (uri: string | null) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (uri) {
+            next.set("quote", uri);
+          } else {
+            next.delete("quote");
           }
-          currentPost = word;
-        }
-      }
-
-      if (currentPost) {
-        splitPosts.push(currentPost);
-      }
-
-      setPosts(splitPosts);
-      // Initialize post order if it doesn't match
-      if (postOrder.length !== splitPosts.length) {
-        setPostOrder(splitPosts.map((_, index) => index));
-      }
-    }
-  }, [text, numberingFormat, isReorderingPosts]);
-
-  const applyNumbering = useCallback(
-    (posts: string[], order?: number[]): string[] => {
-      if (numberingFormat === "none" || posts.length === 1) return posts;
-
-      const format = NUMBERING_FORMATS.find((f) => f.id === numberingFormat);
-      if (!format) return posts;
-
-      // If we have a custom order, apply it
-      const orderedPosts =
-        order && order.length === posts.length
-          ? order.map((i) => posts[i])
-          : posts;
-
-      return orderedPosts.map((post, index) => {
-        const numbering = format.format(index + 1, orderedPosts.length);
-        return numberingPosition === "beginning"
-          ? `${numbering} ${post}`
-          : `${post} ${numbering}`;
-      });
+          return next;
+        },
+        { replace: true },
+      );
     },
-    [numberingFormat, numberingPosition],
+    [setSearchParams],
   );
 
+  // A quote that hasn't loaded can't be posted, rather than silently dropped
+  const quoteBlocker = quoteUri
+    ? quoteError
+      ? quoteError instanceof Error
+        ? quoteError.message
+        : "The quoted post couldn't be loaded"
+      : isLoadingQuote || !quotedPost
+        ? "The quoted post is still loading"
+        : null
+    : null;
+
+  const fallbackLanguage = defaultLanguage || getBrowserLanguage();
+  const detectedLanguage = detectLanguage(text) || fallbackLanguage;
+  const postLanguage = languageOverride || detectedLanguage;
+
+  // Without auto-split a long section stays one post, too long to send
+  const overLimitIndex = applyNumbering(posts, postOrder).findIndex(
+    (post) => countGraphemes(post) > MAX_POST_GRAPHEMES,
+  );
+  const lengthBlocker =
+    overLimitIndex === -1
+      ? null
+      : `Post ${overLimitIndex + 1} is over ${MAX_POST_GRAPHEMES} characters`;
+
   const handlePaste = useCallback(
     async (e: React.ClipboardEvent) => {
       const items = Array.from(e.clipboardData.items);
@@ -927,80 +949,129 @@ export function Composer() {
     [draggedPostIndex, postOrder, posts],
   );
 
+  // Writes the composer to the current draft, starting one if needed
+  const persistDraft = useCallback(
+    async (reason: DraftRevisionReason) => {
+      const draft = await saveDraft(
+        {
+          id: currentDraftId || generateDraftId(),
+          title: draftTitle || text.substring(0, 50) + "...",
+          content: text,
+          scheduledFor: scheduleAt
+            ? new Date(scheduleAt).toISOString()
+            : undefined,
+          posts: posts,
+          postOrder: postOrder.length > 0 ? postOrder : undefined,
+          quoteUri: quoteUri || undefined,
+        },
+        media.map((m) => ({
+          id: m.id,
+          blob: m.file,
+          mimeType: m.file.type,
+          alt: m.alt,
+          type: m.type,
+          postIndex: m.postIndex,
+        })),
+        reason,
+      );
+      setCurrentDraftId(draft.id);
+      await invalidateDrafts();
+      return draft;
+    },
+    [
+      text,
+      draftTitle,
+      currentDraftId,
+      media,
+      posts,
+      postOrder,
+      scheduleAt,
+      quoteUri,
+      invalidateDrafts,
+    ],
+  );
+
   const saveDraftHandler = useCallback(async () => {
     if (!text.trim()) {
       setPostStatus({ type: "error", message: "Cannot save empty draft" });
       return;
     }
 
-    // Convert media files to base64 for storage
-    const mediaData = await Promise.all(
-      media.map(async (m) => {
-        // If it's already a data URL, use it directly
-        if (m.preview.startsWith("data:")) {
-          return {
-            file: m.preview,
-            alt: m.alt,
-            type: m.type,
-            postIndex: m.postIndex,
-          };
-        }
-
-        // Otherwise, convert file to base64
-        return new Promise<{
-          file: string;
-          alt: string;
-          type: "image" | "video";
-          postIndex?: number;
-        }>((resolve) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            resolve({
-              file: reader.result as string,
-              alt: m.alt,
-              type: m.type,
-              postIndex: m.postIndex,
-            });
-          };
-          reader.readAsDataURL(m.file);
-        });
-      }),
-    );
-
-    const draft: ThreadDraft = {
-      id: currentDraftId || generateDraftId(),
-      title: draftTitle || text.substring(0, 50) + "...",
-      content: text,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      // Save new structure
-      posts: posts,
-      postOrder: postOrder.length > 0 ? postOrder : undefined,
-      media: mediaData,
-      // Keep legacy field for first post's images only (backward compatibility)
-      images: mediaData
-        .filter(
-          (m) => m.type === "image" && (!m.postIndex || m.postIndex === 0),
-        )
-        .map((m) => ({ file: m.file, alt: m.alt })),
-    };
-
-    saveDraft(draft);
-    setCurrentDraftId(draft.id);
-    setDrafts(getDrafts());
-    setPostStatus({ type: "success", message: "Draft saved!" });
+    try {
+      await persistDraft("manual");
+      setPostStatus({ type: "success", message: "Draft saved!" });
+    } catch (error) {
+      logger.error("Failed to save draft:", error);
+      setPostStatus({ type: "error", message: "Failed to save draft" });
+    }
 
     setTimeout(() => {
       setPostStatus({ type: "idle" });
     }, 2000);
-  }, [text, draftTitle, currentDraftId, media, posts, postOrder]);
+  }, [text, persistDraft]);
+
+  // Autosave a few seconds after the last change. Posting clears the text,
+  // so a pending autosave never brings a sent thread back as a draft.
+  const persistDraftRef = useRef(persistDraft);
+  persistDraftRef.current = persistDraft;
+  // What the draft last held, so loading a draft without editing it doesn't
+  // save it again (and revive it if another device deleted it meanwhile)
+  const savedContentRef = useRef<string | null>(null);
+  const adoptLoadedContentRef = useRef(false);
+  useEffect(() => {
+    const content = JSON.stringify([
+      text,
+      draftTitle,
+      media.map((m) => [m.id, m.alt, m.postIndex]),
+      posts,
+      postOrder,
+      scheduleAt,
+      quoteUri,
+    ]);
+    if (adoptLoadedContentRef.current) {
+      adoptLoadedContentRef.current = false;
+      savedContentRef.current = content;
+    }
+    if (content === savedContentRef.current) return;
+    if (!text.trim() || isPosting || countdown !== null) return;
+    const timer = setTimeout(() => {
+      persistDraftRef
+        .current("autosave")
+        .then(() => {
+          savedContentRef.current = content;
+        })
+        .catch((error) => {
+          logger.error("Failed to autosave draft:", error);
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    text,
+    draftTitle,
+    media,
+    posts,
+    postOrder,
+    scheduleAt,
+    quoteUri,
+    isPosting,
+    countdown,
+  ]);
 
   const loadDraft = useCallback(
-    async (draft: ThreadDraft) => {
+    async (draft: ThreadDraft, { asNew = false } = {}) => {
       setText(draft.content);
-      setDraftTitle(draft.title);
-      setCurrentDraftId(draft.id);
+      // A new thread keeps the content but saves as a draft of its own
+      setDraftTitle(asNew ? "" : draft.title);
+      setCurrentDraftId(asNew ? null : draft.id);
       setShowDrafts(false);
+      setLinkCardOverrides({});
+      setQuoteUri(draft.quoteUri || null);
+      setScheduleAt(
+        draft.scheduledFor &&
+          new Date(draft.scheduledFor).getTime() > Date.now()
+          ? format(new Date(draft.scheduledFor), "yyyy-MM-dd'T'HH:mm")
+          : "",
+      );
 
       // Load posts and post order if available
       if (draft.posts && draft.posts.length > 0) {
@@ -1010,51 +1081,21 @@ export function Composer() {
         }
       }
 
-      // Load media from new structure or legacy structure
-      const mediaToLoad =
-        draft.media ||
-        draft.images?.map((img) => ({
-          file: img.file,
-          alt: img.alt,
-          type: "image" as const,
-          postIndex: 0,
-        })) ||
-        [];
-
-      // Convert stored base64 back to File objects and create preview URLs
-      const loadedMedia = await Promise.all(
-        mediaToLoad.map(async (m) => {
-          let file: File;
-          let preview: string;
-
-          if (m.file.startsWith("data:")) {
-            // Convert base64 to blob
-            const response = await fetch(m.file);
-            const blob = await response.blob();
-            const filename = `draft-media-${Date.now()}.${m.type === "video" ? "mp4" : "jpg"}`;
-            file = new File([blob], filename, { type: blob.type });
-            preview = m.file; // Use the data URL directly as preview
-          } else {
-            // If it's already a blob URL (shouldn't happen in saved drafts)
-            preview = m.file;
-            // Create a dummy file - this shouldn't happen in practice
-            file = new File([], "unknown", {
-              type: m.type === "video" ? "video/mp4" : "image/jpeg",
-            });
-          }
-
-          const newMedia: UploadedMedia = {
-            id: Math.random().toString(36).substr(2, 9),
-            file,
-            preview,
-            alt: m.alt,
-            type: m.type,
-            postIndex: m.postIndex,
-          };
-
-          return newMedia;
-        }),
-      );
+      // Media keeps its stored id so saving again doesn't copy the blob
+      const loadedMedia: UploadedMedia[] = (
+        await loadDraftMedia(draft.media)
+      ).map((m) => ({
+        id: m.id,
+        file: new File(
+          [m.blob],
+          `draft-media-${m.id}.${m.type === "video" ? "mp4" : "jpg"}`,
+          { type: m.mimeType || m.blob.type },
+        ),
+        preview: URL.createObjectURL(m.blob),
+        alt: m.alt,
+        type: m.type,
+        postIndex: m.postIndex,
+      }));
 
       // Clear existing media previews before setting new ones
       media.forEach((m) => {
@@ -1063,15 +1104,16 @@ export function Composer() {
         }
       });
 
+      // Everything else was set before the media loaded, so this render
+      // holds the loaded draft
+      adoptLoadedContentRef.current = true;
       setMedia(loadedMedia);
     },
-    [media],
+    [media, setQuoteUri],
   );
 
-  const deleteDraftHandler = useCallback(
+  const handleDraftDeleted = useCallback(
     (id: string) => {
-      deleteDraft(id);
-      setDrafts(getDrafts());
       if (currentDraftId === id) {
         setCurrentDraftId(null);
         setDraftTitle("");
@@ -1159,6 +1201,7 @@ export function Composer() {
       }
 
       let lastPost: { uri: string; cid: string } | undefined;
+      let postGateFailed = false;
 
       for (let i = 0; i < numberedPosts.length; i++) {
         setPostStatus({
@@ -1169,10 +1212,9 @@ export function Composer() {
         let result: { uri: string; cid: string };
         const postMedia = postMediaMap.get(i) || [];
 
-        // Create base post object
-        const postData: any = {
-          text: numberedPosts[i],
-        };
+        // Create base post object with mention/link/hashtag facets
+        const postData: any = await buildPostRichText(agent, numberedPosts[i]);
+        postData.langs = [postLanguage];
 
         // Add reply info for subsequent posts
         if (i > 0 && lastPost) {
@@ -1244,6 +1286,30 @@ export function Composer() {
               images,
             };
           }
+        } else if (!(i === 0 && quotedPost)) {
+          // Posts get a single embed, so link cards only go on posts without media
+          const originalIndex = postOrder.length > 0 ? postOrder[i] : i;
+          const linkCardUrl = getLinkCardUrl(originalIndex);
+          const metadata =
+            linkCardUrl && (await linkMetadataService.resolve(linkCardUrl));
+          if (metadata) {
+            setPostStatus({
+              type: "posting",
+              message: `Adding link card to post ${i + 1}...`,
+            });
+            postData.embed = await linkMetadataService.buildExternalEmbed(
+              agent,
+              metadata,
+            );
+          }
+        }
+
+        // The first post carries the quote, wrapping any media it has
+        if (i === 0 && quotedPost) {
+          postData.embed = buildQuoteEmbed(
+            { uri: quotedPost.uri, cid: quotedPost.cid },
+            postData.embed,
+          );
         }
 
         // eslint-disable-next-line prefer-const
@@ -1253,16 +1319,37 @@ export function Composer() {
           cid: result.cid,
         };
 
+        // Gate the root right away so replies are restricted from the start
+        if (i === 0 && !isDefaultPostGateSettings(postGate)) {
+          try {
+            await new PostGateService(agent).applySettings(
+              result.uri,
+              postGate,
+            );
+          } catch (error) {
+            logger.error("Failed to apply reply settings:", error);
+            postGateFailed = true;
+          }
+        }
+
         // Small delay between posts to avoid rate limiting
         if (i < numberedPosts.length - 1) {
           await new Promise((resolve) => setTimeout(resolve, 500));
         }
       }
 
-      setPostStatus({
-        type: "success",
-        message: "Thread posted successfully!",
-      });
+      setPostStatus(
+        postGateFailed
+          ? {
+              type: "error",
+              message:
+                "Thread posted, but its reply settings couldn't be applied. Edit them from the post's menu.",
+            }
+          : {
+              type: "success",
+              message: "Thread posted successfully!",
+            },
+      );
 
       setText("");
       setPosts([]);
@@ -1272,11 +1359,14 @@ export function Composer() {
       setDraftTitle("");
       setPendingPost(null);
       setCountdown(null);
+      setLinkCardOverrides({});
+      setQuoteUri(null);
+      setPostGate(DEFAULT_POST_GATE_SETTINGS);
+      setLanguageOverride("");
 
       // Delete draft if it was loaded
       if (currentDraftId) {
-        deleteDraft(currentDraftId);
-        setDrafts(getDrafts());
+        void deleteDraft(currentDraftId).then(invalidateDrafts);
       }
 
       // Reset status after 3 seconds
@@ -1297,6 +1387,11 @@ export function Composer() {
 
   const handleSend = async () => {
     if (!agent || posts.length === 0) return;
+    const blocker = quoteBlocker || lengthBlocker;
+    if (blocker) {
+      setPostStatus({ type: "error", message: blocker });
+      return;
+    }
 
     setPendingPost({ posts, media });
     setIsPosting(true);
@@ -1343,6 +1438,93 @@ export function Composer() {
     }
   };
 
+  const handleSchedule = async () => {
+    if (posts.length === 0 || !scheduleAt) return;
+    const blocker = quoteBlocker || lengthBlocker;
+    if (blocker) {
+      setPostStatus({ type: "error", message: blocker });
+      return;
+    }
+
+    const scheduledFor = new Date(scheduleAt);
+    if (isNaN(scheduledFor.getTime()) || scheduledFor.getTime() <= Date.now()) {
+      setPostStatus({
+        type: "error",
+        message: "Pick a time in the future to schedule this thread",
+      });
+      return;
+    }
+
+    // Store posts in publishing order, each with the media attached to it
+    const order =
+      postOrder.length === posts.length ? postOrder : posts.map((_, i) => i);
+    const scheduledPosts: ScheduledPost[] = order.map((originalIndex, i) => ({
+      text: posts[originalIndex],
+      media: media
+        .filter((m) => (m.postIndex ?? 0) === originalIndex)
+        .map((m) => ({
+          blob: m.file,
+          mimeType: m.file.type,
+          alt: m.alt,
+          type: m.type,
+        })),
+      linkCardUrl: getLinkCardUrl(originalIndex) || undefined,
+      quote:
+        i === 0 && quotedPost
+          ? { uri: quotedPost.uri, cid: quotedPost.cid }
+          : undefined,
+      status: "pending",
+      attempts: 0,
+    }));
+
+    try {
+      await scheduledPostRunner.schedule({
+        id: generateScheduledThreadId(),
+        title: draftTitle || text.substring(0, 50),
+        scheduledFor: scheduledFor.toISOString(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        status: "scheduled",
+        posts: scheduledPosts,
+        numberingFormat,
+        numberingPosition,
+        postGate: isDefaultPostGateSettings(postGate) ? undefined : postGate,
+        draftId: currentDraftId || undefined,
+        langs: [postLanguage],
+      });
+
+      setText("");
+      setPosts([]);
+      setPostOrder([]);
+      setMedia([]);
+      setCurrentDraftId(null);
+      setDraftTitle("");
+      setScheduleAt("");
+      setLinkCardOverrides({});
+      setQuoteUri(null);
+      setPostGate(DEFAULT_POST_GATE_SETTINGS);
+      setLanguageOverride("");
+
+      // The queue owns the thread now, drop the draft it came from
+      if (currentDraftId) {
+        void deleteDraft(currentDraftId).then(invalidateDrafts);
+      }
+
+      setPostStatus({
+        type: "success",
+        message: `Thread scheduled for ${format(scheduledFor, "PPp")}`,
+      });
+      setTimeout(() => setPostStatus({ type: "idle" }), 3000);
+    } catch (error) {
+      logger.error("Error scheduling thread:", error);
+      setPostStatus({
+        type: "error",
+        message:
+          error instanceof Error ? error.message : "Failed to schedule thread",
+      });
+    }
+  };
+
   const displayPosts = applyNumbering(posts, postOrder);
 
   // Handle GIF selection
@@ -1667,6 +1849,57 @@ export function Composer() {
                   </label>
                 </div>
 
+                <div className="flex items-center gap-2">
+                  <label
+                    htmlFor="default-language"
+                    className="text-xs"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    Language:
+                  </label>
+                  <select
+                    id="default-language"
+                    value={defaultLanguage}
+                    onChange={(e) => setDefaultLanguage(e.target.value)}
+                    className="rounded px-2 py-1 text-sm"
+                    style={{
+                      background: "var(--bsky-bg-secondary)",
+                      border: "1px solid var(--bsky-border-primary)",
+                      color: "var(--bsky-text-primary)",
+                      outline: "none",
+                    }}
+                    title="Used when the language can't be detected"
+                  >
+                    <option value="">
+                      Browser ({languageName(getBrowserLanguage())})
+                    </option>
+                    {POST_LANGUAGES.map((language) => (
+                      <option key={language.code} value={language.code}>
+                        {language.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <input
+                    id="auto-split"
+                    type="checkbox"
+                    checked={autoSplit}
+                    onChange={(e) => setAutoSplit(e.target.checked)}
+                    className="rounded"
+                  />
+                  <label
+                    htmlFor="auto-split"
+                    className="flex items-center gap-1 text-xs"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                    title="Split long text at paragraphs, sentences and words. Off, posts only split where you type ---"
+                  >
+                    <Split size={12} />
+                    Auto-split long text
+                  </label>
+                </div>
+
                 <div className="flex items-center gap-2">
                   <label
                     htmlFor="send-delay"
@@ -1714,6 +1947,7 @@ export function Composer() {
                 {numberingPosition === "beginning" ? "Start" : "End"} •
                 {delaySeconds > 0 ? ` ${delaySeconds}s delay` : " Instant"}
                 {autoGenerateAltText && " • Auto-alt"}
+                {!autoSplit && " • Manual split"}
               </span>
             )}
           </div>
@@ -1727,7 +1961,41 @@ export function Composer() {
           </button>
         </div>
 
-        <div className="mb-4 flex justify-end">
+        <div className="mb-4 flex flex-wrap items-center justify-end gap-2">
+          <button
+            className="bsky-button-secondary mr-auto flex items-center gap-2 px-3 py-2 text-sm"
+            onClick={() => setShowPostGateSettings(!showPostGateSettings)}
+            title="Who can reply and quote"
+            disabled={isPosting}
+          >
+            <ShieldCheck size={14} />
+            {describePostGateSettings(postGate)}
+          </button>
+          <input
+            type="datetime-local"
+            value={scheduleAt}
+            onChange={(e) => setScheduleAt(e.target.value)}
+            min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+            className="rounded-lg px-3 py-2 text-sm"
+            style={{
+              background: "var(--bsky-bg-secondary)",
+              border: "1px solid var(--bsky-border-primary)",
+              color: "var(--bsky-text-primary)",
+            }}
+            aria-label="Schedule for"
+            title="Schedule for later"
+            disabled={isPosting}
+          />
+          {scheduleAt && (
+            <button
+              className="bsky-button-secondary flex items-center gap-2 px-4 py-3 font-semibold disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={handleSchedule}
+              disabled={posts.length === 0 || isPosting}
+            >
+              <CalendarClock size={20} />
+              Schedule
+            </button>
+          )}
           <button
             className="bsky-button-primary flex items-center gap-2 px-6 py-3 font-semibold disabled:cursor-not-allowed disabled:opacity-50"
             onClick={handleSend}
@@ -1744,25 +2012,87 @@ export function Composer() {
           </button>
         </div>
 
-        <textarea
-          ref={textareaRef}
-          value={text}
-          onChange={(e) => setText(e.target.value)}
-          onPaste={handlePaste}
-          placeholder="What's on your mind?"
-          className="resize-vertical font-inherit min-h-[200px] w-full rounded-lg p-4 transition-all"
-          style={{
-            background: "var(--bsky-bg-secondary)",
-            border: "1px solid var(--bsky-border-primary)",
-            color: "var(--bsky-text-primary)",
-            outline: "none",
-          }}
-          onFocus={(e) => (e.target.style.borderColor = "var(--bsky-primary)")}
-          onBlur={(e) =>
-            (e.target.style.borderColor = "var(--bsky-border-primary)")
-          }
-          disabled={isPosting}
-        />
+        {showPostGateSettings && (
+          <div
+            className="mb-4 rounded-lg p-4"
+            style={{
+              background: "var(--bsky-bg-secondary)",
+              border: "1px solid var(--bsky-border-primary)",
+            }}
+          >
+            <PostGateControls
+              value={postGate}
+              onChange={setPostGate}
+              disabled={isPosting}
+            />
+          </div>
+        )}
+
+        <div className="relative">
+          <textarea
+            ref={textareaRef}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={typeahead.handleKeyDown}
+            onSelect={typeahead.trackCursor}
+            onPaste={handlePaste}
+            placeholder="What's on your mind?"
+            className="resize-vertical font-inherit min-h-[200px] w-full rounded-lg p-4 transition-all"
+            style={{
+              background: "var(--bsky-bg-secondary)",
+              border: "1px solid var(--bsky-border-primary)",
+              color: "var(--bsky-text-primary)",
+              outline: "none",
+            }}
+            onFocus={(e) =>
+              (e.target.style.borderColor = "var(--bsky-primary)")
+            }
+            onBlur={(e) => {
+              e.target.style.borderColor = "var(--bsky-border-primary)";
+              typeahead.handleBlur();
+            }}
+            disabled={isPosting}
+          />
+          <TypeaheadSuggestions
+            suggestions={typeahead.suggestions}
+            selectedIndex={typeahead.selectedIndex}
+            onSelect={typeahead.selectSuggestion}
+            onHover={typeahead.setSelectedIndex}
+          />
+        </div>
+
+        {quoteUri && (
+          <div className="mt-3">
+            {quotedPost && !quoteError ? (
+              <QuotedPostCard
+                quotedPost={{ ...quotedPost, value: quotedPost.record }}
+                onRemove={() => setQuoteUri(null)}
+              />
+            ) : (
+              <div
+                className="flex items-center gap-2 rounded-lg border p-3 text-sm"
+                style={{
+                  borderColor: "var(--bsky-border-primary)",
+                  color: "var(--bsky-text-secondary)",
+                }}
+              >
+                {isLoadingQuote ? (
+                  <Loader size={14} className="animate-spin" />
+                ) : (
+                  <AlertCircle size={14} />
+                )}
+                <span className="flex-1">{quoteBlocker}</span>
+                <button
+                  onClick={() => setQuoteUri(null)}
+                  className="hover:opacity-70"
+                  title="Remove quote"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
 
         <div className="mb-3 mt-3 flex items-center gap-2">
           <input
@@ -1817,6 +2147,8 @@ export function Composer() {
                 setMedia([]);
                 setCurrentDraftId(null);
                 setDraftTitle("");
+                setLinkCardOverrides({});
+                setQuoteUri(null);
                 setPostStatus({
                   type: "success",
                   message: "Ready for new draft",
@@ -1847,6 +2179,29 @@ export function Composer() {
                 </span>
               </>
             )}
+            <span style={{ color: "var(--bsky-text-tertiary)" }}>•</span>
+            <label
+              className="flex items-center gap-1"
+              style={{ color: "var(--bsky-text-secondary)" }}
+              title="Language the posts are tagged with"
+            >
+              <Languages size={14} />
+              <select
+                value={languageOverride}
+                onChange={(e) => setLanguageOverride(e.target.value)}
+                className="rounded bg-transparent text-sm"
+                style={{ color: "var(--bsky-text-secondary)", outline: "none" }}
+              >
+                <option value="">
+                  Auto ({languageName(detectedLanguage)})
+                </option>
+                {POST_LANGUAGES.map((language) => (
+                  <option key={language.code} value={language.code}>
+                    {language.name}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
 
           <div className="flex gap-2">
@@ -2203,6 +2558,14 @@ export function Composer() {
                 postMedia.length > 0 ||
                 (originalIndex === 0 &&
                   media.filter((m) => m.postIndex === undefined).length > 0);
+              // The quote replaces the first post's link card
+              const isQuoting = displayIndex === 0 && !!quotedPost;
+              const postLinks = isQuoting
+                ? []
+                : extractLinks(posts[originalIndex] || "");
+              const linkCardUrl = isQuoting
+                ? null
+                : getLinkCardUrl(originalIndex);
 
               return (
                 <div
@@ -2278,9 +2641,14 @@ export function Composer() {
                     </span>
                     <span
                       className="font-mono text-xs"
-                      style={{ color: "var(--bsky-text-tertiary)" }}
+                      style={{
+                        color:
+                          countGraphemes(post) > MAX_POST_GRAPHEMES
+                            ? "var(--bsky-error)"
+                            : "var(--bsky-text-tertiary)",
+                      }}
                     >
-                      {post.length}/{MAX_POST_LENGTH}
+                      {countGraphemes(post)}/{MAX_POST_GRAPHEMES}
                     </span>
                   </div>
                   <div
@@ -2369,6 +2737,56 @@ export function Composer() {
                       ))}
                     </div>
                   )}
+
+                  {isQuoting && (
+                    <QuotedPostCard
+                      quotedPost={{ ...quotedPost, value: quotedPost.record }}
+                    />
+                  )}
+
+                  {linkCardUrl ? (
+                    <LinkCardPreview
+                      url={linkCardUrl}
+                      blockedByMedia={hasMedia}
+                      onRemove={() =>
+                        setLinkCardOverrides((prev) => ({
+                          ...prev,
+                          [originalIndex]: null,
+                        }))
+                      }
+                      onSwap={
+                        postLinks.length > 1
+                          ? () =>
+                              setLinkCardOverrides((prev) => ({
+                                ...prev,
+                                [originalIndex]:
+                                  postLinks[
+                                    (postLinks.indexOf(linkCardUrl) + 1) %
+                                      postLinks.length
+                                  ],
+                              }))
+                          : undefined
+                      }
+                    />
+                  ) : (
+                    postLinks.length > 0 &&
+                    !hasMedia && (
+                      <button
+                        className="mt-3 flex items-center gap-1 text-xs"
+                        style={{ color: "var(--bsky-primary)" }}
+                        onClick={() =>
+                          setLinkCardOverrides((prev) => {
+                            const next = { ...prev };
+                            delete next[originalIndex];
+                            return next;
+                          })
+                        }
+                      >
+                        <Link2 size={12} />
+                        Add link card
+                      </button>
+                    )
+                  )}
                 </div>
               );
             })}
@@ -2377,118 +2795,12 @@ export function Composer() {
       )}
 
       {showDrafts && (
-        <div className="bsky-card mb-6 p-4 md:p-6">
-          <div className="mb-4 flex items-center justify-between">
-            <h3
-              className="text-lg font-semibold"
-              style={{ color: "var(--bsky-text-primary)" }}
-            >
-              Saved Drafts
-            </h3>
-            <button
-              className="bsky-button-secondary p-2"
-              onClick={() => {
-                setShowDrafts(false);
-              }}
-            >
-              <X size={20} />
-            </button>
-          </div>
-
-          {showDrafts && (
-            <div className="space-y-3">
-              {drafts.length === 0 ? (
-                <p
-                  className="py-8 text-center"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                >
-                  No saved drafts
-                </p>
-              ) : (
-                drafts.map((draft) => {
-                  const postCount = draft.posts?.length || 1;
-                  const mediaCount =
-                    draft.media?.length || draft.images?.length || 0;
-
-                  return (
-                    <div
-                      key={draft.id}
-                      className="cursor-pointer rounded-lg border p-4 transition-all hover:shadow-sm"
-                      style={{
-                        borderColor: "var(--bsky-border-primary)",
-                        background: "var(--bsky-bg-secondary)",
-                      }}
-                    >
-                      <div className="mb-2 flex items-start justify-between">
-                        <h4
-                          className="font-medium"
-                          style={{ color: "var(--bsky-text-primary)" }}
-                        >
-                          {draft.title}
-                        </h4>
-                        <button
-                          className="rounded p-1 text-red-600 hover:bg-red-100"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteDraftHandler(draft.id);
-                          }}
-                        >
-                          <Trash2 size={16} />
-                        </button>
-                      </div>
-                      <p
-                        className="mb-2 line-clamp-2 text-sm"
-                        style={{ color: "var(--bsky-text-secondary)" }}
-                      >
-                        {draft.content}
-                      </p>
-                      <div className="mb-2 flex items-center gap-3">
-                        {postCount > 1 && (
-                          <span
-                            className="flex items-center gap-1 rounded-full px-2 py-1 text-xs"
-                            style={{
-                              background: "var(--bsky-bg-tertiary)",
-                              color: "var(--bsky-primary)",
-                            }}
-                          >
-                            <Split size={12} />
-                            {postCount} posts
-                          </span>
-                        )}
-                        {mediaCount > 0 && (
-                          <span
-                            className="flex items-center gap-1 rounded-full px-2 py-1 text-xs"
-                            style={{
-                              background: "var(--bsky-bg-tertiary)",
-                              color: "var(--bsky-text-secondary)",
-                            }}
-                          >
-                            <Image size={12} />
-                            {mediaCount} media
-                          </span>
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <span
-                          className="text-xs"
-                          style={{ color: "var(--bsky-text-tertiary)" }}
-                        >
-                          Updated {new Date(draft.updatedAt).toLocaleString()}
-                        </span>
-                        <button
-                          className="bsky-button-secondary px-3 py-1 text-sm"
-                          onClick={() => loadDraft(draft)}
-                        >
-                          Load
-                        </button>
-                      </div>
-                    </div>
-                  );
-                })
-              )}
-            </div>
-          )}
-        </div>
+        <DraftsBrowser
+          currentDraftId={currentDraftId}
+          onOpen={(draft, options) => loadDraft(draft, options)}
+          onDeleted={handleDraftDeleted}
+          onClose={() => setShowDrafts(false)}
+        />
       )}
 
       <div className="flex flex-col items-end gap-4">
@@ -0,0 +1,70 @@
+import React, { useEffect } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router";
+import {
+  desktopNotifications,
+  NOTIFICATION_CLICK_EVENT,
+  THREAD_PARAM,
+  type NotificationClickMessage,
+} from "../services/desktop-notifications";
+import { ThreadModal } from "./ThreadModal";
+
+/**
+ * Opens what a clicked desktop notification points at. Threads open in the
+ * thread modal on top of the current page through the ?thread= parameter,
+ * which is also how a window opened by the service worker arrives.
+ */
+export const DesktopNotificationHandler: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const threadUri = searchParams.get(THREAD_PARAM);
+
+  useEffect(() => {
+    // Re-register so an updated worker is picked up
+    if (desktopNotifications.getPrefs().enabled) {
+      desktopNotifications.registerServiceWorker();
+    }
+  }, []);
+
+  useEffect(() => {
+    const open = (url: string) => {
+      const target = new URL(url, window.location.origin);
+      const uri = target.searchParams.get(THREAD_PARAM);
+      if (uri) {
+        // Keep the current page under the modal
+        navigate({
+          pathname: location.pathname,
+          search: `?${THREAD_PARAM}=${encodeURIComponent(uri)}`,
+        });
+      } else {
+        navigate(target.pathname + target.search);
+      }
+    };
+
+    const handleMessage = (event: MessageEvent<NotificationClickMessage>) => {
+      if (event.data?.type === "notification-click") open(event.data.url);
+    };
+    const handleClick = (event: Event) =>
+      open((event as CustomEvent<string>).detail);
+
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    window.addEventListener(NOTIFICATION_CLICK_EVENT, handleClick);
+    return () => {
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+      window.removeEventListener(NOTIFICATION_CLICK_EVENT, handleClick);
+    };
+  }, [navigate, location.pathname]);
+
+  if (!threadUri) return null;
+
+  return (
+    <ThreadModal
+      postUri={threadUri}
+      onClose={() => {
+        const next = new URLSearchParams(searchParams);
+        next.delete(THREAD_PARAM);
+        setSearchParams(next, { replace: true });
+      }}
+    />
+  );
+};
@@ -0,0 +1,445 @@
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertTriangle,
+  Cloud,
+  CloudOff,
+  Copy,
+  FilePlus,
+  History,
+  Image,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  Search,
+  Split,
+  Trash2,
+  X,
+} from "lucide-react";
+import React, { useState } from "react";
+import {
+  useDraftRevisions,
+  useDrafts,
+  useInvalidateDrafts,
+} from "../hooks/useDrafts";
+import { useDraftSyncStatus } from "../hooks/useDraftSync";
+import { draftSync } from "../services/draft-sync";
+import {
+  deleteDraft,
+  duplicateDraft,
+  matchesDraftQuery,
+  resolveDraftConflict,
+  restoreDraftRevision,
+  type DraftConflict,
+  type DraftRevisionReason,
+  type ThreadDraft,
+} from "../services/drafts";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("DraftsBrowser");
+
+const REVISION_LABELS: Record<DraftRevisionReason, string> = {
+  manual: "Saved",
+  autosave: "Autosaved",
+  restore: "Restored",
+  sync: "Synced",
+};
+
+interface DraftsBrowserProps {
+  currentDraftId: string | null;
+  // asNew opens a copy of the content that saves as a separate draft
+  onOpen: (draft: ThreadDraft, options: { asNew: boolean }) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const DraftHistory: React.FC<{
+  draftId: string;
+  onRestored: (draft: ThreadDraft) => void;
+}> = ({ draftId, onRestored }) => {
+  const { data: revisions = [], isLoading } = useDraftRevisions(draftId);
+
+  if (isLoading) return null;
+
+  return (
+    <div
+      className="mt-3 space-y-2 border-t pt-3"
+      style={{ borderColor: "var(--bsky-border-primary)" }}
+    >
+      {revisions.length === 0 ? (
+        <p className="text-xs" style={{ color: "var(--bsky-text-secondary)" }}>
+          No earlier versions
+        </p>
+      ) : (
+        revisions.map((revision, index) => (
+          <div key={revision.id} className="flex items-center gap-2 text-xs">
+            <div className="min-w-0 flex-1">
+              <div style={{ color: "var(--bsky-text-primary)" }}>
+                {REVISION_LABELS[revision.reason]}{" "}
+                {formatDistanceToNow(new Date(revision.savedAt), {
+                  addSuffix: true,
+                })}
+                {index === 0 && (
+                  <span style={{ color: "var(--bsky-text-tertiary)" }}>
+                    {" "}
+                    · current
+                  </span>
+                )}
+              </div>
+              <div
+                className="truncate"
+                style={{ color: "var(--bsky-text-secondary)" }}
+              >
+                {revision.content || revision.title}
+              </div>
+            </div>
+            {index > 0 && (
+              <button
+                className="bsky-button-secondary flex items-center gap-1 px-2 py-1 text-xs"
+                onClick={async () => {
+                  try {
+                    onRestored(await restoreDraftRevision(revision));
+                  } catch (error) {
+                    logger.error("Failed to restore revision:", error);
+                  }
+                }}
+              >
+                <RotateCcw size={12} />
+                Restore
+              </button>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+// Posts edited here and on another device, with the edit that lost
+const DraftConflicts: React.FC<{
+  draft: ThreadDraft;
+  // changed when the draft took the other version
+  onResolved: (draft: ThreadDraft, changed: boolean) => void;
+}> = ({ draft, onResolved }) => {
+  const resolve = async (conflict: DraftConflict, useOther: boolean) => {
+    try {
+      onResolved(
+        await resolveDraftConflict(draft.id, conflict, useOther),
+        useOther,
+      );
+    } catch (error) {
+      logger.error("Failed to resolve draft conflict:", error);
+    }
+  };
+
+  return (
+    <div className="mb-2 space-y-2">
+      {draft.conflicts?.map((conflict) => (
+        <div
+          key={conflict.index}
+          className="rounded-lg p-2 text-xs"
+          style={{
+            background: "var(--bsky-bg-tertiary)",
+            border: "1px solid var(--bsky-border-primary)",
+          }}
+        >
+          <div
+            className="mb-1 flex items-center gap-1 font-medium"
+            style={{ color: "var(--bsky-error)" }}
+          >
+            <AlertTriangle size={12} />
+            Post {conflict.index + 1} was also edited{" "}
+            {conflict.from === "remote" ? "on another device" : "here"}
+          </div>
+          <p
+            className="mb-2 line-clamp-3 whitespace-pre-wrap"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            {conflict.text}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              className="bsky-button-secondary px-2 py-1 text-xs"
+              onClick={() => resolve(conflict, true)}
+            >
+              Use this version
+            </button>
+            <button
+              className="bsky-button-secondary px-2 py-1 text-xs"
+              onClick={() => resolve(conflict, false)}
+            >
+              Keep current
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const SyncControls: React.FC = () => {
+  const { enabled, syncing, lastSyncedAt, lastError } = useDraftSyncStatus();
+
+  return (
+    <div
+      className="mb-4 flex flex-wrap items-center gap-2 text-xs"
+      style={{ color: "var(--bsky-text-secondary)" }}
+    >
+      <label className="flex cursor-pointer items-center gap-2">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => draftSync.setEnabled(e.target.checked)}
+        />
+        {enabled ? <Cloud size={14} /> : <CloudOff size={14} />}
+        Sync drafts across devices
+      </label>
+      {enabled && (
+        <>
+          <span
+            style={{
+              color: lastError
+                ? "var(--bsky-error)"
+                : "var(--bsky-text-tertiary)",
+            }}
+          >
+            {syncing
+              ? "Syncing…"
+              : lastError ||
+                (lastSyncedAt
+                  ? `Synced ${formatDistanceToNow(new Date(lastSyncedAt), {
+                      addSuffix: true,
+                    })}`
+                  : "Not synced yet")}
+          </span>
+          <button
+            className="bsky-button-secondary p-1"
+            onClick={() => void draftSync.sync()}
+            disabled={syncing}
+            title="Sync now"
+          >
+            {syncing ? (
+              <Loader2 size={12} className="animate-spin" />
+            ) : (
+              <RefreshCw size={12} />
+            )}
+          </button>
+        </>
+      )}
+      {!enabled && (
+        <span style={{ color: "var(--bsky-text-tertiary)" }}>
+          Drafts are saved to your repository, where anyone can read them
+        </span>
+      )}
+    </div>
+  );
+};
+
+/** Saved drafts with search, duplicate, version history and restore */
+export const DraftsBrowser: React.FC<DraftsBrowserProps> = ({
+  currentDraftId,
+  onOpen,
+  onDeleted,
+  onClose,
+}) => {
+  const { data: drafts = [], isLoading } = useDrafts();
+  const invalidateDrafts = useInvalidateDrafts();
+  const [query, setQuery] = useState("");
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const filtered = drafts.filter((draft) => matchesDraftQuery(draft, query));
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateDraft(id);
+      await invalidateDrafts();
+    } catch (error) {
+      logger.error("Failed to duplicate draft:", error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteDraft(id);
+    await invalidateDrafts();
+    onDeleted(id);
+  };
+
+  return (
+    <div className="bsky-card mb-6 p-4 md:p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h3
+          className="text-lg font-semibold"
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          Saved Drafts
+        </h3>
+        <button className="bsky-button-secondary p-2" onClick={onClose}>
+          <X size={20} />
+        </button>
+      </div>
+
+      <SyncControls />
+
+      {drafts.length > 0 && (
+        <div className="relative mb-4">
+          <Search
+            size={16}
+            className="absolute left-3 top-1/2 -translate-y-1/2"
+            style={{ color: "var(--bsky-text-tertiary)" }}
+          />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search drafts"
+            className="w-full rounded-lg py-2 pl-9 pr-3 text-sm"
+            style={{
+              background: "var(--bsky-bg-secondary)",
+              border: "1px solid var(--bsky-border-primary)",
+              color: "var(--bsky-text-primary)",
+              outline: "none",
+            }}
+          />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {isLoading ? null : filtered.length === 0 ? (
+          <p
+            className="py-8 text-center"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            {drafts.length === 0 ? "No saved drafts" : "No matching drafts"}
+          </p>
+        ) : (
+          filtered.map((draft) => {
+            const postCount = draft.posts?.length || 1;
+            const mediaCount = draft.media.length;
+
+            return (
+              <div
+                key={draft.id}
+                className="rounded-lg border p-4 transition-all hover:shadow-sm"
+                style={{
+                  borderColor:
+                    draft.id === currentDraftId
+                      ? "var(--bsky-primary)"
+                      : "var(--bsky-border-primary)",
+                  background: "var(--bsky-bg-secondary)",
+                }}
+              >
+                <div className="mb-2 flex items-start justify-between">
+                  <h4
+                    className="font-medium"
+                    style={{ color: "var(--bsky-text-primary)" }}
+                  >
+                    {draft.title}
+                  </h4>
+                  <button
+                    className="rounded p-1 text-red-600 hover:bg-red-100"
+                    onClick={() => handleDelete(draft.id)}
+                    title="Delete draft"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <p
+                  className="mb-2 line-clamp-2 text-sm"
+                  style={{ color: "var(--bsky-text-secondary)" }}
+                >
+                  {draft.content}
+                </p>
+                {!!draft.conflicts?.length && (
+                  <DraftConflicts
+                    draft={draft}
+                    onResolved={async (resolved, changed) => {
+                      await invalidateDrafts();
+                      if (changed && resolved.id === currentDraftId) {
+                        onOpen(resolved, { asNew: false });
+                      }
+                    }}
+                  />
+                )}
+                <div className="mb-2 flex items-center gap-3">
+                  {postCount > 1 && (
+                    <span
+                      className="flex items-center gap-1 rounded-full px-2 py-1 text-xs"
+                      style={{
+                        background: "var(--bsky-bg-tertiary)",
+                        color: "var(--bsky-primary)",
+                      }}
+                    >
+                      <Split size={12} />
+                      {postCount} posts
+                    </span>
+                  )}
+                  {mediaCount > 0 && (
+                    <span
+                      className="flex items-center gap-1 rounded-full px-2 py-1 text-xs"
+                      style={{
+                        background: "var(--bsky-bg-tertiary)",
+                        color: "var(--bsky-text-secondary)",
+                      }}
+                    >
+                      <Image size={12} />
+                      {mediaCount} media
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span
+                    className="text-xs"
+                    style={{ color: "var(--bsky-text-tertiary)" }}
+                  >
+                    Updated {new Date(draft.updatedAt).toLocaleString()}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      className="bsky-button-secondary p-1.5"
+                      onClick={() =>
+                        setHistoryFor(historyFor === draft.id ? null : draft.id)
+                      }
+                      title="Version history"
+                    >
+                      <History size={14} />
+                    </button>
+                    <button
+                      className="bsky-button-secondary p-1.5"
+                      onClick={() => handleDuplicate(draft.id)}
+                      title="Duplicate"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      className="bsky-button-secondary p-1.5"
+                      onClick={() => onOpen(draft, { asNew: true })}
+                      title="Open as new thread"
+                    >
+                      <FilePlus size={14} />
+                    </button>
+                    <button
+                      className="bsky-button-secondary px-3 py-1 text-sm"
+                      onClick={() => onOpen(draft, { asNew: false })}
+                    >
+                      Load
+                    </button>
+                  </div>
+                </div>
+                {historyFor === draft.id && (
+                  <DraftHistory
+                    draftId={draft.id}
+                    onRestored={async (restored) => {
+                      await invalidateDrafts();
+                      if (restored.id === currentDraftId) {
+                        onOpen(restored, { asNew: false });
+                      }
+                    }}
+                  />
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,373 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow, parseISO, subDays } from "date-fns";
+import { Loader2, RefreshCw, UserMinus, Users, Zap } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router";
+import { useAuth } from "../contexts/AuthContext";
+import { useFollowerSnapshotStatus } from "../hooks/useFollowerSnapshots";
+import { getFollowerCacheDB } from "../services/follower-cache-db";
+import {
+  findFollowerSpikes,
+  followerSnapshots,
+  getFollowerDays,
+  getUnfollows,
+} from "../services/follower-snapshots";
+import { proxifyBskyImage } from "../utils/image-proxy";
+
+type Post = AppBskyFeedDefs.PostView;
+type GrowthRange = "30d" | "90d" | "all";
+
+const RANGE_DAYS: Record<GrowthRange, number | null> = {
+  "30d": 30,
+  "90d": 90,
+  all: null,
+};
+const MAX_FEED_PAGES = 5;
+
+const toggleStyle = (active: boolean) => ({
+  backgroundColor: active ? "var(--bsky-primary)" : "var(--bsky-bg-tertiary)",
+  color: active ? "white" : "var(--bsky-text-secondary)",
+});
+
+const getPostDay = (post: Post) =>
+  format(
+    new Date(
+      (post.record as { createdAt?: string }).createdAt || post.indexedAt,
+    ),
+    "yyyy-MM-dd",
+  );
+
+/**
+ * Follower growth from the periodic snapshots: daily gains and losses, the
+ * days that stood out next to what we posted on them, and who unfollowed.
+ */
+export const FollowerGrowth: React.FC = () => {
+  const { agent, session } = useAuth();
+  const status = useFollowerSnapshotStatus();
+  const [range, setRange] = useState<GrowthRange>("30d");
+  const days = RANGE_DAYS[range];
+
+  const { data: snapshots = [], isLoading } = useQuery({
+    queryKey: ["followerSnapshots", session?.did, range, status.lastSnapshotAt],
+    queryFn: async () => {
+      const db = await getFollowerCacheDB();
+      return db.getGraphSnapshots(
+        "followers",
+        days ? subDays(new Date(), days) : undefined,
+      );
+    },
+    enabled: !!session?.did,
+    networkMode: "always",
+  });
+
+  const { followerDays, spikes, unfollows, gained, lost } = useMemo(() => {
+    const followerDays = getFollowerDays(snapshots);
+    return {
+      followerDays,
+      spikes: findFollowerSpikes(followerDays),
+      unfollows: getUnfollows(snapshots),
+      gained: followerDays.reduce((sum, day) => sum + day.gained.length, 0),
+      lost: followerDays.reduce((sum, day) => sum + day.lost.length, 0),
+    };
+  }, [snapshots]);
+
+  // Our posts on spike days, to see what drew the new followers
+  const firstSpike = spikes[0]?.day;
+  const { data: spikePosts } = useQuery({
+    queryKey: ["followerSpikePosts", session?.did, firstSpike],
+    queryFn: async () => {
+      const byDay = new Map<string, Post[]>();
+      let cursor: string | undefined;
+      for (let page = 0; page < MAX_FEED_PAGES; page++) {
+        const { data } = await agent!.getAuthorFeed({
+          actor: session!.did,
+          filter: "posts_no_replies",
+          limit: 100,
+          cursor,
+        });
+        for (const { post, reason } of data.feed) {
+          if (reason || post.author.did !== session!.did) continue;
+          const day = getPostDay(post);
+          byDay.set(day, [...(byDay.get(day) || []), post]);
+        }
+        const oldest = data.feed[data.feed.length - 1]?.post;
+        cursor = data.cursor;
+        if (!cursor || !oldest || getPostDay(oldest) < firstSpike!) break;
+      }
+      return byDay;
+    },
+    enabled: !!agent && !!session?.did && !!firstSpike,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const maxChange = Math.max(
+    1,
+    ...followerDays.map((day) => Math.max(day.gained.length, day.lost.length)),
+  );
+  const current = followerDays[followerDays.length - 1]?.count;
+
+  return (
+    <div className="bsky-card p-4">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2
+          className="flex items-center gap-2 text-lg font-semibold"
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          <Users size={20} className="text-blue-500" />
+          Follower Growth
+        </h2>
+        <div className="flex items-center gap-2 text-sm">
+          {(Object.keys(RANGE_DAYS) as GrowthRange[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setRange(key)}
+              className={`rounded-lg px-3 py-1 transition-all ${
+                range === key ? "font-semibold" : ""
+              }`}
+              style={toggleStyle(range === key)}
+            >
+              {key === "all" ? "All" : key}
+            </button>
+          ))}
+          <button
+            onClick={() => void followerSnapshots.snapshot()}
+            disabled={status.running}
+            className="rounded-lg p-1.5 transition-all disabled:opacity-50"
+            style={toggleStyle(false)}
+            aria-label="Take a snapshot now"
+            title={
+              status.lastSnapshotAt
+                ? `Last snapshot ${formatDistanceToNow(new Date(status.lastSnapshotAt), { addSuffix: true })}`
+                : "Take a snapshot now"
+            }
+          >
+            {status.running ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <RefreshCw size={14} />
+            )}
+          </button>
+        </div>
+      </div>
+
+      {status.lastError && (
+        <div className="mb-3 text-xs" style={{ color: "var(--bsky-error)" }}>
+          Last snapshot failed: {status.lastError}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2
+            className="animate-spin"
+            size={20}
+            style={{ color: "var(--bsky-text-secondary)" }}
+          />
+        </div>
+      ) : followerDays.length < 2 && gained + lost === 0 ? (
+        <div
+          className="py-8 text-center text-sm"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          {status.running
+            ? "Taking the first snapshot of your followers..."
+            : "Followers are snapshotted every 6 hours. Changes show up here after the next snapshot."}
+        </div>
+      ) : (
+        <>
+          <div className="mb-4 grid grid-cols-3 gap-4">
+            {[
+              {
+                label: "Followers",
+                value: current?.toLocaleString() ?? "-",
+                color: "var(--bsky-text-primary)",
+              },
+              {
+                label: "New",
+                value: `+${gained}`,
+                color: "var(--bsky-repost)",
+              },
+              {
+                label: "Unfollowed",
+                value: `-${lost}`,
+                color: "var(--bsky-like)",
+              },
+            ].map(({ label, value, color }) => (
+              <div
+                key={label}
+                className="rounded-lg p-3 text-center"
+                style={{ backgroundColor: "var(--bsky-bg-tertiary)" }}
+              >
+                <div className="text-2xl font-bold" style={{ color }}>
+                  {value}
+                </div>
+                <div
+                  className="text-sm"
+                  style={{ color: "var(--bsky-text-secondary)" }}
+                >
+                  {label}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily gains above the line, losses below */}
+          <div className="mb-1 flex h-32 items-stretch gap-0.5">
+            {followerDays.map((day) => (
+              <div
+                key={day.day}
+                className="flex min-w-0 flex-1 flex-col"
+                title={`${format(parseISO(day.day), "MMM d")}: +${day.gained.length} / -${day.lost.length} · ${day.count.toLocaleString()} followers`}
+              >
+                <div className="flex flex-1 items-end">
+                  <div
+                    className="w-full rounded-t"
+                    style={{
+                      height: `${(day.gained.length / maxChange) * 100}%`,
+                      backgroundColor: "var(--bsky-repost)",
+                    }}
+                  />
+                </div>
+                <div
+                  className="h-px"
+                  style={{ backgroundColor: "var(--bsky-border-primary)" }}
+                />
+                <div className="flex flex-1 items-start">
+                  <div
+                    className="w-full rounded-b"
+                    style={{
+                      height: `${(day.lost.length / maxChange) * 100}%`,
+                      backgroundColor: "var(--bsky-like)",
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div
+            className="mb-4 flex justify-between text-xs"
+            style={{ color: "var(--bsky-text-tertiary)" }}
+          >
+            <span>{format(parseISO(followerDays[0].day), "MMM d")}</span>
+            <span>
+              {format(
+                parseISO(followerDays[followerDays.length - 1].day),
+                "MMM d",
+              )}
+            </span>
+          </div>
+
+          {spikes.length > 0 && (
+            <div className="mb-4">
+              <h3
+                className="mb-2 flex items-center gap-2 text-sm font-semibold"
+                style={{ color: "var(--bsky-text-primary)" }}
+              >
+                <Zap size={16} className="text-yellow-500" />
+                Spikes
+              </h3>
+              <div className="space-y-2">
+                {[...spikes].reverse().map((spike) => {
+                  const posts = spikePosts?.get(spike.day) || [];
+                  return (
+                    <div
+                      key={spike.day}
+                      className="rounded-lg p-3 text-sm"
+                      style={{ backgroundColor: "var(--bsky-bg-tertiary)" }}
+                    >
+                      <div
+                        className="font-medium"
+                        style={{ color: "var(--bsky-text-primary)" }}
+                      >
+                        {format(parseISO(spike.day), "EEE, MMM d")} · +
+                        {spike.gained.length} followers
+                      </div>
+                      {posts.length === 0 ? (
+                        <div
+                          className="mt-1 text-xs"
+                          style={{ color: "var(--bsky-text-secondary)" }}
+                        >
+                          {spikePosts ? "You didn't post that day" : "..."}
+                        </div>
+                      ) : (
+                        posts.map((post) => (
+                          <Link
+                            key={post.uri}
+                            to={`/analytics/posts?post=${encodeURIComponent(post.uri)}`}
+                            className="mt-1 flex items-center gap-2 text-xs hover:opacity-80"
+                            style={{ color: "var(--bsky-text-secondary)" }}
+                          >
+                            <span className="min-w-0 flex-1 truncate">
+                              {(post.record as { text?: string }).text ||
+                                "[No text]"}
+                            </span>
+                            <span className="flex-shrink-0">
+                              {post.likeCount || 0} likes ·{" "}
+                              {post.repostCount || 0} reposts
+                            </span>
+                          </Link>
+                        ))
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <h3
+            className="mb-2 flex items-center gap-2 text-sm font-semibold"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            <UserMinus size={16} style={{ color: "var(--bsky-like)" }} />
+            Who unfollowed you
+          </h3>
+          {unfollows.length === 0 ? (
+            <div
+              className="text-sm"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              Nobody in this period
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {unfollows.slice(0, 20).map(({ account, at }) => (
+                <Link
+                  key={account.did}
+                  to={`/profile/${account.handle}`}
+                  className="flex items-center gap-2 text-sm hover:opacity-80"
+                >
+                  {account.avatar ? (
+                    <img
+                      src={proxifyBskyImage(account.avatar)}
+                      alt={account.handle}
+                      className="h-6 w-6 rounded-full object-cover"
+                    />
+                  ) : (
+                    <div
+                      className="h-6 w-6 rounded-full"
+                      style={{ backgroundColor: "var(--bsky-bg-tertiary)" }}
+                    />
+                  )}
+                  <span
+                    className="min-w-0 flex-1 truncate"
+                    style={{ color: "var(--bsky-text-primary)" }}
+                  >
+                    {account.displayName || account.handle}
+                  </span>
+                  <span
+                    className="flex-shrink-0 text-xs"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    {formatDistanceToNow(new Date(at), { addSuffix: true })}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { History } from "lucide-react";
+import React from "react";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  ensureSearchIndex,
+  searchLocalHistory,
+  type LocalSearchResult,
+} from "../services/local-search";
+import { proxifyBskyImage } from "../utils/image-proxy";
+import { CompactNotificationItem } from "./CompactNotificationItem";
+
+interface HistorySearchResultsProps {
+  query: string;
+  // Called with the post to open the thread of
+  onOpenPost: (uri: string) => void;
+}
+
+const SYNTAX_HELP = [
+  ["from:handle", "posts by someone"],
+  ["reason:reply", "like, repost, follow, mention, reply or quote"],
+  ["after:2024-01-01", "on or after a date"],
+  ["before:2024-06-01", "before a date"],
+  ["has:image", "with images"],
+  ['"exact phrase"', "words in that order"],
+];
+
+const resultPostUri = (result: LocalSearchResult): string | undefined => {
+  if (result.kind === "post") return result.uri;
+  const { notification } = result;
+  if (notification.reason === "follow") return undefined;
+  if (notification.reason === "like" || notification.reason === "repost") {
+    return notification.reasonSubject;
+  }
+  return notification.uri;
+};
+
+/** Results of "Search my history", read from the local index only */
+export const HistorySearchResults: React.FC<HistorySearchResultsProps> = ({
+  query,
+  onOpenPost,
+}) => {
+  const { session } = useAuth();
+
+  const { isSuccess: isIndexReady } = useQuery({
+    queryKey: ["localSearchIndex", session?.did],
+    queryFn: async () => {
+      await ensureSearchIndex();
+      return true;
+    },
+    enabled: !!session?.did,
+    staleTime: Infinity,
+    // Everything is local, don't wait for a connection
+    networkMode: "always",
+  });
+
+  const { data: results, isLoading } = useQuery({
+    queryKey: ["localSearch", session?.did, query],
+    queryFn: () => searchLocalHistory(query),
+    enabled: isIndexReady && !!query.trim(),
+    networkMode: "always",
+  });
+
+  if (!query.trim()) {
+    return (
+      <div className="bsky-glass rounded-xl p-6">
+        <div className="mb-3 flex items-center justify-center gap-2">
+          <History size={20} style={{ color: "var(--bsky-text-secondary)" }} />
+          <p
+            className="text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            Search notifications and posts saved on this device, even offline
+          </p>
+        </div>
+        <div className="mx-auto grid max-w-md grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          {SYNTAX_HELP.map(([syntax, description]) => (
+            <React.Fragment key={syntax}>
+              <code style={{ color: "var(--bsky-text-primary)" }}>
+                {syntax}
+              </code>
+              <span style={{ color: "var(--bsky-text-tertiary)" }}>
+                {description}
+              </span>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!isIndexReady || isLoading) {
+    return (
+      <div className="py-6 text-center">
+        <div
+          className="mx-auto h-10 w-10 animate-spin rounded-full border-b-2"
+          style={{ borderColor: "var(--bsky-primary)" }}
+        ></div>
+        <p
+          className="mt-3 text-sm"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          {isIndexReady ? "Searching..." : "Indexing your history..."}
+        </p>
+      </div>
+    );
+  }
+
+  if (!results || results.length === 0) {
+    return (
+      <div className="bsky-glass rounded-xl p-4 text-center">
+        <p className="text-sm" style={{ color: "var(--bsky-text-secondary)" }}>
+          Nothing in your history matches this search.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <p
+        className="mb-2 text-sm"
+        style={{ color: "var(--bsky-text-secondary)" }}
+      >
+        {results.length} results from your history
+      </p>
+      <div className="bsky-glass overflow-hidden rounded-xl">
+        {results.map((result) => {
+          const postUri = resultPostUri(result);
+          return (
+            <div
+              key={`${result.kind}:${result.uri}`}
+              className={postUri ? "cursor-pointer" : undefined}
+              onClick={postUri ? () => onOpenPost(postUri) : undefined}
+            >
+              {result.kind === "notification" ? (
+                <CompactNotificationItem notification={result.notification} />
+              ) : (
+                <div className="flex gap-3 border-b px-4 py-3 dark:border-gray-700">
+                  <img
+                    src={proxifyBskyImage(result.post.author.avatar)}
+                    alt=""
+                    className="h-8 w-8 flex-shrink-0 rounded-full"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div
+                      className="truncate text-sm"
+                      style={{ color: "var(--bsky-text-primary)" }}
+                    >
+                      <span className="font-semibold">
+                        {result.post.author.displayName ||
+                          result.post.author.handle}
+                      </span>{" "}
+                      <span style={{ color: "var(--bsky-text-secondary)" }}>
+                        @{result.post.author.handle}
+                      </span>
+                    </div>
+                    <p
+                      className="mt-1 line-clamp-3 whitespace-pre-wrap text-sm"
+                      style={{ color: "var(--bsky-text-secondary)" }}
+                    >
+                      {(result.post.record as { text?: string })?.text}
+                    </p>
+                    <div
+                      className="mt-1 text-xs"
+                      style={{ color: "var(--bsky-text-tertiary)" }}
+                    >
+                      {formatDistanceToNow(new Date(result.post.indexedAt), {
+                        addSuffix: true,
+                      })}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
@@ -1,6 +1,10 @@
-import { Loader2, Send, X } from "lucide-react";
+import { Loader2, Send, Sparkles, X } from "lucide-react";
 import React, { useEffect, useRef, useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
+import { useRichTextTypeahead } from "../hooks/useRichTextTypeahead";
+import { aiAssist, type ThreadContextPost } from "../services/ai-assist";
+import { buildPostRichText } from "../utils/rich-text";
+import { TypeaheadSuggestions } from "./TypeaheadSuggestions";
 
 interface InlineReplyComposerProps {
   replyTo: {
@@ -15,6 +19,8 @@ interface InlineReplyComposerProps {
     uri: string;
     cid: string;
   };
+  // Posts leading to the one replied to, oldest first, for suggestions
+  context?: ThreadContextPost[];
   onClose: () => void;
   onSuccess?: () => void;
 }
@@ -22,6 +28,7 @@ interface InlineReplyComposerProps {
 export function InlineReplyComposer({
   replyTo,
   root,
+  context = [],
   onClose,
   onSuccess,
 }: InlineReplyComposerProps) {
@@ -29,7 +36,10 @@ export function InlineReplyComposer({
   const [text, setText] = useState("");
   const [isPosting, setIsPosting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const typeahead = useRichTextTypeahead(text, setText, textareaRef);
 
   useEffect(() => {
     textareaRef.current?.focus();
@@ -44,7 +54,7 @@ export function InlineReplyComposer({
     try {
       // Get the reply structure from the post being replied to
       const replyRecord = {
-        text: text.trim(),
+        ...(await buildPostRichText(agent, text.trim())),
         reply: {
           // If a root is provided, use it. Otherwise, this post might be the root
           root: root || {
@@ -72,10 +82,35 @@ export function InlineReplyComposer({
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
+  const handleSuggest = async () => {
+    if (isSuggesting) return;
+
+    setIsSuggesting(true);
+    setError(null);
+
+    try {
+      setSuggestions(await aiAssist.suggestReplies(context));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to suggest replies.",
+      );
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const applySuggestion = (suggestion: string) => {
+    setText(suggestion);
+    setSuggestions([]);
+    textareaRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     // Always stop propagation to prevent parent handlers
     e.stopPropagation();
 
+    if (typeahead.handleKeyDown(e)) return;
+
     if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
       e.preventDefault();
       handleSubmit();
@@ -113,23 +148,51 @@ export function InlineReplyComposer({
         </button>
       </div>
 
-      <textarea
-        ref={textareaRef}
-        value={text}
-        onChange={(e) => setText(e.target.value)}
-        onKeyDown={handleKeyDown}
-        placeholder="Write your reply..."
-        className="w-full resize-none rounded border p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-        style={{
-          backgroundColor: "var(--bsky-bg-secondary)",
-          borderColor: "var(--bsky-border-primary)",
-          color: "var(--bsky-text-primary)",
-          minHeight: "60px",
-        }}
-        rows={2}
-        maxLength={300}
-        disabled={isPosting}
-      />
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onSelect={typeahead.trackCursor}
+          onBlur={typeahead.handleBlur}
+          placeholder="Write your reply..."
+          className="w-full resize-none rounded border p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          style={{
+            backgroundColor: "var(--bsky-bg-secondary)",
+            borderColor: "var(--bsky-border-primary)",
+            color: "var(--bsky-text-primary)",
+            minHeight: "60px",
+          }}
+          rows={2}
+          maxLength={300}
+          disabled={isPosting}
+        />
+        <TypeaheadSuggestions
+          suggestions={typeahead.suggestions}
+          selectedIndex={typeahead.selectedIndex}
+          onSelect={typeahead.selectSuggestion}
+          onHover={typeahead.setSelectedIndex}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {suggestions.map((suggestion, i) => (
+            <button
+              key={i}
+              onClick={() => applySuggestion(suggestion)}
+              className="block w-full rounded border px-2 py-1.5 text-left text-sm transition-colors hover:bg-gray-500 hover:bg-opacity-10"
+              style={{
+                borderColor: "var(--bsky-border-primary)",
+                color: "var(--bsky-text-primary)",
+              }}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
 
       <div className="mt-2 flex items-center justify-between">
         <span
@@ -145,6 +208,23 @@ export function InlineReplyComposer({
         </span>
 
         <div className="flex items-center gap-2">
+          {context.length > 0 && aiAssist.isAvailable() && (
+            <button
+              onClick={handleSuggest}
+              disabled={isSuggesting || isPosting}
+              className="flex items-center gap-1 rounded-full px-2 py-1.5 text-sm transition-colors hover:bg-gray-500 hover:bg-opacity-10 disabled:opacity-50"
+              style={{ color: "var(--bsky-primary)" }}
+              title="Draft a few replies from the conversation"
+            >
+              {isSuggesting ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : (
+                <Sparkles size={14} />
+              )}
+              <span>Suggest replies</span>
+            </button>
+          )}
+
           {error && (
             <span className="text-xs" style={{ color: "var(--bsky-danger)" }}>
               {error}
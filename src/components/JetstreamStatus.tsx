@@ -0,0 +1,44 @@
+import { Wifi, WifiOff } from "lucide-react";
+import React from "react";
+import { useJetstreamStatus } from "../hooks/useJetstream";
+import type { JetstreamConnectionState } from "../services/jetstream-service";
+
+const STATUS_LABELS: Record<JetstreamConnectionState, string> = {
+  idle: "Live updates off",
+  connecting: "Connecting…",
+  connected: "Live",
+  reconnecting: "Reconnecting… (polling)",
+};
+
+export const JetstreamStatus: React.FC = () => {
+  const state = useJetstreamStatus();
+  const isConnected = state === "connected";
+  const color = isConnected
+    ? "var(--bsky-green)"
+    : state === "idle"
+      ? "var(--bsky-text-tertiary)"
+      : "var(--bsky-orange)";
+
+  return (
+    <div
+      className="bsky-card flex items-center gap-2 p-3"
+      style={{
+        background: "var(--bsky-bg-secondary)",
+        border: "1px solid var(--bsky-border)",
+      }}
+      title="Real-time notifications via Jetstream"
+    >
+      {isConnected ? (
+        <Wifi size={16} style={{ color }} />
+      ) : (
+        <WifiOff size={16} style={{ color }} />
+      )}
+      <span
+        className="text-sm font-medium"
+        style={{ color: "var(--bsky-text-primary)" }}
+      >
+        {STATUS_LABELS[state]}
+      </span>
+    </div>
+  );
+};
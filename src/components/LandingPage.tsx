@@ -9,13 +9,22 @@ import {
   Sparkles,
   Zap,
 } from "lucide-react";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { ATProtoError } from "../types/errors";
+import { proxifyBskyImage } from "../utils/image-proxy";
 import butterflyIcon from "/butterfly-icon.svg";
 
+type SignInMethod = "password" | "oauth";
+
+const SIGN_IN_METHOD_KEY = "bsky_sign_in_method";
+
 export const LandingPage: React.FC = () => {
-  const { login } = useAuth();
+  const { login, loginWithOAuth, authError, accounts, switchAccount } =
+    useAuth();
+  const [signInMethod, setSignInMethod] = useState<SignInMethod>(() =>
+    localStorage.getItem(SIGN_IN_METHOD_KEY) === "oauth" ? "oauth" : "password",
+  );
   const [identifier, setIdentifier] = useState("");
   const [password, setPassword] = useState("");
   const [pdsUrl, setPdsUrl] = useState("https://bsky.social");
@@ -25,11 +34,51 @@ export const LandingPage: React.FC = () => {
   const [showEmailCode, setShowEmailCode] = useState(false);
   const [emailCode, setEmailCode] = useState("");
 
+  // An OAuth sign in that failed after coming back from the server
+  useEffect(() => {
+    if (authError) {
+      setSignInMethod("oauth");
+      setError(authError);
+    }
+  }, [authError]);
+
+  const chooseSignInMethod = (method: SignInMethod) => {
+    setSignInMethod(method);
+    localStorage.setItem(SIGN_IN_METHOD_KEY, method);
+    setError("");
+    setShowEmailCode(false);
+    setEmailCode("");
+  };
+
+  const handleContinueAs = async (did: string) => {
+    setError("");
+    setIsLoading(true);
+    try {
+      await switchAccount(did);
+    } catch {
+      setError(
+        "That account's session has expired. Sign in to it again below.",
+      );
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setIsLoading(true);
 
+    if (signInMethod === "oauth") {
+      try {
+        // Navigates away on success
+        await loginWithOAuth(identifier);
+      } catch (err) {
+        setError((err as Error).message || "Failed to start sign in");
+        setIsLoading(false);
+      }
+      return;
+    }
+
     try {
       await login(
         identifier,
@@ -87,6 +136,52 @@ export const LandingPage: React.FC = () => {
               </div>
             </div>
 
+            {/* Accounts still signed in on this device */}
+            {accounts.length > 0 && (
+              <div className="bsky-card mb-6 p-6 shadow-md">
+                <h2
+                  className="mb-4 text-xl font-semibold"
+                  style={{ color: "var(--bsky-text-primary)" }}
+                >
+                  Continue as
+                </h2>
+                <div className="space-y-2">
+                  {accounts.map((account) => (
+                    <button
+                      key={account.did}
+                      type="button"
+                      onClick={() => handleContinueAs(account.did)}
+                      disabled={isLoading}
+                      className="bsky-button-secondary flex w-full items-center gap-3 p-3 text-left disabled:opacity-50"
+                    >
+                      <img
+                        src={
+                          proxifyBskyImage(account.avatar) ||
+                          "/default-avatar.svg"
+                        }
+                        alt=""
+                        className="h-8 w-8 rounded-full"
+                      />
+                      <div className="min-w-0">
+                        <div
+                          className="truncate font-medium"
+                          style={{ color: "var(--bsky-text-primary)" }}
+                        >
+                          {account.displayName || account.handle}
+                        </div>
+                        <div
+                          className="truncate text-sm"
+                          style={{ color: "var(--bsky-text-secondary)" }}
+                        >
+                          @{account.handle}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Login Form */}
             <form
               onSubmit={handleSubmit}
@@ -99,6 +194,28 @@ export const LandingPage: React.FC = () => {
                 Sign in with your Bluesky account
               </h2>
 
+              <div className="mb-4 flex gap-2">
+                {(
+                  [
+                    ["oauth", "Bluesky sign in"],
+                    ["password", "App password"],
+                  ] as const
+                ).map(([method, label]) => (
+                  <button
+                    key={method}
+                    type="button"
+                    onClick={() => chooseSignInMethod(method)}
+                    className={`flex-1 rounded-full px-3 py-1.5 text-sm transition-colors ${
+                      signInMethod === method
+                        ? "bsky-button-primary"
+                        : "bsky-button-secondary"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
               {error && (
                 <div
                   className="mb-4 flex items-start gap-2 rounded-lg p-3 text-sm"
@@ -127,7 +244,7 @@ export const LandingPage: React.FC = () => {
                   className="mb-2 block text-sm font-medium"
                   style={{ color: "var(--bsky-text-secondary)" }}
                 >
-                  Handle or Email
+                  {signInMethod === "oauth" ? "Handle" : "Handle or Email"}
                 </label>
                 <input
                   type="text"
@@ -149,37 +266,50 @@ export const LandingPage: React.FC = () => {
                   placeholder="@handle.bsky.social"
                   required
                 />
+                {signInMethod === "oauth" && (
+                  <p
+                    className="mt-1 text-xs"
+                    style={{ color: "var(--bsky-text-tertiary)" }}
+                  >
+                    You'll approve access on your PDS's own sign in page, so
+                    your password is never entered here. A server URL such as
+                    https://bsky.social also works.
+                  </p>
+                )}
               </div>
 
-              <div className="mb-4">
-                <label
-                  htmlFor="password"
-                  className="mb-2 block text-sm font-medium"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                >
-                  Password
-                </label>
-                <input
-                  type="password"
-                  id="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full rounded-xl px-4 py-3 text-white transition-all focus:outline-none focus:ring-2 focus:ring-opacity-50"
-                  style={{
-                    backgroundColor: "var(--bsky-bg-tertiary)",
-                    border: "1px solid var(--bsky-border-primary)",
-                    color: "var(--bsky-text-primary)",
-                  }}
-                  onFocus={(e) =>
-                    (e.target.style.borderColor = "var(--bsky-primary)")
-                  }
-                  onBlur={(e) =>
-                    (e.target.style.borderColor = "var(--bsky-border-primary)")
-                  }
-                  placeholder="Enter your password"
-                  required
-                />
-              </div>
+              {signInMethod === "password" && (
+                <div className="mb-4">
+                  <label
+                    htmlFor="password"
+                    className="mb-2 block text-sm font-medium"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full rounded-xl px-4 py-3 text-white transition-all focus:outline-none focus:ring-2 focus:ring-opacity-50"
+                    style={{
+                      backgroundColor: "var(--bsky-bg-tertiary)",
+                      border: "1px solid var(--bsky-border-primary)",
+                      color: "var(--bsky-text-primary)",
+                    }}
+                    onFocus={(e) =>
+                      (e.target.style.borderColor = "var(--bsky-primary)")
+                    }
+                    onBlur={(e) =>
+                      (e.target.style.borderColor =
+                        "var(--bsky-border-primary)")
+                    }
+                    placeholder="Enter your password"
+                    required
+                  />
+                </div>
+              )}
 
               {showEmailCode && (
                 <div className="mb-4">
@@ -235,60 +365,62 @@ export const LandingPage: React.FC = () => {
                 </div>
               )}
 
-              <div className="mb-4">
-                <button
-                  type="button"
-                  onClick={() => setShowAdvanced(!showAdvanced)}
-                  className="flex items-center gap-1 text-sm transition-opacity hover:opacity-80"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                >
-                  <span
-                    className={`transition-transform ${showAdvanced ? "rotate-90" : ""}`}
+              {signInMethod === "password" && (
+                <div className="mb-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowAdvanced(!showAdvanced)}
+                    className="flex items-center gap-1 text-sm transition-opacity hover:opacity-80"
+                    style={{ color: "var(--bsky-text-secondary)" }}
                   >
-                    ▶
-                  </span>
-                  Advanced: Use a different PDS
-                </button>
-
-                {showAdvanced && (
-                  <div className="mt-3">
-                    <label
-                      htmlFor="pdsUrl"
-                      className="mb-2 block text-sm font-medium"
-                      style={{ color: "var(--bsky-text-secondary)" }}
+                    <span
+                      className={`transition-transform ${showAdvanced ? "rotate-90" : ""}`}
                     >
-                      PDS Server URL
-                    </label>
-                    <input
-                      type="url"
-                      id="pdsUrl"
-                      value={pdsUrl}
-                      onChange={(e) => setPdsUrl(e.target.value)}
-                      className="w-full rounded-xl px-4 py-3 text-white transition-all focus:outline-none focus:ring-2 focus:ring-opacity-50"
-                      style={{
-                        backgroundColor: "var(--bsky-bg-tertiary)",
-                        border: "1px solid var(--bsky-border-primary)",
-                        color: "var(--bsky-text-primary)",
-                      }}
-                      onFocus={(e) =>
-                        (e.target.style.borderColor = "var(--bsky-primary)")
-                      }
-                      onBlur={(e) =>
-                        (e.target.style.borderColor =
-                          "var(--bsky-border-primary)")
-                      }
-                      placeholder="https://bsky.social"
-                    />
-                    <p
-                      className="mt-1 text-xs"
-                      style={{ color: "var(--bsky-text-tertiary)" }}
-                    >
-                      Default is https://bsky.social. Only change if you use a
-                      different PDS.
-                    </p>
-                  </div>
-                )}
-              </div>
+                      ▶
+                    </span>
+                    Advanced: Use a different PDS
+                  </button>
+
+                  {showAdvanced && (
+                    <div className="mt-3">
+                      <label
+                        htmlFor="pdsUrl"
+                        className="mb-2 block text-sm font-medium"
+                        style={{ color: "var(--bsky-text-secondary)" }}
+                      >
+                        PDS Server URL
+                      </label>
+                      <input
+                        type="url"
+                        id="pdsUrl"
+                        value={pdsUrl}
+                        onChange={(e) => setPdsUrl(e.target.value)}
+                        className="w-full rounded-xl px-4 py-3 text-white transition-all focus:outline-none focus:ring-2 focus:ring-opacity-50"
+                        style={{
+                          backgroundColor: "var(--bsky-bg-tertiary)",
+                          border: "1px solid var(--bsky-border-primary)",
+                          color: "var(--bsky-text-primary)",
+                        }}
+                        onFocus={(e) =>
+                          (e.target.style.borderColor = "var(--bsky-primary)")
+                        }
+                        onBlur={(e) =>
+                          (e.target.style.borderColor =
+                            "var(--bsky-border-primary)")
+                        }
+                        placeholder="https://bsky.social"
+                      />
+                      <p
+                        className="mt-1 text-xs"
+                        style={{ color: "var(--bsky-text-tertiary)" }}
+                      >
+                        Default is https://bsky.social. Only change if you use a
+                        different PDS.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
 
               <button
                 type="submit"
@@ -296,7 +428,9 @@ export const LandingPage: React.FC = () => {
                 className="bsky-button-primary w-full px-4 py-3 font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
               >
                 {isLoading
-                  ? "Signing in..."
+                  ? signInMethod === "oauth"
+                    ? "Redirecting..."
+                    : "Signing in..."
                   : showEmailCode
                     ? "Verify Code"
                     : "Sign In"}
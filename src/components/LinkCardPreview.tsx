@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link2, Loader, RefreshCw, X } from "lucide-react";
+import React from "react";
+import { linkMetadataService } from "../services/link-metadata";
+
+interface LinkCardPreviewProps {
+  url: string;
+  // Set when the post also has media, which takes the post's only embed
+  blockedByMedia?: boolean;
+  onRemove: () => void;
+  // Switch to the next link in the post, if it has more than one
+  onSwap?: () => void;
+}
+
+export const LinkCardPreview: React.FC<LinkCardPreviewProps> = ({
+  url,
+  blockedByMedia = false,
+  onRemove,
+  onSwap,
+}) => {
+  const { data: metadata, isLoading } = useQuery({
+    queryKey: ["linkMetadata", url],
+    queryFn: () => linkMetadataService.resolve(url),
+    staleTime: 60 * 60 * 1000,
+  });
+
+  if (blockedByMedia) {
+    return (
+      <div
+        className="mt-3 flex items-center gap-2 text-xs"
+        style={{ color: "var(--bsky-text-tertiary)" }}
+      >
+        <Link2 size={14} />
+        <span>Link card skipped: posts can have media or a link card</span>
+      </div>
+    );
+  }
+
+  if (!isLoading && !metadata) return null;
+
+  return (
+    <div
+      className="relative mt-3 overflow-hidden rounded-lg border"
+      style={{ borderColor: "var(--bsky-border-primary)" }}
+    >
+      {isLoading ? (
+        <div
+          className="flex items-center gap-2 p-3 text-sm"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          <Loader size={14} className="animate-spin" />
+          Loading link preview…
+        </div>
+      ) : (
+        metadata && (
+          <>
+            {metadata.image && (
+              <img
+                src={metadata.image}
+                alt=""
+                className="h-32 w-full object-cover"
+              />
+            )}
+            <div className="p-3">
+              <div
+                className="line-clamp-2 text-sm font-semibold"
+                style={{ color: "var(--bsky-text-primary)" }}
+              >
+                {metadata.title}
+              </div>
+              {metadata.description && (
+                <div
+                  className="mt-1 line-clamp-2 text-xs"
+                  style={{ color: "var(--bsky-text-secondary)" }}
+                >
+                  {metadata.description}
+                </div>
+              )}
+              <div
+                className="mt-1 truncate text-xs"
+                style={{ color: "var(--bsky-text-tertiary)" }}
+              >
+                {url}
+              </div>
+            </div>
+          </>
+        )
+      )}
+
+      <div className="absolute right-1 top-1 flex gap-1">
+        {onSwap && (
+          <button
+            onClick={onSwap}
+            className="rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+            title="Use the next link for the card"
+          >
+            <RefreshCw size={14} />
+          </button>
+        )}
+        <button
+          onClick={onRemove}
+          className="rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+          title="Remove link card"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import type { ColumnFeedPage } from "./PostListColumn";
+import { PostListColumn } from "./PostListColumn";
+
+interface ListColumnProps {
+  listUri: string;
+  refreshKey?: number;
+}
+
+export function ListColumn({ listUri, refreshKey }: ListColumnProps) {
+  const { agent } = useAuth();
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ["columnFeed", "list", agent?.session?.did, listUri],
+    queryFn: async ({ pageParam }): Promise<ColumnFeedPage> => {
+      if (!agent) throw new Error("Not authenticated");
+      const response = await agent.app.bsky.feed.getListFeed({
+        list: listUri,
+        cursor: pageParam,
+        limit: 30,
+      });
+      return { posts: response.data.feed, cursor: response.data.cursor };
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: !!agent && !!listUri,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (refreshKey) refetch();
+  }, [refreshKey, refetch]);
+
+  return (
+    <PostListColumn
+      items={data?.pages.flatMap((page) => page.posts) || []}
+      isLoading={isLoading}
+      error={error}
+      hasNextPage={hasNextPage}
+      isFetchingNextPage={isFetchingNextPage}
+      onLoadMore={fetchNextPage}
+      emptyMessage="No posts from this list yet"
+    />
+  );
+}
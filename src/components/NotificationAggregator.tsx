@@ -3,13 +3,20 @@ import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notif
 import { formatDistanceToNow } from "date-fns";
 import { Heart, Quote, Repeat2, UserPlus } from "lucide-react";
 import React from "react";
+import type { AggregationStrategy } from "../services/notification-grouping";
 import { proxifyBskyImage } from "../utils/image-proxy";
 import { getNotificationUrl } from "../utils/url-helpers";
 
-interface AggregatedNotification {
+export interface AggregatedNotification {
   type: "aggregated";
+  // The most common reason in the group
   reason: string;
+  groupBy: AggregationStrategy;
   count: number;
+  // How many of each reason, for groups that mix them (per post rollups)
+  reasonCounts: Record<string, number>;
+  // The post the group is about, for per post rollups
+  subjectUri?: string;
   users: Array<{
     did: string;
     handle: string;
@@ -25,49 +32,137 @@ interface SingleNotification {
   notification: Notification;
 }
 
-type ProcessedNotification = AggregatedNotification | SingleNotification;
+export type ProcessedNotification = AggregatedNotification | SingleNotification;
+
+export interface AggregationOptions {
+  strategy?: AggregationStrategy;
+  // Largest gap between neighbours in a group, Infinity for no limit
+  windowMs?: number;
+}
+
+const AGGREGATABLE_REASONS = [
+  "like",
+  "repost",
+  "follow",
+  "quote",
+  "starterpack-joined",
+  "like-via-repost",
+  "repost-via-repost",
+];
+// Grouped all together rather than per post or per person
+const ACCOUNT_REASONS = ["follow", "starterpack-joined"];
+
+const REASON_NOUNS: Record<string, [string, string]> = {
+  like: ["like", "likes"],
+  repost: ["repost", "reposts"],
+  quote: ["quote", "quotes"],
+  follow: ["follow", "follows"],
+  "starterpack-joined": ["starterpack join", "starterpack joins"],
+  "like-via-repost": ["like via repost", "likes via reposts"],
+  "repost-via-repost": ["repost via repost", "reposts via reposts"],
+};
+
+const REASON_VERBS: Record<string, string> = {
+  like: "liked",
+  repost: "reposted",
+  quote: "quoted",
+  "like-via-repost": "liked reposts of",
+  "repost-via-repost": "reposted reposts of",
+};
+
+/** "40 likes, 5 reposts", most frequent first */
+export const formatReasonCounts = (counts: Record<string, number>): string =>
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([reason, count]) => {
+      const [singular, plural] = REASON_NOUNS[reason] || [reason, reason];
+      return `${count} ${count === 1 ? singular : plural}`;
+    })
+    .join(", ");
+
+// The post a like, repost or quote is about
+const getSubjectUri = (notification: Notification) =>
+  notification.reasonSubject || notification.uri;
+
+const getGroupKey = (
+  notification: Notification,
+  strategy: AggregationStrategy,
+): string => {
+  const { reason } = notification;
+  if (ACCOUNT_REASONS.includes(reason)) return `${reason}|all`;
+  switch (strategy) {
+    case "post":
+      return `post|${getSubjectUri(notification)}`;
+    case "user":
+      return `user|${notification.author.did}|${reason}`;
+    default:
+      return `${reason}|${getSubjectUri(notification)}`;
+  }
+};
+
+const toAggregated = (
+  cluster: Notification[],
+  strategy: AggregationStrategy,
+): AggregatedNotification => {
+  const reasonCounts: Record<string, number> = {};
+  const uniqueUsers = new Map<string, Notification["author"]>();
+  cluster.forEach((n) => {
+    reasonCounts[n.reason] = (reasonCounts[n.reason] || 0) + 1;
+    uniqueUsers.set(n.author.did, n.author);
+  });
+  const [reason] = Object.entries(reasonCounts).sort(
+    ([, a], [, b]) => b - a,
+  )[0];
+  const isAccountGroup = ACCOUNT_REASONS.includes(reason);
+
+  return {
+    type: "aggregated",
+    reason,
+    // Follows are grouped the same way whatever the strategy
+    groupBy: isAccountGroup ? "type" : strategy,
+    count: cluster.length,
+    reasonCounts,
+    subjectUri:
+      !isAccountGroup && strategy === "post"
+        ? getSubjectUri(cluster[0])
+        : undefined,
+    users: Array.from(uniqueUsers.values()).map((author) => ({
+      did: author.did,
+      handle: author.handle,
+      displayName: author.displayName,
+      avatar: author.avatar,
+    })),
+    latestTimestamp: cluster[0].indexedAt,
+    notifications: cluster,
+  };
+};
 
 export function aggregateNotifications(
   notifications: Notification[],
+  {
+    strategy = "type",
+    windowMs = 24 * 60 * 60 * 1000,
+  }: AggregationOptions = {},
 ): ProcessedNotification[] {
   const processed: ProcessedNotification[] = [];
-  const aggregationWindow = 24 * 60 * 60 * 1000; // 24 hours in milliseconds for better grouping
 
-  // Group notifications by reason and URI (for post-specific grouping)
   const groups = new Map<string, Notification[]>();
 
   notifications.forEach((notification) => {
-    // Only aggregate certain types
-    if (
-      [
-        "like",
-        "repost",
-        "follow",
-        "quote",
-        "starterpack-joined",
-        "like-via-repost",
-        "repost-via-repost",
-      ].includes(notification.reason)
-    ) {
-      // For follows and starterpack-joined, group all together. For likes/reposts/quotes, group by post URI
-      const key = ["follow", "starterpack-joined"].includes(notification.reason)
-        ? `${notification.reason}-all`
-        : `${notification.reason}-${notification.uri || "no-uri"}`;
-
-      if (!groups.has(key)) {
-        groups.set(key, []);
-      }
-      groups.get(key)!.push(notification);
-    } else {
-      // Don't aggregate replies, mentions, verified, unverified - they're more important individually
+    // Don't aggregate replies, mentions, verified, unverified - they're more important individually
+    if (!AGGREGATABLE_REASONS.includes(notification.reason)) {
       processed.push({ type: "single", notification });
+      return;
     }
-  });
 
-  // Process groups
-  groups.forEach((groupNotifications, key) => {
-    const [reason] = key.split("-");
+    const key = getGroupKey(notification, strategy);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(notification);
+  });
 
+  groups.forEach((groupNotifications) => {
     // Sort by timestamp (newest first)
     groupNotifications.sort(
       (a, b) =>
@@ -75,73 +170,37 @@ export function aggregateNotifications(
     );
 
     // Different thresholds for different notification types
-    const minAggregationCount = reason === "follow" ? 2 : 3;
+    const minAggregationCount =
+      groupNotifications[0].reason === "follow" ? 2 : 3;
 
-    // Check if we should aggregate
-    if (groupNotifications.length >= minAggregationCount) {
-      // Find time clusters
-      const clusters: Notification[][] = [];
-      let currentCluster: Notification[] = [groupNotifications[0]];
+    // Split into clusters where neighbours are at most windowMs apart
+    const clusters: Notification[][] = [];
+    let currentCluster: Notification[] = [groupNotifications[0]];
 
-      for (let i = 1; i < groupNotifications.length; i++) {
-        const timeDiff =
-          new Date(groupNotifications[i - 1].indexedAt).getTime() -
-          new Date(groupNotifications[i].indexedAt).getTime();
+    for (let i = 1; i < groupNotifications.length; i++) {
+      const timeDiff =
+        new Date(groupNotifications[i - 1].indexedAt).getTime() -
+        new Date(groupNotifications[i].indexedAt).getTime();
 
-        if (timeDiff <= aggregationWindow) {
-          currentCluster.push(groupNotifications[i]);
-        } else {
-          // Process current cluster
-          if (currentCluster.length >= minAggregationCount) {
-            clusters.push(currentCluster);
-          } else {
-            // Add as individual notifications
-            currentCluster.forEach((n) =>
-              processed.push({ type: "single", notification: n }),
-            );
-          }
-          currentCluster = [groupNotifications[i]];
-        }
+      if (timeDiff <= windowMs) {
+        currentCluster.push(groupNotifications[i]);
+      } else {
+        clusters.push(currentCluster);
+        currentCluster = [groupNotifications[i]];
       }
+    }
+    clusters.push(currentCluster);
 
-      // Handle last cluster
-      if (currentCluster.length >= minAggregationCount) {
-        clusters.push(currentCluster);
+    clusters.forEach((cluster) => {
+      if (cluster.length >= minAggregationCount) {
+        processed.push(toAggregated(cluster, strategy));
       } else {
-        currentCluster.forEach((n) =>
+        // Too few to aggregate
+        cluster.forEach((n) =>
           processed.push({ type: "single", notification: n }),
         );
       }
-
-      // Create aggregated notifications for clusters
-      clusters.forEach((cluster) => {
-        const uniqueUsers = new Map<string, (typeof cluster)[0]["author"]>();
-        cluster.forEach((n) => {
-          uniqueUsers.set(n.author.did, n.author);
-        });
-
-        const aggregated: AggregatedNotification = {
-          type: "aggregated",
-          reason,
-          count: cluster.length,
-          users: Array.from(uniqueUsers.values()).map((author) => ({
-            did: author.did,
-            handle: author.handle,
-            displayName: author.displayName,
-            avatar: author.avatar,
-          })),
-          latestTimestamp: cluster[0].indexedAt,
-          notifications: cluster,
-        };
-
-        processed.push(aggregated);
-      });
-    } else {
-      // Too few to aggregate
-      groupNotifications.forEach((n) =>
-        processed.push({ type: "single", notification: n }),
-      );
-    }
+    });
   });
 
   // Sort all processed notifications by latest timestamp
@@ -170,7 +229,8 @@ interface AggregatedNotificationItemProps {
   fetchedPosts?: number;
   totalPosts?: number;
   percentageFetched?: number;
-  markAsRead?: () => void;
+  markAsRead?: (notifications: Notification[]) => void;
+  highlighted?: boolean;
 }
 
 export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProps> =
@@ -186,6 +246,7 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
       totalPosts = 0,
       percentageFetched = 100,
       markAsRead,
+      highlighted = false,
     }) => {
       const getIcon = () => {
         switch (item.reason) {
@@ -282,6 +343,18 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
         }
       };
 
+      const getHeadline = () => {
+        if (item.groupBy === "post") {
+          return `Your post got ${formatReasonCounts(item.reasonCounts)}`;
+        }
+        if (item.groupBy === "user") {
+          const user = item.users[0];
+          const verb = REASON_VERBS[item.reason] || "interacted with";
+          return `${user.displayName || `@${user.handle}`} ${verb} ${item.count} of your posts`;
+        }
+        return `${item.count} ${getActionText()}`;
+      };
+
       const displayUsers = item.users.slice(0, 3);
       const remainingCount = item.users.length - displayUsers.length;
       const hasUnread = item.notifications.some((n) => !n.isRead);
@@ -304,7 +377,7 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
 
         // Mark notifications as read when clicked
         if (hasUnread && markAsRead) {
-          markAsRead();
+          markAsRead(item.notifications);
         }
 
         // If clicking with modifier keys (Cmd/Ctrl), open in new tab
@@ -313,6 +386,14 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
           return;
         }
 
+        // One person across several posts, show the individual notifications
+        if (item.groupBy === "user") {
+          if (onExpand) {
+            onExpand();
+          }
+          return;
+        }
+
         // For likes, reposts, quotes on posts, pass the thread URL to parent
         if (["like", "repost", "quote"].includes(item.reason)) {
           if (onNavigate) {
@@ -335,7 +416,11 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
       return (
         <div
           className={`bsky-notification cursor-pointer px-3 py-3 ${
-            hasUnread ? "bsky-notification-unread" : ""
+            highlighted
+              ? "bsky-notification-highlighted"
+              : hasUnread
+                ? "bsky-notification-unread"
+                : ""
           }`}
           onClick={handleClick}
           title="Cmd/Ctrl+Click to open in Bluesky"
@@ -421,7 +506,7 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
                   className="font-bold"
                   style={{ color: "var(--bsky-text-primary)" }}
                 >
-                  {item.count} {getActionText()}
+                  {getHeadline()}
                 </span>
                 <span
                   className="ml-1 text-xs"
@@ -469,15 +554,17 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
 
           {/* Post preview below, with left margin to align with content */}
           {item.reason !== "follow" &&
+            item.groupBy !== "user" &&
             (() => {
               // Try to get the post from postMap first for richer content
               // For reposts and likes, use reasonSubject which contains the original post URI
               const notification = item.notifications[0];
               const postUri =
-                (item.reason === "repost" || item.reason === "like") &&
+                item.subjectUri ||
+                ((item.reason === "repost" || item.reason === "like") &&
                 notification.reasonSubject
                   ? notification.reasonSubject
-                  : notification.uri;
+                  : notification.uri);
               const post = postMap?.get(postUri);
 
               // Show loading indicator if posts are still being fetched
@@ -554,7 +641,7 @@ export const AggregatedNotificationItem: React.FC<AggregatedNotificationItemProp
                         className="text-xs font-medium"
                         style={{ color: "var(--bsky-text-tertiary)" }}
                       >
-                        {item.reason === "quote"
+                        {item.reason === "quote" && !item.subjectUri
                           ? "Quoting your post:"
                           : "Your post:"}
                       </span>
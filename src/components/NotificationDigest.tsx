@@ -0,0 +1,296 @@
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { useQuery } from "@tanstack/react-query";
+import {
+  addDays,
+  addWeeks,
+  format,
+  isToday,
+  isYesterday,
+  startOfDay,
+  startOfWeek,
+  subDays,
+  subWeeks,
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { useNavigate } from "react-router";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotificationPosts } from "../hooks/useNotificationPosts";
+import { NotificationCacheService } from "../services/notification-cache-service";
+import { NotificationStorageDB } from "../services/notification-storage-db";
+import { CompactNotificationItem } from "./CompactNotificationItem";
+import {
+  AggregatedNotificationItem,
+  aggregateNotifications,
+  formatReasonCounts,
+  type AggregatedNotification,
+  type AggregationOptions,
+} from "./NotificationAggregator";
+
+type DigestPeriod = "day" | "week";
+
+interface NotificationDigestProps {
+  onOpenPost: (uri: string) => void;
+}
+
+const TOP_COUNT = 5;
+// A digest rolls up the whole period, however far apart
+const DIGEST_WINDOW = Infinity;
+
+const getPeriodRange = (period: DigestPeriod, offset: number) => {
+  const now = new Date();
+  const start =
+    period === "day"
+      ? startOfDay(subDays(now, offset))
+      : startOfWeek(subWeeks(now, offset));
+  const end = period === "day" ? addDays(start, 1) : addWeeks(start, 1);
+  return { start, end };
+};
+
+const getPeriodLabel = (period: DigestPeriod, offset: number, start: Date) => {
+  if (period === "day") {
+    if (isToday(start)) return "Today";
+    if (isYesterday(start)) return "Yesterday";
+    return format(start, "EEEE, MMM d");
+  }
+  if (offset === 0) return "This week";
+  if (offset === 1) return "Last week";
+  return `Week of ${format(start, "MMM d")}`;
+};
+
+const topGroups = (
+  notifications: Notification[],
+  strategy: AggregationOptions["strategy"],
+): AggregatedNotification[] =>
+  aggregateNotifications(notifications, {
+    strategy,
+    windowMs: DIGEST_WINDOW,
+  })
+    .filter(
+      (item): item is AggregatedNotification =>
+        item.type === "aggregated" && item.groupBy === strategy,
+    )
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_COUNT);
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => (
+  <h3
+    className="px-3 pb-1 pt-4 text-xs font-semibold uppercase tracking-wide"
+    style={{ color: "var(--bsky-text-secondary)" }}
+  >
+    {children}
+  </h3>
+);
+
+/**
+ * Daily or weekly summary of notification activity, read from the local
+ * notification store and rolled up with the same aggregator as the feed.
+ */
+export const NotificationDigest: React.FC<NotificationDigestProps> = ({
+  onOpenPost,
+}) => {
+  const { session } = useAuth();
+  const navigate = useNavigate();
+  const [period, setPeriod] = useState<DigestPeriod>("day");
+  const [offset, setOffset] = useState(0);
+  const { start, end } = getPeriodRange(period, offset);
+
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: ["notificationDigest", session?.did, start.toISOString()],
+    queryFn: async () => {
+      await NotificationCacheService.getInstance().init();
+      return NotificationStorageDB.getInstance().getNotificationsBetween(
+        start,
+        end,
+      );
+    },
+    enabled: !!session?.did,
+    networkMode: "always",
+  });
+
+  const digest = useMemo(() => {
+    const reasonCounts: Record<string, number> = {};
+    notifications.forEach((n) => {
+      reasonCounts[n.reason] = (reasonCounts[n.reason] || 0) + 1;
+    });
+    const follows = aggregateNotifications(
+      notifications.filter((n) => n.reason === "follow"),
+      { windowMs: DIGEST_WINDOW },
+    );
+    return {
+      reasonCounts,
+      people: new Set(notifications.map((n) => n.author.did)).size,
+      topPosts: topGroups(notifications, "post"),
+      topPeople: topGroups(notifications, "user"),
+      follows,
+      conversations: notifications
+        .filter((n) => n.reason === "reply" || n.reason === "mention")
+        .slice(0, TOP_COUNT),
+    };
+  }, [notifications]);
+
+  // Previews for the top posts, a like or repost points at the post itself
+  const previewNotifications = useMemo(
+    () =>
+      digest.topPosts.map(
+        (item) =>
+          item.notifications.find(
+            (n) => n.reason === "like" || n.reason === "repost",
+          ) || item.notifications[0],
+      ),
+    [digest.topPosts],
+  );
+  const { data: posts } = useNotificationPosts(previewNotifications);
+  const postMap = useMemo(
+    () => new Map((posts || []).map((post) => [post.uri, post])),
+    [posts],
+  );
+
+  const periodButton = (value: DigestPeriod, label: string) => (
+    <button
+      onClick={() => {
+        setPeriod(value);
+        setOffset(0);
+      }}
+      className={`rounded-md px-2.5 py-1 text-xs font-medium transition-all ${
+        period === value
+          ? "bg-bsky-primary text-white"
+          : "text-bsky-text-secondary hover:bg-bsky-bg-secondary"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="pb-6">
+      <div className="flex items-center justify-between gap-2 px-3 pt-3">
+        <div className="flex gap-1">
+          {periodButton("day", "Daily")}
+          {periodButton("week", "Weekly")}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setOffset(offset + 1)}
+            className="rounded-md p-1 hover:bg-bsky-bg-secondary"
+            aria-label="Previous period"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span
+            className="min-w-[7rem] text-center text-sm font-medium"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            {getPeriodLabel(period, offset, start)}
+          </span>
+          <button
+            onClick={() => setOffset(offset - 1)}
+            disabled={offset === 0}
+            className="rounded-md p-1 hover:bg-bsky-bg-secondary disabled:opacity-30"
+            aria-label="Next period"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div
+          className="p-6 text-center text-sm"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          Loading digest...
+        </div>
+      ) : notifications.length === 0 ? (
+        <div
+          className="p-6 text-center text-sm"
+          style={{ color: "var(--bsky-text-tertiary)" }}
+        >
+          No notifications saved for this period
+        </div>
+      ) : (
+        <>
+          <p
+            className="px-3 pt-3 text-sm"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            {formatReasonCounts(digest.reasonCounts)}
+            <span style={{ color: "var(--bsky-text-secondary)" }}>
+              {" "}
+              from {digest.people} {digest.people === 1 ? "person" : "people"}
+            </span>
+          </p>
+
+          {digest.topPosts.length > 0 && (
+            <>
+              <SectionTitle>Top posts</SectionTitle>
+              {digest.topPosts.map((item) => (
+                <AggregatedNotificationItem
+                  key={item.subjectUri}
+                  item={item}
+                  postMap={postMap}
+                  onNavigate={(url) =>
+                    url.startsWith("/profile/")
+                      ? navigate(url)
+                      : item.subjectUri && onOpenPost(item.subjectUri)
+                  }
+                />
+              ))}
+            </>
+          )}
+
+          {digest.topPeople.length > 0 && (
+            <>
+              <SectionTitle>Most active</SectionTitle>
+              {digest.topPeople.map((item) => (
+                <AggregatedNotificationItem
+                  key={`${item.users[0].did}-${item.reason}`}
+                  item={item}
+                  onNavigate={navigate}
+                  onExpand={() => navigate(`/profile/${item.users[0].handle}`)}
+                />
+              ))}
+            </>
+          )}
+
+          {digest.follows.length > 0 && (
+            <>
+              <SectionTitle>New followers</SectionTitle>
+              {digest.follows.map((item) =>
+                item.type === "aggregated" ? (
+                  <AggregatedNotificationItem
+                    key="follows"
+                    item={item}
+                    onNavigate={navigate}
+                  />
+                ) : (
+                  <CompactNotificationItem
+                    key={item.notification.uri}
+                    notification={item.notification}
+                  />
+                ),
+              )}
+            </>
+          )}
+
+          {digest.conversations.length > 0 && (
+            <>
+              <SectionTitle>Replies and mentions</SectionTitle>
+              {digest.conversations.map((notification) => (
+                <div
+                  key={notification.uri}
+                  className="cursor-pointer"
+                  onClick={() => onOpenPost(notification.uri)}
+                >
+                  <CompactNotificationItem notification={notification} />
+                </div>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { useQuery } from "@tanstack/react-query";
+import { Loader } from "lucide-react";
+import React, { useEffect, useMemo } from "react";
+import { Link } from "react-router";
+import { useAuth } from "../contexts/AuthContext";
+import { useFollowing } from "../hooks/useFollowing";
+import { useNotificationPosts } from "../hooks/useNotificationPosts";
+import {
+  useMarkReadOnScroll,
+  useNotificationReadState,
+} from "../hooks/useNotificationReadState";
+import {
+  useNotificationRuleOutcomes,
+  useNotificationRules,
+} from "../hooks/useNotificationRules";
+import { NotificationCacheService } from "../services/notification-cache-service";
+import { applyReadState } from "../services/notification-read-state";
+import { CompactNotificationItem } from "./CompactNotificationItem";
+
+// How far back in the archive a rule column looks
+const ARCHIVE_LIMIT = 1000;
+
+interface NotificationRuleColumnProps {
+  ruleId: string;
+  refreshKey?: number;
+  // Reports how many matches are unread, for the column header
+  onUnreadCountChange?: (count: number) => void;
+}
+
+/**
+ * Notifications routed to a column by a rule with the column action. They
+ * come from the local notification archive, which the background loader
+ * keeps up to date.
+ */
+export const NotificationRuleColumn: React.FC<NotificationRuleColumnProps> = ({
+  ruleId,
+  refreshKey,
+  onUnreadCountChange,
+}) => {
+  const { session } = useAuth();
+  const rules = useNotificationRules();
+  const rule = rules.find((r) => r.id === ruleId);
+  const { data: followingSet } = useFollowing();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["notificationRuleArchive", session?.did],
+    queryFn: async () => {
+      const cacheService = NotificationCacheService.getInstance();
+      await cacheService.init();
+      const result = await cacheService.getCachedNotifications(ARCHIVE_LIMIT);
+      return result.notifications;
+    },
+    enabled: !!session?.did && !!rule,
+    staleTime: 60 * 1000,
+    refetchInterval: 2 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (refreshKey) refetch();
+  }, [refreshKey, refetch]);
+
+  const readState = useNotificationReadState();
+  const notifications: Notification[] = useMemo(
+    () => applyReadState(data || [], readState),
+    [data, readState],
+  );
+  const { data: posts } = useNotificationPosts(notifications);
+  const postMap = useMemo(
+    () => new Map((posts || []).map((post) => [post.uri, post])),
+    [posts],
+  );
+  const ruleIds = useMemo(() => [ruleId], [ruleId]);
+  const outcomes = useNotificationRuleOutcomes(notifications, {
+    postMap,
+    followingSet,
+    ruleIds,
+  });
+
+  const matches = useMemo(
+    () =>
+      notifications.filter((n) =>
+        outcomes.get(n.uri)?.columnRuleIds.includes(ruleId),
+      ),
+    [notifications, outcomes, ruleId],
+  );
+
+  const unreadCount = useMemo(
+    () => matches.filter((n) => !n.isRead).length,
+    [matches],
+  );
+  useEffect(() => {
+    onUnreadCountChange?.(unreadCount);
+  }, [unreadCount, onUnreadCountChange]);
+
+  const trackRead = useMarkReadOnScroll(matches);
+
+  if (!rule) {
+    return (
+      <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+        This rule no longer exists.{" "}
+        <Link to="/settings/rules" className="text-blue-500 hover:underline">
+          Manage rules
+        </Link>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader className="h-6 w-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 text-center text-sm text-red-500">
+        {(error as Error).message || "Failed to load notifications"}
+      </div>
+    );
+  }
+
+  if (!rule.enabled || !rule.actions.includes("column")) {
+    return (
+      <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+        "{rule.name}" is{" "}
+        {rule.enabled ? "not routed to a column" : "turned off"}.{" "}
+        <Link to="/settings/rules" className="text-blue-500 hover:underline">
+          Edit rule
+        </Link>
+      </div>
+    );
+  }
+
+  if (matches.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+        No notifications match "{rule.name}" yet
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {matches.map((notification) => (
+        <div key={notification.uri} ref={trackRead([notification])}>
+          <CompactNotificationItem notification={notification} />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { format, startOfDay, subDays, subHours } from "date-fns";
 import {
   Activity,
+  BarChart3,
   Bell,
   Calendar,
   Heart,
@@ -10,14 +11,19 @@ import {
   Users,
 } from "lucide-react";
 import React from "react";
+import { Link } from "react-router";
 import { useAuth } from "../contexts/AuthContext";
 import { useFeatureTracking } from "../hooks/useAnalytics";
 import { useExtendedNotifications } from "../hooks/useExtendedNotifications";
+import { useNotificationPollingInterval } from "../hooks/useJetstream";
 import { analytics as analyticsService } from "../services/analytics";
+import type { AnalyticsTimeRange } from "../services/analytics-report";
 import { proxifyBskyImage } from "../utils/image-proxy";
+import { AnalyticsReportMenu } from "./AnalyticsReportMenu";
 import { BackgroundNotificationLoader } from "./BackgroundNotificationLoader";
+import { FollowerGrowth } from "./FollowerGrowth";
 
-type TimeRange = "1d" | "3d" | "7d" | "4w";
+type TimeRange = AnalyticsTimeRange;
 
 // Component to track when charts come into view
 const TrackedChart: React.FC<{
@@ -50,6 +56,7 @@ const TrackedChart: React.FC<{
 
 export const NotificationsAnalytics: React.FC = () => {
   const { agent, session } = useAuth();
+  const pollingInterval = useNotificationPollingInterval();
   const [timeRange, setTimeRange] = React.useState<TimeRange>("7d");
   const [activityView, setActivityView] = React.useState<"received" | "sent">(
     "received",
@@ -350,7 +357,7 @@ export const NotificationsAnalytics: React.FC = () => {
       });
       return response.data;
     },
-    refetchInterval: 60 * 1000, // Refetch every 60 seconds - reduced from 10s
+    refetchInterval: pollingInterval, // Refetch every 60 seconds while Jetstream is down
     enabled: !hasExtendedData, // Don't fetch if we have extended data
     refetchOnWindowFocus: false,
   });
@@ -430,7 +437,7 @@ export const NotificationsAnalytics: React.FC = () => {
     enabled: !!agent,
     staleTime: hasExtendedData ? 5 * 60 * 1000 : 2 * 60 * 1000, // Longer stale time if using cached data
     gcTime: 10 * 60 * 1000, // Keep in cache for 10 minutes
-    refetchInterval: 60 * 1000, // Refetch every 60 seconds - reduced from 10s
+    refetchInterval: pollingInterval, // Refetch every 60 seconds while Jetstream is down
     refetchOnMount: false, // Don't refetch on mount - use stale time instead
     refetchOnWindowFocus: false, // Don't refetch on window focus
   });
@@ -777,19 +784,33 @@ export const NotificationsAnalytics: React.FC = () => {
           </div>
         </div>
 
-        {/* Data source indicator */}
-        {hasExtendedData && (
-          <div
-            className="flex items-center gap-2 rounded-lg px-3 py-1 text-sm"
-            style={{
-              backgroundColor: "var(--bsky-bg-tertiary)",
-              color: "var(--bsky-text-secondary)",
-            }}
+        <div className="flex items-center gap-2">
+          {/* Data source indicator */}
+          {hasExtendedData && (
+            <div
+              className="flex items-center gap-2 rounded-lg px-3 py-1 text-sm"
+              style={{
+                backgroundColor: "var(--bsky-bg-tertiary)",
+                color: "var(--bsky-text-secondary)",
+              }}
+            >
+              <Activity size={14} />
+              <span>Using extended history</span>
+            </div>
+          )}
+          <AnalyticsReportMenu
+            timeRange={timeRange}
+            notifications={notifications?.notifications || []}
+          />
+          <Link
+            to="/analytics/posts"
+            className="flex items-center gap-2 rounded-lg px-3 py-1 text-sm font-medium hover:opacity-80"
+            style={{ backgroundColor: "var(--bsky-primary)", color: "white" }}
           >
-            <Activity size={14} />
-            <span>Using extended history</span>
-          </div>
-        )}
+            <BarChart3 size={14} />
+            My posts
+          </Link>
+        </div>
       </div>
 
       {/* Activity Chart */}
@@ -1671,6 +1692,11 @@ export const NotificationsAnalytics: React.FC = () => {
         </TrackedChart>
       )}
 
+      {/* Follower Growth */}
+      <TrackedChart chartName="follower_growth">
+        <FollowerGrowth />
+      </TrackedChart>
+
       {/* Engagement Summary */}
       <div className="bsky-card p-4">
         <div className="flex flex-wrap items-center justify-between gap-4">
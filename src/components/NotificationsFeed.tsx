@@ -3,6 +3,7 @@ import { debug } from "@bsky/shared";
 import { formatDistanceToNow } from "date-fns";
 import {
   AtSign,
+  CheckCheck,
   ChevronUp,
   Crown,
   Filter,
@@ -11,6 +12,8 @@ import {
   Loader,
   MessageCircle,
   MoreVertical,
+  Newspaper,
+  Pin,
   Quote,
   Repeat2,
   UserPlus,
@@ -23,23 +26,36 @@ import {
   useNotificationTracking,
 } from "../hooks/useAnalytics";
 import { useFollowing } from "../hooks/useFollowing";
+import { useNotificationGroupingPrefs } from "../hooks/useNotificationGrouping";
 import {
   postHasImages,
   useNotificationPosts,
 } from "../hooks/useNotificationPosts";
+import {
+  useMarkReadOnScroll,
+  useNotificationReadState,
+} from "../hooks/useNotificationReadState";
+import { useNotificationRuleOutcomes } from "../hooks/useNotificationRules";
 import {
   useMarkNotificationsRead,
   useNotifications,
   useUnreadCount,
 } from "../hooks/useNotifications";
+import { getAggregationWindowMs } from "../services/notification-grouping";
+import {
+  applyReadState,
+  notificationReadState,
+} from "../services/notification-read-state";
 import { proxifyBskyImage } from "../utils/image-proxy";
 import { getNotificationUrl } from "../utils/url-helpers";
 import {
   AggregatedNotificationItem,
   aggregateNotifications,
 } from "./NotificationAggregator";
+import { NotificationDigest } from "./NotificationDigest";
 import { ThreadModal } from "./ThreadModal";
 import { TopAccountsView } from "./TopAccountsView";
+import { TranslationToggle } from "./TranslationToggle";
 
 type NotificationFilter =
   | "all"
@@ -51,9 +67,17 @@ type NotificationFilter =
   | "quotes"
   | "images"
   | "top-accounts"
-  | "from-following";
+  | "from-following"
+  | "digest";
+
+interface NotificationsFeedProps {
+  // Reports how many loaded notifications are unread, for the column header
+  onUnreadCountChange?: (count: number) => void;
+}
 
-export const NotificationsFeed: React.FC = () => {
+export const NotificationsFeed: React.FC<NotificationsFeedProps> = ({
+  onUnreadCountChange,
+}) => {
   const navigate = useNavigate();
   const location = useLocation();
   const searchParams = new URLSearchParams(location.search);
@@ -69,6 +93,7 @@ export const NotificationsFeed: React.FC = () => {
   const [showConfigModal, setShowConfigModal] = useState(false);
   const [showMoreFilters, setShowMoreFilters] = useState(false);
   const [selectedPostUri, setSelectedPostUri] = useState<string | null>(null);
+  const groupingPrefs = useNotificationGroupingPrefs();
   // Removed isFromCache state - no longer needed without header
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const moreFiltersRef = useRef<HTMLDivElement>(null);
@@ -99,21 +124,9 @@ export const NotificationsFeed: React.FC = () => {
     isFetchingNextPage,
   } = useNotifications();
   const { data: unreadCount } = useUnreadCount();
-  const { mutate: markAsRead } = useMarkNotificationsRead();
+  const { mutate: markAllRead } = useMarkNotificationsRead();
   const { data: followingSet, isLoading: isLoadingFollowing } = useFollowing();
-
-  // Clear unread indicator when component mounts (user navigates to notifications)
-  useEffect(() => {
-    // Only mark as read if we have unread notifications
-    if (unreadCount && unreadCount > 0) {
-      // Small delay to ensure the user has seen the page
-      const timer = setTimeout(() => {
-        markAsRead();
-      }, 1500); // 1.5 second delay - enough time for page to load
-
-      return () => clearTimeout(timer);
-    }
-  }, []); // Only run once on mount
+  const readState = useNotificationReadState();
 
   const notifications = React.useMemo(() => {
     const timestamp = new Date().toLocaleTimeString();
@@ -201,6 +214,53 @@ export const NotificationsFeed: React.FC = () => {
     percentageFetched,
   } = useNotificationPosts(notifications);
 
+  // Create a map for quick post lookup
+  const postMap = React.useMemo(() => {
+    if (!posts) return new Map();
+    const map = new Map(posts.map((post) => [post.uri, post]));
+    return map;
+  }, [posts]); // Remove unnecessary fetchedPosts dependency
+
+  const ruleOutcomes = useNotificationRuleOutcomes(notifications, {
+    postMap,
+    followingSet,
+  });
+
+  // Notifications as the user's rules and the read state leave them: hidden
+  // ones dropped and auto-read or already seen ones shown as read
+  const visibleNotifications = React.useMemo(() => {
+    const read = applyReadState(notifications, readState);
+    if (ruleOutcomes.size === 0) return read;
+    return read
+      .filter((n: Notification) => !ruleOutcomes.get(n.uri)?.hide)
+      .map((n: Notification) =>
+        !n.isRead && ruleOutcomes.get(n.uri)?.markRead
+          ? { ...n, isRead: true }
+          : n,
+      );
+  }, [notifications, readState, ruleOutcomes]);
+
+  const unreadInFeed = React.useMemo(
+    () => visibleNotifications.filter((n: Notification) => !n.isRead).length,
+    [visibleNotifications],
+  );
+  useEffect(() => {
+    onUnreadCountChange?.(unreadInFeed);
+  }, [unreadInFeed, onUnreadCountChange]);
+
+  // Scrolling past notifications marks them read and advances seenAt
+  const trackRead = useMarkReadOnScroll(visibleNotifications);
+  const markRead = React.useCallback(
+    (items: Notification[]) =>
+      notificationReadState.markRead(items, visibleNotifications),
+    [visibleNotifications],
+  );
+  const markReadUpTo = React.useCallback(
+    (notification: Notification) =>
+      notificationReadState.markReadUpTo(notification, visibleNotifications),
+    [visibleNotifications],
+  );
+
   // Set up intersection observer to load more notifications
   useEffect(() => {
     if (!loadMoreRef.current || !hasNextPage || isFetchingNextPage) return;
@@ -223,9 +283,9 @@ export const NotificationsFeed: React.FC = () => {
   // This was causing the UI to flicker as it loaded 3 times automatically
 
   const filteredNotifications = React.useMemo(() => {
-    if (!notifications) return [];
+    if (!visibleNotifications) return [];
 
-    let filtered = notifications;
+    let filtered = visibleNotifications;
 
     if (filter === "images") {
       // Filter notifications that have posts with images
@@ -250,12 +310,13 @@ export const NotificationsFeed: React.FC = () => {
     } else if (
       filter !== "all" &&
       filter !== "top-accounts" &&
-      filter !== "from-following"
+      filter !== "from-following" &&
+      filter !== "digest"
     ) {
       const filterMap: Record<
         Exclude<
           NotificationFilter,
-          "all" | "images" | "top-accounts" | "from-following"
+          "all" | "images" | "top-accounts" | "from-following" | "digest"
         >,
         string[]
       > = {
@@ -270,7 +331,7 @@ export const NotificationsFeed: React.FC = () => {
         filterMap[
           filter as Exclude<
             NotificationFilter,
-            "all" | "images" | "top-accounts" | "from-following"
+            "all" | "images" | "top-accounts" | "from-following" | "digest"
           >
         ].includes(n.reason),
       );
@@ -289,12 +350,36 @@ export const NotificationsFeed: React.FC = () => {
     // }
 
     return filtered;
-  }, [notifications, filter, posts, followingSet]);
+  }, [visibleNotifications, filter, posts, followingSet]);
+
+  // Matches of pin rules go above the rest of the feed
+  const pinnedNotifications = React.useMemo(
+    () =>
+      filteredNotifications.filter(
+        (n: Notification) => ruleOutcomes.get(n.uri)?.pin,
+      ),
+    [filteredNotifications, ruleOutcomes],
+  );
+  const feedNotifications = React.useMemo(
+    () =>
+      pinnedNotifications.length === 0
+        ? filteredNotifications
+        : filteredNotifications.filter(
+            (n: Notification) => !ruleOutcomes.get(n.uri)?.pin,
+          ),
+    [filteredNotifications, pinnedNotifications, ruleOutcomes],
+  );
+
+  const isHighlighted = React.useCallback(
+    (notification: Notification) =>
+      !!ruleOutcomes.get(notification.uri)?.highlight,
+    [ruleOutcomes],
+  );
 
   // Calculate counts for each filter type
   const filterCounts = React.useMemo(() => {
     const counts: Record<NotificationFilter, number> = {
-      all: notifications?.length || 0,
+      all: visibleNotifications.length || 0,
       likes: 0,
       reposts: 0,
       follows: 0,
@@ -304,10 +389,11 @@ export const NotificationsFeed: React.FC = () => {
       images: 0,
       "top-accounts": 0,
       "from-following": 0,
+      digest: 0,
     };
 
     // Count notifications by type
-    notifications?.forEach((n: Notification) => {
+    visibleNotifications.forEach((n: Notification) => {
       switch (n.reason) {
         case "like":
           counts.likes++;
@@ -340,7 +426,7 @@ export const NotificationsFeed: React.FC = () => {
       const postsWithImages = new Set(
         posts.filter(postHasImages).map((post) => post.uri),
       );
-      notifications.forEach((n: Notification) => {
+      visibleNotifications.forEach((n: Notification) => {
         if (["like", "repost", "reply", "quote"].includes(n.reason)) {
           const postUri =
             (n.reason === "repost" || n.reason === "like") && n.reasonSubject
@@ -357,14 +443,7 @@ export const NotificationsFeed: React.FC = () => {
     // This is handled separately in TopAccountsView component
 
     return counts;
-  }, [notifications, posts, followingSet]);
-
-  // Create a map for quick post lookup
-  const postMap = React.useMemo(() => {
-    if (!posts) return new Map();
-    const map = new Map(posts.map((post) => [post.uri, post]));
-    return map;
-  }, [posts]); // Remove unnecessary fetchedPosts dependency
+  }, [visibleNotifications, posts, followingSet]);
 
   const getNotificationIcon = React.useCallback((reason: string) => {
     switch (reason) {
@@ -517,6 +596,12 @@ export const NotificationsFeed: React.FC = () => {
                     count={filterCounts["from-following"]}
                     disabled={isLoadingFollowing}
                   />
+                  <FilterTab
+                    active={filter === "digest"}
+                    onClick={() => handleFilterChange("digest")}
+                    icon={<Newspaper size={16} />}
+                    label="Digest"
+                  />
                   {showTopAccounts && (
                     <FilterTab
                       active={filter === "top-accounts"}
@@ -597,6 +682,18 @@ export const NotificationsFeed: React.FC = () => {
                         </span>
                       )}
                     </button>
+                    <button
+                      onClick={() => {
+                        handleFilterChange("digest");
+                        setShowMoreFilters(false);
+                      }}
+                      className={`flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-bsky-bg-hover ${
+                        filter === "digest" ? "text-blue-500" : ""
+                      }`}
+                    >
+                      <Newspaper size={16} />
+                      <span>Digest</span>
+                    </button>
                     {showTopAccounts && (
                       <button
                         onClick={() => {
@@ -622,9 +719,9 @@ export const NotificationsFeed: React.FC = () => {
             </div>
 
             {/* Mark all as read button */}
-            {unreadCount && unreadCount > 0 && (
+            {(unreadInFeed > 0 || !!unreadCount) && (
               <button
-                onClick={() => markAsRead()}
+                onClick={() => markAllRead()}
                 className="flex items-center gap-1 rounded-md px-3 py-1.5 text-sm font-medium text-bsky-primary transition-all hover:bg-bsky-bg-secondary"
                 title="Mark all notifications as read"
               >
@@ -685,12 +782,52 @@ export const NotificationsFeed: React.FC = () => {
 
       {/* Notifications list */}
       <div className="px-3 sm:px-6">
+        {filter !== "top-accounts" &&
+          filter !== "digest" &&
+          pinnedNotifications.length > 0 && (
+            <div
+              className="border-b-2"
+              style={{ borderColor: "var(--bsky-border-primary)" }}
+            >
+              <div
+                className="flex items-center gap-1.5 px-3 pb-1 pt-3 text-xs font-semibold uppercase tracking-wide"
+                style={{ color: "var(--bsky-text-secondary)" }}
+              >
+                <Pin size={12} />
+                Pinned by your rules
+              </div>
+              {pinnedNotifications.map((notification: Notification) => (
+                <ReadTracked
+                  key={`pinned-${notification.uri}`}
+                  notifications={[notification]}
+                  trackRead={trackRead}
+                  onMarkReadUpTo={markReadUpTo}
+                >
+                  <NotificationItem
+                    notification={notification}
+                    postMap={postMap}
+                    getNotificationIcon={getNotificationIcon}
+                    showTypeLabel
+                    isFetchingMore={isFetchingMore}
+                    fetchedPosts={fetchedPosts}
+                    totalPosts={totalPosts}
+                    percentageFetched={percentageFetched}
+                    setSelectedPostUri={setSelectedPostUri}
+                    markAsRead={markRead}
+                    highlighted={isHighlighted(notification)}
+                  />
+                </ReadTracked>
+              ))}
+            </div>
+          )}
         {filter === "top-accounts" ? (
           <TopAccountsView
             notifications={notifications}
             minFollowerCount={minFollowerCount}
             onConfigClick={() => setShowConfigModal(true)}
           />
+        ) : filter === "digest" ? (
+          <NotificationDigest onOpenPost={setSelectedPostUri} />
         ) : filteredNotifications.length === 0 ? (
           <div
             className="p-6 text-center sm:p-12"
@@ -711,7 +848,11 @@ export const NotificationsFeed: React.FC = () => {
           // Show aggregated notifications for tabs that support aggregation
           (() => {
             const processedNotifications = aggregateNotifications(
-              filteredNotifications,
+              feedNotifications,
+              {
+                strategy: groupingPrefs.strategy,
+                windowMs: getAggregationWindowMs(groupingPrefs),
+              },
             );
 
             return processedNotifications.map((item, index) => {
@@ -720,7 +861,12 @@ export const NotificationsFeed: React.FC = () => {
                 const isExpanded = expandedAggregations.has(aggregationKey);
 
                 return (
-                  <div key={aggregationKey}>
+                  <ReadTracked
+                    key={aggregationKey}
+                    notifications={item.notifications}
+                    trackRead={trackRead}
+                    onMarkReadUpTo={markReadUpTo}
+                  >
                     <AggregatedNotificationItem
                       item={item}
                       postMap={postMap}
@@ -729,7 +875,8 @@ export const NotificationsFeed: React.FC = () => {
                       fetchedPosts={fetchedPosts}
                       totalPosts={totalPosts}
                       percentageFetched={percentageFetched}
-                      markAsRead={markAsRead}
+                      markAsRead={markRead}
+                      highlighted={item.notifications.some(isHighlighted)}
                       onNavigate={(url) => {
                         // Check if this is a thread URL
                         if (url.startsWith("/thread/")) {
@@ -738,11 +885,12 @@ export const NotificationsFeed: React.FC = () => {
                           // For thread URLs, we need to use the correct URI based on notification type
                           const firstNotification = item.notifications[0];
                           const postUri =
-                            (item.reason === "repost" ||
+                            item.subjectUri ||
+                            ((item.reason === "repost" ||
                               item.reason === "like") &&
                             firstNotification.reasonSubject
                               ? firstNotification.reasonSubject
-                              : firstNotification.uri;
+                              : firstNotification.uri);
                           setSelectedPostUri(postUri);
                         } else if (url.startsWith("/profile/")) {
                           // Navigate to profile
@@ -784,7 +932,8 @@ export const NotificationsFeed: React.FC = () => {
                             totalPosts={totalPosts}
                             percentageFetched={percentageFetched}
                             setSelectedPostUri={setSelectedPostUri}
-                            markAsRead={markAsRead}
+                            markAsRead={markRead}
+                            highlighted={isHighlighted(notification)}
                           />
                         ))}
                         <button
@@ -804,48 +953,62 @@ export const NotificationsFeed: React.FC = () => {
                         </button>
                       </div>
                     )}
-                  </div>
+                  </ReadTracked>
                 );
               } else {
                 return (
-                  <NotificationItem
+                  <ReadTracked
                     key={`${item.notification.uri}-${item.notification.indexedAt}`}
-                    notification={item.notification}
-                    postMap={postMap}
-                    getNotificationIcon={getNotificationIcon}
-                    showTypeLabel={filter === "all"}
-                    isFetchingMore={isFetchingMore}
-                    fetchedPosts={fetchedPosts}
-                    totalPosts={totalPosts}
-                    percentageFetched={percentageFetched}
-                    setSelectedPostUri={setSelectedPostUri}
-                    markAsRead={markAsRead}
-                  />
+                    notifications={[item.notification]}
+                    trackRead={trackRead}
+                    onMarkReadUpTo={markReadUpTo}
+                  >
+                    <NotificationItem
+                      notification={item.notification}
+                      postMap={postMap}
+                      getNotificationIcon={getNotificationIcon}
+                      showTypeLabel={filter === "all"}
+                      isFetchingMore={isFetchingMore}
+                      fetchedPosts={fetchedPosts}
+                      totalPosts={totalPosts}
+                      percentageFetched={percentageFetched}
+                      setSelectedPostUri={setSelectedPostUri}
+                      markAsRead={markRead}
+                      highlighted={isHighlighted(item.notification)}
+                    />
+                  </ReadTracked>
                 );
               }
             });
           })()
         ) : (
           // Show regular notifications for mentions, replies, and images tabs (no aggregation)
-          filteredNotifications.map((notification: Notification) => (
-            <NotificationItem
+          feedNotifications.map((notification: Notification) => (
+            <ReadTracked
               key={`${notification.uri}-${notification.indexedAt}`}
-              notification={notification}
-              postMap={postMap}
-              getNotificationIcon={getNotificationIcon}
-              showTypeLabel={filter === "all"}
-              isFetchingMore={isFetchingMore}
-              fetchedPosts={fetchedPosts}
-              totalPosts={totalPosts}
-              percentageFetched={percentageFetched}
-              setSelectedPostUri={setSelectedPostUri}
-              markAsRead={markAsRead}
-            />
+              notifications={[notification]}
+              trackRead={trackRead}
+              onMarkReadUpTo={markReadUpTo}
+            >
+              <NotificationItem
+                notification={notification}
+                postMap={postMap}
+                getNotificationIcon={getNotificationIcon}
+                showTypeLabel={filter === "all"}
+                isFetchingMore={isFetchingMore}
+                fetchedPosts={fetchedPosts}
+                totalPosts={totalPosts}
+                percentageFetched={percentageFetched}
+                setSelectedPostUri={setSelectedPostUri}
+                markAsRead={markRead}
+                highlighted={isHighlighted(notification)}
+              />
+            </ReadTracked>
           ))
         )}
 
         {/* Loading more indicator */}
-        {(hasNextPage || isFetchingNextPage) && (
+        {filter !== "digest" && (hasNextPage || isFetchingNextPage) && (
           <div ref={loadMoreRef} className="flex justify-center p-8">
             {isFetchingNextPage ? (
               <div
@@ -871,7 +1034,7 @@ export const NotificationsFeed: React.FC = () => {
         )}
 
         {/* End of notifications message */}
-        {!hasNextPage && notifications.length > 0 && (
+        {filter !== "digest" && !hasNextPage && notifications.length > 0 && (
           <div className="p-8 text-center">
             <div className="bsky-badge mb-2">
               {notifications.length >= 1000
@@ -1020,6 +1183,48 @@ function getNotificationText(reason: string): string {
   }
 }
 
+interface ReadTrackedProps {
+  notifications: Notification[];
+  trackRead: (
+    notifications: Notification[],
+  ) => (element: Element | null) => void;
+  onMarkReadUpTo: (notification: Notification) => void;
+  children: React.ReactNode;
+}
+
+// Marks its notifications read once scrolled past, and offers "mark all read
+// up to here" while any is unread
+const ReadTracked: React.FC<ReadTrackedProps> = ({
+  notifications,
+  trackRead,
+  onMarkReadUpTo,
+  children,
+}) => {
+  const newest = notifications.reduce((a, b) =>
+    a.indexedAt >= b.indexedAt ? a : b,
+  );
+
+  return (
+    <div ref={trackRead(notifications)} className="group relative">
+      {children}
+      {notifications.some((n) => !n.isRead) && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onMarkReadUpTo(newest);
+          }}
+          className="absolute right-2 top-2 hidden rounded-md p-1 transition-colors hover:bg-bsky-bg-hover group-hover:block"
+          style={{ color: "var(--bsky-text-secondary)" }}
+          title="Mark all read up to here"
+          aria-label="Mark all read up to here"
+        >
+          <CheckCheck size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
+
 interface NotificationItemProps {
   notification: Notification;
   postMap: Map<string, any>;
@@ -1030,7 +1235,8 @@ interface NotificationItemProps {
   totalPosts?: number;
   percentageFetched?: number;
   setSelectedPostUri: (uri: string | null) => void;
-  markAsRead: () => void;
+  markAsRead: (notifications: Notification[]) => void;
+  highlighted?: boolean;
 }
 
 const NotificationItem: React.FC<NotificationItemProps> = React.memo(
@@ -1045,6 +1251,7 @@ const NotificationItem: React.FC<NotificationItemProps> = React.memo(
     percentageFetched = 100,
     setSelectedPostUri,
     markAsRead,
+    highlighted = false,
   }) => {
     const navigate = useNavigate();
     // Get the post for all notification types that reference posts
@@ -1292,6 +1499,11 @@ const NotificationItem: React.FC<NotificationItemProps> = React.memo(
             <p className="text-sm leading-relaxed text-bsky-text-primary">
               {(notification.record as { text?: string }).text}
             </p>
+            <TranslationToggle
+              uri={notification.uri}
+              text={(notification.record as { text?: string }).text || ""}
+              langs={(notification.record as { langs?: string[] }).langs}
+            />
           </div>
         );
       }
@@ -1315,6 +1527,11 @@ const NotificationItem: React.FC<NotificationItemProps> = React.memo(
             >
               {(notification.record as { text?: string }).text}
             </p>
+            <TranslationToggle
+              uri={notification.uri}
+              text={(notification.record as { text?: string }).text || ""}
+              langs={(notification.record as { langs?: string[] }).langs}
+            />
           </div>
         );
       }
@@ -1328,7 +1545,7 @@ const NotificationItem: React.FC<NotificationItemProps> = React.memo(
 
       // Mark notification as read when clicked
       if (!notification.isRead) {
-        markAsRead();
+        markAsRead([notification]);
       }
 
       // For likes, reposts, replies, mentions, and quotes - open thread modal
@@ -1360,7 +1577,11 @@ const NotificationItem: React.FC<NotificationItemProps> = React.memo(
     return (
       <div
         className={`bsky-notification cursor-pointer px-3 py-2 ${
-          !notification.isRead ? "bsky-notification-unread" : ""
+          highlighted
+            ? "bsky-notification-highlighted"
+            : !notification.isRead
+              ? "bsky-notification-unread"
+              : ""
         }`}
         onClick={handleNotificationClick}
       >
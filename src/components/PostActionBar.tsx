@@ -1,7 +1,16 @@
 import type { AppBskyFeedDefs } from "@atproto/api";
-import { Bookmark, Heart, MessageCircle, Repeat2, Share } from "lucide-react";
+import {
+  Bookmark,
+  Heart,
+  MessageCircle,
+  Quote,
+  Repeat2,
+  Share,
+} from "lucide-react";
 import React, { memo } from "react";
+import { useNavigate } from "react-router";
 import { useBookmarks } from "../hooks/useBookmarks";
+import { getQuoteComposerUrl } from "../utils/url-helpers";
 import { PostMenu } from "./PostMenu";
 
 interface PostActionBarProps {
@@ -27,11 +36,14 @@ export const PostActionBar: React.FC<PostActionBarProps> = memo(
     isReplying = false,
   }) => {
     const { isBookmarked, toggleBookmark } = useBookmarks();
+    const navigate = useNavigate();
 
     const iconSize = size === "small" ? 14 : size === "medium" ? 16 : 18;
     const isLiked = !!post.viewer?.like;
     const isReposted = !!post.viewer?.repost;
     const bookmarked = isBookmarked(post.uri);
+    // The author can turn off quoting with a postgate
+    const canQuote = !post.viewer?.embeddingDisabled;
 
     const handleAction = (e: React.MouseEvent, action?: () => void) => {
       e.preventDefault();
@@ -92,6 +104,24 @@ export const PostActionBar: React.FC<PostActionBarProps> = memo(
           )}
         </button>
 
+        {/* Quote */}
+        {canQuote && (
+          <button
+            className="flex cursor-pointer items-center gap-1.5 rounded-md border-none bg-transparent p-2 text-bsky-text-secondary transition-colors duration-150 hover:text-green-600"
+            onClick={(e) =>
+              handleAction(e, () => navigate(getQuoteComposerUrl(post.uri)))
+            }
+            aria-label="Quote"
+          >
+            <Quote size={iconSize} />
+            {showCounts && (
+              <span className="min-w-[1rem] text-left text-xs font-medium">
+                {post.quoteCount || 0}
+              </span>
+            )}
+          </button>
+        )}
+
         {/* Like */}
         <button
           className={`flex cursor-pointer items-center gap-1.5 rounded-md border-none bg-transparent p-2 text-bsky-text-secondary transition-colors duration-150 hover:text-red-600 ${
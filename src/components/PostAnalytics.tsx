@@ -0,0 +1,512 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import { useQuery } from "@tanstack/react-query";
+import {
+  format,
+  formatDistanceStrict,
+  formatDistanceToNow,
+  subDays,
+} from "date-fns";
+import {
+  ArrowLeft,
+  BarChart3,
+  Clock,
+  Heart,
+  Loader2,
+  MessageCircle,
+  Quote,
+  Repeat2,
+  TrendingUp,
+} from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { useAuth } from "../contexts/AuthContext";
+import { usePostsByUris } from "../hooks/usePostsByUris";
+import { NotificationCacheService } from "../services/notification-cache-service";
+import { NotificationStorageDB } from "../services/notification-storage-db";
+import {
+  buildEngagementCurve,
+  collectPostEngagement,
+  ENGAGEMENT_KINDS,
+  getPeakHour,
+  getTimeToFirstReply,
+  median,
+  type EngagementKind,
+  type PostEngagement,
+} from "../services/post-analytics";
+import { proxifyBskyImage } from "../utils/image-proxy";
+import { BackgroundNotificationLoader } from "./BackgroundNotificationLoader";
+import { ThreadModal } from "./ThreadModal";
+
+type Post = AppBskyFeedDefs.PostView;
+type TimeRange = "7d" | "30d" | "90d";
+
+const RANGE_DAYS: Record<TimeRange, number> = { "7d": 7, "30d": 30, "90d": 90 };
+const MAX_POSTS = 50;
+
+const KIND_STYLES: Record<
+  EngagementKind,
+  { label: string; color: string; Icon: typeof Heart }
+> = {
+  like: { label: "Likes", color: "var(--bsky-like)", Icon: Heart },
+  repost: { label: "Reposts", color: "var(--bsky-repost)", Icon: Repeat2 },
+  reply: { label: "Replies", color: "var(--bsky-reply)", Icon: MessageCircle },
+  quote: { label: "Quotes", color: "var(--bsky-quote)", Icon: Quote },
+};
+
+const getPostedAt = (post: Post | undefined, engagement: PostEngagement) =>
+  (post?.record as { createdAt?: string } | undefined)?.createdAt ||
+  post?.indexedAt ||
+  new Date(engagement.events[0].at).toISOString();
+
+const getPostText = (post: Post | undefined) =>
+  (post?.record as { text?: string } | undefined)?.text || "";
+
+const Sparkline: React.FC<{ engagement: PostEngagement }> = ({
+  engagement,
+}) => {
+  const { events } = engagement;
+  const curve = buildEngagementCurve(
+    events,
+    events[0].at,
+    events[events.length - 1].at,
+    24,
+  );
+  const points = curve
+    .map((point, i) => {
+      const total = ENGAGEMENT_KINDS.reduce(
+        (sum, kind) => sum + point.counts[kind],
+        0,
+      );
+      return `${(i / (curve.length - 1)) * 80},${24 - (total / engagement.total) * 22}`;
+    })
+    .join(" ");
+
+  return (
+    <svg width={80} height={26} className="flex-shrink-0">
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={1.5}
+        style={{ stroke: "var(--bsky-primary)" }}
+      />
+    </svg>
+  );
+};
+
+const EngagementChart: React.FC<{
+  engagement: PostEngagement;
+  start: number;
+  end: number;
+}> = ({ engagement, start, end }) => {
+  const width = 600;
+  const height = 160;
+  const curve = buildEngagementCurve(engagement.events, start, end, 60);
+  const max = Math.max(
+    1,
+    ...ENGAGEMENT_KINDS.map((kind) => curve[curve.length - 1].counts[kind]),
+  );
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="h-40 w-full"
+        style={{ backgroundColor: "var(--bsky-bg-primary)" }}
+      >
+        {ENGAGEMENT_KINDS.filter((kind) => engagement.counts[kind] > 0).map(
+          (kind) => (
+            <polyline
+              key={kind}
+              fill="none"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              style={{ stroke: KIND_STYLES[kind].color }}
+              points={curve
+                .map(
+                  (point, i) =>
+                    `${(i / (curve.length - 1)) * width},${
+                      height - 4 - (point.counts[kind] / max) * (height - 8)
+                    }`,
+                )
+                .join(" ")}
+            />
+          ),
+        )}
+      </svg>
+      <div
+        className="mt-1 flex justify-between text-xs"
+        style={{ color: "var(--bsky-text-tertiary)" }}
+      >
+        <span>{format(start, "MMM d, h:mm a")}</span>
+        <span>{format(end, "MMM d, h:mm a")}</span>
+      </div>
+    </div>
+  );
+};
+
+const PostDetail: React.FC<{
+  engagement: PostEngagement;
+  post: Post | undefined;
+  medianTotal: number;
+  rangeStart: number;
+  onOpenThread: () => void;
+}> = ({ engagement, post, medianTotal, rangeStart, onOpenThread }) => {
+  const postedAt = getPostedAt(post, engagement);
+  const timeToFirstReply = getTimeToFirstReply(engagement, postedAt);
+  const peakHour = getPeakHour(engagement);
+  // Older posts only have the part of their engagement inside the range
+  const chartStart = Math.max(new Date(postedAt).getTime(), rangeStart);
+
+  const stats = [
+    {
+      label: "First reply",
+      value:
+        timeToFirstReply === null
+          ? "No replies"
+          : `after ${formatDistanceStrict(0, timeToFirstReply)}`,
+    },
+    {
+      label: "Peak hour",
+      value: peakHour
+        ? `${format(peakHour.start, "MMM d, h a")} · ${peakHour.count}`
+        : "-",
+    },
+    {
+      label: "Vs. your median",
+      value: medianTotal
+        ? `${(engagement.total / medianTotal).toFixed(1)}× (${medianTotal})`
+        : "-",
+    },
+  ];
+
+  return (
+    <div
+      className="space-y-4 border-t p-4"
+      style={{ borderColor: "var(--bsky-border-primary)" }}
+    >
+      <div
+        className="flex flex-wrap items-center gap-3 text-xs"
+        style={{ color: "var(--bsky-text-secondary)" }}
+      >
+        {ENGAGEMENT_KINDS.map((kind) => (
+          <span key={kind} className="flex items-center gap-1">
+            <span
+              className="h-3 w-3 rounded"
+              style={{ backgroundColor: KIND_STYLES[kind].color }}
+            />
+            {KIND_STYLES[kind].label}
+          </span>
+        ))}
+      </div>
+      <EngagementChart
+        engagement={engagement}
+        start={chartStart}
+        end={Date.now()}
+      />
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        {stats.map(({ label, value }) => (
+          <div
+            key={label}
+            className="rounded-lg p-3"
+            style={{ backgroundColor: "var(--bsky-bg-tertiary)" }}
+          >
+            <div
+              className="text-xs"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              {label}
+            </div>
+            <div
+              className="text-sm font-semibold"
+              style={{ color: "var(--bsky-text-primary)" }}
+            >
+              {value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {engagement.repostDrivers.length > 0 && (
+        <div>
+          <div
+            className="mb-2 text-sm font-medium"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            Reposted by
+          </div>
+          <div className="space-y-2">
+            {engagement.repostDrivers.slice(0, 10).map((driver) => (
+              <Link
+                key={`${driver.author.did}-${driver.repostedAt}`}
+                to={`/profile/${driver.author.handle}`}
+                className="flex items-center gap-2 text-sm hover:opacity-80"
+              >
+                {driver.author.avatar ? (
+                  <img
+                    src={proxifyBskyImage(driver.author.avatar)}
+                    alt={driver.author.handle}
+                    className="h-6 w-6 rounded-full object-cover"
+                  />
+                ) : (
+                  <div
+                    className="h-6 w-6 rounded-full"
+                    style={{ backgroundColor: "var(--bsky-bg-tertiary)" }}
+                  />
+                )}
+                <span
+                  className="min-w-0 flex-1 truncate"
+                  style={{ color: "var(--bsky-text-primary)" }}
+                >
+                  {driver.author.displayName || driver.author.handle}
+                </span>
+                <span
+                  className="flex-shrink-0 text-xs"
+                  style={{ color: "var(--bsky-text-secondary)" }}
+                >
+                  {driver.driven > 0
+                    ? `${driver.driven} via their repost`
+                    : formatDistanceToNow(new Date(driver.repostedAt), {
+                        addSuffix: true,
+                      })}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={onOpenThread}
+        className="rounded-lg px-3 py-2 text-sm font-medium transition-colors"
+        style={{
+          backgroundColor: "var(--bsky-bg-tertiary)",
+          color: "var(--bsky-text-primary)",
+          border: "1px solid var(--bsky-border-primary)",
+        }}
+      >
+        Open thread
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Engagement on the signed-in user's own posts, from the notifications stored
+ * on this device. `?post=<uri>` opens straight into one post.
+ */
+export const PostAnalytics: React.FC = () => {
+  const { session } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [timeRange, setTimeRange] = useState<TimeRange>("30d");
+  const [threadUri, setThreadUri] = useState<string | null>(null);
+  const selectedUri = searchParams.get("post");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["postAnalytics", session?.did, timeRange],
+    queryFn: async () => {
+      const end = new Date();
+      const start = subDays(end, RANGE_DAYS[timeRange]);
+      await NotificationCacheService.getInstance().init();
+      const notifications =
+        await NotificationStorageDB.getInstance().getNotificationsBetween(
+          start,
+          end,
+        );
+      return {
+        start: start.getTime(),
+        engagement: collectPostEngagement(notifications, session!.did),
+      };
+    },
+    enabled: !!session?.did,
+    networkMode: "always",
+  });
+
+  const { rows, medianTotal } = useMemo(() => {
+    const engagement = [...(data?.engagement || [])].sort(
+      (a, b) => b.total - a.total,
+    );
+    const rows = engagement.slice(0, MAX_POSTS);
+    const selected = engagement.find((e) => e.uri === selectedUri);
+    if (selected && !rows.includes(selected)) rows.push(selected);
+    return {
+      rows,
+      medianTotal: median(engagement.map((e) => e.total)),
+    };
+  }, [data, selectedUri]);
+
+  const { data: posts = [] } = usePostsByUris(rows.map((row) => row.uri));
+  const postMap = useMemo(
+    () => new Map(posts.map((post) => [post.uri, post])),
+    [posts],
+  );
+
+  const toggle = (uri: string) =>
+    setSearchParams(uri === selectedUri ? {} : { post: uri }, {
+      replace: true,
+    });
+
+  const selectedMissing =
+    !!selectedUri && !!data && !rows.some((row) => row.uri === selectedUri);
+
+  return (
+    <div className="space-y-6 p-6">
+      <BackgroundNotificationLoader />
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link
+            to="/analytics"
+            className="mb-2 flex items-center gap-1 text-sm hover:opacity-80"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            <ArrowLeft size={14} />
+            Analytics
+          </Link>
+          <h1
+            className="mb-2 text-2xl font-bold"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            My posts
+          </h1>
+          <div
+            className="flex items-center gap-4 text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            <span className="flex items-center gap-1">
+              <BarChart3 size={16} />
+              {data?.engagement.length || 0} posts with engagement
+            </span>
+            <span className="flex items-center gap-1">
+              <TrendingUp size={16} />
+              {medianTotal} median
+            </span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {(Object.keys(RANGE_DAYS) as TimeRange[]).map((range) => (
+            <button
+              key={range}
+              onClick={() => setTimeRange(range)}
+              className={`rounded-lg px-3 py-1 text-sm transition-all ${
+                timeRange === range ? "font-semibold" : ""
+              }`}
+              style={{
+                backgroundColor:
+                  timeRange === range
+                    ? "var(--bsky-primary)"
+                    : "var(--bsky-bg-tertiary)",
+                color:
+                  timeRange === range ? "white" : "var(--bsky-text-secondary)",
+              }}
+            >
+              {range}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {selectedMissing && (
+        <div
+          className="rounded-lg p-3 text-sm"
+          style={{
+            backgroundColor: "var(--bsky-bg-tertiary)",
+            color: "var(--bsky-text-secondary)",
+          }}
+        >
+          No stored engagement for that post in the last {RANGE_DAYS[timeRange]}{" "}
+          days.
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2
+            className="animate-spin"
+            size={24}
+            style={{ color: "var(--bsky-text-secondary)" }}
+          />
+        </div>
+      ) : rows.length === 0 ? (
+        <div
+          className="py-12 text-center text-sm"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          No likes, reposts, replies or quotes on your posts in this range yet.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rows.map((engagement) => {
+            const post = postMap.get(engagement.uri);
+            const isSelected = engagement.uri === selectedUri;
+            return (
+              <div
+                key={engagement.uri}
+                className="bsky-card overflow-hidden"
+                style={{ background: "var(--bsky-bg-secondary)" }}
+              >
+                <button
+                  onClick={() => toggle(engagement.uri)}
+                  className="flex w-full items-center gap-4 p-4 text-left"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div
+                      className="truncate text-sm"
+                      style={{ color: "var(--bsky-text-primary)" }}
+                    >
+                      {getPostText(post) || (post ? "[No text]" : "...")}
+                    </div>
+                    <div
+                      className="mt-1 flex flex-wrap items-center gap-3 text-xs"
+                      style={{ color: "var(--bsky-text-secondary)" }}
+                    >
+                      <span className="flex items-center gap-1">
+                        <Clock size={12} />
+                        {formatDistanceToNow(
+                          new Date(getPostedAt(post, engagement)),
+                          { addSuffix: true },
+                        )}
+                      </span>
+                      {ENGAGEMENT_KINDS.filter(
+                        (kind) => engagement.counts[kind] > 0,
+                      ).map((kind) => {
+                        const { Icon, color } = KIND_STYLES[kind];
+                        return (
+                          <span key={kind} className="flex items-center gap-1">
+                            <Icon size={12} style={{ color }} />
+                            {engagement.counts[kind]}
+                          </span>
+                        );
+                      })}
+                      {medianTotal > 0 && (
+                        <span>
+                          {(engagement.total / medianTotal).toFixed(1)}× median
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <Sparkline engagement={engagement} />
+                </button>
+                {isSelected && data && (
+                  <PostDetail
+                    engagement={engagement}
+                    post={post}
+                    medianTotal={medianTotal}
+                    rangeStart={data.start}
+                    onOpenThread={() => setThreadUri(engagement.uri)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {threadUri && (
+        <ThreadModal postUri={threadUri} onClose={() => setThreadUri(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import { useQuery } from "@tanstack/react-query";
+import React from "react";
+import { useAuth } from "../contexts/AuthContext";
+import type {
+  PostGateSettings,
+  ReplyAllowance,
+} from "../services/atproto/post-gates";
+
+interface PostGateControlsProps {
+  value: PostGateSettings;
+  onChange: (settings: PostGateSettings) => void;
+  disabled?: boolean;
+}
+
+type ReplyMode = "everyone" | "nobody" | "limited";
+
+const EMPTY_ALLOWANCE: ReplyAllowance = {
+  mention: false,
+  follower: false,
+  following: false,
+  lists: [],
+};
+
+const hasAllowance = (allowance: ReplyAllowance) =>
+  allowance.mention ||
+  allowance.follower ||
+  allowance.following ||
+  allowance.lists.length > 0;
+
+export const PostGateControls: React.FC<PostGateControlsProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const { agent } = useAuth();
+
+  // Same query as the SkyDeck list picker, so the cache is shared
+  const { data: userLists } = useQuery({
+    queryKey: ["userLists", agent?.session?.did],
+    queryFn: async () => {
+      if (!agent || !agent.session?.did) throw new Error("Not authenticated");
+      const response = await agent.app.bsky.graph.getLists({
+        actor: agent.session.did,
+        limit: 50,
+      });
+      return response.data.lists;
+    },
+    enabled: !!agent?.session?.did,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+  });
+  const curateLists = (userLists || []).filter(
+    (list) => list.purpose === "app.bsky.graph.defs#curatelist",
+  );
+
+  const allowance = value.allowReplies;
+  const mode: ReplyMode = !allowance
+    ? "everyone"
+    : hasAllowance(allowance)
+      ? "limited"
+      : "nobody";
+
+  const setMode = (next: ReplyMode) => {
+    onChange({
+      ...value,
+      allowReplies:
+        next === "everyone"
+          ? null
+          : next === "nobody"
+            ? EMPTY_ALLOWANCE
+            : { ...EMPTY_ALLOWANCE, mention: true },
+    });
+  };
+
+  const updateAllowance = (updates: Partial<ReplyAllowance>) => {
+    const next = { ...(allowance || EMPTY_ALLOWANCE), ...updates };
+    onChange({ ...value, allowReplies: next });
+  };
+
+  const toggleList = (uri: string) => {
+    const lists = allowance?.lists || [];
+    updateAllowance({
+      lists: lists.includes(uri)
+        ? lists.filter((list) => list !== uri)
+        : [...lists, uri],
+    });
+  };
+
+  const checkboxRow = (
+    label: string,
+    checked: boolean,
+    onToggle: () => void,
+    key?: string,
+  ) => (
+    <label
+      key={key}
+      className="flex cursor-pointer items-center gap-2 text-sm"
+      style={{ color: "var(--bsky-text-primary)" }}
+    >
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onToggle}
+        disabled={disabled}
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div
+          className="mb-2 text-sm font-medium"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          Who can reply
+        </div>
+        <div className="flex gap-2">
+          {(
+            [
+              ["everyone", "Everyone"],
+              ["limited", "Limited"],
+              ["nobody", "Nobody"],
+            ] as const
+          ).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setMode(id)}
+              disabled={disabled}
+              className={`rounded-full px-3 py-1 text-sm transition-colors ${
+                mode === id ? "bsky-button-primary" : "bsky-button-secondary"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === "limited" && allowance && (
+        <div className="space-y-2 pl-1">
+          {checkboxRow("Mentioned users", allowance.mention, () =>
+            updateAllowance({ mention: !allowance.mention }),
+          )}
+          {checkboxRow("Your followers", allowance.follower, () =>
+            updateAllowance({ follower: !allowance.follower }),
+          )}
+          {checkboxRow("People you follow", allowance.following, () =>
+            updateAllowance({ following: !allowance.following }),
+          )}
+          {curateLists.length > 0 && (
+            <div className="space-y-2 pt-1">
+              <div
+                className="text-xs"
+                style={{ color: "var(--bsky-text-tertiary)" }}
+              >
+                Members of your lists
+              </div>
+              {curateLists.map((list) =>
+                checkboxRow(
+                  list.name,
+                  allowance.lists.includes(list.uri),
+                  () => toggleList(list.uri),
+                  list.uri,
+                ),
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        {checkboxRow("Don't allow quote posts", value.quotesDisabled, () =>
+          onChange({ ...value, quotesDisabled: !value.quotesDisabled }),
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import { Loader, ShieldCheck, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import ReactDOM from "react-dom";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  DEFAULT_POST_GATE_SETTINGS,
+  PostGateService,
+  type PostGateSettings,
+} from "../services/atproto/post-gates";
+import { createLogger } from "../utils/logger";
+import { PostGateControls } from "./PostGateControls";
+
+const logger = createLogger("PostGateModal");
+
+interface PostGateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  postUri: string;
+  onSaved?: (settings: PostGateSettings) => void;
+}
+
+export function PostGateModal({
+  isOpen,
+  onClose,
+  postUri,
+  onSaved,
+}: PostGateModalProps) {
+  const { agent } = useAuth();
+  const [settings, setSettings] = useState<PostGateSettings>(
+    DEFAULT_POST_GATE_SETTINGS,
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Saving over settings we couldn't read could drop hidden replies
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !agent) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setLoadFailed(false);
+    new PostGateService(agent)
+      .getSettings(postUri)
+      .then((current) => {
+        if (!cancelled) setSettings(current);
+      })
+      .catch((err) => {
+        logger.error("Failed to load reply settings:", err);
+        if (!cancelled) {
+          setError("Couldn't load the current reply settings");
+          setLoadFailed(true);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, agent, postUri]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!agent) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await new PostGateService(agent).applySettings(postUri, settings);
+      onSaved?.(settings);
+      onClose();
+    } catch (err) {
+      logger.error("Failed to save reply settings:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to save reply settings",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Portalled so it escapes the stacking context of the action bar it opens from
+  return ReactDOM.createPortal(
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black bg-opacity-50"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <div
+        className="relative w-full max-w-md overflow-hidden rounded-lg bg-white dark:bg-gray-900"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3 p-6">
+          <ShieldCheck className="mt-1 h-6 w-6 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+          <div className="flex-1">
+            <h3 className="mb-4 text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Post interaction settings
+            </h3>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <Loader size={14} className="animate-spin" />
+                Loading current settings…
+              </div>
+            ) : (
+              <PostGateControls
+                value={settings}
+                onChange={setSettings}
+                disabled={isSaving}
+              />
+            )}
+            {error && (
+              <div className="mt-3 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-full p-1 hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-3 border-t bg-gray-50 px-6 py-4 dark:border-gray-700 dark:bg-gray-800">
+          <button
+            onClick={onClose}
+            className="rounded-md px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isLoading || isSaving || loadFailed}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 dark:bg-blue-500 dark:hover:bg-blue-600"
+          >
+            {isSaving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,173 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import { Loader } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { useHiddenPosts } from "../contexts/HiddenPostsContext";
+import { useModeration } from "../contexts/ModerationContext";
+import { useOptimisticPosts } from "../hooks/useOptimisticPosts";
+import { InlineReplyComposer } from "./InlineReplyComposer";
+import { PostActionBar } from "./PostActionBar";
+import { PostRenderer } from "./PostRenderer";
+import { ThreadModal } from "./ThreadModal";
+
+type PostView = AppBskyFeedDefs.PostView;
+
+/**
+ * Page shape shared by the profile, list, search and hashtag columns.
+ * Stored under the "columnFeed" query key so useOptimisticPosts can update
+ * likes and reposts in place. The key includes the DID of the agent that
+ * fetched it, so columns bound to another account keep their own entries.
+ */
+export interface ColumnFeedPage {
+  posts: AppBskyFeedDefs.FeedViewPost[];
+  cursor?: string;
+}
+
+interface PostListColumnProps {
+  items: AppBskyFeedDefs.FeedViewPost[];
+  isLoading: boolean;
+  error?: Error | null;
+  hasNextPage?: boolean;
+  isFetchingNextPage?: boolean;
+  onLoadMore?: () => void;
+  emptyMessage: string;
+}
+
+export const PostListColumn: React.FC<PostListColumnProps> = ({
+  items,
+  isLoading,
+  error,
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+  emptyMessage,
+}) => {
+  const { isPostHidden } = useHiddenPosts();
+  const { isUserMuted, isUserBlocked, isThreadMuted } = useModeration();
+  const { likeMutation, unlikeMutation, repostMutation, unrepostMutation } =
+    useOptimisticPosts();
+  const [threadUri, setThreadUri] = useState<string | null>(null);
+  const [replyToPost, setReplyToPost] = useState<PostView | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const visibleItems = React.useMemo(
+    () =>
+      items.filter(
+        ({ post }) =>
+          !isPostHidden(post.uri) &&
+          !isUserMuted(post.author.did) &&
+          !isUserBlocked(post.author.did) &&
+          !isThreadMuted(post.uri),
+      ),
+    [items, isPostHidden, isUserMuted, isUserBlocked, isThreadMuted],
+  );
+
+  // Load the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, onLoadMore]);
+
+  const handleLike = (post: PostView) => {
+    if (post.viewer?.like) {
+      unlikeMutation.mutate({ likeUri: post.viewer.like, postUri: post.uri });
+    } else {
+      likeMutation.mutate({ uri: post.uri, cid: post.cid });
+    }
+  };
+
+  const handleRepost = (post: PostView) => {
+    if (post.viewer?.repost) {
+      unrepostMutation.mutate({
+        repostUri: post.viewer.repost,
+        postUri: post.uri,
+      });
+    } else {
+      repostMutation.mutate({ uri: post.uri, cid: post.cid });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader className="h-6 w-6 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 text-center text-sm text-red-500">
+        {error.message || "Failed to load posts"}
+      </div>
+    );
+  }
+
+  if (visibleItems.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {visibleItems.map((item) => (
+        <div
+          key={`${item.post.uri}-${item.reason?.$type ?? ""}`}
+          className="border-b dark:border-gray-700"
+        >
+          <PostRenderer
+            post={item.post}
+            reason={item.reason}
+            showActions={false}
+            onClick={() => setThreadUri(item.post.uri)}
+            onQuoteClick={(uri) => setThreadUri(uri)}
+          />
+          <div className="px-4 pb-3">
+            <PostActionBar
+              post={item.post}
+              onLike={() => handleLike(item.post)}
+              onRepost={() => handleRepost(item.post)}
+              onReply={() => setReplyToPost(item.post)}
+              showCounts={true}
+              size="small"
+            />
+          </div>
+          {replyToPost?.uri === item.post.uri && (
+            <InlineReplyComposer
+              replyTo={{
+                uri: replyToPost.uri,
+                cid: replyToPost.cid,
+                author: replyToPost.author,
+              }}
+              onClose={() => setReplyToPost(null)}
+              onSuccess={() => setReplyToPost(null)}
+            />
+          )}
+        </div>
+      ))}
+
+      <div ref={loadMoreRef} className="flex justify-center p-4">
+        {isFetchingNextPage && (
+          <Loader className="h-5 w-5 animate-spin text-gray-400" />
+        )}
+      </div>
+
+      {threadUri && (
+        <ThreadModal postUri={threadUri} onClose={() => setThreadUri(null)} />
+      )}
+    </div>
+  );
+};
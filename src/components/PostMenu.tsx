@@ -8,15 +8,20 @@ import {
   Flag,
   Link,
   MoreHorizontal,
+  Quote,
+  ShieldCheck,
   Trash2,
   UserX,
   VolumeX,
 } from "lucide-react";
 import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router";
 import { useAuth } from "../contexts/AuthContext";
 import { useHiddenPosts } from "../contexts/HiddenPostsContext";
 import { useModal } from "../contexts/ModalContext";
 import { useModeration } from "../contexts/ModerationContext";
+import { getQuoteComposerUrl } from "../utils/url-helpers";
+import { PostGateModal } from "./PostGateModal";
 
 interface PostMenuProps {
   post: AppBskyFeedDefs.PostView;
@@ -37,11 +42,13 @@ export const PostMenu: React.FC<PostMenuProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [showReportMenu, setShowReportMenu] = useState(false);
+  const [showPostGateModal, setShowPostGateModal] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const { session, agent } = useAuth();
   const { hidePost } = useHiddenPosts();
   const { muteUser, muteThread, blockUser } = useModeration();
   const { showConfirm } = useModal();
+  const navigate = useNavigate();
 
   const isOwnPost = session?.did === post.author.did;
   const postRecord = post.record as any;
@@ -269,6 +276,19 @@ export const PostMenu: React.FC<PostMenuProps> = ({
               Copy link to post
             </button>
 
+            {!post.viewer?.embeddingDisabled && (
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  navigate(getQuoteComposerUrl(post.uri));
+                }}
+                className="flex w-full items-center gap-3 px-4 py-2 text-sm text-gray-700 transition-opacity hover:opacity-70 dark:text-gray-300"
+              >
+                <Quote className="h-4 w-4" />
+                Quote post
+              </button>
+            )}
+
             <button
               onClick={handleEmbed}
               className="flex w-full items-center gap-3 px-4 py-2 text-sm text-gray-700 transition-opacity hover:opacity-70 dark:text-gray-300"
@@ -369,6 +389,19 @@ export const PostMenu: React.FC<PostMenuProps> = ({
             )}
 
             {/* Options for own posts */}
+            {isOwnPost && !isThread && (
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  setShowPostGateModal(true);
+                }}
+                className="flex w-full items-center gap-3 px-4 py-2 text-sm text-gray-700 transition-opacity hover:opacity-70 dark:text-gray-300"
+              >
+                <ShieldCheck className="h-4 w-4" />
+                Edit interaction settings
+              </button>
+            )}
+
             {isOwnPost && (
               <button
                 onClick={handleDelete}
@@ -381,6 +414,14 @@ export const PostMenu: React.FC<PostMenuProps> = ({
           </div>
         </div>
       )}
+
+      {isOwnPost && (
+        <PostGateModal
+          isOpen={showPostGateModal}
+          onClose={() => setShowPostGateModal(false)}
+          postUri={post.uri}
+        />
+      )}
     </div>
   );
 };
@@ -13,6 +13,8 @@ import { useNavigate } from "react-router";
 import { proxifyBskyImage, proxifyBskyVideo } from "../utils/image-proxy";
 import { parseBskyUrl } from "../utils/url-helpers";
 import { ImageGallery } from "./ImageGallery";
+import { QuotedPostCard } from "./QuotedPostCard";
+import { TranslationToggle } from "./TranslationToggle";
 import { VideoPlayer } from "./VideoPlayer";
 
 interface PostRendererProps {
@@ -75,7 +77,7 @@ export const PostRenderer: React.FC<PostRendererProps> = ({
     setGalleryIndex(index);
   };
 
-  const renderEmbed = (embed: any) => {
+  const renderEmbed = (embed: any): React.ReactNode => {
     if (!embed) return null;
 
     // Images
@@ -115,48 +117,23 @@ export const PostRenderer: React.FC<PostRendererProps> = ({
       );
     }
 
+    // Quote with images or video alongside it
+    if (embed.media && embed.record?.record) {
+      return (
+        <>
+          {renderEmbed(embed.media)}
+          <QuotedPostCard
+            quotedPost={embed.record.record}
+            onClick={onQuoteClick}
+          />
+        </>
+      );
+    }
+
     // Quoted post
     if (embed.record) {
-      const quotedPost = embed.record;
       return (
-        <div
-          className="mt-2 cursor-pointer overflow-hidden rounded-lg border transition-colors hover:bg-gray-500 hover:bg-opacity-5"
-          style={{ borderColor: "var(--bsky-border-primary)" }}
-          onClick={(e) => {
-            e.stopPropagation();
-            if (onQuoteClick && quotedPost.uri) {
-              onQuoteClick(quotedPost.uri);
-            }
-          }}
-        >
-          <div
-            className="flex items-center gap-2 px-3 py-1.5 text-xs"
-            style={{
-              backgroundColor: "var(--bsky-bg-tertiary)",
-              borderBottom: "1px solid var(--bsky-border-primary)",
-              color: "var(--bsky-text-secondary)",
-            }}
-          >
-            <MessageCircle size={12} />
-            <span>Quoted post</span>
-          </div>
-          <div className="p-3">
-            <div className="quote-author mb-2 flex items-center gap-2">
-              <img
-                src={
-                  proxifyBskyImage(quotedPost.author?.avatar) ||
-                  "/default-avatar.svg"
-                }
-                alt=""
-                className="quote-avatar h-5 w-5 rounded-full"
-              />
-              <span className="quote-author-name text-sm">
-                {quotedPost.author?.displayName || quotedPost.author?.handle}
-              </span>
-            </div>
-            <p className="quote-text text-sm">{quotedPost.value?.text || ""}</p>
-          </div>
-        </div>
+        <QuotedPostCard quotedPost={embed.record} onClick={onQuoteClick} />
       );
     }
 
@@ -304,6 +281,11 @@ export const PostRenderer: React.FC<PostRendererProps> = ({
               >
                 {record?.text || ""}
               </p>
+              <TranslationToggle
+                uri={post.uri}
+                text={record?.text || ""}
+                langs={record?.langs}
+              />
               {renderEmbed(post.embed)}
             </div>
 
@@ -0,0 +1,82 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import type { ColumnFeedPage } from "./PostListColumn";
+import { PostListColumn } from "./PostListColumn";
+
+type ProfileTab = "posts" | "replies" | "media";
+
+const TAB_FILTERS: Record<ProfileTab, string> = {
+  posts: "posts_no_replies",
+  replies: "posts_with_replies",
+  media: "posts_with_media",
+};
+
+interface ProfileColumnProps {
+  handle: string;
+  refreshKey?: number;
+}
+
+export function ProfileColumn({ handle, refreshKey }: ProfileColumnProps) {
+  const { agent } = useAuth();
+  const [activeTab, setActiveTab] = useState<ProfileTab>("posts");
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ["columnFeed", "profile", agent?.session?.did, handle, activeTab],
+    queryFn: async ({ pageParam }): Promise<ColumnFeedPage> => {
+      if (!agent) throw new Error("Not authenticated");
+      const response = await agent.getAuthorFeed({
+        actor: handle,
+        filter: TAB_FILTERS[activeTab],
+        cursor: pageParam,
+        limit: 30,
+      });
+      return { posts: response.data.feed, cursor: response.data.cursor };
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: !!agent && !!handle,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (refreshKey) refetch();
+  }, [refreshKey, refetch]);
+
+  return (
+    <div>
+      <div className="sticky top-0 z-10 flex border-b bg-white dark:border-gray-700 dark:bg-gray-900">
+        {(Object.keys(TAB_FILTERS) as ProfileTab[]).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`flex-1 px-3 py-2 text-center text-sm font-medium capitalize transition-colors ${
+              activeTab === tab
+                ? "border-b-2 border-blue-500 text-blue-500"
+                : "text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            }`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+      <PostListColumn
+        items={data?.pages.flatMap((page) => page.posts) || []}
+        isLoading={isLoading}
+        error={error}
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        onLoadMore={fetchNextPage}
+        emptyMessage={`No ${activeTab} from @${handle} yet`}
+      />
+    </div>
+  );
+}
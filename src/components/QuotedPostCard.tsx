@@ -0,0 +1,78 @@
+import { MessageCircle, X } from "lucide-react";
+import React from "react";
+import { proxifyBskyImage } from "../utils/image-proxy";
+
+interface QuotedPostCardProps {
+  // An app.bsky.embed.record view record, or a post reshaped like one
+  quotedPost: {
+    uri?: string;
+    author?: { avatar?: string; displayName?: string; handle?: string };
+    value?: { text?: string } | unknown;
+  };
+  onClick?: (uri: string) => void;
+  // Shown in the composer so the quote can be dropped before posting
+  onRemove?: () => void;
+}
+
+export const QuotedPostCard: React.FC<QuotedPostCardProps> = ({
+  quotedPost,
+  onClick,
+  onRemove,
+}) => {
+  const text = (quotedPost.value as { text?: string } | undefined)?.text;
+
+  return (
+    <div
+      className={`mt-2 overflow-hidden rounded-lg border transition-colors ${
+        onClick ? "cursor-pointer hover:bg-gray-500 hover:bg-opacity-5" : ""
+      }`}
+      style={{ borderColor: "var(--bsky-border-primary)" }}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (onClick && quotedPost.uri) {
+          onClick(quotedPost.uri);
+        }
+      }}
+    >
+      <div
+        className="flex items-center gap-2 px-3 py-1.5 text-xs"
+        style={{
+          backgroundColor: "var(--bsky-bg-tertiary)",
+          borderBottom: "1px solid var(--bsky-border-primary)",
+          color: "var(--bsky-text-secondary)",
+        }}
+      >
+        <MessageCircle size={12} />
+        <span className="flex-1">Quoted post</span>
+        {onRemove && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            className="rounded-full p-0.5 hover:opacity-70"
+            title="Remove quote"
+          >
+            <X size={12} />
+          </button>
+        )}
+      </div>
+      <div className="p-3">
+        <div className="quote-author mb-2 flex items-center gap-2">
+          <img
+            src={
+              proxifyBskyImage(quotedPost.author?.avatar) ||
+              "/default-avatar.svg"
+            }
+            alt=""
+            className="quote-avatar h-5 w-5 rounded-full"
+          />
+          <span className="quote-author-name text-sm">
+            {quotedPost.author?.displayName || quotedPost.author?.handle}
+          </span>
+        </div>
+        <p className="quote-text text-sm">{text || ""}</p>
+      </div>
+    </div>
+  );
+};
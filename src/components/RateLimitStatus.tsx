@@ -2,6 +2,7 @@
 import { AlertTriangle, Shield } from "lucide-react";
 import React, { useEffect, useState } from "react";
 import { getRateLimiterStats } from "../services/rate-limiter";
+import { JetstreamStatus } from "./JetstreamStatus";
 
 interface RateLimitBucket {
   name: string;
@@ -58,6 +59,9 @@ export const RateLimitStatus: React.FC = () => {
 
   return (
     <div className="fixed bottom-4 right-4 z-50" style={{ maxWidth: "300px" }}>
+      <div className="mb-2 flex justify-end">
+        <JetstreamStatus />
+      </div>
       <button
         onClick={() => setIsExpanded(!isExpanded)}
         className="bsky-card flex items-center gap-2 p-3 transition-opacity hover:opacity-90"
@@ -0,0 +1,322 @@
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  AlertCircle,
+  CalendarClock,
+  CheckCircle,
+  Clock,
+  Loader,
+  Pencil,
+  RotateCcw,
+  Send,
+  Trash2,
+} from "lucide-react";
+import React, { useState } from "react";
+import { useModal } from "../contexts/ModalContext";
+import { useScheduledThreads } from "../hooks/useScheduledPosts";
+import { scheduledPostRunner } from "../services/scheduled-post-runner";
+import type {
+  ScheduledPostStatus,
+  ScheduledThread,
+  ScheduledThreadStatus,
+} from "../services/scheduled-posts-db";
+
+const STATUS_STYLES: Record<
+  ScheduledThreadStatus,
+  { label: string; className: string }
+> = {
+  scheduled: {
+    label: "Scheduled",
+    className:
+      "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+  },
+  publishing: {
+    label: "Publishing",
+    className:
+      "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300",
+  },
+  published: {
+    label: "Published",
+    className:
+      "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  },
+  failed: {
+    label: "Failed",
+    className: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  },
+  missed: {
+    label: "Missed",
+    className:
+      "bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300",
+  },
+};
+
+const PostStatusIcon: React.FC<{ status: ScheduledPostStatus }> = ({
+  status,
+}) => {
+  switch (status) {
+    case "published":
+      return <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />;
+    case "failed":
+      return <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-500" />;
+    default:
+      return <Clock className="h-4 w-4 flex-shrink-0 text-gray-400" />;
+  }
+};
+
+const toDateTimeLocal = (iso: string) =>
+  format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+const ScheduledThreadCard: React.FC<{ thread: ScheduledThread }> = ({
+  thread,
+}) => {
+  const { showAlert, showConfirm } = useModal();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTexts, setEditTexts] = useState<string[]>([]);
+  const [scheduleInput, setScheduleInput] = useState(
+    toDateTimeLocal(thread.scheduledFor),
+  );
+
+  const status = STATUS_STYLES[thread.status];
+  const isBusy = thread.status === "publishing";
+  const isDone = thread.status === "published";
+
+  const startEditing = () => {
+    setEditTexts(thread.posts.map((post) => post.text));
+    setScheduleInput(toDateTimeLocal(thread.scheduledFor));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const scheduledFor = new Date(scheduleInput);
+    if (isNaN(scheduledFor.getTime()) || scheduledFor.getTime() < Date.now()) {
+      showAlert("Pick a time in the future to reschedule this thread.", {
+        variant: "warning",
+        title: "Invalid Time",
+      });
+      return;
+    }
+
+    try {
+      await scheduledPostRunner.updatePostTexts(thread.id, editTexts);
+      await scheduledPostRunner.reschedule(thread.id, scheduledFor);
+      setIsEditing(false);
+    } catch (error) {
+      showAlert(
+        error instanceof Error ? error.message : "Failed to save changes",
+        { variant: "error", title: "Couldn't Save Thread" },
+      );
+    }
+  };
+
+  const handleCancel = () => {
+    showConfirm(
+      isDone
+        ? "Remove this thread from the list? The published posts stay on Bluesky."
+        : "Cancel this scheduled thread? It will not be posted.",
+      () =>
+        scheduledPostRunner.cancel(thread.id).catch((error) => {
+          showAlert(
+            error instanceof Error ? error.message : "Failed to cancel thread",
+            { variant: "error", title: "Couldn't Cancel Thread" },
+          );
+        }),
+      {
+        variant: "warning",
+        title: isDone ? "Remove Thread" : "Cancel Scheduled Thread",
+        confirmText: isDone ? "Remove" : "Cancel thread",
+        cancelText: "Keep",
+      },
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-bsky-border-primary bg-bsky-bg-secondary p-4">
+      <div className="mb-3 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="truncate text-base font-semibold text-bsky-text-primary">
+            {thread.title}
+          </h3>
+          <p className="text-sm text-bsky-text-secondary">
+            {isDone && thread.publishedAt
+              ? `Published ${formatDistanceToNow(new Date(thread.publishedAt), { addSuffix: true })}`
+              : `${format(new Date(thread.scheduledFor), "PPp")} (${formatDistanceToNow(new Date(thread.scheduledFor), { addSuffix: true })})`}
+          </p>
+        </div>
+        <span
+          className={`flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${status.className}`}
+        >
+          {status.label}
+        </span>
+      </div>
+
+      <ol className="mb-3 space-y-2">
+        {thread.posts.map((post, index) => (
+          <li key={index} className="flex gap-2">
+            <PostStatusIcon status={post.status} />
+            <div className="min-w-0 flex-1">
+              {isEditing && post.status !== "published" ? (
+                <textarea
+                  value={editTexts[index] ?? ""}
+                  onChange={(e) =>
+                    setEditTexts((prev) =>
+                      prev.map((text, i) =>
+                        i === index ? e.target.value : text,
+                      ),
+                    )
+                  }
+                  rows={3}
+                  className="w-full rounded-md border border-bsky-border-primary bg-bsky-bg-primary p-2 text-sm text-bsky-text-primary focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              ) : (
+                <p className="whitespace-pre-wrap break-words text-sm text-bsky-text-primary">
+                  {post.text}
+                </p>
+              )}
+              {post.media.length > 0 && (
+                <p className="mt-1 text-xs text-bsky-text-tertiary">
+                  {post.media.length}{" "}
+                  {post.media[0].type === "video" ? "video" : "image"}
+                  {post.media.length !== 1 ? "s" : ""}
+                </p>
+              )}
+              {post.status === "failed" && post.error && (
+                <p className="mt-1 text-xs text-red-500">
+                  {post.error} (attempt {post.attempts})
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {isEditing ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="datetime-local"
+            value={scheduleInput}
+            onChange={(e) => setScheduleInput(e.target.value)}
+            className="rounded-md border border-bsky-border-primary bg-bsky-bg-primary px-2 py-1 text-sm text-bsky-text-primary"
+          />
+          <button
+            onClick={handleSave}
+            className="rounded-md bg-blue-500 px-3 py-1 text-sm text-white hover:bg-blue-600"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setIsEditing(false)}
+            className="rounded-md px-3 py-1 text-sm text-bsky-text-secondary hover:bg-bsky-bg-hover"
+          >
+            Discard
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-1">
+          {!isDone && !isBusy && (
+            <>
+              <button
+                onClick={startEditing}
+                className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-bsky-text-secondary hover:bg-bsky-bg-hover"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+                Edit
+              </button>
+              <button
+                onClick={() => scheduledPostRunner.publishNow(thread.id)}
+                className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-bsky-text-secondary hover:bg-bsky-bg-hover"
+              >
+                {thread.status === "failed" ? (
+                  <RotateCcw className="h-3.5 w-3.5" />
+                ) : (
+                  <Send className="h-3.5 w-3.5" />
+                )}
+                {thread.status === "failed" ? "Retry" : "Publish now"}
+              </button>
+            </>
+          )}
+          {isBusy && (
+            <span className="flex items-center gap-1 px-2 py-1 text-sm text-bsky-text-secondary">
+              <Loader className="h-3.5 w-3.5 animate-spin" />
+              Publishing…
+            </span>
+          )}
+          {!isBusy && (
+            <button
+              onClick={handleCancel}
+              className="ml-auto flex items-center gap-1 rounded-md px-2 py-1 text-sm text-bsky-text-secondary hover:bg-bsky-bg-hover hover:text-red-600"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              {isDone ? "Remove" : "Cancel"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ScheduledPosts: React.FC = () => {
+  const { threads, isLoading } = useScheduledThreads();
+
+  const upcoming = threads.filter((thread) => thread.status !== "published");
+  // Most recently published first
+  const published = threads
+    .filter((thread) => thread.status === "published")
+    .reverse();
+
+  return (
+    <div className="mx-auto flex h-full max-w-2xl flex-col bg-bsky-bg-primary">
+      <div className="sticky top-0 z-10 border-b border-bsky-border-primary bg-bsky-bg-primary p-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          <h2 className="m-0 text-xl font-semibold text-bsky-text-primary">
+            Scheduled
+          </h2>
+          {upcoming.length > 0 && (
+            <span className="rounded-full bg-bsky-bg-secondary px-2 py-0.5 text-sm text-bsky-text-secondary">
+              {upcoming.length}
+            </span>
+          )}
+        </div>
+        <p className="mt-1 text-sm text-bsky-text-secondary">
+          Scheduled threads are published while SkyDeck is open in a tab.
+        </p>
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center p-8">
+          <Loader className="h-6 w-6 animate-spin text-blue-500" />
+        </div>
+      )}
+
+      {!isLoading && threads.length === 0 && (
+        <div className="flex flex-col items-center justify-center px-8 py-16 text-center">
+          <CalendarClock className="h-12 w-12 text-gray-400" />
+          <p className="mb-2 mt-4 text-base font-medium text-bsky-text-primary">
+            Nothing scheduled
+          </p>
+          <p className="text-sm text-bsky-text-secondary">
+            Pick a time in the Composer to schedule a thread
+          </p>
+        </div>
+      )}
+
+      <div className="flex-1 space-y-3 overflow-y-auto p-4">
+        {upcoming.map((thread) => (
+          <ScheduledThreadCard key={thread.id} thread={thread} />
+        ))}
+
+        {published.length > 0 && (
+          <>
+            <h3 className="pt-4 text-sm font-medium text-bsky-text-secondary">
+              Published
+            </h3>
+            {published.map((thread) => (
+              <ScheduledThreadCard key={thread.id} thread={thread} />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
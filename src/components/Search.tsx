@@ -1,4 +1,4 @@
-import type { AppBskyFeedDefs } from "@atproto/api";
+import type { AppBskyFeedDefs, AppBskyFeedSearchPosts } from "@atproto/api";
 import { debug } from "@bsky/shared";
 import { useQuery } from "@tanstack/react-query";
 import { format, formatDistanceToNow, subDays, subMonths } from "date-fns";
@@ -9,6 +9,7 @@ import {
   Filter,
   Globe,
   Hash,
+  History,
   Image,
   Link,
   Search as SearchIcon,
@@ -26,6 +27,7 @@ import { getFollowerCacheDB } from "../services/follower-cache-db";
 import { getProfileCacheService } from "../services/profile-cache-service";
 import { proxifyBskyImage } from "../utils/image-proxy";
 import { constructAtUri, parseBskyUrl } from "../utils/url-helpers";
+import { HistorySearchResults } from "./HistorySearchResults";
 import { ThreadViewer } from "./ThreadViewer";
 
 interface SearchFilters {
@@ -167,9 +169,11 @@ const buildSearchQuery = (searchFilters: SearchFilters) => {
 
 export const Search: React.FC = () => {
   useAuth();
-  const { isPostHidden } = useHiddenPosts();
-  const { isUserMuted, isUserBlocked, isThreadMuted } = useModeration();
   const [showAdvanced, setShowAdvanced] = useState(false);
+  // "history" searches the local index of notifications and cached posts
+  const [searchMode, setSearchMode] = useState<"bluesky" | "history">(
+    "bluesky",
+  );
   const [activeSearchQuery, setActiveSearchQuery] = useState("");
   const [filters, setFilters] = useState<SearchFilters>({
     query: "",
@@ -428,7 +432,7 @@ export const Search: React.FC = () => {
 
       return response.data;
     },
-    enabled: !!activeSearchQuery.trim(),
+    enabled: searchMode === "bluesky" && !!activeSearchQuery.trim(),
   });
 
   // Fetch thread for a post
@@ -590,6 +594,11 @@ export const Search: React.FC = () => {
 
   // Handle search button click
   const handleSearch = () => {
+    if (searchMode === "history") {
+      setActiveSearchQuery(filters.query);
+      return;
+    }
+
     // Check if the query is a Bluesky URL
     const trimmedQuery = filters.query.trim();
     if (
@@ -772,6 +781,36 @@ export const Search: React.FC = () => {
         <>
           {/* Search Bar */}
           <div className="bsky-glass mb-4 rounded-xl p-3 sm:p-4">
+            <div className="mb-3 flex gap-1.5">
+              {(
+                [
+                  { mode: "bluesky", label: "Bluesky", icon: Globe },
+                  { mode: "history", label: "My history", icon: History },
+                ] as const
+              ).map(({ mode, label, icon: Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => {
+                    setSearchMode(mode);
+                    setActiveSearchQuery("");
+                  }}
+                  className="flex items-center gap-1.5 rounded-md px-2.5 py-1 text-xs font-medium transition-colors"
+                  style={{
+                    backgroundColor:
+                      searchMode === mode
+                        ? "var(--bsky-primary)"
+                        : "var(--bsky-bg-secondary)",
+                    color:
+                      searchMode === mode
+                        ? "white"
+                        : "var(--bsky-text-secondary)",
+                  }}
+                >
+                  <Icon size={14} />
+                  {label}
+                </button>
+              ))}
+            </div>
             <div className="mb-3 flex flex-col items-stretch gap-2 sm:flex-row sm:items-center">
               <div className="flex flex-1 items-center gap-2">
                 <SearchIcon
@@ -781,7 +820,11 @@ export const Search: React.FC = () => {
                 />
                 <input
                   type="text"
-                  placeholder="Search posts or paste a Bluesky URL..."
+                  placeholder={
+                    searchMode === "history"
+                      ? "Search my history, e.g. from:alice reason:reply has:image"
+                      : "Search posts or paste a Bluesky URL..."
+                  }
                   value={filters.query}
                   onChange={(e) =>
                     setFilters((prev) => ({ ...prev, query: e.target.value }))
@@ -812,1189 +855,1295 @@ export const Search: React.FC = () => {
                   <SearchIcon size={16} />
                   <span className="hidden sm:inline">Search</span>
                 </button>
-                <button
-                  onClick={() => setShowAdvanced(!showAdvanced)}
-                  className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition-all ${
-                    showAdvanced ? "text-white" : ""
-                  }`}
-                  style={{
-                    backgroundColor: showAdvanced
-                      ? "var(--bsky-primary)"
-                      : "var(--bsky-bg-secondary)",
-                    color: showAdvanced
-                      ? "white"
-                      : "var(--bsky-text-secondary)",
-                    borderWidth: "1px",
-                    borderColor: "var(--bsky-border-primary)",
-                  }}
-                >
-                  <Filter size={16} />
-                  <span className="hidden sm:inline">Filters</span>
-                </button>
+                {searchMode === "bluesky" && (
+                  <button
+                    onClick={() => setShowAdvanced(!showAdvanced)}
+                    className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition-all ${
+                      showAdvanced ? "text-white" : ""
+                    }`}
+                    style={{
+                      backgroundColor: showAdvanced
+                        ? "var(--bsky-primary)"
+                        : "var(--bsky-bg-secondary)",
+                      color: showAdvanced
+                        ? "white"
+                        : "var(--bsky-text-secondary)",
+                      borderWidth: "1px",
+                      borderColor: "var(--bsky-border-primary)",
+                    }}
+                  >
+                    <Filter size={16} />
+                    <span className="hidden sm:inline">Filters</span>
+                  </button>
+                )}
               </div>
             </div>
 
-            {/* Filter Action Buttons - Compact when no filters */}
-            {filters.from.length === 0 &&
-            !filters.sinceDate &&
-            !filters.untilDate &&
-            filters.phrases.length === 0 &&
-            filters.hashtags.length === 0 &&
-            filters.mentions.length === 0 &&
-            filters.domains.length === 0 &&
-            !filters.language &&
-            !filters.hasMedia ? (
-              <div
-                className="mt-3 flex flex-wrap gap-1.5 border-t pt-3"
-                style={{ borderColor: "var(--bsky-border-primary)" }}
+            {searchMode === "bluesky" && (
+              <SearchFilterPanel
+                filters={filters}
+                setFilters={setFilters}
+                showAdvanced={showAdvanced}
+                searchQuery={searchQuery}
+                addToArrayFilter={addToArrayFilter}
+                removeFromArrayFilter={removeFromArrayFilter}
+                inputRefs={inputRefs}
+                handleUserInputChange={handleUserInputChange}
+                handleKeyDown={handleKeyDown}
+                handleUserSelect={handleUserSelect}
+                activeUserInput={activeUserInput}
+                setActiveUserInput={setActiveUserInput}
+                setUserSearchQuery={setUserSearchQuery}
+                showSuggestions={showSuggestions}
+                setShowSuggestions={setShowSuggestions}
+                setShowingFollowers={setShowingFollowers}
+                userSuggestions={userSuggestions}
+                suggestionsRef={suggestionsRef}
+                selectedSuggestionIndex={selectedSuggestionIndex}
+                setSelectedSuggestionIndex={setSelectedSuggestionIndex}
+                followingSet={followingSet}
+              />
+            )}
+          </div>
+
+          {/* Search Results */}
+          {searchMode === "history" ? (
+            <HistorySearchResults
+              query={activeSearchQuery}
+              onOpenPost={(uri) => fetchThread(uri, false)}
+            />
+          ) : (
+            <BlueskySearchResults
+              activeSearchQuery={activeSearchQuery}
+              searchResults={searchResults}
+              isLoading={isLoading}
+              error={error}
+              handlePostClick={handlePostClick}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+interface SearchFilterPanelProps {
+  filters: SearchFilters;
+  setFilters: React.Dispatch<React.SetStateAction<SearchFilters>>;
+  showAdvanced: boolean;
+  searchQuery: string;
+  addToArrayFilter: (field: keyof SearchFilters, value: string) => void;
+  removeFromArrayFilter: (field: keyof SearchFilters, index: number) => void;
+  inputRefs: React.MutableRefObject<{ [key: string]: HTMLInputElement | null }>;
+  handleUserInputChange: (
+    field: "from" | "mentions",
+    index: number,
+    value: string,
+  ) => void;
+  handleKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  handleUserSelect: (suggestion: UserSuggestion) => void;
+  activeUserInput: { field: "from" | "mentions"; index: number } | null;
+  setActiveUserInput: (
+    input: { field: "from" | "mentions"; index: number } | null,
+  ) => void;
+  setUserSearchQuery: (query: string) => void;
+  showSuggestions: boolean;
+  setShowSuggestions: (show: boolean) => void;
+  setShowingFollowers: (show: boolean) => void;
+  userSuggestions: UserSuggestion[];
+  suggestionsRef: React.RefObject<HTMLDivElement>;
+  selectedSuggestionIndex: number;
+  setSelectedSuggestionIndex: (index: number) => void;
+  followingSet: Set<string> | undefined;
+}
+
+// Quick filter chips and the expanded filter inputs for Bluesky post search
+const SearchFilterPanel: React.FC<SearchFilterPanelProps> = ({
+  filters,
+  setFilters,
+  showAdvanced,
+  searchQuery,
+  addToArrayFilter,
+  removeFromArrayFilter,
+  inputRefs,
+  handleUserInputChange,
+  handleKeyDown,
+  handleUserSelect,
+  activeUserInput,
+  setActiveUserInput,
+  setUserSearchQuery,
+  showSuggestions,
+  setShowSuggestions,
+  setShowingFollowers,
+  userSuggestions,
+  suggestionsRef,
+  selectedSuggestionIndex,
+  setSelectedSuggestionIndex,
+  followingSet,
+}) => {
+  return (
+    <>
+      {/* Filter Action Buttons - Compact when no filters */}
+      {filters.from.length === 0 &&
+      !filters.sinceDate &&
+      !filters.untilDate &&
+      filters.phrases.length === 0 &&
+      filters.hashtags.length === 0 &&
+      filters.mentions.length === 0 &&
+      filters.domains.length === 0 &&
+      !filters.language &&
+      !filters.hasMedia ? (
+        <div
+          className="mt-3 flex flex-wrap gap-1.5 border-t pt-3"
+          style={{ borderColor: "var(--bsky-border-primary)" }}
+        >
+          <button
+            onClick={() =>
+              setFilters((prev) => ({
+                ...prev,
+                hasMedia: !prev.hasMedia,
+              }))
+            }
+            className={`flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80 ${
+              filters.hasMedia ? "ring-2" : ""
+            }`}
+            style={{
+              color: filters.hasMedia ? "white" : "var(--bsky-text-secondary)",
+              backgroundColor: filters.hasMedia
+                ? "var(--bsky-primary)"
+                : "var(--bsky-bg-secondary)",
+              borderWidth: "1px",
+              borderColor: filters.hasMedia
+                ? "var(--bsky-primary)"
+                : "var(--bsky-border-primary)",
+              ["--tw-ring-color" as any]: "var(--bsky-primary)",
+            }}
+          >
+            <Image size={12} />
+            Media attached
+          </button>
+          <button
+            onClick={() => addToArrayFilter("from", "")}
+            className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+            style={{
+              color: "var(--bsky-text-secondary)",
+              backgroundColor: "var(--bsky-bg-secondary)",
+              borderWidth: "1px",
+              borderColor: "var(--bsky-border-primary)",
+            }}
+          >
+            <User size={12} />
+            From user
+          </button>
+          <button
+            onClick={() => {
+              const today = new Date();
+              const sevenDaysAgo = subDays(today, 7);
+              setFilters((prev) => ({
+                ...prev,
+                sinceDate: format(sevenDaysAgo, "yyyy-MM-dd"),
+                untilDate: format(today, "yyyy-MM-dd"),
+              }));
+            }}
+            className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+            style={{
+              color: "var(--bsky-text-secondary)",
+              backgroundColor: "var(--bsky-bg-secondary)",
+              borderWidth: "1px",
+              borderColor: "var(--bsky-border-primary)",
+            }}
+          >
+            <Calendar size={12} />
+            Date range
+          </button>
+          {showAdvanced && (
+            <>
+              <button
+                key="phrases"
+                onClick={() => addToArrayFilter("phrases", "")}
+                className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+                style={{
+                  color: "var(--bsky-text-secondary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                <SearchIcon size={12} />
+                Phrase
+              </button>
+              <button
+                key="hashtags"
+                onClick={() => addToArrayFilter("hashtags", "")}
+                className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+                style={{
+                  color: "var(--bsky-text-secondary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                <Hash size={12} />
+                Tag
+              </button>
+              <button
+                key="mentions"
+                onClick={() => addToArrayFilter("mentions", "")}
+                className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+                style={{
+                  color: "var(--bsky-text-secondary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                <User size={12} />
+                Mentions
+              </button>
+              <button
+                key="domains"
+                onClick={() => addToArrayFilter("domains", "")}
+                className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+                style={{
+                  color: "var(--bsky-text-secondary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                <Link size={12} />
+                Links
+              </button>
+              <button
+                key="language"
+                onClick={() =>
+                  setFilters((prev) => ({ ...prev, language: "en" }))
+                }
+                className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+                style={{
+                  color: "var(--bsky-text-secondary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                <Globe size={12} />
+                Lang
+              </button>
+            </>
+          )}
+        </div>
+      ) : (
+        /* Expanded Filters */
+        <div
+          className="mt-3 space-y-3 border-t pt-3"
+          style={{ borderColor: "var(--bsky-border-primary)" }}
+        >
+          {/* Media Filter */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <Image size={16} />
+              Media Filter
+            </label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    hasMedia: !prev.hasMedia,
+                  }))
+                }
+                className={`rounded-lg border px-3 py-2 text-sm transition-all ${
+                  filters.hasMedia ? "ring-2" : ""
+                }`}
+                style={{
+                  backgroundColor: filters.hasMedia
+                    ? "var(--bsky-primary)"
+                    : "var(--bsky-bg-secondary)",
+                  borderColor: filters.hasMedia
+                    ? "var(--bsky-primary)"
+                    : "var(--bsky-border-primary)",
+                  color: filters.hasMedia
+                    ? "white"
+                    : "var(--bsky-text-primary)",
+                  ["--tw-ring-color" as any]: "var(--bsky-primary)",
+                }}
+              >
+                {filters.hasMedia ? "✓ " : ""}Show only posts with media
+              </button>
+            </div>
+          </div>
+
+          {/* From Users */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <User size={16} />
+              From Users
+            </label>
+            <div className="space-y-2">
+              {filters.from.map((user, i) => (
+                <div key={i} className="relative">
+                  <div className="flex items-center gap-2">
+                    <input
+                      ref={(el) => (inputRefs.current[`from-${i}`] = el)}
+                      type="text"
+                      value={user}
+                      onChange={(e) =>
+                        handleUserInputChange("from", i, e.target.value)
+                      }
+                      onKeyDown={(e) => handleKeyDown(e)}
+                      onFocus={() => {
+                        setActiveUserInput({
+                          field: "from",
+                          index: i,
+                        });
+                        setUserSearchQuery(user);
+                        setShowingFollowers(false);
+                        if (user.length >= 2) setShowSuggestions(true);
+                      }}
+                      onBlur={() => {
+                        // Use setTimeout to allow click events on suggestions to fire first
+                        setTimeout(() => {
+                          if (
+                            activeUserInput?.field === "from" &&
+                            activeUserInput?.index === i
+                          ) {
+                            setShowSuggestions(false);
+                            setShowingFollowers(false);
+                            setSelectedSuggestionIndex(-1);
+                          }
+                        }, 200);
+                      }}
+                      placeholder="e.g., jay.bsky.team or me"
+                      className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
+                      style={{
+                        backgroundColor: "var(--bsky-bg-secondary)",
+                        borderColor: "var(--bsky-border-primary)",
+                        color: "var(--bsky-text-primary)",
+                        ["--tw-ring-color" as any]: "var(--bsky-primary)",
+                      }}
+                    />
+                    <button
+                      onClick={() => removeFromArrayFilter("from", i)}
+                      className="rounded-lg p-2 transition-opacity hover:opacity-70"
+                      style={{ color: "var(--bsky-text-secondary)" }}
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+
+                  {/* Typeahead suggestions */}
+                  {showSuggestions &&
+                    activeUserInput?.field === "from" &&
+                    activeUserInput?.index === i &&
+                    userSuggestions &&
+                    userSuggestions.length > 0 && (
+                      <div
+                        ref={suggestionsRef}
+                        className="absolute z-10 mt-1 w-full overflow-hidden rounded-lg border shadow-lg"
+                        style={{
+                          backgroundColor: "var(--bsky-bg-secondary)",
+                          borderColor: "var(--bsky-border-primary)",
+                        }}
+                      >
+                        {userSuggestions.map((suggestion, idx) => {
+                          const isFollower = followingSet?.has(suggestion.did);
+                          return (
+                            <button
+                              key={suggestion.did}
+                              onMouseDown={(e) => {
+                                e.preventDefault(); // Prevent focus loss
+                                handleUserSelect(suggestion);
+                              }}
+                              onMouseEnter={() =>
+                                setSelectedSuggestionIndex(idx)
+                              }
+                              className={`flex w-full cursor-pointer items-center gap-3 px-3 py-2 text-left transition-colors ${
+                                idx === selectedSuggestionIndex
+                                  ? "bg-opacity-20"
+                                  : "hover:bg-opacity-10"
+                              } hover:bg-white`}
+                              style={{
+                                backgroundColor:
+                                  idx === selectedSuggestionIndex
+                                    ? "rgba(0, 133, 255, 0.1)"
+                                    : "transparent",
+                              }}
+                            >
+                              {suggestion.avatar && (
+                                <img
+                                  src={proxifyBskyImage(suggestion.avatar)}
+                                  alt=""
+                                  className="h-8 w-8 rounded-full"
+                                />
+                              )}
+                              <div className="min-w-0 flex-1">
+                                <div className="flex items-center gap-2">
+                                  <span
+                                    className="truncate font-medium"
+                                    style={{
+                                      color: "var(--bsky-text-primary)",
+                                    }}
+                                  >
+                                    {suggestion.displayName ||
+                                      suggestion.handle}
+                                  </span>
+                                  {isFollower && (
+                                    <span
+                                      className="rounded px-1.5 py-0.5 text-xs"
+                                      style={{
+                                        backgroundColor: "var(--bsky-primary)",
+                                        color: "white",
+                                        opacity: 0.8,
+                                      }}
+                                    >
+                                      Following
+                                    </span>
+                                  )}
+                                </div>
+                                <div
+                                  className="truncate text-sm"
+                                  style={{
+                                    color: "var(--bsky-text-secondary)",
+                                  }}
+                                >
+                                  @{suggestion.handle}
+                                </div>
+                              </div>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                </div>
+              ))}
+              <button
+                onClick={() => addToArrayFilter("from", "")}
+                className="rounded-lg px-3 py-1.5 text-sm transition-colors"
+                style={{
+                  color: "var(--bsky-primary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                + Add user
+              </button>
+            </div>
+          </div>
+
+          {/* Date Range */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <Calendar size={16} />
+              Date Range
+            </label>
+
+            {/* Date Presets */}
+            <div className="mb-2 flex flex-wrap gap-1.5">
+              <button
+                onClick={() => {
+                  const today = new Date();
+                  const sevenDaysAgo = subDays(today, 7);
+                  setFilters((prev) => ({
+                    ...prev,
+                    sinceDate: format(sevenDaysAgo, "yyyy-MM-dd"),
+                    untilDate: format(today, "yyyy-MM-dd"),
+                  }));
+                }}
+                className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
+                style={{
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  color: "var(--bsky-primary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                7d
+              </button>
+              <button
+                onClick={() => {
+                  const today = new Date();
+                  const thirtyDaysAgo = subDays(today, 30);
+                  setFilters((prev) => ({
+                    ...prev,
+                    sinceDate: format(thirtyDaysAgo, "yyyy-MM-dd"),
+                    untilDate: format(today, "yyyy-MM-dd"),
+                  }));
+                }}
+                className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
+                style={{
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  color: "var(--bsky-primary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                30d
+              </button>
+              <button
+                onClick={() => {
+                  const today = new Date();
+                  const threeMonthsAgo = subMonths(today, 3);
+                  setFilters((prev) => ({
+                    ...prev,
+                    sinceDate: format(threeMonthsAgo, "yyyy-MM-dd"),
+                    untilDate: format(today, "yyyy-MM-dd"),
+                  }));
+                }}
+                className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
+                style={{
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  color: "var(--bsky-primary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                3m
+              </button>
+              <button
+                onClick={() => {
+                  const today = new Date();
+                  const oneYearAgo = subMonths(today, 12);
+                  setFilters((prev) => ({
+                    ...prev,
+                    sinceDate: format(oneYearAgo, "yyyy-MM-dd"),
+                    untilDate: format(today, "yyyy-MM-dd"),
+                  }));
+                }}
+                className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
+                style={{
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  color: "var(--bsky-primary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
               >
+                1y
+              </button>
+              {(filters.sinceDate || filters.untilDate) && (
                 <button
                   onClick={() =>
                     setFilters((prev) => ({
                       ...prev,
-                      hasMedia: !prev.hasMedia,
+                      sinceDate: "",
+                      untilDate: "",
                     }))
                   }
-                  className={`flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80 ${
-                    filters.hasMedia ? "ring-2" : ""
-                  }`}
+                  className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
                   style={{
-                    color: filters.hasMedia
-                      ? "white"
-                      : "var(--bsky-text-secondary)",
-                    backgroundColor: filters.hasMedia
-                      ? "var(--bsky-primary)"
-                      : "var(--bsky-bg-secondary)",
-                    borderWidth: "1px",
-                    borderColor: filters.hasMedia
-                      ? "var(--bsky-primary)"
-                      : "var(--bsky-border-primary)",
-                    ["--tw-ring-color" as any]: "var(--bsky-primary)",
+                    backgroundColor: "var(--bsky-border-primary)",
+                    color: "var(--bsky-text-secondary)",
                   }}
                 >
-                  <Image size={12} />
-                  Media attached
+                  Clear
                 </button>
-                <button
-                  onClick={() => addToArrayFilter("from", "")}
-                  className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+              )}
+            </div>
+
+            {/* Date Inputs */}
+            <div className="flex items-center gap-2 text-xs">
+              <span style={{ color: "var(--bsky-text-secondary)" }}>from</span>
+              <div className="relative">
+                <input
+                  type="date"
+                  value={filters.sinceDate}
+                  max={filters.untilDate || undefined}
+                  onChange={(e) =>
+                    setFilters((prev) => ({
+                      ...prev,
+                      sinceDate: e.target.value,
+                    }))
+                  }
+                  className="cursor-pointer rounded-md border px-2 py-1 pr-7 text-xs focus:outline-none focus:ring-2"
                   style={{
-                    color: "var(--bsky-text-secondary)",
                     backgroundColor: "var(--bsky-bg-secondary)",
-                    borderWidth: "1px",
                     borderColor: "var(--bsky-border-primary)",
+                    color: "var(--bsky-text-primary)",
+                    ["--tw-ring-color" as any]: "var(--bsky-primary)",
+                    colorScheme: "dark",
+                    width: "140px",
                   }}
-                >
-                  <User size={12} />
-                  From user
-                </button>
-                <button
-                  onClick={() => {
-                    const today = new Date();
-                    const sevenDaysAgo = subDays(today, 7);
+                />
+                {filters.sinceDate && (
+                  <button
+                    onClick={() =>
+                      setFilters((prev) => ({
+                        ...prev,
+                        sinceDate: "",
+                      }))
+                    }
+                    className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 transition-opacity hover:opacity-70"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+              <span style={{ color: "var(--bsky-text-secondary)" }}>to</span>
+              <div className="relative">
+                <input
+                  type="date"
+                  value={filters.untilDate}
+                  min={filters.sinceDate || undefined}
+                  onChange={(e) =>
                     setFilters((prev) => ({
                       ...prev,
-                      sinceDate: format(sevenDaysAgo, "yyyy-MM-dd"),
-                      untilDate: format(today, "yyyy-MM-dd"),
-                    }));
-                  }}
-                  className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+                      untilDate: e.target.value,
+                    }))
+                  }
+                  className="cursor-pointer rounded-md border px-2 py-1 pr-7 text-xs focus:outline-none focus:ring-2"
                   style={{
-                    color: "var(--bsky-text-secondary)",
                     backgroundColor: "var(--bsky-bg-secondary)",
-                    borderWidth: "1px",
                     borderColor: "var(--bsky-border-primary)",
+                    color: "var(--bsky-text-primary)",
+                    ["--tw-ring-color" as any]: "var(--bsky-primary)",
+                    colorScheme: "dark",
+                    width: "140px",
                   }}
+                />
+                {filters.untilDate && (
+                  <button
+                    onClick={() =>
+                      setFilters((prev) => ({
+                        ...prev,
+                        untilDate: "",
+                      }))
+                    }
+                    className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 transition-opacity hover:opacity-70"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Date validation message */}
+            {filters.sinceDate &&
+              filters.untilDate &&
+              new Date(filters.sinceDate) > new Date(filters.untilDate) && (
+                <p
+                  className="mt-2 text-xs"
+                  style={{ color: "var(--bsky-error)" }}
                 >
-                  <Calendar size={12} />
-                  Date range
-                </button>
-                {showAdvanced && (
-                  <>
-                    <button
-                      key="phrases"
-                      onClick={() => addToArrayFilter("phrases", "")}
-                      className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
-                      style={{
-                        color: "var(--bsky-text-secondary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
+                  "From" date must be before "To" date
+                </p>
+              )}
+          </div>
+        </div>
+      )}
+
+      {/* Advanced Search Filters */}
+      {showAdvanced && (
+        <div
+          className="mt-6 space-y-4 border-t pt-6"
+          style={{ borderColor: "var(--bsky-border-primary)" }}
+        >
+          {/* Exact Phrases */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <SearchIcon size={16} />
+              Exact Phrases
+            </label>
+            <div className="space-y-2">
+              {filters.phrases.map((phrase, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={phrase}
+                    onChange={(e) => {
+                      const newPhrases = [...filters.phrases];
+                      newPhrases[i] = e.target.value;
+                      setFilters((prev) => ({
+                        ...prev,
+                        phrases: newPhrases,
+                      }));
+                    }}
+                    placeholder='e.g., "hello world"'
+                    className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
+                    style={{
+                      backgroundColor: "var(--bsky-bg-secondary)",
+                      borderColor: "var(--bsky-border-primary)",
+                      color: "var(--bsky-text-primary)",
+                      ["--tw-ring-color" as any]: "var(--bsky-primary)",
+                    }}
+                  />
+                  <button
+                    onClick={() => removeFromArrayFilter("phrases", i)}
+                    className="rounded-lg p-2 transition-opacity hover:opacity-70"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => addToArrayFilter("phrases", "")}
+                className="rounded-lg px-3 py-1.5 text-sm transition-colors"
+                style={{
+                  color: "var(--bsky-primary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                + Add phrase
+              </button>
+            </div>
+          </div>
+
+          {/* Hashtags */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <Hash size={16} />
+              Hashtags
+            </label>
+            <div className="space-y-2">
+              {filters.hashtags.map((tag, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={tag}
+                    onChange={(e) => {
+                      const newTags = [...filters.hashtags];
+                      newTags[i] = e.target.value;
+                      setFilters((prev) => ({
+                        ...prev,
+                        hashtags: newTags,
+                      }));
+                    }}
+                    placeholder="e.g., bluesky"
+                    className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
+                    style={{
+                      backgroundColor: "var(--bsky-bg-secondary)",
+                      borderColor: "var(--bsky-border-primary)",
+                      color: "var(--bsky-text-primary)",
+                      ["--tw-ring-color" as any]: "var(--bsky-primary)",
+                    }}
+                  />
+                  <button
+                    onClick={() => removeFromArrayFilter("hashtags", i)}
+                    className="rounded-lg p-2 transition-opacity hover:opacity-70"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => addToArrayFilter("hashtags", "")}
+                className="rounded-lg px-3 py-1.5 text-sm transition-colors"
+                style={{
+                  color: "var(--bsky-primary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                + Add hashtag
+              </button>
+            </div>
+          </div>
+
+          {/* Mentions */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <User size={16} />
+              Mentions
+            </label>
+            <div className="space-y-2">
+              {filters.mentions.map((user, i) => (
+                <div key={i} className="relative">
+                  <div className="flex items-center gap-2">
+                    <input
+                      ref={(el) => (inputRefs.current[`mentions-${i}`] = el)}
+                      type="text"
+                      value={user}
+                      onChange={(e) =>
+                        handleUserInputChange("mentions", i, e.target.value)
+                      }
+                      onKeyDown={(e) => handleKeyDown(e)}
+                      onFocus={() => {
+                        setActiveUserInput({
+                          field: "mentions",
+                          index: i,
+                        });
+                        setUserSearchQuery(user);
+                        setShowingFollowers(false);
+                        if (user.length >= 2) setShowSuggestions(true);
                       }}
-                    >
-                      <SearchIcon size={12} />
-                      Phrase
-                    </button>
-                    <button
-                      key="hashtags"
-                      onClick={() => addToArrayFilter("hashtags", "")}
-                      className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
-                      style={{
-                        color: "var(--bsky-text-secondary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
+                      onBlur={() => {
+                        // Use setTimeout to allow click events on suggestions to fire first
+                        setTimeout(() => {
+                          if (
+                            activeUserInput?.field === "mentions" &&
+                            activeUserInput?.index === i
+                          ) {
+                            setShowSuggestions(false);
+                            setShowingFollowers(false);
+                            setSelectedSuggestionIndex(-1);
+                          }
+                        }, 200);
                       }}
-                    >
-                      <Hash size={12} />
-                      Tag
-                    </button>
-                    <button
-                      key="mentions"
-                      onClick={() => addToArrayFilter("mentions", "")}
-                      className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
+                      placeholder="e.g., alice.bsky.social or me"
+                      className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
                       style={{
-                        color: "var(--bsky-text-secondary)",
                         backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
                         borderColor: "var(--bsky-border-primary)",
+                        color: "var(--bsky-text-primary)",
+                        ["--tw-ring-color" as any]: "var(--bsky-primary)",
                       }}
-                    >
-                      <User size={12} />
-                      Mentions
-                    </button>
+                    />
                     <button
-                      key="domains"
-                      onClick={() => addToArrayFilter("domains", "")}
-                      className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
-                      style={{
-                        color: "var(--bsky-text-secondary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
+                      onClick={() => removeFromArrayFilter("mentions", i)}
+                      className="rounded-lg p-2 transition-opacity hover:opacity-70"
+                      style={{ color: "var(--bsky-text-secondary)" }}
                     >
-                      <Link size={12} />
-                      Links
+                      <X size={16} />
                     </button>
-                    <button
-                      key="language"
-                      onClick={() =>
-                        setFilters((prev) => ({ ...prev, language: "en" }))
-                      }
-                      className="flex items-center gap-1 rounded-md px-2.5 py-1 text-xs transition-colors hover:bg-opacity-80"
-                      style={{
-                        color: "var(--bsky-text-secondary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      <Globe size={12} />
-                      Lang
-                    </button>
-                  </>
-                )}
-              </div>
-            ) : (
-              /* Expanded Filters */
-              <div
-                className="mt-3 space-y-3 border-t pt-3"
-                style={{ borderColor: "var(--bsky-border-primary)" }}
-              >
-                {/* Media Filter */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <Image size={16} />
-                    Media Filter
-                  </label>
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={() =>
-                        setFilters((prev) => ({
-                          ...prev,
-                          hasMedia: !prev.hasMedia,
-                        }))
-                      }
-                      className={`rounded-lg border px-3 py-2 text-sm transition-all ${
-                        filters.hasMedia ? "ring-2" : ""
-                      }`}
-                      style={{
-                        backgroundColor: filters.hasMedia
-                          ? "var(--bsky-primary)"
-                          : "var(--bsky-bg-secondary)",
-                        borderColor: filters.hasMedia
-                          ? "var(--bsky-primary)"
-                          : "var(--bsky-border-primary)",
-                        color: filters.hasMedia
-                          ? "white"
-                          : "var(--bsky-text-primary)",
-                        ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                      }}
-                    >
-                      {filters.hasMedia ? "✓ " : ""}Show only posts with media
-                    </button>
-                  </div>
-                </div>
-
-                {/* From Users */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <User size={16} />
-                    From Users
-                  </label>
-                  <div className="space-y-2">
-                    {filters.from.map((user, i) => (
-                      <div key={i} className="relative">
-                        <div className="flex items-center gap-2">
-                          <input
-                            ref={(el) => (inputRefs.current[`from-${i}`] = el)}
-                            type="text"
-                            value={user}
-                            onChange={(e) =>
-                              handleUserInputChange("from", i, e.target.value)
-                            }
-                            onKeyDown={(e) => handleKeyDown(e)}
-                            onFocus={() => {
-                              setActiveUserInput({ field: "from", index: i });
-                              setUserSearchQuery(user);
-                              setShowingFollowers(false);
-                              if (user.length >= 2) setShowSuggestions(true);
-                            }}
-                            onBlur={() => {
-                              // Use setTimeout to allow click events on suggestions to fire first
-                              setTimeout(() => {
-                                if (
-                                  activeUserInput?.field === "from" &&
-                                  activeUserInput?.index === i
-                                ) {
-                                  setShowSuggestions(false);
-                                  setShowingFollowers(false);
-                                  setSelectedSuggestionIndex(-1);
-                                }
-                              }, 200);
-                            }}
-                            placeholder="e.g., jay.bsky.team or me"
-                            className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
-                            style={{
-                              backgroundColor: "var(--bsky-bg-secondary)",
-                              borderColor: "var(--bsky-border-primary)",
-                              color: "var(--bsky-text-primary)",
-                              ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                            }}
-                          />
-                          <button
-                            onClick={() => removeFromArrayFilter("from", i)}
-                            className="rounded-lg p-2 transition-opacity hover:opacity-70"
-                            style={{ color: "var(--bsky-text-secondary)" }}
-                          >
-                            <X size={16} />
-                          </button>
-                        </div>
-
-                        {/* Typeahead suggestions */}
-                        {showSuggestions &&
-                          activeUserInput?.field === "from" &&
-                          activeUserInput?.index === i &&
-                          userSuggestions &&
-                          userSuggestions.length > 0 && (
-                            <div
-                              ref={suggestionsRef}
-                              className="absolute z-10 mt-1 w-full overflow-hidden rounded-lg border shadow-lg"
-                              style={{
-                                backgroundColor: "var(--bsky-bg-secondary)",
-                                borderColor: "var(--bsky-border-primary)",
-                              }}
-                            >
-                              {userSuggestions.map((suggestion, idx) => {
-                                const isFollower = followingSet?.has(
-                                  suggestion.did,
-                                );
-                                return (
-                                  <button
-                                    key={suggestion.did}
-                                    onMouseDown={(e) => {
-                                      e.preventDefault(); // Prevent focus loss
-                                      handleUserSelect(suggestion);
-                                    }}
-                                    onMouseEnter={() =>
-                                      setSelectedSuggestionIndex(idx)
-                                    }
-                                    className={`flex w-full cursor-pointer items-center gap-3 px-3 py-2 text-left transition-colors ${
-                                      idx === selectedSuggestionIndex
-                                        ? "bg-opacity-20"
-                                        : "hover:bg-opacity-10"
-                                    } hover:bg-white`}
-                                    style={{
-                                      backgroundColor:
-                                        idx === selectedSuggestionIndex
-                                          ? "rgba(0, 133, 255, 0.1)"
-                                          : "transparent",
-                                    }}
-                                  >
-                                    {suggestion.avatar && (
-                                      <img
-                                        src={proxifyBskyImage(
-                                          suggestion.avatar,
-                                        )}
-                                        alt=""
-                                        className="h-8 w-8 rounded-full"
-                                      />
-                                    )}
-                                    <div className="min-w-0 flex-1">
-                                      <div className="flex items-center gap-2">
-                                        <span
-                                          className="truncate font-medium"
-                                          style={{
-                                            color: "var(--bsky-text-primary)",
-                                          }}
-                                        >
-                                          {suggestion.displayName ||
-                                            suggestion.handle}
-                                        </span>
-                                        {isFollower && (
-                                          <span
-                                            className="rounded px-1.5 py-0.5 text-xs"
-                                            style={{
-                                              backgroundColor:
-                                                "var(--bsky-primary)",
-                                              color: "white",
-                                              opacity: 0.8,
-                                            }}
-                                          >
-                                            Following
-                                          </span>
-                                        )}
-                                      </div>
-                                      <div
-                                        className="truncate text-sm"
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      >
-                                        @{suggestion.handle}
-                                      </div>
-                                    </div>
-                                  </button>
-                                );
-                              })}
-                            </div>
-                          )}
-                      </div>
-                    ))}
-                    <button
-                      onClick={() => addToArrayFilter("from", "")}
-                      className="rounded-lg px-3 py-1.5 text-sm transition-colors"
-                      style={{
-                        color: "var(--bsky-primary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      + Add user
-                    </button>
-                  </div>
-                </div>
-
-                {/* Date Range */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <Calendar size={16} />
-                    Date Range
-                  </label>
-
-                  {/* Date Presets */}
-                  <div className="mb-2 flex flex-wrap gap-1.5">
-                    <button
-                      onClick={() => {
-                        const today = new Date();
-                        const sevenDaysAgo = subDays(today, 7);
-                        setFilters((prev) => ({
-                          ...prev,
-                          sinceDate: format(sevenDaysAgo, "yyyy-MM-dd"),
-                          untilDate: format(today, "yyyy-MM-dd"),
-                        }));
-                      }}
-                      className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
-                      style={{
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        color: "var(--bsky-primary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      7d
-                    </button>
-                    <button
-                      onClick={() => {
-                        const today = new Date();
-                        const thirtyDaysAgo = subDays(today, 30);
-                        setFilters((prev) => ({
-                          ...prev,
-                          sinceDate: format(thirtyDaysAgo, "yyyy-MM-dd"),
-                          untilDate: format(today, "yyyy-MM-dd"),
-                        }));
-                      }}
-                      className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
-                      style={{
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        color: "var(--bsky-primary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      30d
-                    </button>
-                    <button
-                      onClick={() => {
-                        const today = new Date();
-                        const threeMonthsAgo = subMonths(today, 3);
-                        setFilters((prev) => ({
-                          ...prev,
-                          sinceDate: format(threeMonthsAgo, "yyyy-MM-dd"),
-                          untilDate: format(today, "yyyy-MM-dd"),
-                        }));
-                      }}
-                      className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
-                      style={{
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        color: "var(--bsky-primary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      3m
-                    </button>
-                    <button
-                      onClick={() => {
-                        const today = new Date();
-                        const oneYearAgo = subMonths(today, 12);
-                        setFilters((prev) => ({
-                          ...prev,
-                          sinceDate: format(oneYearAgo, "yyyy-MM-dd"),
-                          untilDate: format(today, "yyyy-MM-dd"),
-                        }));
-                      }}
-                      className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
-                      style={{
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        color: "var(--bsky-primary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      1y
-                    </button>
-                    {(filters.sinceDate || filters.untilDate) && (
-                      <button
-                        onClick={() =>
-                          setFilters((prev) => ({
-                            ...prev,
-                            sinceDate: "",
-                            untilDate: "",
-                          }))
-                        }
-                        className="rounded-md px-2 py-0.5 text-xs transition-colors hover:opacity-80"
-                        style={{
-                          backgroundColor: "var(--bsky-border-primary)",
-                          color: "var(--bsky-text-secondary)",
-                        }}
-                      >
-                        Clear
-                      </button>
-                    )}
                   </div>
 
-                  {/* Date Inputs */}
-                  <div className="flex items-center gap-2 text-xs">
-                    <span style={{ color: "var(--bsky-text-secondary)" }}>
-                      from
-                    </span>
-                    <div className="relative">
-                      <input
-                        type="date"
-                        value={filters.sinceDate}
-                        max={filters.untilDate || undefined}
-                        onChange={(e) =>
-                          setFilters((prev) => ({
-                            ...prev,
-                            sinceDate: e.target.value,
-                          }))
-                        }
-                        className="cursor-pointer rounded-md border px-2 py-1 pr-7 text-xs focus:outline-none focus:ring-2"
+                  {/* Typeahead suggestions */}
+                  {showSuggestions &&
+                    activeUserInput?.field === "mentions" &&
+                    activeUserInput?.index === i &&
+                    userSuggestions &&
+                    userSuggestions.length > 0 && (
+                      <div
+                        ref={suggestionsRef}
+                        className="absolute z-10 mt-1 w-full overflow-hidden rounded-lg border shadow-lg"
                         style={{
                           backgroundColor: "var(--bsky-bg-secondary)",
                           borderColor: "var(--bsky-border-primary)",
-                          color: "var(--bsky-text-primary)",
-                          ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                          colorScheme: "dark",
-                          width: "140px",
                         }}
-                      />
-                      {filters.sinceDate && (
-                        <button
-                          onClick={() =>
-                            setFilters((prev) => ({ ...prev, sinceDate: "" }))
-                          }
-                          className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 transition-opacity hover:opacity-70"
-                          style={{ color: "var(--bsky-text-secondary)" }}
-                        >
-                          <X size={12} />
-                        </button>
-                      )}
-                    </div>
-                    <span style={{ color: "var(--bsky-text-secondary)" }}>
-                      to
-                    </span>
-                    <div className="relative">
-                      <input
-                        type="date"
-                        value={filters.untilDate}
-                        min={filters.sinceDate || undefined}
-                        onChange={(e) =>
-                          setFilters((prev) => ({
-                            ...prev,
-                            untilDate: e.target.value,
-                          }))
-                        }
-                        className="cursor-pointer rounded-md border px-2 py-1 pr-7 text-xs focus:outline-none focus:ring-2"
-                        style={{
-                          backgroundColor: "var(--bsky-bg-secondary)",
-                          borderColor: "var(--bsky-border-primary)",
-                          color: "var(--bsky-text-primary)",
-                          ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                          colorScheme: "dark",
-                          width: "140px",
-                        }}
-                      />
-                      {filters.untilDate && (
-                        <button
-                          onClick={() =>
-                            setFilters((prev) => ({ ...prev, untilDate: "" }))
-                          }
-                          className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 transition-opacity hover:opacity-70"
-                          style={{ color: "var(--bsky-text-secondary)" }}
-                        >
-                          <X size={12} />
-                        </button>
-                      )}
-                    </div>
-                  </div>
-
-                  {/* Date validation message */}
-                  {filters.sinceDate &&
-                    filters.untilDate &&
-                    new Date(filters.sinceDate) >
-                      new Date(filters.untilDate) && (
-                      <p
-                        className="mt-2 text-xs"
-                        style={{ color: "var(--bsky-error)" }}
                       >
-                        "From" date must be before "To" date
-                      </p>
-                    )}
-                </div>
-              </div>
-            )}
-
-            {/* Advanced Search Filters */}
-            {showAdvanced && (
-              <div
-                className="mt-6 space-y-4 border-t pt-6"
-                style={{ borderColor: "var(--bsky-border-primary)" }}
-              >
-                {/* Exact Phrases */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <SearchIcon size={16} />
-                    Exact Phrases
-                  </label>
-                  <div className="space-y-2">
-                    {filters.phrases.map((phrase, i) => (
-                      <div key={i} className="flex items-center gap-2">
-                        <input
-                          type="text"
-                          value={phrase}
-                          onChange={(e) => {
-                            const newPhrases = [...filters.phrases];
-                            newPhrases[i] = e.target.value;
-                            setFilters((prev) => ({
-                              ...prev,
-                              phrases: newPhrases,
-                            }));
-                          }}
-                          placeholder='e.g., "hello world"'
-                          className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
-                          style={{
-                            backgroundColor: "var(--bsky-bg-secondary)",
-                            borderColor: "var(--bsky-border-primary)",
-                            color: "var(--bsky-text-primary)",
-                            ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                          }}
-                        />
-                        <button
-                          onClick={() => removeFromArrayFilter("phrases", i)}
-                          className="rounded-lg p-2 transition-opacity hover:opacity-70"
-                          style={{ color: "var(--bsky-text-secondary)" }}
-                        >
-                          <X size={16} />
-                        </button>
-                      </div>
-                    ))}
-                    <button
-                      onClick={() => addToArrayFilter("phrases", "")}
-                      className="rounded-lg px-3 py-1.5 text-sm transition-colors"
-                      style={{
-                        color: "var(--bsky-primary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      + Add phrase
-                    </button>
-                  </div>
-                </div>
-
-                {/* Hashtags */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <Hash size={16} />
-                    Hashtags
-                  </label>
-                  <div className="space-y-2">
-                    {filters.hashtags.map((tag, i) => (
-                      <div key={i} className="flex items-center gap-2">
-                        <input
-                          type="text"
-                          value={tag}
-                          onChange={(e) => {
-                            const newTags = [...filters.hashtags];
-                            newTags[i] = e.target.value;
-                            setFilters((prev) => ({
-                              ...prev,
-                              hashtags: newTags,
-                            }));
-                          }}
-                          placeholder="e.g., bluesky"
-                          className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
-                          style={{
-                            backgroundColor: "var(--bsky-bg-secondary)",
-                            borderColor: "var(--bsky-border-primary)",
-                            color: "var(--bsky-text-primary)",
-                            ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                          }}
-                        />
-                        <button
-                          onClick={() => removeFromArrayFilter("hashtags", i)}
-                          className="rounded-lg p-2 transition-opacity hover:opacity-70"
-                          style={{ color: "var(--bsky-text-secondary)" }}
-                        >
-                          <X size={16} />
-                        </button>
-                      </div>
-                    ))}
-                    <button
-                      onClick={() => addToArrayFilter("hashtags", "")}
-                      className="rounded-lg px-3 py-1.5 text-sm transition-colors"
-                      style={{
-                        color: "var(--bsky-primary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      + Add hashtag
-                    </button>
-                  </div>
-                </div>
-
-                {/* Mentions */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <User size={16} />
-                    Mentions
-                  </label>
-                  <div className="space-y-2">
-                    {filters.mentions.map((user, i) => (
-                      <div key={i} className="relative">
-                        <div className="flex items-center gap-2">
-                          <input
-                            ref={(el) =>
-                              (inputRefs.current[`mentions-${i}`] = el)
-                            }
-                            type="text"
-                            value={user}
-                            onChange={(e) =>
-                              handleUserInputChange(
-                                "mentions",
-                                i,
-                                e.target.value,
-                              )
-                            }
-                            onKeyDown={(e) => handleKeyDown(e)}
-                            onFocus={() => {
-                              setActiveUserInput({
-                                field: "mentions",
-                                index: i,
-                              });
-                              setUserSearchQuery(user);
-                              setShowingFollowers(false);
-                              if (user.length >= 2) setShowSuggestions(true);
-                            }}
-                            onBlur={() => {
-                              // Use setTimeout to allow click events on suggestions to fire first
-                              setTimeout(() => {
-                                if (
-                                  activeUserInput?.field === "mentions" &&
-                                  activeUserInput?.index === i
-                                ) {
-                                  setShowSuggestions(false);
-                                  setShowingFollowers(false);
-                                  setSelectedSuggestionIndex(-1);
-                                }
-                              }, 200);
-                            }}
-                            placeholder="e.g., alice.bsky.social or me"
-                            className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
-                            style={{
-                              backgroundColor: "var(--bsky-bg-secondary)",
-                              borderColor: "var(--bsky-border-primary)",
-                              color: "var(--bsky-text-primary)",
-                              ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                            }}
-                          />
-                          <button
-                            onClick={() => removeFromArrayFilter("mentions", i)}
-                            className="rounded-lg p-2 transition-opacity hover:opacity-70"
-                            style={{ color: "var(--bsky-text-secondary)" }}
-                          >
-                            <X size={16} />
-                          </button>
-                        </div>
-
-                        {/* Typeahead suggestions */}
-                        {showSuggestions &&
-                          activeUserInput?.field === "mentions" &&
-                          activeUserInput?.index === i &&
-                          userSuggestions &&
-                          userSuggestions.length > 0 && (
-                            <div
-                              ref={suggestionsRef}
-                              className="absolute z-10 mt-1 w-full overflow-hidden rounded-lg border shadow-lg"
+                        {userSuggestions.map((suggestion, idx) => {
+                          const isFollower = followingSet?.has(suggestion.did);
+                          return (
+                            <button
+                              key={suggestion.did}
+                              onMouseDown={(e) => {
+                                e.preventDefault(); // Prevent focus loss
+                                handleUserSelect(suggestion);
+                              }}
+                              onMouseEnter={() =>
+                                setSelectedSuggestionIndex(idx)
+                              }
+                              className={`flex w-full cursor-pointer items-center gap-3 px-3 py-2 text-left transition-colors ${
+                                idx === selectedSuggestionIndex
+                                  ? "bg-opacity-20"
+                                  : "hover:bg-opacity-10"
+                              } hover:bg-white`}
                               style={{
-                                backgroundColor: "var(--bsky-bg-secondary)",
-                                borderColor: "var(--bsky-border-primary)",
+                                backgroundColor:
+                                  idx === selectedSuggestionIndex
+                                    ? "rgba(0, 133, 255, 0.1)"
+                                    : "transparent",
                               }}
                             >
-                              {userSuggestions.map((suggestion, idx) => {
-                                const isFollower = followingSet?.has(
-                                  suggestion.did,
-                                );
-                                return (
-                                  <button
-                                    key={suggestion.did}
-                                    onMouseDown={(e) => {
-                                      e.preventDefault(); // Prevent focus loss
-                                      handleUserSelect(suggestion);
-                                    }}
-                                    onMouseEnter={() =>
-                                      setSelectedSuggestionIndex(idx)
-                                    }
-                                    className={`flex w-full cursor-pointer items-center gap-3 px-3 py-2 text-left transition-colors ${
-                                      idx === selectedSuggestionIndex
-                                        ? "bg-opacity-20"
-                                        : "hover:bg-opacity-10"
-                                    } hover:bg-white`}
+                              {suggestion.avatar && (
+                                <img
+                                  src={proxifyBskyImage(suggestion.avatar)}
+                                  alt=""
+                                  className="h-8 w-8 rounded-full"
+                                />
+                              )}
+                              <div className="min-w-0 flex-1">
+                                <div className="flex items-center gap-2">
+                                  <span
+                                    className="truncate font-medium"
                                     style={{
-                                      backgroundColor:
-                                        idx === selectedSuggestionIndex
-                                          ? "rgba(0, 133, 255, 0.1)"
-                                          : "transparent",
+                                      color: "var(--bsky-text-primary)",
                                     }}
                                   >
-                                    {suggestion.avatar && (
-                                      <img
-                                        src={proxifyBskyImage(
-                                          suggestion.avatar,
-                                        )}
-                                        alt=""
-                                        className="h-8 w-8 rounded-full"
-                                      />
-                                    )}
-                                    <div className="min-w-0 flex-1">
-                                      <div className="flex items-center gap-2">
-                                        <span
-                                          className="truncate font-medium"
-                                          style={{
-                                            color: "var(--bsky-text-primary)",
-                                          }}
-                                        >
-                                          {suggestion.displayName ||
-                                            suggestion.handle}
-                                        </span>
-                                        {isFollower && (
-                                          <span
-                                            className="rounded px-1.5 py-0.5 text-xs"
-                                            style={{
-                                              backgroundColor:
-                                                "var(--bsky-primary)",
-                                              color: "white",
-                                              opacity: 0.8,
-                                            }}
-                                          >
-                                            Following
-                                          </span>
-                                        )}
-                                      </div>
-                                      <div
-                                        className="truncate text-sm"
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      >
-                                        @{suggestion.handle}
-                                      </div>
-                                    </div>
-                                  </button>
-                                );
-                              })}
-                            </div>
-                          )}
-                      </div>
-                    ))}
-                    <button
-                      onClick={() => addToArrayFilter("mentions", "")}
-                      className="rounded-lg px-3 py-1.5 text-sm transition-colors"
-                      style={{
-                        color: "var(--bsky-primary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      + Add mention
-                    </button>
-                  </div>
-                </div>
-
-                {/* Domain Filter */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <Link size={16} />
-                    Domains
-                  </label>
-                  <div className="space-y-2">
-                    {filters.domains.map((domain, i) => (
-                      <div key={i} className="flex items-center gap-2">
-                        <input
-                          type="text"
-                          value={domain}
-                          onChange={(e) => {
-                            const newDomains = [...filters.domains];
-                            newDomains[i] = e.target.value;
-                            setFilters((prev) => ({
-                              ...prev,
-                              domains: newDomains,
-                            }));
-                          }}
-                          placeholder="e.g., npr.org"
-                          className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
-                          style={{
-                            backgroundColor: "var(--bsky-bg-secondary)",
-                            borderColor: "var(--bsky-border-primary)",
-                            color: "var(--bsky-text-primary)",
-                            ["--tw-ring-color" as any]: "var(--bsky-primary)",
-                          }}
-                        />
-                        <button
-                          onClick={() => removeFromArrayFilter("domains", i)}
-                          className="rounded-lg p-2 transition-opacity hover:opacity-70"
-                          style={{ color: "var(--bsky-text-secondary)" }}
-                        >
-                          <X size={16} />
-                        </button>
+                                    {suggestion.displayName ||
+                                      suggestion.handle}
+                                  </span>
+                                  {isFollower && (
+                                    <span
+                                      className="rounded px-1.5 py-0.5 text-xs"
+                                      style={{
+                                        backgroundColor: "var(--bsky-primary)",
+                                        color: "white",
+                                        opacity: 0.8,
+                                      }}
+                                    >
+                                      Following
+                                    </span>
+                                  )}
+                                </div>
+                                <div
+                                  className="truncate text-sm"
+                                  style={{
+                                    color: "var(--bsky-text-secondary)",
+                                  }}
+                                >
+                                  @{suggestion.handle}
+                                </div>
+                              </div>
+                            </button>
+                          );
+                        })}
                       </div>
-                    ))}
-                    <button
-                      onClick={() => addToArrayFilter("domains", "")}
-                      className="rounded-lg px-3 py-1.5 text-sm transition-colors"
-                      style={{
-                        color: "var(--bsky-primary)",
-                        backgroundColor: "var(--bsky-bg-secondary)",
-                        borderWidth: "1px",
-                        borderColor: "var(--bsky-border-primary)",
-                      }}
-                    >
-                      + Add domain
-                    </button>
-                  </div>
+                    )}
                 </div>
+              ))}
+              <button
+                onClick={() => addToArrayFilter("mentions", "")}
+                className="rounded-lg px-3 py-1.5 text-sm transition-colors"
+                style={{
+                  color: "var(--bsky-primary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
+              >
+                + Add mention
+              </button>
+            </div>
+          </div>
 
-                {/* Language */}
-                <div>
-                  <label
-                    className="mb-2 flex items-center gap-2 text-sm font-medium"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    <Globe size={16} />
-                    Language
-                  </label>
-                  <select
-                    value={filters.language}
-                    onChange={(e) =>
+          {/* Domain Filter */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <Link size={16} />
+              Domains
+            </label>
+            <div className="space-y-2">
+              {filters.domains.map((domain, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={domain}
+                    onChange={(e) => {
+                      const newDomains = [...filters.domains];
+                      newDomains[i] = e.target.value;
                       setFilters((prev) => ({
                         ...prev,
-                        language: e.target.value,
-                      }))
-                    }
-                    className="w-full rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
+                        domains: newDomains,
+                      }));
+                    }}
+                    placeholder="e.g., npr.org"
+                    className="flex-1 rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
                     style={{
                       backgroundColor: "var(--bsky-bg-secondary)",
                       borderColor: "var(--bsky-border-primary)",
                       color: "var(--bsky-text-primary)",
                       ["--tw-ring-color" as any]: "var(--bsky-primary)",
                     }}
+                  />
+                  <button
+                    onClick={() => removeFromArrayFilter("domains", i)}
+                    className="rounded-lg p-2 transition-opacity hover:opacity-70"
+                    style={{ color: "var(--bsky-text-secondary)" }}
                   >
-                    <option value="">Any language</option>
-                    <option value="en">English</option>
-                    <option value="ja">Japanese</option>
-                    <option value="es">Spanish</option>
-                    <option value="fr">French</option>
-                    <option value="de">German</option>
-                    <option value="pt">Portuguese</option>
-                    <option value="it">Italian</option>
-                    <option value="nl">Dutch</option>
-                    <option value="ko">Korean</option>
-                    <option value="zh">Chinese</option>
-                  </select>
+                    <X size={16} />
+                  </button>
                 </div>
-              </div>
-            )}
-
-            {/* Search Query Display */}
-            {searchQuery && (
-              <div
-                className="mt-3 rounded-md p-2 text-xs"
-                style={{ backgroundColor: "var(--bsky-bg-secondary)" }}
+              ))}
+              <button
+                onClick={() => addToArrayFilter("domains", "")}
+                className="rounded-lg px-3 py-1.5 text-sm transition-colors"
+                style={{
+                  color: "var(--bsky-primary)",
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  borderWidth: "1px",
+                  borderColor: "var(--bsky-border-primary)",
+                }}
               >
-                <code
-                  className="break-all"
-                  style={{ color: "var(--bsky-text-primary)" }}
-                >
-                  {searchQuery}
-                </code>
-              </div>
-            )}
+                + Add domain
+              </button>
+            </div>
           </div>
 
-          {/* Search Results */}
-          <div className="space-y-3">
-            {!activeSearchQuery && !isLoading && (
-              <div className="bsky-glass rounded-xl p-6 text-center">
-                <SearchIcon
-                  size={32}
-                  className="mx-auto mb-3 opacity-20"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                />
-                <p
-                  className="text-sm"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                >
-                  Enter a search query and press Enter or click Search
-                </p>
-              </div>
-            )}
+          {/* Language */}
+          <div>
+            <label
+              className="mb-2 flex items-center gap-2 text-sm font-medium"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              <Globe size={16} />
+              Language
+            </label>
+            <select
+              value={filters.language}
+              onChange={(e) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  language: e.target.value,
+                }))
+              }
+              className="w-full rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2"
+              style={{
+                backgroundColor: "var(--bsky-bg-secondary)",
+                borderColor: "var(--bsky-border-primary)",
+                color: "var(--bsky-text-primary)",
+                ["--tw-ring-color" as any]: "var(--bsky-primary)",
+              }}
+            >
+              <option value="">Any language</option>
+              <option value="en">English</option>
+              <option value="ja">Japanese</option>
+              <option value="es">Spanish</option>
+              <option value="fr">French</option>
+              <option value="de">German</option>
+              <option value="pt">Portuguese</option>
+              <option value="it">Italian</option>
+              <option value="nl">Dutch</option>
+              <option value="ko">Korean</option>
+              <option value="zh">Chinese</option>
+            </select>
+          </div>
+        </div>
+      )}
 
-            {isLoading && (
-              <div className="py-6 text-center">
-                <div
-                  className="mx-auto h-10 w-10 animate-spin rounded-full border-b-2"
-                  style={{ borderColor: "var(--bsky-primary)" }}
-                ></div>
-                <p
-                  className="mt-3 text-sm"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                >
-                  Searching...
-                </p>
-              </div>
-            )}
+      {/* Search Query Display */}
+      {searchQuery && (
+        <div
+          className="mt-3 rounded-md p-2 text-xs"
+          style={{ backgroundColor: "var(--bsky-bg-secondary)" }}
+        >
+          <code
+            className="break-all"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            {searchQuery}
+          </code>
+        </div>
+      )}
+    </>
+  );
+};
 
-            {error && (
-              <div className="bsky-glass rounded-xl p-4 text-center">
-                <p
-                  className="text-sm"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                >
-                  Error searching posts. Please try again.
-                </p>
-              </div>
-            )}
+interface BlueskySearchResultsProps {
+  activeSearchQuery: string;
+  searchResults: AppBskyFeedSearchPosts.OutputSchema | null | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  handlePostClick: (post: AppBskyFeedDefs.PostView) => void;
+}
 
-            {searchResults && searchResults.posts.length === 0 && (
-              <div className="bsky-glass rounded-xl p-4 text-center">
-                <p
-                  className="text-sm"
-                  style={{ color: "var(--bsky-text-secondary)" }}
-                >
-                  No posts found matching your search criteria.
-                </p>
-              </div>
-            )}
+// Results of a Bluesky post search, minus hidden and moderated posts
+const BlueskySearchResults: React.FC<BlueskySearchResultsProps> = ({
+  activeSearchQuery,
+  searchResults,
+  isLoading,
+  error,
+  handlePostClick,
+}) => {
+  const { isPostHidden } = useHiddenPosts();
+  const { isUserMuted, isUserBlocked, isThreadMuted } = useModeration();
 
-            {searchResults && searchResults.posts.length > 0 && (
-              <>
-                <div className="mb-2 flex items-center justify-between">
-                  <p
-                    className="text-sm"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    {
-                      searchResults.posts.filter(
-                        (post) =>
-                          !isPostHidden(post.uri) &&
-                          !isUserMuted(post.author.did) &&
-                          !isUserBlocked(post.author.did) &&
-                          !isThreadMuted(post.uri),
-                      ).length
-                    }{" "}
-                    results
-                  </p>
-                </div>
+  return (
+    <div className="space-y-3">
+      {!activeSearchQuery && !isLoading && (
+        <div className="bsky-glass rounded-xl p-6 text-center">
+          <SearchIcon
+            size={32}
+            className="mx-auto mb-3 opacity-20"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          />
+          <p
+            className="text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            Enter a search query and press Enter or click Search
+          </p>
+        </div>
+      )}
 
-                {searchResults.posts
-                  .filter(
-                    (post) =>
-                      !isPostHidden(post.uri) &&
-                      !isUserMuted(post.author.did) &&
-                      !isUserBlocked(post.author.did) &&
-                      !isThreadMuted(post.uri),
-                  )
-                  .map((post) => (
+      {isLoading && (
+        <div className="py-6 text-center">
+          <div
+            className="mx-auto h-10 w-10 animate-spin rounded-full border-b-2"
+            style={{ borderColor: "var(--bsky-primary)" }}
+          ></div>
+          <p
+            className="mt-3 text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            Searching...
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bsky-glass rounded-xl p-4 text-center">
+          <p
+            className="text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            Error searching posts. Please try again.
+          </p>
+        </div>
+      )}
+
+      {searchResults && searchResults.posts.length === 0 && (
+        <div className="bsky-glass rounded-xl p-4 text-center">
+          <p
+            className="text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            No posts found matching your search criteria.
+          </p>
+        </div>
+      )}
+
+      {searchResults && searchResults.posts.length > 0 && (
+        <>
+          <div className="mb-2 flex items-center justify-between">
+            <p
+              className="text-sm"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              {
+                searchResults.posts.filter(
+                  (post) =>
+                    !isPostHidden(post.uri) &&
+                    !isUserMuted(post.author.did) &&
+                    !isUserBlocked(post.author.did) &&
+                    !isThreadMuted(post.uri),
+                ).length
+              }{" "}
+              results
+            </p>
+          </div>
+
+          {searchResults.posts
+            .filter(
+              (post) =>
+                !isPostHidden(post.uri) &&
+                !isUserMuted(post.author.did) &&
+                !isUserBlocked(post.author.did) &&
+                !isThreadMuted(post.uri),
+            )
+            .map((post) => (
+              <div
+                key={post.uri}
+                className="bsky-glass cursor-pointer rounded-xl p-3 transition-all hover:shadow-lg sm:p-4"
+                onClick={() => handlePostClick(post)}
+              >
+                <div className="flex items-start gap-2.5">
+                  <img
+                    src={proxifyBskyImage(post.author.avatar)}
+                    alt={post.author.displayName}
+                    className="h-9 w-9 flex-shrink-0 rounded-full"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="mb-0.5 flex flex-wrap items-baseline gap-x-2 gap-y-0.5">
+                      <span
+                        className="truncate text-sm font-medium"
+                        style={{ color: "var(--bsky-text-primary)" }}
+                      >
+                        {post.author.displayName}
+                      </span>
+                      <span
+                        className="truncate text-xs"
+                        style={{ color: "var(--bsky-text-secondary)" }}
+                      >
+                        @{post.author?.handle || "unknown"}
+                      </span>
+                      <span
+                        className="whitespace-nowrap text-xs"
+                        style={{ color: "var(--bsky-text-tertiary)" }}
+                      >
+                        · {formatDistanceToNow(new Date(post.indexedAt))} ago
+                      </span>
+                    </div>
                     <div
-                      key={post.uri}
-                      className="bsky-glass cursor-pointer rounded-xl p-3 transition-all hover:shadow-lg sm:p-4"
-                      onClick={() => handlePostClick(post)}
+                      className="break-words text-sm"
+                      style={{ color: "var(--bsky-text-primary)" }}
                     >
-                      <div className="flex items-start gap-2.5">
-                        <img
-                          src={proxifyBskyImage(post.author.avatar)}
-                          alt={post.author.displayName}
-                          className="h-9 w-9 flex-shrink-0 rounded-full"
-                        />
-                        <div className="min-w-0 flex-1">
-                          <div className="mb-0.5 flex flex-wrap items-baseline gap-x-2 gap-y-0.5">
-                            <span
-                              className="truncate text-sm font-medium"
-                              style={{ color: "var(--bsky-text-primary)" }}
-                            >
-                              {post.author.displayName}
-                            </span>
-                            <span
-                              className="truncate text-xs"
-                              style={{ color: "var(--bsky-text-secondary)" }}
-                            >
-                              @{post.author?.handle || "unknown"}
-                            </span>
-                            <span
-                              className="whitespace-nowrap text-xs"
-                              style={{ color: "var(--bsky-text-tertiary)" }}
-                            >
-                              · {formatDistanceToNow(new Date(post.indexedAt))}{" "}
-                              ago
-                            </span>
-                          </div>
-                          <div
-                            className="break-words text-sm"
-                            style={{ color: "var(--bsky-text-primary)" }}
-                          >
-                            {(post.record as any).text}
-                          </div>
-
-                          {/* Display images if present */}
-                          {(() => {
-                            const images = getPostImages(post);
-                            if (images.length === 0) return null;
+                      {(post.record as any).text}
+                    </div>
 
-                            return (
-                              <div className="mt-3">
-                                <div
-                                  className={`grid gap-2 ${images.length === 1 ? "grid-cols-1" : "grid-cols-2"}`}
-                                >
-                                  {images.slice(0, 4).map((img, idx) => (
-                                    <img
-                                      key={idx}
-                                      src={proxifyBskyImage(img.thumb)}
-                                      alt={img.alt || ""}
-                                      className="w-full cursor-pointer rounded-lg border object-cover transition-opacity hover:opacity-90"
-                                      style={{
-                                        borderColor:
-                                          "var(--bsky-border-primary)",
-                                        height:
-                                          images.length === 1
-                                            ? "200px"
-                                            : "120px",
-                                        maxHeight: "300px",
-                                      }}
-                                      loading="lazy"
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        window.open(
-                                          img.fullsize,
-                                          "_blank",
-                                          "noopener,noreferrer",
-                                        );
-                                      }}
-                                    />
-                                  ))}
-                                </div>
-                              </div>
-                            );
-                          })()}
+                    {/* Display images if present */}
+                    {(() => {
+                      const images = getPostImages(post);
+                      if (images.length === 0) return null;
 
-                          <div className="mt-2 flex items-center gap-3">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                window.open(
-                                  `https://bsky.app/profile/${post.author?.handle || "unknown"}/post/${post.uri.split("/").pop()}`,
-                                  "_blank",
-                                  "noopener,noreferrer",
-                                );
-                              }}
-                              className="flex items-center gap-1 text-xs hover:underline"
-                              style={{ color: "var(--bsky-primary)" }}
-                            >
-                              View on Bluesky
-                              <ExternalLink size={12} />
-                            </button>
-                            <span
-                              className="text-xs"
-                              style={{ color: "var(--bsky-text-tertiary)" }}
-                            >
-                              Click to view thread
-                            </span>
+                      return (
+                        <div className="mt-3">
+                          <div
+                            className={`grid gap-2 ${images.length === 1 ? "grid-cols-1" : "grid-cols-2"}`}
+                          >
+                            {images.slice(0, 4).map((img, idx) => (
+                              <img
+                                key={idx}
+                                src={proxifyBskyImage(img.thumb)}
+                                alt={img.alt || ""}
+                                className="w-full cursor-pointer rounded-lg border object-cover transition-opacity hover:opacity-90"
+                                style={{
+                                  borderColor: "var(--bsky-border-primary)",
+                                  height:
+                                    images.length === 1 ? "200px" : "120px",
+                                  maxHeight: "300px",
+                                }}
+                                loading="lazy"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  window.open(
+                                    img.fullsize,
+                                    "_blank",
+                                    "noopener,noreferrer",
+                                  );
+                                }}
+                              />
+                            ))}
                           </div>
                         </div>
-                      </div>
+                      );
+                    })()}
+
+                    <div className="mt-2 flex items-center gap-3">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          window.open(
+                            `https://bsky.app/profile/${post.author?.handle || "unknown"}/post/${post.uri.split("/").pop()}`,
+                            "_blank",
+                            "noopener,noreferrer",
+                          );
+                        }}
+                        className="flex items-center gap-1 text-xs hover:underline"
+                        style={{ color: "var(--bsky-primary)" }}
+                      >
+                        View on Bluesky
+                        <ExternalLink size={12} />
+                      </button>
+                      <span
+                        className="text-xs"
+                        style={{ color: "var(--bsky-text-tertiary)" }}
+                      >
+                        Click to view thread
+                      </span>
                     </div>
-                  ))}
-              </>
-            )}
-          </div>
+                  </div>
+                </div>
+              </div>
+            ))}
         </>
       )}
     </div>
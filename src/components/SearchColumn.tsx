@@ -0,0 +1,67 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import type { ColumnFeedPage } from "./PostListColumn";
+import { PostListColumn } from "./PostListColumn";
+
+const AUTO_REFRESH_INTERVAL = 2 * 60 * 1000;
+
+interface SearchColumnProps {
+  // Saved searchPosts query, e.g. "bluesky api" or "#atproto"
+  query: string;
+  refreshKey?: number;
+}
+
+/**
+ * Saved search column, also used for hashtag columns by passing "#tag".
+ * Shows the latest matches and refreshes itself every couple of minutes.
+ */
+export function SearchColumn({ query, refreshKey }: SearchColumnProps) {
+  const { agent } = useAuth();
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ["columnFeed", "search", agent?.session?.did, query],
+    queryFn: async ({ pageParam }): Promise<ColumnFeedPage> => {
+      if (!agent) throw new Error("Not authenticated");
+      const response = await agent.app.bsky.feed.searchPosts({
+        q: query,
+        sort: "latest",
+        cursor: pageParam,
+        limit: 30,
+      });
+      return {
+        posts: response.data.posts.map((post) => ({ post })),
+        cursor: response.data.cursor,
+      };
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: !!agent && !!query.trim(),
+    staleTime: 60 * 1000,
+    refetchInterval: AUTO_REFRESH_INTERVAL,
+  });
+
+  useEffect(() => {
+    if (refreshKey) refetch();
+  }, [refreshKey, refetch]);
+
+  return (
+    <PostListColumn
+      items={data?.pages.flatMap((page) => page.posts) || []}
+      isLoading={isLoading}
+      error={error}
+      hasNextPage={hasNextPage}
+      isFetchingNextPage={isFetchingNextPage}
+      onLoadMore={fetchNextPage}
+      emptyMessage={`No posts matching "${query}" yet`}
+    />
+  );
+}
@@ -2,6 +2,7 @@ import {
   BarChart3,
   Bell,
   Bookmark,
+  CalendarClock,
   Clock,
   ExternalLink,
   Home,
@@ -44,6 +45,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
     { path: "/messages", label: "Direct Messages", icon: Mail },
     { path: "/conversations", label: "Conversations", icon: MessageSquare },
     { path: "/compose", label: "Compose", icon: PenSquare },
+    { path: "/scheduled", label: "Scheduled", icon: CalendarClock },
     {
       path: `/profile/${session?.handle || ""}`,
       label: "Profile",
@@ -1,17 +1,34 @@
 import { useEffect, useRef, useState } from "react";
+import { AccountScope, useAuth } from "../contexts/AuthContext";
 import { columnFeedPrefs } from "../utils/cookies";
+import { AccountNotificationsColumn } from "./AccountNotificationsColumn";
 import { BookmarksColumn } from "./BookmarksColumn";
 import { ColumnHeader } from "./ColumnHeader";
 import { ConversationsSimple as Conversations } from "./ConversationsSimple";
 import { DirectMessages } from "./DirectMessages";
 import { Home } from "./Home";
+import { ListColumn } from "./ListColumn";
+import { NotificationRuleColumn } from "./NotificationRuleColumn";
 import { NotificationsFeed } from "./NotificationsFeed";
-import type { Column } from "./SkyDeck";
+import { ProfileColumn } from "./ProfileColumn";
+import { SearchColumn } from "./SearchColumn";
+import type { Column, ColumnType } from "./SkyDeck";
 import { VisualTimeline } from "./VisualTimeline";
 
+// Column types whose content can be reloaded from the header refresh button
+const REFRESHABLE_TYPES: ColumnType[] = [
+  "feed",
+  "profile",
+  "list",
+  "search",
+  "hashtag",
+  "notificationRule",
+];
+
 interface SkyColumnProps {
   column: Column;
   onClose: () => void;
+  onColumnChange?: (column: Column) => void;
   onMoveLeft?: () => void;
   onMoveRight?: () => void;
   chromeless?: boolean;
@@ -21,17 +38,25 @@ interface SkyColumnProps {
 export default function SkyColumn({
   column,
   onClose,
+  onColumnChange,
   onMoveLeft,
   onMoveRight,
   chromeless = false,
   isFocused = false,
 }: SkyColumnProps) {
+  const { session } = useAuth();
+  // Bound to another signed in account rather than the active one
+  const boundAccountDid =
+    column.accountDid && column.accountDid !== session?.did
+      ? column.accountDid
+      : undefined;
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [hasScrollTop, setHasScrollTop] = useState(false);
   const [hasScrollBottom, setHasScrollBottom] = useState(false);
   const [currentFeedLabel, setCurrentFeedLabel] = useState<string>("");
   const [feedOptions, setFeedOptions] = useState<any[]>([]);
   const [refreshCounter, setRefreshCounter] = useState(0);
+  const [unreadCount, setUnreadCount] = useState(0);
   const [showFeedDiscovery, setShowFeedDiscovery] = useState(false);
   const [selectedFeedUri, setSelectedFeedUri] = useState<string | undefined>(
     () => {
@@ -74,7 +99,7 @@ export default function SkyColumn({
   useEffect(() => {
     const handleRefreshFeed = () => {
       // Only refresh if this is a feed column and it's focused (on mobile, there's only one visible column)
-      if (column.type === "feed") {
+      if (REFRESHABLE_TYPES.includes(column.type) || boundAccountDid) {
         setRefreshCounter((prev) => prev + 1);
       }
     };
@@ -83,13 +108,28 @@ export default function SkyColumn({
     return () => {
       window.removeEventListener("refreshFeed", handleRefreshFeed);
     };
-  }, [column.type]);
+  }, [column.type, boundAccountDid]);
 
   // Render different components based on column type
   const renderContent = () => {
+    if (boundAccountDid) {
+      return (
+        <AccountScope did={boundAccountDid}>
+          {renderColumnContent()}
+        </AccountScope>
+      );
+    }
+    return renderColumnContent();
+  };
+
+  const renderColumnContent = () => {
     switch (column.type) {
       case "notifications":
-        return <NotificationsFeed />;
+        return boundAccountDid ? (
+          <AccountNotificationsColumn refreshKey={refreshCounter} />
+        ) : (
+          <NotificationsFeed onUnreadCountChange={setUnreadCount} />
+        );
 
       case "timeline":
         return (
@@ -126,6 +166,41 @@ export default function SkyColumn({
           />
         );
 
+      case "profile":
+        return (
+          <ProfileColumn
+            handle={column.data || ""}
+            refreshKey={refreshCounter}
+          />
+        );
+
+      case "list":
+        return (
+          <ListColumn listUri={column.data || ""} refreshKey={refreshCounter} />
+        );
+
+      case "search":
+        return (
+          <SearchColumn query={column.data || ""} refreshKey={refreshCounter} />
+        );
+
+      case "hashtag":
+        return (
+          <SearchColumn
+            query={`#${column.data || ""}`}
+            refreshKey={refreshCounter}
+          />
+        );
+
+      case "notificationRule":
+        return (
+          <NotificationRuleColumn
+            ruleId={column.data || ""}
+            refreshKey={refreshCounter}
+            onUnreadCountChange={setUnreadCount}
+          />
+        );
+
       default:
         return (
           <div className="py-8 text-center">
@@ -146,8 +221,9 @@ export default function SkyColumn({
           onRemove={() => onClose()}
           onMoveLeft={onMoveLeft}
           onMoveRight={onMoveRight}
+          unreadCount={unreadCount}
           onRefresh={
-            column.type === "feed"
+            REFRESHABLE_TYPES.includes(column.type) || boundAccountDid
               ? () => setRefreshCounter((prev) => prev + 1)
               : undefined
           }
@@ -159,6 +235,7 @@ export default function SkyColumn({
                   if (column.id) {
                     columnFeedPrefs.setFeedForColumn(column.id, feedUri);
                   }
+                  onColumnChange?.({ ...column, data: feedUri });
                   setRefreshCounter((prev) => prev + 1);
                 }
               : undefined
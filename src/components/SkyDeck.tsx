@@ -4,19 +4,36 @@ import {
   Bookmark,
   Clock,
   Hash,
+  ListFilter,
   Mail,
   MessageSquare,
   Plus,
+  Search,
   Star,
+  User,
   Users,
 } from "lucide-react";
-import { useEffect, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { useModal } from "../contexts/ModalContext";
 import { useColumnSwipe } from "../hooks/useColumnSwipe";
+import { useDebounce } from "../hooks/useDebounce";
+import { useNotificationRules } from "../hooks/useNotificationRules";
+import {
+  applyColumnSettings,
+  captureColumnSettings,
+  workspaceService,
+} from "../services/workspace-service";
 import { columnFeedPrefs } from "../utils/cookies";
 import { createLogger } from "../utils/logger";
 import SkyColumn from "./SkyColumn";
+import { WorkspaceSwitcher } from "./WorkspaceSwitcher";
 
 const logger = createLogger("SkyDeck");
 
@@ -26,15 +43,29 @@ export type ColumnType =
   | "conversations"
   | "feed"
   | "messages"
-  | "bookmarks";
+  | "bookmarks"
+  | "profile"
+  | "list"
+  | "search"
+  | "hashtag"
+  | "notificationRule";
 
 export interface Column {
   id: string;
   type: ColumnType;
   title?: string;
   data?: string; // Can be threadUri, feedUri, profileHandle, listUri etc
+  accountDid?: string; // Show this column as another signed in account
 }
 
+// Columns that can be shown as an account other than the active one
+const ACCOUNT_BINDABLE_TYPES: ColumnType[] = [
+  "notifications",
+  "profile",
+  "search",
+  "hashtag",
+];
+
 interface FeedGenerator {
   uri: string;
   displayName: string;
@@ -79,10 +110,60 @@ const columnOptions = [
     icon: Bookmark,
     description: "Your saved posts",
   },
+  {
+    type: "profile" as ColumnType,
+    label: "Profile",
+    icon: User,
+    description: "Posts, replies and media from one account",
+    placeholder: "handle.bsky.social",
+  },
+  {
+    type: "search" as ColumnType,
+    label: "Search",
+    icon: Search,
+    description: "Saved search that refreshes itself",
+    placeholder: "Search posts",
+  },
+  {
+    type: "hashtag" as ColumnType,
+    label: "Hashtag",
+    icon: Hash,
+    description: "Latest posts with a hashtag",
+    placeholder: "#hashtag",
+  },
 ];
 
+/**
+ * Normalise the value typed for profile/search/hashtag columns into what
+ * Column.data stores: a bare handle, the raw query, or the tag without "#".
+ */
+const normalizeColumnValue = (type: ColumnType, value: string): string => {
+  const trimmed = value.trim();
+  switch (type) {
+    case "profile":
+      return trimmed.replace(/^@/, "");
+    case "hashtag":
+      return trimmed.replace(/^#+/, "").split(/\s+/)[0];
+    default:
+      return trimmed;
+  }
+};
+
+const columnTitleFor = (type: ColumnType, value: string): string => {
+  switch (type) {
+    case "profile":
+      return `@${value}`;
+    case "hashtag":
+      return `#${value}`;
+    case "search":
+      return `Search: ${value}`;
+    default:
+      return value;
+  }
+};
+
 export default function SkyDeck() {
-  const { agent } = useAuth();
+  const { agent, session, accounts } = useAuth();
   const { showAlert } = useModal();
   const [columns, setColumns] = useState<Column[]>([]);
   const [isAddingColumn, setIsAddingColumn] = useState(false);
@@ -90,9 +171,27 @@ export default function SkyDeck() {
   const [focusedColumnIndex, setFocusedColumnIndex] = useState(0);
   const [mobileColumnIndex, setMobileColumnIndex] = useState(0);
   const [customFeedUri, setCustomFeedUri] = useState("");
+  const [pendingColumnType, setPendingColumnType] = useState<ColumnType | null>(
+    null,
+  );
+  const [pendingColumnValue, setPendingColumnValue] = useState("");
+  const [pendingColumnAccount, setPendingColumnAccount] = useState("");
   const [isLoadingCustomFeed, setIsLoadingCustomFeed] = useState(false);
+  const [workspacesReady, setWorkspacesReady] = useState(false);
   const columnsContainerRef = useRef<HTMLDivElement>(null);
 
+  const workspaces = useSyncExternalStore(workspaceService.subscribe, () =>
+    workspaceService.getWorkspaces(),
+  );
+  const activeWorkspaceId = useSyncExternalStore(
+    workspaceService.subscribe,
+    () => workspaceService.getActiveWorkspace()?.id ?? null,
+  );
+  const notificationRules = useNotificationRules();
+  const columnRules = notificationRules.filter((rule) =>
+    rule.actions.includes("column"),
+  );
+
   // Fetch user's saved/pinned feeds
   const { data: userPrefs } = useQuery({
     queryKey: ["userPreferences"],
@@ -273,6 +372,86 @@ export default function SkyDeck() {
     }
   }, [columns]);
 
+  // Pull workspaces from the PDS and restore the active one
+  useEffect(() => {
+    if (!agent) return;
+
+    workspaceService.sync().finally(() => {
+      const active = workspaceService.getActiveWorkspace();
+      if (active) {
+        setColumns(applyColumnSettings(active));
+      }
+      setWorkspacesReady(true);
+    });
+  }, [agent]);
+
+  const saveActiveWorkspace = useCallback((layout: Column[]) => {
+    const active = workspaceService.getActiveWorkspace();
+    if (!active) {
+      if (workspaceService.getWorkspaces().length === 0) {
+        workspaceService.createWorkspace("Default", layout);
+      }
+      return;
+    }
+
+    const columnSettings = captureColumnSettings(layout);
+    if (
+      JSON.stringify(active.columns) === JSON.stringify(layout) &&
+      JSON.stringify(active.columnSettings) === JSON.stringify(columnSettings)
+    ) {
+      return;
+    }
+    workspaceService.saveWorkspace({
+      ...active,
+      columns: layout,
+      columnSettings,
+    });
+  }, []);
+
+  // Keep the active workspace in step with layout edits
+  const debouncedColumns = useDebounce(columns, 1000);
+  useEffect(() => {
+    if (!workspacesReady || debouncedColumns.length === 0) return;
+    saveActiveWorkspace(debouncedColumns);
+  }, [debouncedColumns, workspacesReady, saveActiveWorkspace]);
+
+  const loadWorkspaceColumns = (layout: Column[]) => {
+    setColumns(layout);
+    setFocusedColumnIndex(0);
+    setMobileColumnIndex(0);
+  };
+
+  const handleSwitchWorkspace = (id: string) => {
+    if (id === activeWorkspaceId) return;
+    saveActiveWorkspace(columns);
+    const workspace = workspaceService.setActiveWorkspace(id);
+    if (workspace) {
+      loadWorkspaceColumns(applyColumnSettings(workspace));
+    }
+  };
+
+  const handleCreateWorkspace = (name: string) => {
+    saveActiveWorkspace(columns);
+    workspaceService.createWorkspace(name, columns);
+  };
+
+  const handleDeleteWorkspace = (id: string) => {
+    workspaceService.deleteWorkspace(id);
+    const active = workspaceService.getActiveWorkspace();
+    if (id === activeWorkspaceId && active) {
+      loadWorkspaceColumns(applyColumnSettings(active));
+    }
+  };
+
+  const handleColumnChange = (updated: Column) => {
+    setColumns((prev) =>
+      prev.map((col) => (col.id === updated.id ? updated : col)),
+    );
+  };
+
+  const isBindingOtherAccount =
+    !!pendingColumnAccount && pendingColumnAccount !== session?.did;
+
   const handleAddColumn = (
     type: ColumnType,
     feedUri?: string,
@@ -287,10 +466,17 @@ export default function SkyDeck() {
           ? "Feed"
           : columnOptions.find((opt) => opt.type === type)?.label || type),
       data: feedUri || (type === "feed" ? "following" : undefined),
+      accountDid:
+        pendingColumnAccount && pendingColumnAccount !== session?.did
+          ? pendingColumnAccount
+          : undefined,
     };
 
     setColumns([...columns, newColumn]);
     setIsAddingColumn(false);
+    setPendingColumnType(null);
+    setPendingColumnValue("");
+    setPendingColumnAccount("");
 
     // Focus and scroll to the new column
     setTimeout(() => {
@@ -364,8 +550,10 @@ export default function SkyDeck() {
           className="relative h-full"
         >
           <SkyColumn
+            key={`${activeWorkspaceId}-${currentColumn.id}`}
             column={currentColumn}
             onClose={() => handleRemoveColumn(currentColumn.id)}
+            onColumnChange={handleColumnChange}
             onMoveLeft={
               mobileColumnIndex > 0
                 ? () => setMobileColumnIndex(mobileColumnIndex - 1)
@@ -405,11 +593,21 @@ export default function SkyDeck() {
   // Full multi-column view for wider screens
   return (
     <div className="flex h-full flex-col overflow-hidden dark:bg-gray-900">
+      <div className="flex items-center border-b border-gray-200 px-3 py-1.5 dark:border-gray-700">
+        <WorkspaceSwitcher
+          workspaces={workspaces}
+          activeWorkspaceId={activeWorkspaceId}
+          onSwitch={handleSwitchWorkspace}
+          onCreate={handleCreateWorkspace}
+          onRename={(id, name) => workspaceService.renameWorkspace(id, name)}
+          onDelete={handleDeleteWorkspace}
+        />
+      </div>
       <div className="skydeck-columns-scrollbar flex-1 overflow-x-auto overflow-y-hidden p-3">
         <div ref={columnsContainerRef} className="flex h-full min-w-min gap-3">
           {columns.map((column, index) => (
             <div
-              key={column.id}
+              key={`${activeWorkspaceId}-${column.id}`}
               className={`h-full w-[320px] rounded-lg border border-gray-200 bg-white shadow-md transition-all duration-300 ease-out dark:border-gray-700 dark:bg-gray-900 ${
                 focusedColumnIndex === index
                   ? "shadow-xl ring-2 ring-blue-500/30"
@@ -447,6 +645,7 @@ export default function SkyDeck() {
               <SkyColumn
                 column={column}
                 onClose={() => handleRemoveColumn(column.id)}
+                onColumnChange={handleColumnChange}
                 onMoveLeft={
                   columns.findIndex((col) => col.id === column.id) > 0
                     ? () => handleMoveLeft(column.id)
@@ -467,30 +666,108 @@ export default function SkyDeck() {
             {isAddingColumn ? (
               <div className="flex h-full animate-fade-in flex-col rounded-lg border border-gray-200 bg-white shadow-md dark:border-gray-700 dark:bg-gray-800">
                 <div className="flex-1 overflow-y-auto p-3">
+                  {accounts.length > 1 && (
+                    <label className="mb-3 flex items-center gap-2 px-1 text-sm text-gray-700 dark:text-gray-300">
+                      Show as
+                      <select
+                        value={pendingColumnAccount || session?.did || ""}
+                        onChange={(e) =>
+                          setPendingColumnAccount(e.target.value)
+                        }
+                        className="min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+                      >
+                        {accounts.map((account) => (
+                          <option key={account.did} value={account.did}>
+                            @{account.handle}
+                            {account.did === session?.did ? " (active)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
                   <div className="grid gap-2">
-                    {columnOptions.map((option) => {
-                      const Icon = option.icon;
-                      return (
-                        <button
-                          key={option.type}
-                          onClick={() => handleAddColumn(option.type)}
-                          className="flex min-h-[4rem] items-start gap-3 rounded-md border border-gray-200 p-3 text-left transition-colors hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-900/50"
-                        >
-                          <Icon className="mt-0.5 h-5 w-5 text-blue-500" />
-                          <div className="flex-1">
-                            <div className="font-medium text-gray-900 dark:text-white">
-                              {option.label}
-                            </div>
-                            <div className="whitespace-normal text-sm text-gray-500 dark:text-gray-400">
-                              {option.description}
+                    {columnOptions
+                      .filter(
+                        (option) =>
+                          !isBindingOtherAccount ||
+                          ACCOUNT_BINDABLE_TYPES.includes(option.type),
+                      )
+                      .map((option) => {
+                        const Icon = option.icon;
+                        if (pendingColumnType === option.type) {
+                          return (
+                            <form
+                              key={option.type}
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                const value = normalizeColumnValue(
+                                  option.type,
+                                  pendingColumnValue,
+                                );
+                                if (!value) return;
+                                handleAddColumn(
+                                  option.type,
+                                  value,
+                                  columnTitleFor(option.type, value),
+                                );
+                              }}
+                              className="flex items-center gap-2 rounded-md border border-blue-300 p-3 dark:border-blue-700"
+                            >
+                              <Icon className="h-5 w-5 flex-shrink-0 text-blue-500" />
+                              <input
+                                autoFocus
+                                value={pendingColumnValue}
+                                onChange={(e) =>
+                                  setPendingColumnValue(e.target.value)
+                                }
+                                onKeyDown={(e) => {
+                                  if (e.key === "Escape") {
+                                    setPendingColumnType(null);
+                                  }
+                                }}
+                                placeholder={option.placeholder}
+                                className="min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-900 dark:text-white dark:placeholder-gray-500"
+                              />
+                              <button
+                                type="submit"
+                                disabled={!pendingColumnValue.trim()}
+                                className="flex h-8 w-8 items-center justify-center rounded-md bg-blue-500 text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                                title={`Add ${option.label} column`}
+                              >
+                                <Plus size={16} />
+                              </button>
+                            </form>
+                          );
+                        }
+                        return (
+                          <button
+                            key={option.type}
+                            onClick={() => {
+                              if (option.placeholder) {
+                                setPendingColumnType(option.type);
+                                setPendingColumnValue("");
+                              } else {
+                                handleAddColumn(option.type);
+                              }
+                            }}
+                            className="flex min-h-[4rem] items-start gap-3 rounded-md border border-gray-200 p-3 text-left transition-colors hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-900/50"
+                          >
+                            <Icon className="mt-0.5 h-5 w-5 text-blue-500" />
+                            <div className="flex-1">
+                              <div className="font-medium text-gray-900 dark:text-white">
+                                {option.label}
+                              </div>
+                              <div className="whitespace-normal text-sm text-gray-500 dark:text-gray-400">
+                                {option.description}
+                              </div>
                             </div>
-                          </div>
-                        </button>
-                      );
-                    })}
+                          </button>
+                        );
+                      })}
 
                     {/* Add Feed Section */}
-                    {userPrefs?.savedFeeds &&
+                    {!isBindingOtherAccount &&
+                      userPrefs?.savedFeeds &&
                       feedGenerators &&
                       feedGenerators.length > 0 && (
                         <>
@@ -544,219 +821,263 @@ export default function SkyDeck() {
                       )}
 
                     {/* Add Lists Section */}
-                    {userLists && userLists.length > 0 && (
-                      <>
-                        <div className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-700">
-                          <h4 className="mb-2 px-3 text-sm font-medium text-gray-700 dark:text-gray-300">
-                            Add List
-                          </h4>
-                          <div className="grid gap-1">
-                            {userLists.map((list: any) => (
-                              <button
-                                key={list.uri}
-                                onClick={() =>
-                                  handleAddColumn("feed", list.uri, list.name)
-                                }
-                                className="flex items-start gap-2 rounded-lg p-3 text-left transition-colors hover:bg-gray-50 dark:hover:bg-gray-900/50"
-                              >
-                                <Users className="mt-0.5 h-4 w-4 text-blue-500" />
-                                <div className="min-w-0 flex-1">
-                                  <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
-                                    {list.name}
-                                  </div>
-                                  {list.description && (
-                                    <div className="truncate text-xs text-gray-500 dark:text-gray-400">
-                                      {list.description}
+                    {!isBindingOtherAccount &&
+                      userLists &&
+                      userLists.length > 0 && (
+                        <>
+                          <div className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-700">
+                            <h4 className="mb-2 px-3 text-sm font-medium text-gray-700 dark:text-gray-300">
+                              Add List
+                            </h4>
+                            <div className="grid gap-1">
+                              {userLists.map((list: any) => (
+                                <button
+                                  key={list.uri}
+                                  onClick={() =>
+                                    handleAddColumn("list", list.uri, list.name)
+                                  }
+                                  className="flex items-start gap-2 rounded-lg p-3 text-left transition-colors hover:bg-gray-50 dark:hover:bg-gray-900/50"
+                                >
+                                  <Users className="mt-0.5 h-4 w-4 text-blue-500" />
+                                  <div className="min-w-0 flex-1">
+                                    <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                                      {list.name}
+                                    </div>
+                                    {list.description && (
+                                      <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                                        {list.description}
+                                      </div>
+                                    )}
+                                    <div className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
+                                      {list.listItemCount || 0} members
                                     </div>
-                                  )}
-                                  <div className="mt-0.5 text-xs text-gray-400 dark:text-gray-500">
-                                    {list.listItemCount || 0} members
                                   </div>
-                                </div>
-                              </button>
-                            ))}
+                                </button>
+                              ))}
+                            </div>
                           </div>
+                        </>
+                      )}
+
+                    {/* Add Notification Rule Section */}
+                    {!isBindingOtherAccount && columnRules.length > 0 && (
+                      <div className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-700">
+                        <h4 className="mb-2 px-3 text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Add Notification Rule
+                        </h4>
+                        <div className="grid gap-1">
+                          {columnRules.map((rule) => (
+                            <button
+                              key={rule.id}
+                              onClick={() =>
+                                handleAddColumn(
+                                  "notificationRule",
+                                  rule.id,
+                                  rule.name,
+                                )
+                              }
+                              className="flex items-start gap-2 rounded-lg p-3 text-left transition-colors hover:bg-gray-50 dark:hover:bg-gray-900/50"
+                            >
+                              <ListFilter className="mt-0.5 h-4 w-4 text-blue-500" />
+                              <div className="min-w-0 flex-1">
+                                <div className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                                  {rule.name}
+                                </div>
+                                {!rule.enabled && (
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    Turned off
+                                  </div>
+                                )}
+                              </div>
+                            </button>
+                          ))}
                         </div>
-                      </>
+                      </div>
                     )}
 
                     {/* Add Custom Feed by URI */}
-                    <div className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-700">
-                      <h4 className="mb-2 px-3 text-sm font-medium text-gray-700 dark:text-gray-300">
-                        Add Custom Feed or List by URI
-                      </h4>
-                      <div className="flex gap-2 px-3">
-                        <input
-                          type="text"
-                          value={customFeedUri}
-                          onChange={(e) => setCustomFeedUri(e.target.value)}
-                          onKeyPress={(e) => {
-                            if (
-                              e.key === "Enter" &&
-                              customFeedUri.trim() &&
-                              !isLoadingCustomFeed
-                            ) {
-                              e.preventDefault();
-                              document
-                                .getElementById("add-feed-button")
-                                ?.click();
-                            }
-                          }}
-                          placeholder="Paste feed/list AT-URI or bsky.app URL"
-                          className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-900 dark:text-white dark:placeholder-gray-500"
-                        />
-                        <button
-                          id="add-feed-button"
-                          onClick={async () => {
-                            if (customFeedUri.trim()) {
-                              setIsLoadingCustomFeed(true);
-                              try {
-                                let uri = customFeedUri.trim();
-
-                                // Handle starter pack URLs
-                                if (uri.includes("bsky.app/starter-pack/")) {
-                                  // Extract the handle and rkey from starter pack URL
-                                  const match = uri.match(
-                                    // eslint-disable-next-line no-useless-escape
-                                    /starter-pack\/([^\/]+)\/([^\/\?]+)/,
-                                  );
-                                  if (match) {
-                                    const [, handle, rkey] = match;
-                                    try {
-                                      // Resolve the handle to DID
-                                      const resolveResponse =
-                                        await agent?.com.atproto.identity.resolveHandle(
-                                          {
-                                            handle: handle,
-                                          },
-                                        );
-                                      if (resolveResponse?.data?.did) {
-                                        // Construct the starter pack AT-URI
-                                        const starterPackUri = `at://${resolveResponse.data.did}/app.bsky.graph.starterpack/${rkey}`;
+                    {!isBindingOtherAccount && (
+                      <div className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-700">
+                        <h4 className="mb-2 px-3 text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Add Custom Feed or List by URI
+                        </h4>
+                        <div className="flex gap-2 px-3">
+                          <input
+                            type="text"
+                            value={customFeedUri}
+                            onChange={(e) => setCustomFeedUri(e.target.value)}
+                            onKeyPress={(e) => {
+                              if (
+                                e.key === "Enter" &&
+                                customFeedUri.trim() &&
+                                !isLoadingCustomFeed
+                              ) {
+                                e.preventDefault();
+                                document
+                                  .getElementById("add-feed-button")
+                                  ?.click();
+                              }
+                            }}
+                            placeholder="Paste feed/list AT-URI or bsky.app URL"
+                            className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-900 dark:text-white dark:placeholder-gray-500"
+                          />
+                          <button
+                            id="add-feed-button"
+                            onClick={async () => {
+                              if (customFeedUri.trim()) {
+                                setIsLoadingCustomFeed(true);
+                                try {
+                                  let uri = customFeedUri.trim();
 
-                                        // Fetch the starter pack to get the list URI
-                                        const starterPackResponse =
-                                          await agent?.app.bsky.graph.getStarterPack(
+                                  // Handle starter pack URLs
+                                  if (uri.includes("bsky.app/starter-pack/")) {
+                                    // Extract the handle and rkey from starter pack URL
+                                    const match = uri.match(
+                                      // eslint-disable-next-line no-useless-escape
+                                      /starter-pack\/([^\/]+)\/([^\/\?]+)/,
+                                    );
+                                    if (match) {
+                                      const [, handle, rkey] = match;
+                                      try {
+                                        // Resolve the handle to DID
+                                        const resolveResponse =
+                                          await agent?.com.atproto.identity.resolveHandle(
                                             {
-                                              starterPack: starterPackUri,
+                                              handle: handle,
                                             },
                                           );
+                                        if (resolveResponse?.data?.did) {
+                                          // Construct the starter pack AT-URI
+                                          const starterPackUri = `at://${resolveResponse.data.did}/app.bsky.graph.starterpack/${rkey}`;
 
-                                        if (
-                                          starterPackResponse?.data?.starterPack
-                                            ?.list
-                                        ) {
-                                          // Use the list URI from the starter pack
-                                          const listData =
-                                            starterPackResponse.data.starterPack
-                                              .list;
-                                          // Handle both string URI and object with uri property
-                                          uri =
-                                            typeof listData === "string"
-                                              ? listData
-                                              : listData.uri;
-                                          logger.log(
-                                            "Extracted list URI from starter pack:",
-                                            uri,
-                                          );
-                                        } else {
-                                          logger.error(
-                                            "Starter pack does not contain a list",
-                                          );
-                                          throw new Error(
-                                            "Starter pack does not contain a list",
-                                          );
+                                          // Fetch the starter pack to get the list URI
+                                          const starterPackResponse =
+                                            await agent?.app.bsky.graph.getStarterPack(
+                                              {
+                                                starterPack: starterPackUri,
+                                              },
+                                            );
+
+                                          if (
+                                            starterPackResponse?.data
+                                              ?.starterPack?.list
+                                          ) {
+                                            // Use the list URI from the starter pack
+                                            const listData =
+                                              starterPackResponse.data
+                                                .starterPack.list;
+                                            // Handle both string URI and object with uri property
+                                            uri =
+                                              typeof listData === "string"
+                                                ? listData
+                                                : listData.uri;
+                                            logger.log(
+                                              "Extracted list URI from starter pack:",
+                                              uri,
+                                            );
+                                          } else {
+                                            logger.error(
+                                              "Starter pack does not contain a list",
+                                            );
+                                            throw new Error(
+                                              "Starter pack does not contain a list",
+                                            );
+                                          }
                                         }
+                                      } catch (error) {
+                                        logger.error(
+                                          "Failed to resolve starter pack:",
+                                          error,
+                                        );
+                                        throw error;
                                       }
-                                    } catch (error) {
-                                      logger.error(
-                                        "Failed to resolve starter pack:",
-                                        error,
-                                      );
-                                      throw error;
                                     }
                                   }
-                                }
-
-                                // Ensure uri is a string
-                                if (!uri || typeof uri !== "string") {
-                                  throw new Error("Invalid feed URI");
-                                }
 
-                                // Check if it's a list URI
-                                if (uri.includes("/app.bsky.graph.list/")) {
-                                  // Try to fetch list info
-                                  const response =
-                                    await agent?.app.bsky.graph.getList({
-                                      list: uri,
-                                    });
-                                  if (response?.data.list) {
-                                    const list = response.data.list;
-                                    handleAddColumn(
-                                      "feed",
-                                      list.uri,
-                                      list.name,
-                                    );
-                                    setCustomFeedUri("");
-                                  } else {
-                                    // If no list info, add with URI as name
-                                    handleAddColumn("feed", uri, uri);
-                                    setCustomFeedUri("");
+                                  // Ensure uri is a string
+                                  if (!uri || typeof uri !== "string") {
+                                    throw new Error("Invalid feed URI");
                                   }
-                                } else {
-                                  // It's a feed URI
-                                  const response =
-                                    await agent?.app.bsky.feed.getFeedGenerators(
-                                      {
-                                        feeds: [uri],
-                                      },
-                                    );
-                                  if (response?.data.feeds[0]) {
-                                    const feed = response.data.feeds[0];
-                                    handleAddColumn(
-                                      "feed",
-                                      feed.uri,
-                                      feed.displayName,
-                                    );
-                                    setCustomFeedUri("");
+
+                                  // Check if it's a list URI
+                                  if (uri.includes("/app.bsky.graph.list/")) {
+                                    // Try to fetch list info
+                                    const response =
+                                      await agent?.app.bsky.graph.getList({
+                                        list: uri,
+                                      });
+                                    if (response?.data.list) {
+                                      const list = response.data.list;
+                                      handleAddColumn(
+                                        "list",
+                                        list.uri,
+                                        list.name,
+                                      );
+                                      setCustomFeedUri("");
+                                    } else {
+                                      // If no list info, add with URI as name
+                                      handleAddColumn("list", uri, uri);
+                                      setCustomFeedUri("");
+                                    }
                                   } else {
-                                    // If no feed info, add with URI as name
-                                    handleAddColumn("feed", uri, uri);
-                                    setCustomFeedUri("");
+                                    // It's a feed URI
+                                    const response =
+                                      await agent?.app.bsky.feed.getFeedGenerators(
+                                        {
+                                          feeds: [uri],
+                                        },
+                                      );
+                                    if (response?.data.feeds[0]) {
+                                      const feed = response.data.feeds[0];
+                                      handleAddColumn(
+                                        "feed",
+                                        feed.uri,
+                                        feed.displayName,
+                                      );
+                                      setCustomFeedUri("");
+                                    } else {
+                                      // If no feed info, add with URI as name
+                                      handleAddColumn("feed", uri, uri);
+                                      setCustomFeedUri("");
+                                    }
                                   }
+                                } catch (error: any) {
+                                  logger.error(
+                                    "Error fetching feed/list:",
+                                    error,
+                                  );
+                                  // Show error to user instead of adding invalid feed
+                                  showAlert(
+                                    `Failed to add feed: ${error?.message || "Invalid feed URL"}`,
+                                    {
+                                      variant: "error",
+                                      title: "Failed to Add Feed",
+                                    },
+                                  );
+                                } finally {
+                                  setIsLoadingCustomFeed(false);
                                 }
-                              } catch (error: any) {
-                                logger.error(
-                                  "Error fetching feed/list:",
-                                  error,
-                                );
-                                // Show error to user instead of adding invalid feed
-                                showAlert(
-                                  `Failed to add feed: ${error?.message || "Invalid feed URL"}`,
-                                  {
-                                    variant: "error",
-                                    title: "Failed to Add Feed",
-                                  },
-                                );
-                              } finally {
-                                setIsLoadingCustomFeed(false);
                               }
+                            }}
+                            disabled={
+                              !customFeedUri.trim() || isLoadingCustomFeed
                             }
-                          }}
-                          disabled={
-                            !customFeedUri.trim() || isLoadingCustomFeed
-                          }
-                          className="flex h-10 w-10 items-center justify-center rounded-md bg-blue-500 text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
-                          title="Add Feed"
-                        >
-                          <Plus size={18} />
-                        </button>
+                            className="flex h-10 w-10 items-center justify-center rounded-md bg-blue-500 text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                            title="Add Feed"
+                          >
+                            <Plus size={18} />
+                          </button>
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                   <div className="mt-4">
                     <button
-                      onClick={() => setIsAddingColumn(false)}
+                      onClick={() => {
+                        setIsAddingColumn(false);
+                        setPendingColumnType(null);
+                        setPendingColumnAccount("");
+                      }}
                       className="w-full rounded-md bg-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-400 dark:bg-gray-600 dark:text-white dark:hover:bg-gray-500"
                     >
                       Cancel
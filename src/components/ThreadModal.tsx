@@ -7,6 +7,7 @@ import ReactDOM from "react-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { useModalSwipeBack } from "../hooks/useModalSwipeBack";
 import { VideoUploadService } from "../services/atproto/video-upload";
+import { buildPostRichText } from "../utils/rich-text";
 import { BaseComposer } from "./BaseComposer";
 import { ThreadViewer } from "./ThreadViewer";
 
@@ -179,7 +180,7 @@ export function ThreadModal({
     }
 
     const record = {
-      text: text.trim(),
+      ...(await buildPostRichText(agent, text.trim())),
       reply: {
         root: { uri: rootPost, cid: rootCid },
         parent: { uri: mainPost.uri, cid: mainPost.cid },
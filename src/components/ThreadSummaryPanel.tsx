@@ -0,0 +1,106 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronUp, Loader2, Sparkles } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import {
+  aiAssist,
+  MAX_CONTEXT_POSTS,
+  MIN_SUMMARY_POSTS,
+  toThreadContext,
+} from "../services/ai-assist";
+
+interface ThreadSummaryPanelProps {
+  posts: AppBskyFeedDefs.PostView[];
+  rootUri?: string;
+}
+
+/**
+ * "Summarize thread" above long conversations: a short summary, the key
+ * points and who took part. Hidden when no assist provider is set up.
+ */
+export const ThreadSummaryPanel: React.FC<ThreadSummaryPanelProps> = ({
+  posts,
+  rootUri,
+}) => {
+  const [showSummary, setShowSummary] = useState(false);
+  // Summaries of very long threads cover how the conversation started
+  const context = useMemo(
+    () => toThreadContext(posts).slice(0, MAX_CONTEXT_POSTS),
+    [posts],
+  );
+
+  const {
+    data: summary,
+    isFetching,
+    error,
+  } = useQuery({
+    // New replies make for a new summary
+    queryKey: ["thread-summary", rootUri || posts[0]?.uri, context.length],
+    queryFn: () => aiAssist.summarizeThread(context),
+    enabled: showSummary,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  if (!aiAssist.isAvailable() || context.length < MIN_SUMMARY_POSTS) {
+    return null;
+  }
+
+  return (
+    <div
+      className="mb-3 rounded-lg border p-3"
+      style={{
+        backgroundColor: "var(--bsky-bg-secondary)",
+        borderColor: "var(--bsky-border-primary)",
+      }}
+    >
+      <button
+        onClick={() => setShowSummary(!showSummary)}
+        className="flex items-center gap-2 text-sm font-medium hover:underline"
+        style={{ color: "var(--bsky-primary)" }}
+      >
+        {isFetching ? (
+          <Loader2 size={14} className="animate-spin" />
+        ) : showSummary ? (
+          <ChevronUp size={14} />
+        ) : (
+          <Sparkles size={14} />
+        )}
+        {showSummary
+          ? "Hide summary"
+          : `Summarize thread (${context.length} posts)`}
+      </button>
+
+      {showSummary && summary && (
+        <div className="mt-2 space-y-2 text-sm">
+          <p style={{ color: "var(--bsky-text-primary)" }}>{summary.summary}</p>
+          {summary.keyPoints.length > 0 && (
+            <ul
+              className="list-disc space-y-1 pl-5"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              {summary.keyPoints.map((point, i) => (
+                <li key={i}>{point}</li>
+              ))}
+            </ul>
+          )}
+          {summary.participants.length > 0 && (
+            <p
+              className="text-xs"
+              style={{ color: "var(--bsky-text-tertiary)" }}
+            >
+              Participants:{" "}
+              {summary.participants.map((handle) => `@${handle}`).join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {showSummary && error && (
+        <p className="mt-2 text-xs" style={{ color: "var(--bsky-error)" }}>
+          {error instanceof Error ? error.message : "Thread summary failed"}
+        </p>
+      )}
+    </div>
+  );
+};
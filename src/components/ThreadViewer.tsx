@@ -1,15 +1,24 @@
 import type { AppBskyFeedDefs } from "@atproto/api";
 import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
 import { formatDistanceToNow } from "date-fns";
-import { CornerDownRight, ExternalLink, Loader2 } from "lucide-react";
+import {
+  BarChart3,
+  CornerDownRight,
+  ExternalLink,
+  Loader2,
+} from "lucide-react";
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router";
+import { useAuth } from "../contexts/AuthContext";
 import { useOptimisticPosts } from "../hooks/useOptimisticPosts";
+import { MAX_CONTEXT_POSTS, toThreadContext } from "../services/ai-assist";
 import { proxifyBskyImage, proxifyBskyVideo } from "../utils/image-proxy";
 import { atUriToBskyUrl, getNotificationUrl } from "../utils/url-helpers";
 import { ImageGallery } from "./ImageGallery";
 import { InlineReplyComposer } from "./InlineReplyComposer";
 import { PostActionBar } from "./PostActionBar";
+import { ThreadSummaryPanel } from "./ThreadSummaryPanel";
+import { TranslationToggle } from "./TranslationToggle";
 import { VideoPlayer } from "./VideoPlayer";
 
 type Post = AppBskyFeedDefs.PostView;
@@ -44,6 +53,7 @@ export const ThreadViewer: React.FC<ThreadViewerProps> = ({
   onReplySuccess,
 }) => {
   const navigate = useNavigate();
+  const { session } = useAuth();
   const [galleryImages, setGalleryImages] = useState<Array<{
     thumb: string;
     fullsize: string;
@@ -115,6 +125,22 @@ export const ThreadViewer: React.FC<ThreadViewerProps> = ({
     }
   };
 
+  // The chain of posts leading to `post`, for reply suggestions
+  const getReplyContext = (post: Post) => {
+    const byUri = new Map(posts.map((p) => [p.uri, p]));
+    const chain: Post[] = [];
+    let current: Post | undefined = post;
+    while (current && !chain.includes(current)) {
+      chain.unshift(current);
+      const parentUri: string | undefined = (
+        current.record as { reply?: { parent?: { uri?: string } } }
+      ).reply?.parent?.uri;
+      current = parentUri ? byUri.get(parentUri) : undefined;
+    }
+    // The post being replied to is last, so keep the end of long chains
+    return toThreadContext(chain).slice(-MAX_CONTEXT_POSTS);
+  };
+
   // Create a map of notifications by URI
   const notificationMap = useMemo(() => {
     const map = new Map<string, Notification>();
@@ -451,6 +477,9 @@ export const ThreadViewer: React.FC<ThreadViewerProps> = ({
         showUnreadIndicators && notification && !notification.isRead;
       const isHighlighted = highlightUri && post?.uri === highlightUri;
       const isReplyingTo = post && replyingTo === post.uri;
+      const record = post?.record as
+        | { text?: string; langs?: string[] }
+        | undefined;
       const author = post?.author || notification?.author;
       const postUrl =
         post?.uri && author?.handle
@@ -701,6 +730,24 @@ export const ThreadViewer: React.FC<ThreadViewerProps> = ({
                           { addSuffix: true },
                         )}
                       </time>
+                      {post && post.author.did === session?.did && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            navigate(
+                              `/analytics/posts?post=${encodeURIComponent(post.uri)}`,
+                            );
+                          }}
+                          className="transition-opacity hover:opacity-70"
+                          aria-label="Post analytics"
+                          title="Post analytics"
+                        >
+                          <BarChart3
+                            size={14}
+                            style={{ color: "var(--bsky-text-tertiary)" }}
+                          />
+                        </button>
+                      )}
                       {postUrl && (
                         <button
                           onClick={(e) => {
@@ -745,6 +792,14 @@ export const ThreadViewer: React.FC<ThreadViewerProps> = ({
                     )}
                   </p>
 
+                  {post && (
+                    <TranslationToggle
+                      uri={post.uri}
+                      text={record?.text || ""}
+                      langs={record?.langs}
+                    />
+                  )}
+
                   {post?.embed && renderEmbed(post.embed)}
 
                   {isUnread && (
@@ -798,6 +853,7 @@ export const ThreadViewer: React.FC<ThreadViewerProps> = ({
                         },
                       }}
                       root={rootPost || undefined}
+                      context={getReplyContext(post)}
                       onClose={() => setReplyingTo(null)}
                       onSuccess={() => {
                         setReplyingTo(null);
@@ -822,6 +878,7 @@ export const ThreadViewer: React.FC<ThreadViewerProps> = ({
   return (
     <>
       <div className={`thread-viewer ${className}`}>
+        <ThreadSummaryPanel posts={posts} rootUri={rootUri} />
         {threadTree.length > 0 ? (
           renderThreadNodes(threadTree)
         ) : (
@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { Languages, Loader2 } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { translationService } from "../services/translation";
+import {
+  detectLanguage,
+  getBrowserLanguage,
+  languageName,
+  primaryLanguage,
+} from "../utils/language-detect";
+
+interface TranslationToggleProps {
+  uri: string;
+  text: string;
+  // The post's own langs field, when it has one
+  langs?: string[];
+}
+
+/**
+ * "Translate" link under a post, for posts not already in the reader's
+ * language. Hidden when no translation provider is set up.
+ */
+export const TranslationToggle: React.FC<TranslationToggleProps> = ({
+  uri,
+  text,
+  langs,
+}) => {
+  const targetLang = getBrowserLanguage();
+  const [showTranslation, setShowTranslation] = useState(false);
+  const sourceLang = useMemo(
+    () => langs?.[0] || detectLanguage(text),
+    [langs, text],
+  );
+
+  const {
+    data: translation,
+    isFetching,
+    error,
+  } = useQuery({
+    queryKey: ["translation", uri, targetLang],
+    queryFn: () =>
+      translationService.translatePost(
+        uri,
+        text,
+        targetLang,
+        sourceLang || undefined,
+      ),
+    enabled: showTranslation,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  if (!text.trim() || !translationService.isAvailable()) return null;
+  if (sourceLang && primaryLanguage(sourceLang) === targetLang) return null;
+
+  return (
+    <div className="mt-1" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setShowTranslation(!showTranslation)}
+        className="flex items-center gap-1 text-xs hover:underline"
+        style={{ color: "var(--bsky-primary)" }}
+      >
+        {isFetching ? (
+          <Loader2 size={12} className="animate-spin" />
+        ) : (
+          <Languages size={12} />
+        )}
+        {showTranslation ? "Hide translation" : "Translate"}
+      </button>
+      {showTranslation && translation && (
+        <div
+          className="mt-1 rounded-lg p-2 text-sm"
+          style={{ backgroundColor: "var(--bsky-bg-secondary)" }}
+        >
+          <p
+            className="whitespace-pre-wrap break-words"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            {translation.text}
+          </p>
+          <p
+            className="mt-1 text-xs"
+            style={{ color: "var(--bsky-text-tertiary)" }}
+          >
+            Translated
+            {translation.sourceLang &&
+              ` from ${languageName(translation.sourceLang)}`}
+          </p>
+        </div>
+      )}
+      {showTranslation && error && (
+        <p className="mt-1 text-xs" style={{ color: "var(--bsky-error)" }}>
+          {error instanceof Error ? error.message : "Translation failed"}
+        </p>
+      )}
+    </div>
+  );
+};
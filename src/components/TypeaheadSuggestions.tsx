@@ -0,0 +1,99 @@
+import { Hash } from "lucide-react";
+import React from "react";
+import type { TypeaheadSuggestion } from "../hooks/useRichTextTypeahead";
+import { proxifyBskyImage } from "../utils/image-proxy";
+
+interface TypeaheadSuggestionsProps {
+  suggestions: TypeaheadSuggestion[];
+  selectedIndex: number;
+  onSelect: (suggestion: TypeaheadSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+/**
+ * Dropdown for @-mention and #hashtag suggestions. Render it inside a
+ * relatively positioned wrapper around the textarea.
+ */
+export const TypeaheadSuggestions: React.FC<TypeaheadSuggestionsProps> = ({
+  suggestions,
+  selectedIndex,
+  onSelect,
+  onHover,
+}) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div
+      className="absolute left-0 top-full z-50 mt-1 max-h-64 w-72 overflow-y-auto rounded-lg border shadow-lg"
+      style={{
+        background: "var(--bsky-bg-primary)",
+        borderColor: "var(--bsky-border-primary)",
+      }}
+      role="listbox"
+    >
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion.type === "mention" ? suggestion.did : suggestion.tag}
+          type="button"
+          role="option"
+          aria-selected={index === selectedIndex}
+          // Keep focus in the textarea so the caret position survives
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          onMouseEnter={() => onHover(index)}
+          className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm"
+          style={{
+            background:
+              index === selectedIndex
+                ? "var(--bsky-bg-secondary)"
+                : "transparent",
+            color: "var(--bsky-text-primary)",
+          }}
+        >
+          {suggestion.type === "mention" ? (
+            <>
+              {suggestion.avatar ? (
+                <img
+                  src={proxifyBskyImage(suggestion.avatar)}
+                  alt=""
+                  className="h-7 w-7 flex-shrink-0 rounded-full"
+                />
+              ) : (
+                <div
+                  className="h-7 w-7 flex-shrink-0 rounded-full"
+                  style={{ background: "var(--bsky-bg-tertiary)" }}
+                />
+              )}
+              <div className="min-w-0">
+                <div className="truncate font-medium">
+                  {suggestion.displayName || suggestion.handle}
+                </div>
+                <div
+                  className="truncate text-xs"
+                  style={{ color: "var(--bsky-text-secondary)" }}
+                >
+                  @{suggestion.handle}
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <Hash
+                size={16}
+                className="flex-shrink-0"
+                style={{ color: "var(--bsky-primary)" }}
+              />
+              <span className="flex-1 truncate">{suggestion.tag}</span>
+              <span
+                className="text-xs"
+                style={{ color: "var(--bsky-text-tertiary)" }}
+              >
+                {suggestion.useCount}×
+              </span>
+            </>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,12 +1,24 @@
-import { ChevronDown, LogOut, Settings, User } from "lucide-react";
+import {
+  Check,
+  ChevronDown,
+  Loader,
+  LogOut,
+  Settings,
+  User,
+  UserPlus,
+} from "lucide-react";
 import React, { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router";
 import { useAuth } from "../contexts/AuthContext";
+import { useModal } from "../contexts/ModalContext";
+import { proxifyBskyImage } from "../utils/image-proxy";
 
 export const UserMenu: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
-  const { session, logout } = useAuth();
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const { session, logout, accounts, switchAccount, addAccount } = useAuth();
+  const { showAlert } = useModal();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -35,6 +47,19 @@ export const UserMenu: React.FC = () => {
     setIsOpen(false);
   };
 
+  const handleSwitchAccount = async (did: string, handle: string) => {
+    setSwitchingTo(did);
+    try {
+      await switchAccount(did);
+    } catch {
+      setSwitchingTo(null);
+      showAlert(
+        `Couldn't switch to @${handle}. Its session may have expired, sign in to it again with "Add account".`,
+        { variant: "error", title: "Switch failed" },
+      );
+    }
+  };
+
   const menuItems = [
     {
       icon: User,
@@ -49,6 +74,14 @@ export const UserMenu: React.FC = () => {
     {
       divider: true,
     },
+    {
+      icon: UserPlus,
+      label: "Add account",
+      onClick: () => {
+        setIsOpen(false);
+        addAccount();
+      },
+    },
     {
       icon: LogOut,
       label: "Sign Out",
@@ -99,6 +132,45 @@ export const UserMenu: React.FC = () => {
             </p>
           </div>
 
+          {accounts.length > 1 && (
+            <div
+              className="border-b py-1"
+              style={{ borderColor: "var(--bsky-border-primary)" }}
+            >
+              {accounts.map((account) => {
+                const isActive = account.did === session?.did;
+                return (
+                  <button
+                    key={account.did}
+                    onClick={() =>
+                      !isActive &&
+                      handleSwitchAccount(account.did, account.handle)
+                    }
+                    disabled={isActive || switchingTo !== null}
+                    className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm transition-colors hover:bg-blue-50 disabled:hover:bg-transparent"
+                    style={{ color: "var(--bsky-text-primary)" }}
+                  >
+                    <img
+                      src={
+                        proxifyBskyImage(account.avatar) ||
+                        "/default-avatar.svg"
+                      }
+                      alt=""
+                      className="h-6 w-6 flex-shrink-0 rounded-full"
+                    />
+                    <span className="min-w-0 flex-1 truncate">
+                      {account.displayName || `@${account.handle}`}
+                    </span>
+                    {switchingTo === account.did && (
+                      <Loader size={14} className="animate-spin" />
+                    )}
+                    {isActive && <Check size={14} />}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           <div className="py-1">
             {menuItems.map((item, index) => {
               if (item.divider) {
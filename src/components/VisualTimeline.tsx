@@ -18,8 +18,10 @@ import {
 import React from "react";
 import { useNavigate } from "react-router";
 import { useAuth } from "../contexts/AuthContext";
+import { useNotificationPollingInterval } from "../hooks/useJetstream";
 import { useNotificationPosts } from "../hooks/useNotificationPosts";
 import { proxifyBskyImage } from "../utils/image-proxy";
+import { NotificationDigest } from "./NotificationDigest";
 import { ThreadModal } from "./ThreadModal";
 
 interface AggregatedEvent {
@@ -67,6 +69,7 @@ export const VisualTimeline: React.FC<VisualTimelineProps> = ({
 }) => {
   const { agent } = useAuth();
   const navigate = useNavigate();
+  const pollingInterval = useNotificationPollingInterval();
   const containerRef = React.useRef<HTMLDivElement>(null);
   const timelineItemsRef = React.useRef<Map<string, HTMLDivElement>>(new Map());
   const [selectedItemIndex, setSelectedItemIndex] = React.useState<number>(-1);
@@ -77,6 +80,7 @@ export const VisualTimeline: React.FC<VisualTimelineProps> = ({
     Map<string, { color: string; position: number }>
   >(new Map());
   // Removed expandedItems state - cards are always expanded
+  const [view, setView] = React.useState<"timeline" | "digest">("timeline");
 
   // Helper function to handle internal navigation
   const handleInternalNavigation = (e: React.MouseEvent, url: string) => {
@@ -95,7 +99,7 @@ export const VisualTimeline: React.FC<VisualTimelineProps> = ({
     refetchOnWindowFocus: false,
     staleTime: 5 * 60 * 1000, // 5 minutes
     refetchOnMount: false, // Don't refetch on mount - use stale time instead
-    refetchInterval: 60 * 1000, // Poll every 60 seconds after initial load
+    refetchInterval: pollingInterval, // Poll every 60 seconds while Jetstream is down
     enabled: !!agent, // Only run when agent is available
   });
 
@@ -996,489 +1000,1061 @@ export const VisualTimeline: React.FC<VisualTimelineProps> = ({
     >
       {/* Scrollable content wrapper */}
       <div className={isInSkyDeck ? "flex-1 overflow-y-auto" : ""}>
-        <div className="relative">
-          {/* Timeline line */}
+        <div className="flex gap-1 px-4 py-2 sm:px-6">
+          {(["timeline", "digest"] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={`rounded-md px-2.5 py-1 text-xs font-medium capitalize transition-all ${
+                view === value
+                  ? "bg-bsky-primary text-white"
+                  : "text-bsky-text-secondary hover:bg-bsky-bg-secondary"
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+        {view === "digest" ? (
+          <NotificationDigest onOpenPost={setSelectedPostUri} />
+        ) : (
+          <TimelineView
+            hideTimeLabels={hideTimeLabels}
+            isInSkyDeck={isInSkyDeck}
+            notifications={notifications}
+            postMap={postMap}
+            eventsByDay={eventsByDay}
+            dayGroupColors={dayGroupColors}
+            timelineItemsRef={timelineItemsRef}
+            selectedItemIndex={selectedItemIndex}
+            setSelectedItemIndex={setSelectedItemIndex}
+            setSelectedPostUri={setSelectedPostUri}
+            handleInternalNavigation={handleInternalNavigation}
+            getEventKey={getEventKey}
+            getSpacingClass={getSpacingClass}
+            getTimeOfDay={getTimeOfDay}
+            isDayTime={isDayTime}
+            getTimeOfDayColor={getTimeOfDayColor}
+            getReasonIcon={getReasonIcon}
+          />
+        )}
+
+        {/* Thread Modal */}
+        {selectedPostUri && (
+          <ThreadModal
+            postUri={selectedPostUri}
+            onClose={() => setSelectedPostUri(null)}
+          />
+        )}
+      </div>{" "}
+      {/* End scrollable wrapper */}
+    </div>
+  );
+};
+
+interface TimelineViewProps {
+  hideTimeLabels: boolean;
+  isInSkyDeck: boolean;
+  notifications: unknown[];
+  postMap: Map<string, any>;
+  eventsByDay: { label: string; events: AggregatedEvent[] }[];
+  dayGroupColors: Map<string, { color: string; position: number }>;
+  timelineItemsRef: React.MutableRefObject<Map<string, HTMLDivElement>>;
+  selectedItemIndex: number;
+  setSelectedItemIndex: (index: number) => void;
+  setSelectedPostUri: (uri: string) => void;
+  handleInternalNavigation: (e: React.MouseEvent, url: string) => void;
+  getEventKey: (event: AggregatedEvent, index: number) => string;
+  getSpacingClass: (currentTime: Date, previousTime?: Date) => string;
+  getTimeOfDay: (date: Date) => string;
+  isDayTime: (date: Date) => boolean;
+  getTimeOfDayColor: (date: Date) => {
+    backgroundColor: string;
+    borderColor: string;
+    shadowColor: string;
+  };
+  getReasonIcon: (reason: string) => React.ReactNode;
+}
+
+// The day-grouped timeline of aggregated notifications
+const TimelineView: React.FC<TimelineViewProps> = ({
+  hideTimeLabels,
+  isInSkyDeck,
+  notifications,
+  postMap,
+  eventsByDay,
+  dayGroupColors,
+  timelineItemsRef,
+  selectedItemIndex,
+  setSelectedItemIndex,
+  setSelectedPostUri,
+  handleInternalNavigation,
+  getEventKey,
+  getSpacingClass,
+  getTimeOfDay,
+  isDayTime,
+  getTimeOfDayColor,
+  getReasonIcon,
+}) => {
+  return (
+    <div className="relative">
+      {/* Timeline line */}
+      <div
+        className="absolute bottom-0 left-[1.5rem] top-0 w-0.5 sm:left-[6.5rem]"
+        style={{
+          background:
+            "linear-gradient(to bottom, var(--bsky-border-color) 0%, var(--bsky-border-color) 100%)",
+          position: "relative",
+        }}
+      />
+
+      {eventsByDay.map((dayGroup, dayIndex) => (
+        <div key={dayGroup.label} data-day-group={dayGroup.label}>
+          {/* Sticky day label */}
           <div
-            className="absolute bottom-0 left-[1.5rem] top-0 w-0.5 sm:left-[6.5rem]"
+            className={`mb-2 px-4 py-1.5 backdrop-blur-md sm:px-6 ${!isInSkyDeck ? "timeline-sticky-banner" : "sticky"}`}
             style={{
-              background:
-                "linear-gradient(to bottom, var(--bsky-border-color) 0%, var(--bsky-border-color) 100%)",
-              position: "relative",
+              ...(isInSkyDeck
+                ? {
+                    position: "sticky",
+                    WebkitPosition: "-webkit-sticky",
+                    top: "0",
+                    zIndex: 30,
+                  }
+                : {}),
+              backgroundColor: "var(--bsky-bg-primary)",
+              borderBottom: "1px solid var(--bsky-border-color)",
+              backdropFilter: "blur(10px)",
+              WebkitBackdropFilter: "blur(10px)",
+              boxShadow: "0 1px 3px rgba(0, 0, 0, 0.1)",
+              // iOS Safari fixes
+              transform: "translateZ(0)",
+              willChange: "transform",
             }}
-          />
-
-          {eventsByDay.map((dayGroup, dayIndex) => (
-            <div key={dayGroup.label} data-day-group={dayGroup.label}>
-              {/* Sticky day label */}
+          >
+            <div className="flex items-center gap-2">
               <div
-                className={`mb-2 px-4 py-1.5 backdrop-blur-md sm:px-6 ${!isInSkyDeck ? "timeline-sticky-banner" : "sticky"}`}
+                className="h-2 w-2 rounded-full transition-all duration-700 ease-out"
                 style={{
-                  ...(isInSkyDeck
-                    ? {
-                        position: "sticky",
-                        WebkitPosition: "-webkit-sticky",
-                        top: "0",
-                        zIndex: 30,
-                      }
-                    : {}),
-                  backgroundColor: "var(--bsky-bg-primary)",
-                  borderBottom: "1px solid var(--bsky-border-color)",
-                  backdropFilter: "blur(10px)",
-                  WebkitBackdropFilter: "blur(10px)",
-                  boxShadow: "0 1px 3px rgba(0, 0, 0, 0.1)",
-                  // iOS Safari fixes
-                  transform: "translateZ(0)",
-                  willChange: "transform",
+                  backgroundColor: dayGroupColors.get(dayGroup.label)?.color
+                    ? dayGroupColors
+                        .get(dayGroup.label)!
+                        .color.replace(/[\d.]+\)$/, "1)")
+                    : dayGroup.events.length > 0
+                      ? getTimeOfDayColor(
+                          dayGroup.events[0].time,
+                        ).borderColor.replace(/[\d.]+\)$/, "1)")
+                      : "var(--bsky-primary)",
+                  boxShadow: dayGroupColors.get(dayGroup.label)?.color
+                    ? `0 0 8px ${dayGroupColors.get(dayGroup.label)!.color.replace(/[\d.]+\)$/, "0.4)")}`
+                    : "none",
+                  transform: "scale(1)",
                 }}
+              />
+              <h2
+                className="text-sm font-semibold uppercase tracking-wide"
+                style={{ color: "var(--bsky-text-secondary)" }}
               >
-                <div className="flex items-center gap-2">
-                  <div
-                    className="h-2 w-2 rounded-full transition-all duration-700 ease-out"
-                    style={{
-                      backgroundColor: dayGroupColors.get(dayGroup.label)?.color
-                        ? dayGroupColors
-                            .get(dayGroup.label)!
-                            .color.replace(/[\d.]+\)$/, "1)")
-                        : dayGroup.events.length > 0
-                          ? getTimeOfDayColor(
-                              dayGroup.events[0].time,
-                            ).borderColor.replace(/[\d.]+\)$/, "1)")
-                          : "var(--bsky-primary)",
-                      boxShadow: dayGroupColors.get(dayGroup.label)?.color
-                        ? `0 0 8px ${dayGroupColors.get(dayGroup.label)!.color.replace(/[\d.]+\)$/, "0.4)")}`
-                        : "none",
-                      transform: "scale(1)",
-                    }}
-                  />
-                  <h2
-                    className="text-sm font-semibold uppercase tracking-wide"
-                    style={{ color: "var(--bsky-text-secondary)" }}
-                  >
-                    {dayGroup.label}
-                  </h2>
-                </div>
-              </div>
-
-              {/* Events for this day */}
-              {dayGroup.events.map((event, eventIndex) => {
-                const previousEvent =
-                  eventIndex > 0
-                    ? dayGroup.events[eventIndex - 1]
-                    : dayIndex > 0
-                      ? eventsByDay[dayIndex - 1].events[
-                          eventsByDay[dayIndex - 1].events.length - 1
-                        ]
-                      : null;
-                const spacingClass = getSpacingClass(
-                  event.time,
-                  previousEvent?.time,
-                );
+                {dayGroup.label}
+              </h2>
+            </div>
+          </div>
 
-                // Calculate the global index for this event
-                let globalIndex = 0;
-                for (let i = 0; i < dayIndex; i++) {
-                  globalIndex += eventsByDay[i].events.length;
-                }
-                globalIndex += eventIndex;
+          {/* Events for this day */}
+          {dayGroup.events.map((event, eventIndex) => {
+            const previousEvent =
+              eventIndex > 0
+                ? dayGroup.events[eventIndex - 1]
+                : dayIndex > 0
+                  ? eventsByDay[dayIndex - 1].events[
+                      eventsByDay[dayIndex - 1].events.length - 1
+                    ]
+                  : null;
+            const spacingClass = getSpacingClass(
+              event.time,
+              previousEvent?.time,
+            );
+
+            // Calculate the global index for this event
+            let globalIndex = 0;
+            for (let i = 0; i < dayIndex; i++) {
+              globalIndex += eventsByDay[i].events.length;
+            }
+            globalIndex += eventIndex;
 
-                const eventKey = getEventKey(event, globalIndex);
-                const isSelected = selectedItemIndex === globalIndex;
-                const isExpanded = true; // Cards are always expanded
+            const eventKey = getEventKey(event, globalIndex);
+            const isSelected = selectedItemIndex === globalIndex;
+            const isExpanded = true; // Cards are always expanded
 
-                return (
+            return (
+              <div
+                key={eventKey}
+                className={`relative ${spacingClass} transition-transform duration-200 ease-out ${isSelected ? "z-10" : ""}`}
+                data-day-label={dayGroup.label}
+                data-event-time={event.time.toISOString()}
+                ref={(el) => {
+                  if (el) {
+                    timelineItemsRef.current.set(eventKey, el);
+                  } else {
+                    timelineItemsRef.current.delete(eventKey);
+                  }
+                }}
+              >
+                {/* Time and event */}
+                <div className="flex animate-fade-in-up items-start gap-2 px-4 sm:gap-4 sm:px-6">
+                  {/* Time - hide text on mobile, show only on desktop */}
                   <div
-                    key={eventKey}
-                    className={`relative ${spacingClass} transition-transform duration-200 ease-out ${isSelected ? "z-10" : ""}`}
-                    data-day-label={dayGroup.label}
-                    data-event-time={event.time.toISOString()}
-                    ref={(el) => {
-                      if (el) {
-                        timelineItemsRef.current.set(eventKey, el);
-                      } else {
-                        timelineItemsRef.current.delete(eventKey);
-                      }
-                    }}
+                    className={`${hideTimeLabels ? "w-3" : "w-3 sm:w-20"} pt-2 text-right font-mono text-xs tracking-wider sm:text-sm`}
                   >
-                    {/* Time and event */}
-                    <div className="flex animate-fade-in-up items-start gap-2 px-4 sm:gap-4 sm:px-6">
-                      {/* Time - hide text on mobile, show only on desktop */}
-                      <div
-                        className={`${hideTimeLabels ? "w-3" : "w-3 sm:w-20"} pt-2 text-right font-mono text-xs tracking-wider sm:text-sm`}
+                    {!hideTimeLabels && (
+                      <span
+                        className="hidden font-medium sm:inline"
+                        style={{
+                          color: isDayTime(event.time) ? "#d97706" : "#6366f1",
+                          opacity: 0.8,
+                        }}
                       >
-                        {!hideTimeLabels && (
-                          <span
-                            className="hidden font-medium sm:inline"
-                            style={{
-                              color: isDayTime(event.time)
-                                ? "#d97706"
-                                : "#6366f1",
-                              opacity: 0.8,
-                            }}
-                          >
-                            {getTimeOfDay(event.time)}
-                          </span>
-                        )}
-                      </div>
+                        {getTimeOfDay(event.time)}
+                      </span>
+                    )}
+                  </div>
 
-                      {/* Timeline dot */}
-                      <div
-                        className="relative flex-shrink-0 px-1 sm:px-0"
-                        style={{ paddingTop: "14px" }}
-                      >
-                        <div
-                          className={`${event.aggregationType === "post-burst" ? "h-3 w-3" : "h-2 w-2"} rounded-full`}
-                          style={{
-                            backgroundColor: getTimeOfDayColor(
-                              event.time,
-                            ).borderColor.replace(/[\d.]+\)$/, "1)"), // Use solid color for dot
-                            opacity:
-                              event.aggregationType === "post-burst"
-                                ? "0.9"
-                                : "0.7",
-                          }}
-                        />
-                      </div>
+                  {/* Timeline dot */}
+                  <div
+                    className="relative flex-shrink-0 px-1 sm:px-0"
+                    style={{ paddingTop: "14px" }}
+                  >
+                    <div
+                      className={`${event.aggregationType === "post-burst" ? "h-3 w-3" : "h-2 w-2"} rounded-full`}
+                      style={{
+                        backgroundColor: getTimeOfDayColor(
+                          event.time,
+                        ).borderColor.replace(/[\d.]+\)$/, "1)"), // Use solid color for dot
+                        opacity:
+                          event.aggregationType === "post-burst"
+                            ? "0.9"
+                            : "0.7",
+                      }}
+                    />
+                  </div>
 
-                      {/* Event card */}
-                      <div
-                        className={`flex-1 cursor-pointer rounded-lg p-3 transition-all duration-200 ease-out ${
-                          event.notifications.length > 1
-                            ? "bg-bsky-bg-secondary"
+                  {/* Event card */}
+                  <div
+                    className={`flex-1 cursor-pointer rounded-lg p-3 transition-all duration-200 ease-out ${
+                      event.notifications.length > 1
+                        ? "bg-bsky-bg-secondary"
+                        : ""
+                    } ${
+                      event.aggregationType === "follow"
+                        ? "border-l-[3px] border-l-bsky-follow pl-3"
+                        : event.aggregationType === "post" ||
+                            event.aggregationType === "post-burst"
+                          ? "border-l-[3px] border-l-bsky-primary pl-3"
+                          : event.aggregationType === "user-activity"
+                            ? "relative overflow-hidden bg-bsky-bg-secondary"
                             : ""
-                        } ${
-                          event.aggregationType === "follow"
-                            ? "border-l-[3px] border-l-bsky-follow pl-3"
-                            : event.aggregationType === "post" ||
-                                event.aggregationType === "post-burst"
-                              ? "border-l-[3px] border-l-bsky-primary pl-3"
-                              : event.aggregationType === "user-activity"
-                                ? "relative overflow-hidden bg-bsky-bg-secondary"
-                                : ""
-                        } ${isSelected ? "relative translate-x-1 transform before:absolute before:-left-1 before:bottom-0 before:top-0 before:w-[3px] before:rounded-r-[3px] before:bg-bsky-primary before:opacity-80 before:content-['']" : ""} hover:translate-x-0.5 hover:transform hover:shadow-lg`}
-                        style={{
-                          backgroundColor: getTimeOfDayColor(event.time)
-                            .backgroundColor,
-                          border: `1px solid ${isSelected ? "var(--bsky-primary)" : getTimeOfDayColor(event.time).borderColor}`,
-                          borderRadius: "8px",
-                          boxShadow: isSelected
-                            ? `0 0 0 2px var(--bsky-primary), 0 1px 3px ${getTimeOfDayColor(event.time).shadowColor}`
-                            : `0 1px 3px ${getTimeOfDayColor(event.time).shadowColor}`,
-                        }}
-                        tabIndex={isSelected ? 0 : -1}
-                        aria-selected={isSelected}
-                        aria-expanded={isExpanded}
-                        role="button"
-                        onClick={() => {
-                          setSelectedItemIndex(globalIndex);
-                          // Open thread viewer for post notifications
-                          let postUriToOpen: string | null = null;
-
-                          // For post bursts and post aggregations, use the postUri
-                          if (event.postUri) {
-                            postUriToOpen = event.postUri;
-                          } else if (
-                            event.notifications.length > 0 &&
-                            event.notifications[0].reason !== "follow"
-                          ) {
-                            // For single notifications or other aggregations
+                    } ${isSelected ? "relative translate-x-1 transform before:absolute before:-left-1 before:bottom-0 before:top-0 before:w-[3px] before:rounded-r-[3px] before:bg-bsky-primary before:opacity-80 before:content-['']" : ""} hover:translate-x-0.5 hover:transform hover:shadow-lg`}
+                    style={{
+                      backgroundColor: getTimeOfDayColor(event.time)
+                        .backgroundColor,
+                      border: `1px solid ${isSelected ? "var(--bsky-primary)" : getTimeOfDayColor(event.time).borderColor}`,
+                      borderRadius: "8px",
+                      boxShadow: isSelected
+                        ? `0 0 0 2px var(--bsky-primary), 0 1px 3px ${getTimeOfDayColor(event.time).shadowColor}`
+                        : `0 1px 3px ${getTimeOfDayColor(event.time).shadowColor}`,
+                    }}
+                    tabIndex={isSelected ? 0 : -1}
+                    aria-selected={isSelected}
+                    aria-expanded={isExpanded}
+                    role="button"
+                    onClick={() => {
+                      setSelectedItemIndex(globalIndex);
+                      // Open thread viewer for post notifications
+                      let postUriToOpen: string | null = null;
+
+                      // For post bursts and post aggregations, use the postUri
+                      if (event.postUri) {
+                        postUriToOpen = event.postUri;
+                      } else if (
+                        event.notifications.length > 0 &&
+                        event.notifications[0].reason !== "follow"
+                      ) {
+                        // For single notifications or other aggregations
+                        const notification = event.notifications[0];
+                        postUriToOpen =
+                          (notification.reason === "repost" ||
+                            notification.reason === "like") &&
+                          notification.reasonSubject
+                            ? notification.reasonSubject
+                            : notification.uri;
+                      }
+
+                      if (postUriToOpen) {
+                        setSelectedPostUri(postUriToOpen);
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      // Handle Enter/Space on the element itself
+                      if (e.key === "Enter" || e.key === " ") {
+                        e.preventDefault();
+                        // Open thread viewer for post notifications
+                        let postUriToOpen: string | null = null;
+
+                        // For post bursts and post aggregations, use the postUri
+                        if (event.postUri) {
+                          postUriToOpen = event.postUri;
+                        } else if (
+                          event.notifications.length > 0 &&
+                          event.notifications[0].reason !== "follow"
+                        ) {
+                          // For single notifications or other aggregations
+                          const notification = event.notifications[0];
+                          postUriToOpen =
+                            (notification.reason === "repost" ||
+                              notification.reason === "like") &&
+                            notification.reasonSubject
+                              ? notification.reasonSubject
+                              : notification.uri;
+                        }
+
+                        if (postUriToOpen) {
+                          setSelectedPostUri(postUriToOpen);
+                        }
+                      }
+                    }}
+                  >
+                    {/* Single notification */}
+                    {event.notifications.length === 1 ? (
+                      <div>
+                        <div className="flex items-center gap-3">
+                          {/* Removed expand/collapse indicator - cards are always expanded */}
+                          <div
+                            onClick={(e) =>
+                              handleInternalNavigation(
+                                e,
+                                getProfileUrl(
+                                  event.notifications[0].author?.handle ||
+                                    "unknown",
+                                ),
+                              )
+                            }
+                            className="flex-shrink-0 cursor-pointer transition-all duration-200 ease-out hover:opacity-80"
+                          >
+                            <img
+                              src={proxifyBskyImage(
+                                event.notifications[0].author.avatar,
+                              )}
+                              alt={
+                                event.notifications[0].author?.handle ||
+                                "unknown"
+                              }
+                              className="h-8 w-8 rounded-full"
+                            />
+                          </div>
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              {getReasonIcon(event.notifications[0].reason)}
+                              <span
+                                onClick={(e) =>
+                                  handleInternalNavigation(
+                                    e,
+                                    getProfileUrl(
+                                      event.notifications[0].author?.handle ||
+                                        "unknown",
+                                    ),
+                                  )
+                                }
+                                className="cursor-pointer text-sm font-medium hover:underline"
+                                style={{ color: "var(--bsky-primary)" }}
+                              >
+                                {event.notifications[0].author?.displayName ||
+                                  event.notifications[0].author?.handle ||
+                                  "Unknown"}
+                              </span>
+                            </div>
+                            <div
+                              className="mt-0.5 text-xs sm:text-sm"
+                              style={{
+                                color: "var(--bsky-text-secondary)",
+                              }}
+                            >
+                              {getActionText(event.notifications[0].reason)}
+                            </div>
+                          </div>
+                        </div>
+                        {/* Show post preview for single notifications too */}
+                        {event.notifications[0].reason !== "follow" &&
+                          isExpanded &&
+                          (() => {
                             const notification = event.notifications[0];
-                            postUriToOpen =
+
+                            // Try to get full post data first
+                            // For reposts and likes, use reasonSubject which contains the original post URI
+                            const postUri =
                               (notification.reason === "repost" ||
                                 notification.reason === "like") &&
                               notification.reasonSubject
                                 ? notification.reasonSubject
                                 : notification.uri;
-                          }
-
-                          if (postUriToOpen) {
-                            setSelectedPostUri(postUriToOpen);
-                          }
-                        }}
-                        onKeyDown={(e) => {
-                          // Handle Enter/Space on the element itself
-                          if (e.key === "Enter" || e.key === " ") {
-                            e.preventDefault();
-                            // Open thread viewer for post notifications
-                            let postUriToOpen: string | null = null;
-
-                            // For post bursts and post aggregations, use the postUri
-                            if (event.postUri) {
-                              postUriToOpen = event.postUri;
-                            } else if (
-                              event.notifications.length > 0 &&
-                              event.notifications[0].reason !== "follow"
-                            ) {
-                              // For single notifications or other aggregations
-                              const notification = event.notifications[0];
-                              postUriToOpen =
-                                (notification.reason === "repost" ||
-                                  notification.reason === "like") &&
-                                notification.reasonSubject
-                                  ? notification.reasonSubject
-                                  : notification.uri;
+                            const post = [
+                              "like",
+                              "repost",
+                              "reply",
+                              "quote",
+                            ].includes(notification.reason)
+                              ? postMap.get(postUri)
+                              : undefined;
+
+                            if (post) {
+                              // We have full post data
+                              return (
+                                <div
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setSelectedPostUri(postUri);
+                                  }}
+                                  className="relative ml-11 mt-2 block cursor-pointer overflow-hidden rounded p-3 transition-all duration-200 ease-out before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-[''] hover:-translate-y-0.5 hover:opacity-90 hover:shadow-md"
+                                  style={{
+                                    backgroundColor: "var(--bsky-bg-tertiary)",
+                                    border:
+                                      "1px solid var(--bsky-border-primary)",
+                                    textDecoration: "none",
+                                  }}
+                                >
+                                  <p
+                                    className="mb-1 flex items-center gap-1 text-xs font-medium"
+                                    style={{
+                                      color: "var(--bsky-text-tertiary)",
+                                    }}
+                                  >
+                                    {notification.reason === "reply"
+                                      ? "Replying to your post:"
+                                      : notification.reason === "quote"
+                                        ? "Quoting your post:"
+                                        : "Your post:"}
+                                    <ExternalLink size={10} />
+                                  </p>
+                                  <p
+                                    className="line-clamp-2 text-xs"
+                                    style={{
+                                      color: "var(--bsky-text-primary)",
+                                    }}
+                                  >
+                                    {post.record?.text || "[Post with no text]"}
+                                  </p>
+                                </div>
+                              );
                             }
 
-                            if (postUriToOpen) {
-                              setSelectedPostUri(postUriToOpen);
-                            }
-                          }
-                        }}
-                      >
-                        {/* Single notification */}
-                        {event.notifications.length === 1 ? (
+                            // Fallback for mentions or when post data isn't available
+                            const postText =
+                              notification.record?.text ||
+                              (notification.record &&
+                              typeof notification.record === "object" &&
+                              "text" in notification.record
+                                ? (
+                                    notification.record as {
+                                      text?: string;
+                                    }
+                                  ).text
+                                : null);
+
+                            if (!postText) return null;
+
+                            return (
+                              <div
+                                className="relative ml-11 mt-2 overflow-hidden rounded p-3 before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-['']"
+                                style={{
+                                  backgroundColor: "var(--bsky-bg-tertiary)",
+                                  border:
+                                    "1px solid var(--bsky-border-primary)",
+                                }}
+                              >
+                                <p
+                                  className="mb-1 text-xs font-medium"
+                                  style={{
+                                    color: "var(--bsky-text-tertiary)",
+                                  }}
+                                >
+                                  {notification.reason === "mention"
+                                    ? "Mentioned you in:"
+                                    : "Post:"}
+                                </p>
+                                <p
+                                  className="line-clamp-2 text-xs"
+                                  style={{
+                                    color: "var(--bsky-text-primary)",
+                                  }}
+                                >
+                                  {postText}
+                                </p>
+                              </div>
+                            );
+                          })()}
+                      </div>
+                    ) : (
+                      /* Aggregated notifications */
+                      <div>
+                        {/* Removed expand/collapse indicator - cards are always expanded */}
+                        {event.aggregationType === "user-activity" ? (
+                          // Special layout for user activity bursts
                           <div>
-                            <div className="flex items-center gap-3">
-                              {/* Removed expand/collapse indicator - cards are always expanded */}
+                            <div className="mb-3 flex items-start gap-3">
                               <div
                                 onClick={(e) =>
                                   handleInternalNavigation(
                                     e,
-                                    getProfileUrl(
-                                      event.notifications[0].author?.handle ||
-                                        "unknown",
-                                    ),
+                                    getProfileUrl(event.primaryActor!.handle),
                                   )
                                 }
                                 className="flex-shrink-0 cursor-pointer transition-all duration-200 ease-out hover:opacity-80"
                               >
                                 <img
                                   src={proxifyBskyImage(
-                                    event.notifications[0].author.avatar,
+                                    event.primaryActor!.avatar,
                                   )}
-                                  alt={
-                                    event.notifications[0].author?.handle ||
-                                    "unknown"
-                                  }
-                                  className="h-8 w-8 rounded-full"
+                                  alt={event.primaryActor!.handle}
+                                  className="h-10 w-10 rounded-full"
+                                  style={{
+                                    border:
+                                      "1px solid var(--bsky-border-color)",
+                                  }}
                                 />
                               </div>
                               <div className="flex-1">
-                                <div className="flex items-center gap-2">
-                                  {getReasonIcon(event.notifications[0].reason)}
+                                <div className="mb-1 flex items-center gap-2">
                                   <span
                                     onClick={(e) =>
                                       handleInternalNavigation(
                                         e,
                                         getProfileUrl(
-                                          event.notifications[0].author
-                                            ?.handle || "unknown",
+                                          event.primaryActor!.handle,
                                         ),
                                       )
                                     }
-                                    className="cursor-pointer text-sm font-medium hover:underline"
-                                    style={{ color: "var(--bsky-primary)" }}
+                                    className="cursor-pointer text-base font-bold hover:underline"
+                                    style={{
+                                      color: "var(--bsky-primary)",
+                                    }}
                                   >
-                                    {event.notifications[0].author
-                                      ?.displayName ||
-                                      event.notifications[0].author?.handle ||
-                                      "Unknown"}
+                                    {event.primaryActor!.displayName ||
+                                      event.primaryActor!.handle}
+                                  </span>
+                                  <span
+                                    className="text-xs"
+                                    style={{
+                                      color: "var(--bsky-text-tertiary)",
+                                    }}
+                                  >
+                                    • active
                                   </span>
                                 </div>
-                                <div
-                                  className="mt-0.5 text-xs sm:text-sm"
+                                <p
+                                  className="text-sm"
                                   style={{
                                     color: "var(--bsky-text-secondary)",
                                   }}
                                 >
-                                  {getActionText(event.notifications[0].reason)}
-                                </div>
+                                  {event.notifications.length} interactions over{" "}
+                                  {event.earliestTime && event.latestTime
+                                    ? formatDistanceToNow(event.earliestTime, {
+                                        addSuffix: false,
+                                      })
+                                    : "time"}
+                                </p>
                               </div>
                             </div>
-                            {/* Show post preview for single notifications too */}
-                            {event.notifications[0].reason !== "follow" &&
-                              isExpanded &&
-                              (() => {
-                                const notification = event.notifications[0];
-
-                                // Try to get full post data first
-                                // For reposts and likes, use reasonSubject which contains the original post URI
-                                const postUri =
-                                  (notification.reason === "repost" ||
-                                    notification.reason === "like") &&
-                                  notification.reasonSubject
-                                    ? notification.reasonSubject
-                                    : notification.uri;
-                                const post = [
-                                  "like",
-                                  "repost",
-                                  "reply",
-                                  "quote",
-                                ].includes(notification.reason)
-                                  ? postMap.get(postUri)
-                                  : undefined;
-
-                                if (post) {
-                                  // We have full post data
-                                  return (
-                                    <div
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        setSelectedPostUri(postUri);
-                                      }}
-                                      className="relative ml-11 mt-2 block cursor-pointer overflow-hidden rounded p-3 transition-all duration-200 ease-out before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-[''] hover:-translate-y-0.5 hover:opacity-90 hover:shadow-md"
-                                      style={{
-                                        backgroundColor:
-                                          "var(--bsky-bg-tertiary)",
-                                        border:
-                                          "1px solid var(--bsky-border-primary)",
-                                        textDecoration: "none",
-                                      }}
-                                    >
+
+                            {/* Engagement breakdown */}
+                            <div
+                              className="mb-3 flex flex-wrap gap-3 text-sm"
+                              style={{
+                                color: "var(--bsky-text-secondary)",
+                              }}
+                            >
+                              {event.notifications.filter(
+                                (n) => n.reason === "like",
+                              ).length > 0 && (
+                                <span>
+                                  {
+                                    event.notifications.filter(
+                                      (n) => n.reason === "like",
+                                    ).length
+                                  }{" "}
+                                  likes
+                                </span>
+                              )}
+                              {event.notifications.filter(
+                                (n) => n.reason === "repost",
+                              ).length > 0 && (
+                                <span>
+                                  {
+                                    event.notifications.filter(
+                                      (n) => n.reason === "repost",
+                                    ).length
+                                  }{" "}
+                                  reposts
+                                </span>
+                              )}
+                              {event.notifications.filter(
+                                (n) => n.reason === "reply",
+                              ).length > 0 && (
+                                <span>
+                                  {
+                                    event.notifications.filter(
+                                      (n) => n.reason === "reply",
+                                    ).length
+                                  }{" "}
+                                  replies
+                                </span>
+                              )}
+                              {event.notifications.filter(
+                                (n) => n.reason === "quote",
+                              ).length > 0 && (
+                                <span>
+                                  {
+                                    event.notifications.filter(
+                                      (n) => n.reason === "quote",
+                                    ).length
+                                  }{" "}
+                                  quotes
+                                </span>
+                              )}
+                            </div>
+
+                            {/* Affected posts */}
+                            {event.affectedPosts &&
+                              event.affectedPosts.length > 0 &&
+                              isExpanded && (
+                                <div className="space-y-2">
+                                  <p
+                                    className="text-xs font-medium"
+                                    style={{
+                                      color: "var(--bsky-text-tertiary)",
+                                    }}
+                                  >
+                                    Posts they interacted with:
+                                  </p>
+                                  <div className="space-y-1.5">
+                                    {event.affectedPosts
+                                      .slice(0, 3)
+                                      .map((post, i) => {
+                                        return (
+                                          <div
+                                            key={`${post.uri}-${i}`}
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              setSelectedPostUri(post.uri);
+                                            }}
+                                            className="line-clamp-2 block cursor-pointer rounded p-2 text-xs transition-all duration-200 ease-out hover:opacity-90"
+                                            style={{
+                                              backgroundColor:
+                                                "var(--bsky-bg-tertiary)",
+                                              border:
+                                                "1px solid var(--bsky-border-primary)",
+                                              textDecoration: "none",
+                                              color: "var(--bsky-text-primary)",
+                                            }}
+                                          >
+                                            {post.text || "[Post with no text]"}
+                                          </div>
+                                        );
+                                      })}
+                                    {event.affectedPosts.length > 3 && (
                                       <p
-                                        className="mb-1 flex items-center gap-1 text-xs font-medium"
+                                        className="text-xs"
                                         style={{
                                           color: "var(--bsky-text-tertiary)",
                                         }}
                                       >
-                                        {notification.reason === "reply"
-                                          ? "Replying to your post:"
-                                          : notification.reason === "quote"
-                                            ? "Quoting your post:"
-                                            : "Your post:"}
-                                        <ExternalLink size={10} />
-                                      </p>
-                                      <p
-                                        className="line-clamp-2 text-xs"
-                                        style={{
-                                          color: "var(--bsky-text-primary)",
-                                        }}
-                                      >
-                                        {post.record?.text ||
-                                          "[Post with no text]"}
+                                        ...and {event.affectedPosts.length - 3}{" "}
+                                        more posts
                                       </p>
-                                    </div>
-                                  );
-                                }
-
-                                // Fallback for mentions or when post data isn't available
-                                const postText =
-                                  notification.record?.text ||
-                                  (notification.record &&
-                                  typeof notification.record === "object" &&
-                                  "text" in notification.record
-                                    ? (notification.record as { text?: string })
-                                        .text
-                                    : null);
+                                    )}
+                                  </div>
+                                </div>
+                              )}
+                          </div>
+                        ) : event.aggregationType === "post-burst" ? (
+                          // Special layout for post bursts
+                          <div>
+                            <div className="mb-3 flex items-start gap-3">
+                              <div className="flex-shrink-0">
+                                <div
+                                  className="flex h-10 w-10 items-center justify-center rounded-full"
+                                  style={{
+                                    backgroundColor: "var(--bsky-bg-tertiary)",
+                                    border:
+                                      "1px solid var(--bsky-border-color)",
+                                  }}
+                                >
+                                  <MessageCircle
+                                    size={20}
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  />
+                                </div>
+                              </div>
+                              <div className="flex-1">
+                                <div className="mb-1 flex items-center gap-2">
+                                  <span
+                                    className="text-sm font-medium"
+                                    style={{
+                                      color: "var(--bsky-text-primary)",
+                                    }}
+                                  >
+                                    Popular Post
+                                  </span>
+                                  {event.notifications.length >= 10 && (
+                                    <span
+                                      className="rounded-full px-2 py-0.5 text-xs font-medium"
+                                      style={{
+                                        backgroundColor:
+                                          "var(--bsky-bg-tertiary)",
+                                        color: "var(--bsky-text-secondary)",
+                                        border:
+                                          "1px solid var(--bsky-border-color)",
+                                      }}
+                                    >
+                                      {event.notifications.length}+ interactions
+                                    </span>
+                                  )}
+                                </div>
+                                <p
+                                  className="text-sm"
+                                  style={{
+                                    color: "var(--bsky-text-secondary)",
+                                  }}
+                                >
+                                  {event.actors.size}{" "}
+                                  {event.actors.size === 1
+                                    ? "person"
+                                    : "people"}{" "}
+                                  engaged over{" "}
+                                  {event.earliestTime && event.latestTime
+                                    ? formatDistanceToNow(event.earliestTime, {
+                                        addSuffix: false,
+                                      })
+                                    : "time"}
+                                </p>
+                              </div>
+                            </div>
 
-                                if (!postText) return null;
+                            {/* Engagement breakdown */}
+                            <div className="mb-3 flex flex-wrap gap-3">
+                              {event.notifications.filter(
+                                (n) => n.reason === "like",
+                              ).length > 0 && (
+                                <div className="flex items-center gap-1 text-sm">
+                                  <Heart
+                                    size={16}
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  />
+                                  <span
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  >
+                                    {
+                                      event.notifications.filter(
+                                        (n) => n.reason === "like",
+                                      ).length
+                                    }
+                                  </span>
+                                </div>
+                              )}
+                              {event.notifications.filter(
+                                (n) => n.reason === "repost",
+                              ).length > 0 && (
+                                <div className="flex items-center gap-1 text-sm">
+                                  <Repeat2
+                                    size={16}
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  />
+                                  <span
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  >
+                                    {
+                                      event.notifications.filter(
+                                        (n) => n.reason === "repost",
+                                      ).length
+                                    }
+                                  </span>
+                                </div>
+                              )}
+                              {event.notifications.filter(
+                                (n) => n.reason === "reply",
+                              ).length > 0 && (
+                                <div className="flex items-center gap-1 text-sm">
+                                  <MessageCircle
+                                    size={16}
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  />
+                                  <span
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  >
+                                    {
+                                      event.notifications.filter(
+                                        (n) => n.reason === "reply",
+                                      ).length
+                                    }
+                                  </span>
+                                </div>
+                              )}
+                              {event.notifications.filter(
+                                (n) => n.reason === "quote",
+                              ).length > 0 && (
+                                <div className="flex items-center gap-1 text-sm">
+                                  <Quote
+                                    size={16}
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  />
+                                  <span
+                                    style={{
+                                      color: "var(--bsky-text-secondary)",
+                                    }}
+                                  >
+                                    {
+                                      event.notifications.filter(
+                                        (n) => n.reason === "quote",
+                                      ).length
+                                    }
+                                  </span>
+                                </div>
+                              )}
+                            </div>
 
-                                return (
+                            {/* Actor avatars in a grid for bursts */}
+                            <div className="mb-3">
+                              <div className="flex flex-wrap gap-1">
+                                {event.notifications
+                                  .slice(0, 12)
+                                  .map((notif, i) => (
+                                    <div
+                                      key={`${notif.uri}-${i}`}
+                                      onClick={(e) =>
+                                        handleInternalNavigation(
+                                          e,
+                                          getProfileUrl(
+                                            notif.author?.handle || "unknown",
+                                          ),
+                                        )
+                                      }
+                                      className="cursor-pointer transition-all duration-200 ease-out hover:opacity-80"
+                                    >
+                                      <img
+                                        src={proxifyBskyImage(
+                                          notif.author.avatar,
+                                        )}
+                                        alt={notif.author?.handle || "unknown"}
+                                        className="h-8 w-8 rounded-full"
+                                        title={
+                                          notif.author?.displayName ||
+                                          notif.author?.handle ||
+                                          "Unknown"
+                                        }
+                                      />
+                                    </div>
+                                  ))}
+                                {event.notifications.length > 12 && (
                                   <div
-                                    className="relative ml-11 mt-2 overflow-hidden rounded p-3 before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-['']"
+                                    className="flex h-8 w-8 items-center justify-center rounded-full text-xs font-bold"
                                     style={{
                                       backgroundColor:
                                         "var(--bsky-bg-tertiary)",
-                                      border:
-                                        "1px solid var(--bsky-border-primary)",
+                                      color: "var(--bsky-text-primary)",
                                     }}
                                   >
-                                    <p
-                                      className="mb-1 text-xs font-medium"
-                                      style={{
-                                        color: "var(--bsky-text-tertiary)",
-                                      }}
-                                    >
-                                      {notification.reason === "mention"
-                                        ? "Mentioned you in:"
-                                        : "Post:"}
-                                    </p>
-                                    <p
-                                      className="line-clamp-2 text-xs"
-                                      style={{
-                                        color: "var(--bsky-text-primary)",
-                                      }}
-                                    >
-                                      {postText}
-                                    </p>
+                                    +{event.notifications.length - 12}
                                   </div>
-                                );
-                              })()}
+                                )}
+                              </div>
+                            </div>
                           </div>
                         ) : (
-                          /* Aggregated notifications */
-                          <div>
-                            {/* Removed expand/collapse indicator - cards are always expanded */}
-                            {event.aggregationType === "user-activity" ? (
-                              // Special layout for user activity bursts
-                              <div>
-                                <div className="mb-3 flex items-start gap-3">
+                          // Regular aggregated layout
+                          <div className="flex items-center gap-3">
+                            {/* Actor avatars */}
+                            <div className="flex flex-shrink-0 items-center -space-x-2">
+                              {event.notifications
+                                .slice(0, 5)
+                                .map((notif, i) => (
                                   <div
+                                    key={`${notif.uri}-${i}`}
                                     onClick={(e) =>
                                       handleInternalNavigation(
                                         e,
                                         getProfileUrl(
-                                          event.primaryActor!.handle,
+                                          notif.author?.handle || "unknown",
                                         ),
                                       )
                                     }
-                                    className="flex-shrink-0 cursor-pointer transition-all duration-200 ease-out hover:opacity-80"
+                                    className="cursor-pointer transition-all duration-200 ease-out hover:z-10 hover:-translate-y-0.5 hover:scale-110"
                                   >
                                     <img
                                       src={proxifyBskyImage(
-                                        event.primaryActor!.avatar,
+                                        notif.author.avatar,
                                       )}
-                                      alt={event.primaryActor!.handle}
-                                      className="h-10 w-10 rounded-full"
+                                      alt={notif.author?.handle || "unknown"}
+                                      className="h-6 w-6 rounded-full border-2"
                                       style={{
-                                        border:
-                                          "1px solid var(--bsky-border-color)",
+                                        borderColor: "var(--bsky-bg-secondary)",
                                       }}
+                                      title={
+                                        notif.author?.displayName ||
+                                        notif.author?.handle ||
+                                        "Unknown"
+                                      }
                                     />
                                   </div>
-                                  <div className="flex-1">
-                                    <div className="mb-1 flex items-center gap-2">
-                                      <span
-                                        onClick={(e) =>
-                                          handleInternalNavigation(
-                                            e,
-                                            getProfileUrl(
-                                              event.primaryActor!.handle,
-                                            ),
-                                          )
-                                        }
-                                        className="cursor-pointer text-base font-bold hover:underline"
-                                        style={{ color: "var(--bsky-primary)" }}
-                                      >
-                                        {event.primaryActor!.displayName ||
-                                          event.primaryActor!.handle}
-                                      </span>
-                                      <span
-                                        className="text-xs"
-                                        style={{
-                                          color: "var(--bsky-text-tertiary)",
-                                        }}
-                                      >
-                                        • active
-                                      </span>
-                                    </div>
-                                    <p
+                                ))}
+                              {event.notifications.length > 5 && (
+                                <div
+                                  className="flex h-6 w-6 items-center justify-center rounded-full border-2 text-xs font-medium"
+                                  style={{
+                                    backgroundColor: "var(--bsky-bg-tertiary)",
+                                    borderColor: "var(--bsky-bg-secondary)",
+                                    fontSize: "10px",
+                                  }}
+                                >
+                                  +{event.notifications.length - 5}
+                                </div>
+                              )}
+                            </div>
+
+                            {/* Compact summary */}
+                            <div className="flex-1">
+                              <div className="flex flex-wrap items-center gap-2">
+                                {event.aggregationType === "follow" ? (
+                                  <>
+                                    <span className="text-sm font-medium">
+                                      {event.actors.size} new{" "}
+                                      {event.actors.size === 1
+                                        ? "follower"
+                                        : "followers"}
+                                    </span>
+                                    {getReasonIcon("follow")}
+                                  </>
+                                ) : (
+                                  <>
+                                    <span className="text-sm font-medium">
+                                      {event.actors.size}{" "}
+                                      {event.actors.size === 1
+                                        ? "person"
+                                        : "people"}
+                                    </span>
+                                    <span
                                       className="text-sm"
                                       style={{
                                         color: "var(--bsky-text-secondary)",
                                       }}
                                     >
-                                      {event.notifications.length} interactions
-                                      over{" "}
-                                      {event.earliestTime && event.latestTime
-                                        ? formatDistanceToNow(
-                                            event.earliestTime,
-                                            { addSuffix: false },
-                                          )
-                                        : "time"}
-                                    </p>
-                                  </div>
-                                </div>
+                                      •
+                                    </span>
+                                    {Array.from(event.types).map((type, i) => (
+                                      <span
+                                        key={type}
+                                        className="flex items-center gap-1 text-sm"
+                                      >
+                                        {getReasonIcon(type)}
+                                        <span
+                                          style={{
+                                            color: "var(--bsky-text-secondary)",
+                                          }}
+                                        >
+                                          {getActionCount(
+                                            event.notifications,
+                                            type,
+                                          )}
+                                        </span>
+                                        {i < event.types.size - 1 && (
+                                          <span
+                                            style={{
+                                              color:
+                                                "var(--bsky-text-secondary)",
+                                            }}
+                                          >
+                                            •
+                                          </span>
+                                        )}
+                                      </span>
+                                    ))}
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Post preview for aggregated post notifications */}
+                        {(event.aggregationType === "post" ||
+                          event.aggregationType === "post-burst") &&
+                          isExpanded &&
+                          (() => {
+                            const notification = event.notifications[0];
 
-                                {/* Engagement breakdown */}
+                            // Try to get full post data
+                            // For reposts and likes, use reasonSubject which contains the original post URI
+                            const postUri =
+                              (notification.reason === "repost" ||
+                                notification.reason === "like") &&
+                              notification.reasonSubject
+                                ? notification.reasonSubject
+                                : notification.uri;
+                            const post = postMap.get(postUri);
+
+                            if (post) {
+                              // We have full post data
+                              return (
                                 <div
-                                  className="mb-3 flex flex-wrap gap-3 text-sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setSelectedPostUri(postUri);
+                                  }}
+                                  className="relative mt-3 block cursor-pointer overflow-hidden rounded p-3 transition-all duration-200 ease-out before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-[''] hover:-translate-y-0.5 hover:opacity-90 hover:shadow-md"
                                   style={{
-                                    color: "var(--bsky-text-secondary)",
+                                    backgroundColor: "var(--bsky-bg-tertiary)",
+                                    border:
+                                      "1px solid var(--bsky-border-primary)",
+                                    textDecoration: "none",
                                   }}
                                 >
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "like",
-                                  ).length > 0 && (
+                                  <p
+                                    className="mb-1 flex items-center gap-1 text-xs font-medium"
+                                    style={{
+                                      color: "var(--bsky-text-tertiary)",
+                                    }}
+                                  >
+                                    Your post:
+                                    <ExternalLink size={10} />
+                                  </p>
+                                  <p
+                                    className="line-clamp-3 text-sm"
+                                    style={{
+                                      color: "var(--bsky-text-primary)",
+                                    }}
+                                  >
+                                    {post.record?.text || "[Post with no text]"}
+                                  </p>
+                                  <div
+                                    className="mt-2 flex items-center gap-2 text-xs"
+                                    style={{
+                                      color: "var(--bsky-text-tertiary)",
+                                    }}
+                                  >
                                     <span>
                                       {
                                         event.notifications.filter(
@@ -1487,10 +2063,7 @@ export const VisualTimeline: React.FC<VisualTimelineProps> = ({
                                       }{" "}
                                       likes
                                     </span>
-                                  )}
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "repost",
-                                  ).length > 0 && (
+                                    <span>•</span>
                                     <span>
                                       {
                                         event.notifications.filter(
@@ -1499,658 +2072,152 @@ export const VisualTimeline: React.FC<VisualTimelineProps> = ({
                                       }{" "}
                                       reposts
                                     </span>
-                                  )}
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "reply",
-                                  ).length > 0 && (
-                                    <span>
-                                      {
-                                        event.notifications.filter(
-                                          (n) => n.reason === "reply",
-                                        ).length
-                                      }{" "}
-                                      replies
-                                    </span>
-                                  )}
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "quote",
-                                  ).length > 0 && (
-                                    <span>
-                                      {
-                                        event.notifications.filter(
-                                          (n) => n.reason === "quote",
-                                        ).length
-                                      }{" "}
-                                      quotes
-                                    </span>
-                                  )}
-                                </div>
-
-                                {/* Affected posts */}
-                                {event.affectedPosts &&
-                                  event.affectedPosts.length > 0 &&
-                                  isExpanded && (
-                                    <div className="space-y-2">
-                                      <p
-                                        className="text-xs font-medium"
-                                        style={{
-                                          color: "var(--bsky-text-tertiary)",
-                                        }}
-                                      >
-                                        Posts they interacted with:
-                                      </p>
-                                      <div className="space-y-1.5">
-                                        {event.affectedPosts
-                                          .slice(0, 3)
-                                          .map((post, i) => {
-                                            return (
-                                              <div
-                                                key={`${post.uri}-${i}`}
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  setSelectedPostUri(post.uri);
-                                                }}
-                                                className="line-clamp-2 block cursor-pointer rounded p-2 text-xs transition-all duration-200 ease-out hover:opacity-90"
-                                                style={{
-                                                  backgroundColor:
-                                                    "var(--bsky-bg-tertiary)",
-                                                  border:
-                                                    "1px solid var(--bsky-border-primary)",
-                                                  textDecoration: "none",
-                                                  color:
-                                                    "var(--bsky-text-primary)",
-                                                }}
-                                              >
-                                                {post.text ||
-                                                  "[Post with no text]"}
-                                              </div>
-                                            );
-                                          })}
-                                        {event.affectedPosts.length > 3 && (
-                                          <p
-                                            className="text-xs"
-                                            style={{
-                                              color:
-                                                "var(--bsky-text-tertiary)",
-                                            }}
-                                          >
-                                            ...and{" "}
-                                            {event.affectedPosts.length - 3}{" "}
-                                            more posts
-                                          </p>
-                                        )}
-                                      </div>
-                                    </div>
-                                  )}
-                              </div>
-                            ) : event.aggregationType === "post-burst" ? (
-                              // Special layout for post bursts
-                              <div>
-                                <div className="mb-3 flex items-start gap-3">
-                                  <div className="flex-shrink-0">
-                                    <div
-                                      className="flex h-10 w-10 items-center justify-center rounded-full"
-                                      style={{
-                                        backgroundColor:
-                                          "var(--bsky-bg-tertiary)",
-                                        border:
-                                          "1px solid var(--bsky-border-color)",
-                                      }}
-                                    >
-                                      <MessageCircle
-                                        size={20}
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      />
-                                    </div>
-                                  </div>
-                                  <div className="flex-1">
-                                    <div className="mb-1 flex items-center gap-2">
-                                      <span
-                                        className="text-sm font-medium"
-                                        style={{
-                                          color: "var(--bsky-text-primary)",
-                                        }}
-                                      >
-                                        Popular Post
-                                      </span>
-                                      {event.notifications.length >= 10 && (
-                                        <span
-                                          className="rounded-full px-2 py-0.5 text-xs font-medium"
-                                          style={{
-                                            backgroundColor:
-                                              "var(--bsky-bg-tertiary)",
-                                            color: "var(--bsky-text-secondary)",
-                                            border:
-                                              "1px solid var(--bsky-border-color)",
-                                          }}
-                                        >
-                                          {event.notifications.length}+
-                                          interactions
-                                        </span>
-                                      )}
-                                    </div>
-                                    <p
-                                      className="text-sm"
-                                      style={{
-                                        color: "var(--bsky-text-secondary)",
-                                      }}
-                                    >
-                                      {event.actors.size}{" "}
-                                      {event.actors.size === 1
-                                        ? "person"
-                                        : "people"}{" "}
-                                      engaged over{" "}
-                                      {event.earliestTime && event.latestTime
-                                        ? formatDistanceToNow(
-                                            event.earliestTime,
-                                            { addSuffix: false },
-                                          )
-                                        : "time"}
-                                    </p>
-                                  </div>
-                                </div>
-
-                                {/* Engagement breakdown */}
-                                <div className="mb-3 flex flex-wrap gap-3">
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "like",
-                                  ).length > 0 && (
-                                    <div className="flex items-center gap-1 text-sm">
-                                      <Heart
-                                        size={16}
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      />
-                                      <span
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      >
-                                        {
-                                          event.notifications.filter(
-                                            (n) => n.reason === "like",
-                                          ).length
-                                        }
-                                      </span>
-                                    </div>
-                                  )}
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "repost",
-                                  ).length > 0 && (
-                                    <div className="flex items-center gap-1 text-sm">
-                                      <Repeat2
-                                        size={16}
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      />
-                                      <span
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      >
-                                        {
-                                          event.notifications.filter(
-                                            (n) => n.reason === "repost",
-                                          ).length
-                                        }
-                                      </span>
-                                    </div>
-                                  )}
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "reply",
-                                  ).length > 0 && (
-                                    <div className="flex items-center gap-1 text-sm">
-                                      <MessageCircle
-                                        size={16}
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      />
-                                      <span
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      >
-                                        {
-                                          event.notifications.filter(
-                                            (n) => n.reason === "reply",
-                                          ).length
-                                        }
-                                      </span>
-                                    </div>
-                                  )}
-                                  {event.notifications.filter(
-                                    (n) => n.reason === "quote",
-                                  ).length > 0 && (
-                                    <div className="flex items-center gap-1 text-sm">
-                                      <Quote
-                                        size={16}
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      />
-                                      <span
-                                        style={{
-                                          color: "var(--bsky-text-secondary)",
-                                        }}
-                                      >
-                                        {
-                                          event.notifications.filter(
-                                            (n) => n.reason === "quote",
-                                          ).length
-                                        }
-                                      </span>
-                                    </div>
-                                  )}
-                                </div>
-
-                                {/* Actor avatars in a grid for bursts */}
-                                <div className="mb-3">
-                                  <div className="flex flex-wrap gap-1">
-                                    {event.notifications
-                                      .slice(0, 12)
-                                      .map((notif, i) => (
-                                        <div
-                                          key={`${notif.uri}-${i}`}
-                                          onClick={(e) =>
-                                            handleInternalNavigation(
-                                              e,
-                                              getProfileUrl(
-                                                notif.author?.handle ||
-                                                  "unknown",
-                                              ),
-                                            )
-                                          }
-                                          className="cursor-pointer transition-all duration-200 ease-out hover:opacity-80"
-                                        >
-                                          <img
-                                            src={proxifyBskyImage(
-                                              notif.author.avatar,
-                                            )}
-                                            alt={
-                                              notif.author?.handle || "unknown"
-                                            }
-                                            className="h-8 w-8 rounded-full"
-                                            title={
-                                              notif.author?.displayName ||
-                                              notif.author?.handle ||
-                                              "Unknown"
-                                            }
-                                          />
-                                        </div>
-                                      ))}
-                                    {event.notifications.length > 12 && (
-                                      <div
-                                        className="flex h-8 w-8 items-center justify-center rounded-full text-xs font-bold"
-                                        style={{
-                                          backgroundColor:
-                                            "var(--bsky-bg-tertiary)",
-                                          color: "var(--bsky-text-primary)",
-                                        }}
-                                      >
-                                        +{event.notifications.length - 12}
-                                      </div>
-                                    )}
-                                  </div>
-                                </div>
-                              </div>
-                            ) : (
-                              // Regular aggregated layout
-                              <div className="flex items-center gap-3">
-                                {/* Actor avatars */}
-                                <div className="flex flex-shrink-0 items-center -space-x-2">
-                                  {event.notifications
-                                    .slice(0, 5)
-                                    .map((notif, i) => (
-                                      <div
-                                        key={`${notif.uri}-${i}`}
-                                        onClick={(e) =>
-                                          handleInternalNavigation(
-                                            e,
-                                            getProfileUrl(
-                                              notif.author?.handle || "unknown",
-                                            ),
-                                          )
-                                        }
-                                        className="cursor-pointer transition-all duration-200 ease-out hover:z-10 hover:-translate-y-0.5 hover:scale-110"
-                                      >
-                                        <img
-                                          src={proxifyBskyImage(
-                                            notif.author.avatar,
-                                          )}
-                                          alt={
-                                            notif.author?.handle || "unknown"
-                                          }
-                                          className="h-6 w-6 rounded-full border-2"
-                                          style={{
-                                            borderColor:
-                                              "var(--bsky-bg-secondary)",
-                                          }}
-                                          title={
-                                            notif.author?.displayName ||
-                                            notif.author?.handle ||
-                                            "Unknown"
-                                          }
-                                        />
-                                      </div>
-                                    ))}
-                                  {event.notifications.length > 5 && (
-                                    <div
-                                      className="flex h-6 w-6 items-center justify-center rounded-full border-2 text-xs font-medium"
-                                      style={{
-                                        backgroundColor:
-                                          "var(--bsky-bg-tertiary)",
-                                        borderColor: "var(--bsky-bg-secondary)",
-                                        fontSize: "10px",
-                                      }}
-                                    >
-                                      +{event.notifications.length - 5}
-                                    </div>
-                                  )}
-                                </div>
-
-                                {/* Compact summary */}
-                                <div className="flex-1">
-                                  <div className="flex flex-wrap items-center gap-2">
-                                    {event.aggregationType === "follow" ? (
-                                      <>
-                                        <span className="text-sm font-medium">
-                                          {event.actors.size} new{" "}
-                                          {event.actors.size === 1
-                                            ? "follower"
-                                            : "followers"}
-                                        </span>
-                                        {getReasonIcon("follow")}
-                                      </>
-                                    ) : (
+                                    {event.notifications.some(
+                                      (n) => n.reason === "quote",
+                                    ) && (
                                       <>
-                                        <span className="text-sm font-medium">
-                                          {event.actors.size}{" "}
-                                          {event.actors.size === 1
-                                            ? "person"
-                                            : "people"}
-                                        </span>
-                                        <span
-                                          className="text-sm"
-                                          style={{
-                                            color: "var(--bsky-text-secondary)",
-                                          }}
-                                        >
-                                          •
-                                        </span>
-                                        {Array.from(event.types).map(
-                                          (type, i) => (
-                                            <span
-                                              key={type}
-                                              className="flex items-center gap-1 text-sm"
-                                            >
-                                              {getReasonIcon(type)}
-                                              <span
-                                                style={{
-                                                  color:
-                                                    "var(--bsky-text-secondary)",
-                                                }}
-                                              >
-                                                {getActionCount(
-                                                  event.notifications,
-                                                  type,
-                                                )}
-                                              </span>
-                                              {i < event.types.size - 1 && (
-                                                <span
-                                                  style={{
-                                                    color:
-                                                      "var(--bsky-text-secondary)",
-                                                  }}
-                                                >
-                                                  •
-                                                </span>
-                                              )}
-                                            </span>
-                                          ),
-                                        )}
-                                      </>
-                                    )}
-                                  </div>
-                                </div>
-                              </div>
-                            )}
-
-                            {/* Post preview for aggregated post notifications */}
-                            {(event.aggregationType === "post" ||
-                              event.aggregationType === "post-burst") &&
-                              isExpanded &&
-                              (() => {
-                                const notification = event.notifications[0];
-
-                                // Try to get full post data
-                                // For reposts and likes, use reasonSubject which contains the original post URI
-                                const postUri =
-                                  (notification.reason === "repost" ||
-                                    notification.reason === "like") &&
-                                  notification.reasonSubject
-                                    ? notification.reasonSubject
-                                    : notification.uri;
-                                const post = postMap.get(postUri);
-
-                                if (post) {
-                                  // We have full post data
-                                  return (
-                                    <div
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        setSelectedPostUri(postUri);
-                                      }}
-                                      className="relative mt-3 block cursor-pointer overflow-hidden rounded p-3 transition-all duration-200 ease-out before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-[''] hover:-translate-y-0.5 hover:opacity-90 hover:shadow-md"
-                                      style={{
-                                        backgroundColor:
-                                          "var(--bsky-bg-tertiary)",
-                                        border:
-                                          "1px solid var(--bsky-border-primary)",
-                                        textDecoration: "none",
-                                      }}
-                                    >
-                                      <p
-                                        className="mb-1 flex items-center gap-1 text-xs font-medium"
-                                        style={{
-                                          color: "var(--bsky-text-tertiary)",
-                                        }}
-                                      >
-                                        Your post:
-                                        <ExternalLink size={10} />
-                                      </p>
-                                      <p
-                                        className="line-clamp-3 text-sm"
-                                        style={{
-                                          color: "var(--bsky-text-primary)",
-                                        }}
-                                      >
-                                        {post.record?.text ||
-                                          "[Post with no text]"}
-                                      </p>
-                                      <div
-                                        className="mt-2 flex items-center gap-2 text-xs"
-                                        style={{
-                                          color: "var(--bsky-text-tertiary)",
-                                        }}
-                                      >
-                                        <span>
-                                          {
-                                            event.notifications.filter(
-                                              (n) => n.reason === "like",
-                                            ).length
-                                          }{" "}
-                                          likes
-                                        </span>
                                         <span>•</span>
                                         <span>
                                           {
                                             event.notifications.filter(
-                                              (n) => n.reason === "repost",
+                                              (n) => n.reason === "quote",
                                             ).length
                                           }{" "}
-                                          reposts
+                                          quotes
                                         </span>
-                                        {event.notifications.some(
-                                          (n) => n.reason === "quote",
-                                        ) && (
-                                          <>
-                                            <span>•</span>
-                                            <span>
-                                              {
-                                                event.notifications.filter(
-                                                  (n) => n.reason === "quote",
-                                                ).length
-                                              }{" "}
-                                              quotes
-                                            </span>
-                                          </>
-                                        )}
-                                      </div>
-                                    </div>
-                                  );
-                                }
+                                      </>
+                                    )}
+                                  </div>
+                                </div>
+                              );
+                            }
 
-                                // Fallback when post data isn't available
-                                const postText =
-                                  notification.record?.text ||
-                                  (notification.record &&
-                                  typeof notification.record === "object" &&
-                                  "text" in notification.record
-                                    ? (notification.record as { text?: string })
-                                        .text
-                                    : null);
+                            // Fallback when post data isn't available
+                            const postText =
+                              notification.record?.text ||
+                              (notification.record &&
+                              typeof notification.record === "object" &&
+                              "text" in notification.record
+                                ? (
+                                    notification.record as {
+                                      text?: string;
+                                    }
+                                  ).text
+                                : null);
 
-                                if (!postText) return null;
+                            if (!postText) return null;
 
-                                return (
-                                  <div
-                                    className="relative mt-3 overflow-hidden rounded p-3 before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-['']"
-                                    style={{
-                                      backgroundColor:
-                                        "var(--bsky-bg-tertiary)",
-                                      border:
-                                        "1px solid var(--bsky-border-primary)",
-                                    }}
-                                  >
-                                    <p
-                                      className="mb-1 text-xs font-medium"
-                                      style={{
-                                        color: "var(--bsky-text-tertiary)",
-                                      }}
-                                    >
-                                      Your post:
-                                    </p>
-                                    <p
-                                      className="line-clamp-3 text-sm"
-                                      style={{
-                                        color: "var(--bsky-text-primary)",
-                                      }}
-                                    >
-                                      {postText}
-                                    </p>
-                                    <div
-                                      className="mt-2 flex items-center gap-2 text-xs"
-                                      style={{
-                                        color: "var(--bsky-text-tertiary)",
-                                      }}
-                                    >
-                                      <span>
-                                        {
-                                          event.notifications.filter(
-                                            (n) => n.reason === "like",
-                                          ).length
-                                        }{" "}
-                                        likes
-                                      </span>
+                            return (
+                              <div
+                                className="relative mt-3 overflow-hidden rounded p-3 before:absolute before:bottom-0 before:left-0 before:top-0 before:w-[3px] before:bg-bsky-primary before:opacity-50 before:content-['']"
+                                style={{
+                                  backgroundColor: "var(--bsky-bg-tertiary)",
+                                  border:
+                                    "1px solid var(--bsky-border-primary)",
+                                }}
+                              >
+                                <p
+                                  className="mb-1 text-xs font-medium"
+                                  style={{
+                                    color: "var(--bsky-text-tertiary)",
+                                  }}
+                                >
+                                  Your post:
+                                </p>
+                                <p
+                                  className="line-clamp-3 text-sm"
+                                  style={{
+                                    color: "var(--bsky-text-primary)",
+                                  }}
+                                >
+                                  {postText}
+                                </p>
+                                <div
+                                  className="mt-2 flex items-center gap-2 text-xs"
+                                  style={{
+                                    color: "var(--bsky-text-tertiary)",
+                                  }}
+                                >
+                                  <span>
+                                    {
+                                      event.notifications.filter(
+                                        (n) => n.reason === "like",
+                                      ).length
+                                    }{" "}
+                                    likes
+                                  </span>
+                                  <span>•</span>
+                                  <span>
+                                    {
+                                      event.notifications.filter(
+                                        (n) => n.reason === "repost",
+                                      ).length
+                                    }{" "}
+                                    reposts
+                                  </span>
+                                  {event.notifications.some(
+                                    (n) => n.reason === "quote",
+                                  ) && (
+                                    <>
                                       <span>•</span>
                                       <span>
                                         {
                                           event.notifications.filter(
-                                            (n) => n.reason === "repost",
+                                            (n) => n.reason === "quote",
                                           ).length
                                         }{" "}
-                                        reposts
+                                        quotes
                                       </span>
-                                      {event.notifications.some(
-                                        (n) => n.reason === "quote",
-                                      ) && (
-                                        <>
-                                          <span>•</span>
-                                          <span>
-                                            {
-                                              event.notifications.filter(
-                                                (n) => n.reason === "quote",
-                                              ).length
-                                            }{" "}
-                                            quotes
-                                          </span>
-                                        </>
-                                      )}
-                                    </div>
-                                  </div>
-                                );
-                              })()}
-                          </div>
-                        )}
+                                    </>
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })()}
                       </div>
-                    </div>
-
-                    {/* Visual gap indicator for large time gaps */}
-                    {previousEvent &&
-                      differenceInHours(previousEvent.time, event.time) >=
-                        12 && (
-                        <div
-                          className="before:bg-bsky-border-color after:bg-bsky-border-color absolute relative -top-3 left-[5rem] whitespace-nowrap rounded-[10px] bg-bsky-bg-secondary px-1.5 py-0.5 text-xs before:absolute before:-top-3 before:left-1/2 before:h-2 before:w-px before:-translate-x-1/2 before:opacity-30 before:content-[''] after:absolute after:-bottom-3 after:left-1/2 after:h-2 after:w-px after:-translate-x-1/2 after:opacity-30 after:content-[''] sm:left-[7.5rem]"
-                          style={{
-                            color: "var(--bsky-text-tertiary)",
-                            transform: "translateX(-50%)",
-                            fontSize: "10px",
-                          }}
-                        >
-                          {Math.floor(
-                            differenceInHours(previousEvent.time, event.time),
-                          )}
-                          h
-                        </div>
-                      )}
+                    )}
                   </div>
-                );
-              })}
-            </div>
-          ))}
+                </div>
 
-          {/* End of timeline */}
-          <div className="relative mt-8 flex items-center gap-3">
-            <div className="w-24" />
-            <div
-              className="h-3 w-3 rounded-full"
-              style={{ backgroundColor: "var(--bsky-border-color)" }}
-            />
-            <span
-              className="text-sm"
-              style={{ color: "var(--bsky-text-secondary)" }}
-            >
-              {notifications.length === 0
-                ? "No notifications yet"
-                : `${notifications.length} recent notifications`}
-            </span>
-          </div>
+                {/* Visual gap indicator for large time gaps */}
+                {previousEvent &&
+                  differenceInHours(previousEvent.time, event.time) >= 12 && (
+                    <div
+                      className="before:bg-bsky-border-color after:bg-bsky-border-color absolute relative -top-3 left-[5rem] whitespace-nowrap rounded-[10px] bg-bsky-bg-secondary px-1.5 py-0.5 text-xs before:absolute before:-top-3 before:left-1/2 before:h-2 before:w-px before:-translate-x-1/2 before:opacity-30 before:content-[''] after:absolute after:-bottom-3 after:left-1/2 after:h-2 after:w-px after:-translate-x-1/2 after:opacity-30 after:content-[''] sm:left-[7.5rem]"
+                      style={{
+                        color: "var(--bsky-text-tertiary)",
+                        transform: "translateX(-50%)",
+                        fontSize: "10px",
+                      }}
+                    >
+                      {Math.floor(
+                        differenceInHours(previousEvent.time, event.time),
+                      )}
+                      h
+                    </div>
+                  )}
+              </div>
+            );
+          })}
         </div>
-
-        {/* Thread Modal */}
-        {selectedPostUri && (
-          <ThreadModal
-            postUri={selectedPostUri}
-            onClose={() => setSelectedPostUri(null)}
-          />
-        )}
-      </div>{" "}
-      {/* End scrollable wrapper */}
+      ))}
+
+      {/* End of timeline */}
+      <div className="relative mt-8 flex items-center gap-3">
+        <div className="w-24" />
+        <div
+          className="h-3 w-3 rounded-full"
+          style={{ backgroundColor: "var(--bsky-border-color)" }}
+        />
+        <span
+          className="text-sm"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          {notifications.length === 0
+            ? "No notifications yet"
+            : `${notifications.length} recent notifications`}
+        </span>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,172 @@
+import {
+  Check,
+  ChevronDown,
+  LayoutGrid,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import React, { useState } from "react";
+import { useModal } from "../contexts/ModalContext";
+import type { SkyDeckWorkspace } from "../services/workspace-service";
+
+interface WorkspaceSwitcherProps {
+  workspaces: SkyDeckWorkspace[];
+  activeWorkspaceId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeWorkspaceId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const { showConfirm } = useModal();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nameInput, setNameInput] = useState("");
+
+  const activeWorkspace = workspaces.find((ws) => ws.id === activeWorkspaceId);
+
+  const closeMenu = () => {
+    setIsOpen(false);
+    setEditingId(null);
+    setNameInput("");
+  };
+
+  const handleSubmitName = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameInput.trim();
+    if (!name) return;
+
+    if (editingId === "new") {
+      onCreate(name);
+    } else if (editingId) {
+      onRename(editingId, name);
+    }
+    closeMenu();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? closeMenu() : setIsOpen(true))}
+        className="flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800"
+        title="Switch workspace"
+      >
+        <LayoutGrid className="h-4 w-4 text-blue-500" />
+        <span>{activeWorkspace?.name || "Workspace"}</span>
+        <ChevronDown
+          className={`h-3.5 w-3.5 transition-transform ${isOpen ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={closeMenu} />
+          <div className="absolute left-0 top-full z-20 mt-1 w-64 rounded-md border bg-white shadow-lg dark:border-gray-700 dark:bg-gray-800">
+            <div className="py-1">
+              {workspaces.map((workspace) =>
+                editingId === workspace.id ? (
+                  <form
+                    key={workspace.id}
+                    onSubmit={handleSubmitName}
+                    className="px-3 py-1.5"
+                  >
+                    <input
+                      autoFocus
+                      value={nameInput}
+                      onChange={(e) => setNameInput(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+                    />
+                  </form>
+                ) : (
+                  <div
+                    key={workspace.id}
+                    className="group flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <button
+                      onClick={() => {
+                        onSwitch(workspace.id);
+                        closeMenu();
+                      }}
+                      className="flex min-w-0 flex-1 items-center gap-2 text-left text-sm text-gray-900 dark:text-gray-100"
+                    >
+                      <Check
+                        className={`h-4 w-4 flex-shrink-0 ${workspace.id === activeWorkspaceId ? "text-blue-500" : "invisible"}`}
+                      />
+                      <span className="truncate">{workspace.name}</span>
+                      <span className="text-xs text-gray-400">
+                        {workspace.columns.length}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(workspace.id);
+                        setNameInput(workspace.name);
+                      }}
+                      className="rounded p-1 opacity-0 transition-opacity hover:bg-gray-200 group-hover:opacity-100 dark:hover:bg-gray-600"
+                      title="Rename workspace"
+                    >
+                      <Pencil className="h-3.5 w-3.5 text-gray-500" />
+                    </button>
+                    {workspaces.length > 1 && (
+                      <button
+                        onClick={() => {
+                          closeMenu();
+                          showConfirm(
+                            `Delete the "${workspace.name}" workspace?`,
+                            () => onDelete(workspace.id),
+                            {
+                              title: "Delete Workspace",
+                              variant: "warning",
+                              confirmText: "Delete",
+                            },
+                          );
+                        }}
+                        className="rounded p-1 opacity-0 transition-opacity hover:bg-gray-200 group-hover:opacity-100 dark:hover:bg-gray-600"
+                        title="Delete workspace"
+                      >
+                        <Trash2 className="h-3.5 w-3.5 text-gray-500 hover:text-red-600" />
+                      </button>
+                    )}
+                  </div>
+                ),
+              )}
+
+              <div className="border-t dark:border-gray-700" />
+              {editingId === "new" ? (
+                <form onSubmit={handleSubmitName} className="px-3 py-2">
+                  <input
+                    autoFocus
+                    value={nameInput}
+                    onChange={(e) => setNameInput(e.target.value)}
+                    placeholder="Workspace name, e.g. Monitoring"
+                    className="w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+                  />
+                </form>
+              ) : (
+                <button
+                  onClick={() => {
+                    setEditingId("new");
+                    setNameInput("");
+                  }}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-700"
+                >
+                  <Plus className="h-4 w-4" />
+                  Save current layout as…
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
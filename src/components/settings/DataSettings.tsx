@@ -1,6 +1,8 @@
 import { HardDrive, Trash2 } from "lucide-react";
 import React, { useState } from "react";
 import { useModal } from "../../contexts/ModalContext";
+import { NotificationArchiveSettings } from "./NotificationArchiveSettings";
+import { NotificationExportSettings } from "./NotificationExportSettings";
 
 export const DataSettings: React.FC = () => {
   const { showConfirm } = useModal();
@@ -85,6 +87,10 @@ export const DataSettings: React.FC = () => {
             </button>
           </div>
         </div>
+
+        <NotificationArchiveSettings />
+
+        <NotificationExportSettings />
       </div>
     </div>
   );
@@ -0,0 +1,173 @@
+import { BellRing, Moon } from "lucide-react";
+import React, { useState } from "react";
+import { useDesktopNotificationPrefs } from "../../hooks/useDesktopNotifications";
+import { desktopNotifications } from "../../services/desktop-notifications";
+
+const buttonStyle = {
+  backgroundColor: "var(--bsky-bg-tertiary)",
+  color: "var(--bsky-text-primary)",
+  border: "1px solid var(--bsky-border-primary)",
+};
+
+const Switch: React.FC<{
+  checked: boolean;
+  onChange: () => void;
+  label: string;
+}> = ({ checked, onChange, label }) => (
+  <button
+    onClick={onChange}
+    className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors duration-200 ${
+      checked ? "bg-blue-500" : "bg-gray-300 dark:bg-gray-600"
+    }`}
+    role="switch"
+    aria-checked={checked}
+    aria-label={label}
+  >
+    <span
+      className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-lg transition-transform duration-200 ${
+        checked ? "translate-x-6" : "translate-x-0.5"
+      }`}
+    />
+  </button>
+);
+
+export const DesktopNotificationSettings: React.FC = () => {
+  const prefs = useDesktopNotificationPrefs();
+  const permission = desktopNotifications.getPermission();
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const handleToggle = async () => {
+    if (prefs.enabled) {
+      desktopNotifications.disable();
+      return;
+    }
+    setIsRequesting(true);
+    try {
+      await desktopNotifications.enable();
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div
+      className="space-y-4 rounded-lg p-4"
+      style={{
+        backgroundColor: "var(--bsky-bg-secondary)",
+        border: "1px solid var(--bsky-border-primary)",
+      }}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <BellRing size={20} style={{ color: "var(--bsky-text-secondary)" }} />
+          <div>
+            <div
+              className="font-medium"
+              style={{ color: "var(--bsky-text-primary)" }}
+            >
+              Desktop Notifications
+            </div>
+            <div
+              className="text-sm"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              Get a system notification for the types switched on above while
+              ShadowSky is in the background
+            </div>
+          </div>
+        </div>
+        {permission !== "unsupported" && (
+          <Switch
+            checked={prefs.enabled && permission === "granted"}
+            onChange={isRequesting ? () => {} : handleToggle}
+            label="Desktop notifications"
+          />
+        )}
+      </div>
+
+      {permission === "unsupported" && (
+        <div className="text-xs" style={{ color: "var(--bsky-warning)" }}>
+          This browser doesn't support desktop notifications
+        </div>
+      )}
+      {permission === "denied" && (
+        <div className="text-xs" style={{ color: "var(--bsky-warning)" }}>
+          Notifications are blocked for this site. Allow them in your browser's
+          site settings to turn this on.
+        </div>
+      )}
+
+      {prefs.enabled && permission === "granted" && (
+        <>
+          <div
+            className="space-y-3 border-t pt-4"
+            style={{ borderColor: "var(--bsky-border-primary)" }}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <Moon
+                  size={16}
+                  style={{ color: "var(--bsky-text-secondary)" }}
+                />
+                <span
+                  className="text-sm font-medium"
+                  style={{ color: "var(--bsky-text-primary)" }}
+                >
+                  Do not disturb
+                </span>
+              </div>
+              <Switch
+                checked={prefs.doNotDisturb.enabled}
+                onChange={() =>
+                  desktopNotifications.setDoNotDisturb({
+                    enabled: !prefs.doNotDisturb.enabled,
+                  })
+                }
+                label="Do not disturb"
+              />
+            </div>
+            {prefs.doNotDisturb.enabled && (
+              <div
+                className="flex items-center gap-2 text-sm"
+                style={{ color: "var(--bsky-text-secondary)" }}
+              >
+                <span>From</span>
+                <input
+                  type="time"
+                  value={prefs.doNotDisturb.start}
+                  onChange={(e) =>
+                    desktopNotifications.setDoNotDisturb({
+                      start: e.target.value,
+                    })
+                  }
+                  className="rounded-lg px-2 py-1"
+                  style={buttonStyle}
+                />
+                <span>until</span>
+                <input
+                  type="time"
+                  value={prefs.doNotDisturb.end}
+                  onChange={(e) =>
+                    desktopNotifications.setDoNotDisturb({
+                      end: e.target.value,
+                    })
+                  }
+                  className="rounded-lg px-2 py-1"
+                  style={buttonStyle}
+                />
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={() => desktopNotifications.sendTest()}
+            className="rounded-lg px-3 py-2 text-sm font-medium transition-colors"
+            style={buttonStyle}
+          >
+            Send test notification
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
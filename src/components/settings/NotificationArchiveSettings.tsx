@@ -0,0 +1,229 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistance } from "date-fns";
+import { Archive, Pause, Play, Scissors } from "lucide-react";
+import React, { useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import { useNotificationArchiveState } from "../../hooks/useNotificationArchive";
+import {
+  getArchiveProgress,
+  notificationArchive,
+} from "../../services/notification-archive";
+import { NotificationCacheService } from "../../services/notification-cache-service";
+import { NotificationStorageDB } from "../../services/notification-storage-db";
+
+const RETENTION_OPTIONS = [
+  { months: null, label: "Keep forever" },
+  { months: 3, label: "3 months" },
+  { months: 6, label: "6 months" },
+  { months: 12, label: "1 year" },
+  { months: 24, label: "2 years" },
+];
+
+const STATUS_LABELS = {
+  idle: "Off",
+  running: "Downloading history",
+  paused: "Paused",
+  complete: "Up to date",
+  error: "Stopped after an error",
+};
+
+const buttonStyle = {
+  backgroundColor: "var(--bsky-bg-tertiary)",
+  color: "var(--bsky-text-primary)",
+  border: "1px solid var(--bsky-border-primary)",
+};
+
+export const NotificationArchiveSettings: React.FC = () => {
+  const { session } = useAuth();
+  const state = useNotificationArchiveState();
+  const { fraction, etaMs } = getArchiveProgress(state);
+  const [isPruning, setIsPruning] = useState(false);
+
+  const { data: storedCount } = useQuery({
+    queryKey: [
+      "notificationArchiveCount",
+      session?.did,
+      state.fetchedCount,
+      state.prunedCount,
+    ],
+    queryFn: async () => {
+      await NotificationCacheService.getInstance().init();
+      return NotificationStorageDB.getInstance().getCount();
+    },
+    enabled: !!session?.did,
+  });
+
+  const handlePrune = async () => {
+    setIsPruning(true);
+    try {
+      await notificationArchive.prune();
+    } finally {
+      setIsPruning(false);
+    }
+  };
+
+  return (
+    <div
+      className="space-y-4 rounded-lg p-4"
+      style={{
+        backgroundColor: "var(--bsky-bg-secondary)",
+        border: "1px solid var(--bsky-border-primary)",
+      }}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Archive size={20} style={{ color: "var(--bsky-text-secondary)" }} />
+          <div>
+            <div
+              className="font-medium"
+              style={{ color: "var(--bsky-text-primary)" }}
+            >
+              Notification Archive
+            </div>
+            <div
+              className="text-sm"
+              style={{ color: "var(--bsky-text-secondary)" }}
+            >
+              Keep your whole notification history on this device, not just the
+              last 4 weeks
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={() =>
+            state.enabled
+              ? notificationArchive.disable()
+              : notificationArchive.enable()
+          }
+          className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors duration-200 ${
+            state.enabled ? "bg-blue-500" : "bg-gray-300 dark:bg-gray-600"
+          }`}
+          role="switch"
+          aria-checked={state.enabled}
+          aria-label="Archive mode"
+        >
+          <span
+            className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-lg transition-transform duration-200 ${
+              state.enabled ? "translate-x-6" : "translate-x-0.5"
+            }`}
+          />
+        </button>
+      </div>
+
+      {state.enabled && (
+        <div className="space-y-2">
+          <div
+            className="flex items-center justify-between text-sm"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            <span>{STATUS_LABELS[state.status]}</span>
+            {fraction !== null && <span>{Math.round(fraction * 100)}%</span>}
+          </div>
+          <div
+            className="h-2 overflow-hidden rounded-full"
+            style={{ backgroundColor: "var(--bsky-bg-tertiary)" }}
+          >
+            <div
+              className="h-full rounded-full transition-all"
+              style={{
+                width: `${Math.round((fraction ?? 0) * 100)}%`,
+                backgroundColor: "var(--bsky-primary)",
+              }}
+            />
+          </div>
+          <div
+            className="text-xs"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            {state.fetchedCount.toLocaleString()} fetched
+            {state.frontier &&
+              ` · back to ${format(new Date(state.frontier), "MMM d, yyyy")}`}
+            {state.status === "running" &&
+              etaMs !== null &&
+              ` · about ${formatDistance(0, etaMs)} left`}
+          </div>
+          {state.gapDetectedAt && (
+            <div className="text-xs" style={{ color: "var(--bsky-warning)" }}>
+              Filling in notifications missed since the last visit
+            </div>
+          )}
+          {state.status === "error" && state.lastError && (
+            <div className="text-xs" style={{ color: "var(--bsky-error)" }}>
+              {state.lastError}
+            </div>
+          )}
+          {state.status !== "complete" && (
+            <button
+              onClick={() =>
+                state.status === "running"
+                  ? notificationArchive.pause()
+                  : notificationArchive.resume()
+              }
+              className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors"
+              style={buttonStyle}
+            >
+              {state.status === "running" ? (
+                <>
+                  <Pause size={16} />
+                  Pause
+                </>
+              ) : (
+                <>
+                  <Play size={16} />
+                  {state.status === "error" ? "Retry" : "Resume"}
+                </>
+              )}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div
+        className="flex flex-wrap items-end justify-between gap-3 border-t pt-4"
+        style={{ borderColor: "var(--bsky-border-primary)" }}
+      >
+        <div>
+          <label
+            className="mb-2 block text-sm font-medium"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            Keep notifications for
+          </label>
+          <select
+            value={state.retentionMonths ?? ""}
+            onChange={(e) =>
+              notificationArchive.setRetention(
+                e.target.value ? Number(e.target.value) : null,
+              )
+            }
+            className="rounded-lg px-3 py-2 text-sm"
+            style={buttonStyle}
+          >
+            {RETENTION_OPTIONS.map(({ months, label }) => (
+              <option key={label} value={months ?? ""}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {state.retentionMonths !== null && (
+          <button
+            onClick={handlePrune}
+            disabled={isPruning}
+            className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50"
+            style={buttonStyle}
+          >
+            <Scissors size={16} />
+            {isPruning ? "Pruning..." : "Prune now"}
+          </button>
+        )}
+      </div>
+      <div className="text-xs" style={{ color: "var(--bsky-text-tertiary)" }}>
+        {storedCount !== undefined &&
+          `${storedCount.toLocaleString()} notifications stored`}
+        {state.lastPrunedAt &&
+          ` · last pruned ${formatDistance(new Date(state.lastPrunedAt), new Date(), { addSuffix: true })}`}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,345 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { endOfDay } from "date-fns";
+import { Download, Upload, X } from "lucide-react";
+import React, { useRef, useState } from "react";
+import {
+  EXPORT_FORMATS,
+  exportNotifications,
+  getExportFileName,
+  importNotificationArchive,
+  type NotificationExportFormat,
+  type NotificationExportProgress,
+  type NotificationImportResult,
+} from "../../services/notification-export";
+
+const REASONS = [
+  { reason: "like", label: "Likes" },
+  { reason: "repost", label: "Reposts" },
+  { reason: "follow", label: "Follows" },
+  { reason: "mention", label: "Mentions" },
+  { reason: "reply", label: "Replies" },
+  { reason: "quote", label: "Quotes" },
+];
+
+const buttonStyle = {
+  backgroundColor: "var(--bsky-bg-tertiary)",
+  color: "var(--bsky-text-primary)",
+  border: "1px solid var(--bsky-border-primary)",
+};
+
+const labelClassName = "mb-1 block text-sm font-medium";
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const NotificationExportSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [format, setFormat] = useState<NotificationExportFormat>("json");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reasons, setReasons] = useState<string[]>([]);
+  const [authors, setAuthors] = useState("");
+  const [includePosts, setIncludePosts] = useState(true);
+  const [exportProgress, setExportProgress] =
+    useState<NotificationExportProgress | null>(null);
+  const [importProgress, setImportProgress] =
+    useState<NotificationImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isExporting = exportProgress !== null;
+
+  const toggleReason = (reason: string) =>
+    setReasons((current) =>
+      current.includes(reason)
+        ? current.filter((r) => r !== reason)
+        : [...current, reason],
+    );
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+    setExportProgress({ scanned: 0, exported: 0, total: 0 });
+
+    try {
+      const blob = await exportNotifications(
+        {
+          format,
+          includePosts: includePosts && format !== "csv",
+          filters: {
+            // Date inputs are local days, the end day is included
+            start: startDate ? new Date(`${startDate}T00:00`) : undefined,
+            end: endDate ? endOfDay(new Date(`${endDate}T00:00`)) : undefined,
+            reasons,
+            authors: authors.split(/[\s,]+/).filter(Boolean),
+          },
+        },
+        { onProgress: setExportProgress, signal: controller.signal },
+      );
+      downloadBlob(blob, getExportFileName(format));
+      setMessage({ type: "success", text: "Export ready" });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setMessage({
+          type: "error",
+          text: (error as Error).message || "Export failed",
+        });
+      }
+    } finally {
+      abortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setMessage(null);
+    setIsImporting(true);
+    setImportProgress(null);
+    try {
+      const result = await importNotificationArchive(file, {
+        onProgress: setImportProgress,
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["notificationArchiveCount"],
+      });
+      setMessage({
+        type: "success",
+        text: `Imported ${result.notifications.toLocaleString()} notifications and ${result.posts.toLocaleString()} posts${
+          result.skipped > 0
+            ? `, skipped ${result.skipped.toLocaleString()} unreadable records`
+            : ""
+        }`,
+      });
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: (error as Error).message || "Import failed",
+      });
+    } finally {
+      setIsImporting(false);
+      setImportProgress(null);
+    }
+  };
+
+  return (
+    <div
+      className="space-y-4 rounded-lg p-4"
+      style={{
+        backgroundColor: "var(--bsky-bg-secondary)",
+        border: "1px solid var(--bsky-border-primary)",
+      }}
+    >
+      <div className="flex items-center gap-3">
+        <Download size={20} style={{ color: "var(--bsky-text-secondary)" }} />
+        <div>
+          <div
+            className="font-medium"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            Export & Import
+          </div>
+          <div
+            className="text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            Save the notifications stored on this device, or restore an archive
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label
+            className={labelClassName}
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            From
+          </label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-full rounded-lg px-3 py-2 text-sm"
+            style={buttonStyle}
+          />
+        </div>
+        <div>
+          <label
+            className={labelClassName}
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            To
+          </label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="w-full rounded-lg px-3 py-2 text-sm"
+            style={buttonStyle}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div
+          className={labelClassName}
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          Types
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {REASONS.map(({ reason, label }) => (
+            <button
+              key={reason}
+              onClick={() => toggleReason(reason)}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                reasons.includes(reason)
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div
+          className="mt-1 text-xs"
+          style={{ color: "var(--bsky-text-tertiary)" }}
+        >
+          {reasons.length === 0 ? "All types" : `${reasons.length} selected`}
+        </div>
+      </div>
+
+      <div>
+        <label
+          className={labelClassName}
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          From people
+        </label>
+        <input
+          type="text"
+          value={authors}
+          onChange={(e) => setAuthors(e.target.value)}
+          placeholder="Handles or DIDs, separated by commas"
+          className="w-full rounded-lg px-3 py-2 text-sm"
+          style={buttonStyle}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <label
+            className={labelClassName}
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            Format
+          </label>
+          <select
+            value={format}
+            onChange={(e) =>
+              setFormat(e.target.value as NotificationExportFormat)
+            }
+            className="rounded-lg px-3 py-2 text-sm"
+            style={buttonStyle}
+          >
+            {EXPORT_FORMATS.map(({ format, label, description }) => (
+              <option key={format} value={format}>
+                {label} · {description}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label
+          className="flex items-center gap-2 text-sm"
+          style={{
+            color:
+              format === "csv"
+                ? "var(--bsky-text-tertiary)"
+                : "var(--bsky-text-primary)",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={includePosts && format !== "csv"}
+            disabled={format === "csv"}
+            onChange={(e) => setIncludePosts(e.target.checked)}
+          />
+          Include posts
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isExporting ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors"
+            style={buttonStyle}
+          >
+            <X size={16} />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={isImporting}
+            className="flex items-center gap-2 rounded-lg bg-blue-500 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Download size={16} />
+            Export
+          </button>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isExporting || isImporting}
+          className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50"
+          style={buttonStyle}
+        >
+          <Upload size={16} />
+          {isImporting ? "Importing..." : "Import archive"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.ndjson,.jsonl,application/json,application/x-ndjson"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {(exportProgress || importProgress || message) && (
+        <div
+          className="text-xs"
+          style={{
+            color:
+              message?.type === "error"
+                ? "var(--bsky-error)"
+                : "var(--bsky-text-secondary)",
+          }}
+        >
+          {exportProgress
+            ? `Exported ${exportProgress.exported.toLocaleString()} · scanned ${exportProgress.scanned.toLocaleString()} of ${exportProgress.total.toLocaleString()}`
+            : importProgress
+              ? `Imported ${importProgress.notifications.toLocaleString()} notifications...`
+              : message?.text}
+        </div>
+      )}
+    </div>
+  );
+};
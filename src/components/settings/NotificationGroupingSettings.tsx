@@ -0,0 +1,103 @@
+import { Layers } from "lucide-react";
+import React from "react";
+import { useNotificationGroupingPrefs } from "../../hooks/useNotificationGrouping";
+import {
+  AGGREGATION_STRATEGIES,
+  AGGREGATION_WINDOWS,
+  notificationGrouping,
+} from "../../services/notification-grouping";
+
+export const NotificationGroupingSettings: React.FC = () => {
+  const prefs = useNotificationGroupingPrefs();
+
+  return (
+    <div
+      className="space-y-4 rounded-lg p-4"
+      style={{
+        backgroundColor: "var(--bsky-bg-secondary)",
+        border: "1px solid var(--bsky-border-primary)",
+      }}
+    >
+      <div className="flex items-center gap-3">
+        <Layers size={20} style={{ color: "var(--bsky-text-secondary)" }} />
+        <div>
+          <div
+            className="font-medium"
+            style={{ color: "var(--bsky-text-primary)" }}
+          >
+            Grouping
+          </div>
+          <div
+            className="text-sm"
+            style={{ color: "var(--bsky-text-secondary)" }}
+          >
+            How likes, reposts, quotes and follows are rolled up in the feed
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {AGGREGATION_STRATEGIES.map(({ strategy, label, description }) => (
+          <label
+            key={strategy}
+            className="flex cursor-pointer items-start gap-3"
+          >
+            <input
+              type="radio"
+              name="notification-grouping"
+              checked={prefs.strategy === strategy}
+              onChange={() => notificationGrouping.update({ strategy })}
+              className="mt-1"
+            />
+            <div>
+              <div
+                className="text-sm font-medium"
+                style={{ color: "var(--bsky-text-primary)" }}
+              >
+                {label}
+              </div>
+              <div
+                className="text-xs"
+                style={{ color: "var(--bsky-text-secondary)" }}
+              >
+                {description}
+              </div>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div
+        className="border-t pt-4"
+        style={{ borderColor: "var(--bsky-border-primary)" }}
+      >
+        <label
+          className="mb-2 block text-sm font-medium"
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          Group notifications up to this far apart
+        </label>
+        <select
+          value={prefs.windowHours ?? ""}
+          onChange={(e) =>
+            notificationGrouping.update({
+              windowHours: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+          className="rounded-lg px-3 py-2 text-sm"
+          style={{
+            backgroundColor: "var(--bsky-bg-tertiary)",
+            color: "var(--bsky-text-primary)",
+            border: "1px solid var(--bsky-border-primary)",
+          }}
+        >
+          {AGGREGATION_WINDOWS.map(({ hours, label }) => (
+            <option key={label} value={hours ?? ""}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,683 @@
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { Eye, Loader, Pencil, Plus, Trash2, X } from "lucide-react";
+import React, { useState } from "react";
+import { useAuth } from "../../contexts/AuthContext";
+import { useModal } from "../../contexts/ModalContext";
+import { useFollowing } from "../../hooks/useFollowing";
+import { useNotificationRules } from "../../hooks/useNotificationRules";
+import {
+  generateRuleId,
+  NOTIFICATION_RULE_ACTIONS,
+  notificationRulesService,
+  previewNotificationRule,
+  type NotificationRule,
+  type NotificationRuleCondition,
+  type NotificationRuleConditionType,
+  type NotificationRulePreview,
+} from "../../services/notification-rules";
+import { createLogger } from "../../utils/logger";
+import { constructAtUri, parseBskyUrl } from "../../utils/url-helpers";
+import { CompactNotificationItem } from "../CompactNotificationItem";
+
+const logger = createLogger("NotificationRulesSettings");
+
+const REASONS = [
+  { reason: "like", label: "Likes" },
+  { reason: "repost", label: "Reposts" },
+  { reason: "follow", label: "Follows" },
+  { reason: "mention", label: "Mentions" },
+  { reason: "reply", label: "Replies" },
+  { reason: "quote", label: "Quotes" },
+];
+
+const CONDITION_LABELS: Record<NotificationRuleConditionType, string> = {
+  reason: "Notification type",
+  author: "Author",
+  authorFollowers: "Author follower count",
+  keyword: "Post contains",
+  authorFollowed: "Author is followed",
+  threadRoot: "In thread",
+};
+
+const PREVIEW_SHOWN = 20;
+
+const newCondition = (
+  type: NotificationRuleConditionType,
+): NotificationRuleCondition => {
+  switch (type) {
+    case "reason":
+      return { type, reasons: ["reply"] };
+    case "author":
+      return { type, value: "" };
+    case "authorFollowers":
+      return { type, min: 10000 };
+    case "keyword":
+      return { type, keywords: [] };
+    case "authorFollowed":
+      return { type, followed: true };
+    case "threadRoot":
+      return { type, uri: "" };
+  }
+};
+
+const newRule = (): NotificationRule => {
+  const now = new Date().toISOString();
+  return {
+    id: generateRuleId(),
+    name: "",
+    enabled: true,
+    match: "all",
+    conditions: [newCondition("reason")],
+    actions: ["highlight"],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const describeCondition = (condition: NotificationRuleCondition): string => {
+  switch (condition.type) {
+    case "reason":
+      return condition.reasons
+        .map((reason) => REASONS.find((r) => r.reason === reason)?.label)
+        .join(" or ");
+    case "author":
+      return `from ${condition.value}`;
+    case "authorFollowers":
+      if (condition.max === undefined) {
+        return `author has ${condition.min ?? 0}+ followers`;
+      }
+      return `author has ${condition.min ?? 0}–${condition.max} followers`;
+    case "keyword":
+      return `contains "${condition.keywords.filter((k) => k.trim()).join('" or "')}"`;
+    case "authorFollowed":
+      return condition.followed
+        ? "from people you follow"
+        : "from people you don't follow";
+    case "threadRoot":
+      return "in a specific thread";
+  }
+};
+
+const inputStyle = {
+  backgroundColor: "var(--bsky-bg-primary)",
+  color: "var(--bsky-text-primary)",
+  border: "1px solid var(--bsky-border-primary)",
+};
+
+export const NotificationRulesSettings: React.FC = () => {
+  const { showConfirm } = useModal();
+  const rules = useNotificationRules();
+  const [editing, setEditing] = useState<NotificationRule | null>(null);
+
+  const handleDelete = (rule: NotificationRule) => {
+    showConfirm(
+      `Delete "${rule.name}"? Columns showing it will be left empty.`,
+      () => notificationRulesService.deleteRule(rule.id),
+      {
+        variant: "warning",
+        title: "Delete Rule",
+        confirmText: "Delete",
+        cancelText: "Cancel",
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2
+          className="text-xl font-semibold"
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          Notification Rules
+        </h2>
+        <p
+          className="mt-1 text-sm"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          Hide, highlight, pin or route notifications that match your own
+          conditions
+        </p>
+      </div>
+
+      {editing ? (
+        <RuleEditor
+          key={editing.id}
+          initialRule={editing}
+          onDone={() => setEditing(null)}
+        />
+      ) : (
+        <>
+          <div className="space-y-3">
+            {rules.length === 0 && (
+              <p
+                className="text-sm"
+                style={{ color: "var(--bsky-text-tertiary)" }}
+              >
+                No rules yet
+              </p>
+            )}
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-start justify-between gap-3 rounded-lg p-4"
+                style={{
+                  backgroundColor: "var(--bsky-bg-secondary)",
+                  border: "1px solid var(--bsky-border-primary)",
+                  opacity: rule.enabled ? 1 : 0.6,
+                }}
+              >
+                <div className="min-w-0 flex-1">
+                  <div
+                    className="font-medium"
+                    style={{ color: "var(--bsky-text-primary)" }}
+                  >
+                    {rule.name}
+                  </div>
+                  <div
+                    className="mt-1 text-sm"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                  >
+                    {rule.conditions
+                      .map(describeCondition)
+                      .join(rule.match === "all" ? ", and " : ", or ")}
+                  </div>
+                  <div
+                    className="mt-1 text-xs"
+                    style={{ color: "var(--bsky-text-tertiary)" }}
+                  >
+                    {rule.actions
+                      .map(
+                        (action) =>
+                          NOTIFICATION_RULE_ACTIONS.find(
+                            (a) => a.action === action,
+                          )?.label,
+                      )
+                      .join(" · ")}
+                  </div>
+                </div>
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  <button
+                    onClick={() =>
+                      notificationRulesService.setEnabled(
+                        rule.id,
+                        !rule.enabled,
+                      )
+                    }
+                    className={`relative mr-2 inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 ${
+                      rule.enabled
+                        ? "bg-blue-500"
+                        : "bg-gray-300 dark:bg-gray-600"
+                    }`}
+                    role="switch"
+                    aria-checked={rule.enabled}
+                    aria-label={`Turn ${rule.name} ${rule.enabled ? "off" : "on"}`}
+                  >
+                    <span
+                      className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-lg transition-transform duration-200 ${
+                        rule.enabled ? "translate-x-6" : "translate-x-0.5"
+                      }`}
+                    />
+                  </button>
+                  <button
+                    onClick={() => setEditing(rule)}
+                    className="rounded-lg p-2 hover:bg-bsky-bg-hover"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                    aria-label={`Edit ${rule.name}`}
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="rounded-lg p-2 hover:bg-bsky-bg-hover"
+                    style={{ color: "var(--bsky-text-secondary)" }}
+                    aria-label={`Delete ${rule.name}`}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => setEditing(newRule())}
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-white"
+            style={{ backgroundColor: "var(--bsky-primary)" }}
+          >
+            <Plus size={16} />
+            New Rule
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface RuleEditorProps {
+  initialRule: NotificationRule;
+  onDone: () => void;
+}
+
+const RuleEditor: React.FC<RuleEditorProps> = ({ initialRule, onDone }) => {
+  const { agent } = useAuth();
+  const { showAlert } = useModal();
+  const { data: followingSet } = useFollowing();
+  const [rule, setRule] = useState(initialRule);
+  const [preview, setPreview] = useState<NotificationRulePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<NotificationRule>) => {
+    setRule((prev) => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const updateCondition = (
+    index: number,
+    condition: NotificationRuleCondition,
+  ) => {
+    update({
+      conditions: rule.conditions.map((c, i) => (i === index ? condition : c)),
+    });
+  };
+
+  // Thread conditions take a bsky.app link or an AT-URI, stored as an AT-URI
+  // with the author's DID so it compares equal to the notification records
+  const resolveThreadRoots = async (
+    conditions: NotificationRuleCondition[],
+  ): Promise<NotificationRuleCondition[]> =>
+    Promise.all(
+      conditions.map(async (condition) => {
+        if (condition.type !== "threadRoot") return condition;
+        const parsed = parseBskyUrl(condition.uri.trim());
+        if (!parsed?.postId) return { ...condition, uri: condition.uri.trim() };
+
+        let did = parsed.did;
+        if (!did && parsed.handle && agent) {
+          const response = await agent.resolveHandle({ handle: parsed.handle });
+          did = response.data.did;
+        }
+        return did
+          ? { ...condition, uri: constructAtUri(did, parsed.postId) }
+          : condition;
+      }),
+    );
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const conditions = await resolveThreadRoots(rule.conditions);
+      setPreview(
+        await previewNotificationRule(
+          { ...rule, conditions },
+          { followingSet },
+        ),
+      );
+    } catch (error) {
+      logger.error("Failed to preview rule:", error);
+      showAlert("Couldn't preview this rule. Please try again.", {
+        variant: "error",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const conditions = await resolveThreadRoots(rule.conditions);
+      notificationRulesService.saveRule({
+        ...rule,
+        name: rule.name.trim() || "Untitled rule",
+        conditions,
+      });
+
+      if (
+        rule.actions.includes("alert") &&
+        "Notification" in window &&
+        window.Notification.permission === "default"
+      ) {
+        await window.Notification.requestPermission();
+      }
+      onDone();
+    } catch (error) {
+      logger.error("Failed to save rule:", error);
+      showAlert("Couldn't save this rule. Check the thread link.", {
+        variant: "error",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleAction = (action: NotificationRule["actions"][number]) => {
+    update({
+      actions: rule.actions.includes(action)
+        ? rule.actions.filter((a) => a !== action)
+        : [...rule.actions, action],
+    });
+  };
+
+  return (
+    <div
+      className="space-y-5 rounded-lg p-4"
+      style={{
+        backgroundColor: "var(--bsky-bg-secondary)",
+        border: "1px solid var(--bsky-border-primary)",
+      }}
+    >
+      <div>
+        <label
+          className="mb-2 block text-sm font-medium"
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          Name
+        </label>
+        <input
+          value={rule.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="e.g. Replies from big accounts"
+          className="w-full rounded-lg px-3 py-2 text-sm"
+          style={inputStyle}
+        />
+      </div>
+
+      <div>
+        <div
+          className="mb-2 flex items-center gap-2 text-sm font-medium"
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          When
+          <select
+            value={rule.match}
+            onChange={(e) =>
+              update({ match: e.target.value as NotificationRule["match"] })
+            }
+            className="rounded-lg px-2 py-1 text-sm"
+            style={inputStyle}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          of these match
+        </div>
+
+        <div className="space-y-2">
+          {rule.conditions.map((condition, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <select
+                value={condition.type}
+                onChange={(e) =>
+                  updateCondition(
+                    index,
+                    newCondition(
+                      e.target.value as NotificationRuleConditionType,
+                    ),
+                  )
+                }
+                className="rounded-lg px-2 py-2 text-sm"
+                style={inputStyle}
+              >
+                {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <div className="min-w-0 flex-1">
+                <ConditionInput
+                  condition={condition}
+                  onChange={(updated) => updateCondition(index, updated)}
+                />
+              </div>
+              <button
+                onClick={() =>
+                  update({
+                    conditions: rule.conditions.filter((_, i) => i !== index),
+                  })
+                }
+                className="rounded-lg p-2 hover:bg-bsky-bg-hover"
+                style={{ color: "var(--bsky-text-secondary)" }}
+                aria-label="Remove condition"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() =>
+            update({
+              conditions: [...rule.conditions, newCondition("keyword")],
+            })
+          }
+          className="mt-2 flex items-center gap-1 text-sm"
+          style={{ color: "var(--bsky-primary)" }}
+        >
+          <Plus size={14} />
+          Add condition
+        </button>
+      </div>
+
+      <div>
+        <div
+          className="mb-2 text-sm font-medium"
+          style={{ color: "var(--bsky-text-primary)" }}
+        >
+          Then
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {NOTIFICATION_RULE_ACTIONS.map(({ action, label }) => (
+            <label
+              key={action}
+              className="flex items-center gap-2 text-sm"
+              style={{ color: "var(--bsky-text-primary)" }}
+            >
+              <input
+                type="checkbox"
+                checked={rule.actions.includes(action)}
+                onChange={() => toggleAction(action)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {preview && <RulePreview preview={preview} />}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          onClick={handlePreview}
+          disabled={isPreviewing || rule.conditions.length === 0}
+          className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50"
+          style={{
+            backgroundColor: "var(--bsky-bg-tertiary)",
+            color: "var(--bsky-text-primary)",
+            border: "1px solid var(--bsky-border-primary)",
+          }}
+        >
+          {isPreviewing ? (
+            <Loader size={16} className="animate-spin" />
+          ) : (
+            <Eye size={16} />
+          )}
+          Preview matches
+        </button>
+        <button
+          onClick={onDone}
+          className="rounded-lg px-4 py-2 text-sm font-medium"
+          style={{ color: "var(--bsky-text-secondary)" }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={
+            isSaving ||
+            rule.conditions.length === 0 ||
+            rule.actions.length === 0
+          }
+          className="rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-50"
+          style={{ backgroundColor: "var(--bsky-primary)" }}
+        >
+          {isSaving ? "Saving..." : "Save Rule"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface ConditionInputProps {
+  condition: NotificationRuleCondition;
+  onChange: (condition: NotificationRuleCondition) => void;
+}
+
+const ConditionInput: React.FC<ConditionInputProps> = ({
+  condition,
+  onChange,
+}) => {
+  const parseCount = (value: string) =>
+    value.trim() === "" ? undefined : Math.max(0, Number(value) || 0);
+
+  switch (condition.type) {
+    case "reason":
+      return (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 py-2">
+          {REASONS.map(({ reason, label }) => (
+            <label
+              key={reason}
+              className="flex items-center gap-1 text-sm"
+              style={{ color: "var(--bsky-text-primary)" }}
+            >
+              <input
+                type="checkbox"
+                checked={condition.reasons.includes(reason)}
+                onChange={() =>
+                  onChange({
+                    ...condition,
+                    reasons: condition.reasons.includes(reason)
+                      ? condition.reasons.filter((r) => r !== reason)
+                      : [...condition.reasons, reason],
+                  })
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      );
+    case "author":
+      return (
+        <input
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          placeholder="handle.bsky.social or did:plc:…"
+          className="w-full rounded-lg px-3 py-2 text-sm"
+          style={inputStyle}
+        />
+      );
+    case "authorFollowers":
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            value={condition.min ?? ""}
+            onChange={(e) =>
+              onChange({ ...condition, min: parseCount(e.target.value) })
+            }
+            placeholder="Min"
+            className="w-full rounded-lg px-3 py-2 text-sm"
+            style={inputStyle}
+          />
+          <span style={{ color: "var(--bsky-text-secondary)" }}>to</span>
+          <input
+            type="number"
+            min={0}
+            value={condition.max ?? ""}
+            onChange={(e) =>
+              onChange({ ...condition, max: parseCount(e.target.value) })
+            }
+            placeholder="Max"
+            className="w-full rounded-lg px-3 py-2 text-sm"
+            style={inputStyle}
+          />
+        </div>
+      );
+    case "keyword":
+      return (
+        <input
+          value={condition.keywords.join(",")}
+          onChange={(e) =>
+            onChange({ ...condition, keywords: e.target.value.split(",") })
+          }
+          placeholder="Words or phrases, separated by commas"
+          className="w-full rounded-lg px-3 py-2 text-sm"
+          style={inputStyle}
+        />
+      );
+    case "authorFollowed":
+      return (
+        <select
+          value={condition.followed ? "yes" : "no"}
+          onChange={(e) =>
+            onChange({ ...condition, followed: e.target.value === "yes" })
+          }
+          className="w-full rounded-lg px-3 py-2 text-sm"
+          style={inputStyle}
+        >
+          <option value="yes">You follow them</option>
+          <option value="no">You don't follow them</option>
+        </select>
+      );
+    case "threadRoot":
+      return (
+        <input
+          value={condition.uri}
+          onChange={(e) => onChange({ ...condition, uri: e.target.value })}
+          placeholder="Link to the first post of the thread"
+          className="w-full rounded-lg px-3 py-2 text-sm"
+          style={inputStyle}
+        />
+      );
+  }
+};
+
+const RulePreview: React.FC<{ preview: NotificationRulePreview }> = ({
+  preview,
+}) => (
+  <div>
+    <div
+      className="mb-2 text-sm font-medium"
+      style={{ color: "var(--bsky-text-primary)" }}
+    >
+      {preview.matches.length} of {preview.scanned} saved notifications match
+    </div>
+    {preview.matches.length > 0 && (
+      <div
+        className="max-h-96 overflow-y-auto rounded-lg"
+        style={{ border: "1px solid var(--bsky-border-primary)" }}
+      >
+        {preview.matches
+          .slice(0, PREVIEW_SHOWN)
+          .map((notification: Notification) => (
+            <CompactNotificationItem
+              key={notification.uri}
+              notification={notification}
+            />
+          ))}
+      </div>
+    )}
+    {preview.matches.length > PREVIEW_SHOWN && (
+      <div
+        className="mt-1 text-xs"
+        style={{ color: "var(--bsky-text-tertiary)" }}
+      >
+        Showing the latest {PREVIEW_SHOWN}
+      </div>
+    )}
+  </div>
+);
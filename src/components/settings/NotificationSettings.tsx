@@ -2,6 +2,9 @@ import { queryClient } from "@bsky/shared";
 import { useQuery } from "@tanstack/react-query";
 import React, { useEffect, useState } from "react";
 import { useAuth } from "../../contexts/AuthContext";
+import { desktopNotifications } from "../../services/desktop-notifications";
+import { DesktopNotificationSettings } from "./DesktopNotificationSettings";
+import { NotificationGroupingSettings } from "./NotificationGroupingSettings";
 
 export const NotificationSettings: React.FC = () => {
   const { agent } = useAuth();
@@ -43,14 +46,17 @@ export const NotificationSettings: React.FC = () => {
         Array.isArray(notifPrefs.priority)
       ) {
         // Map server preferences to our local state
-        setNotifications({
+        const saved = {
           mentions: notifPrefs.priority.includes("mentions"),
           replies: notifPrefs.priority.includes("replies"),
           likes: notifPrefs.priority.includes("likes"),
           reposts: notifPrefs.priority.includes("reposts"),
           follows: notifPrefs.priority.includes("follows"),
           quotes: notifPrefs.priority.includes("quotes"),
-        });
+        };
+        setNotifications(saved);
+        // Desktop notifications follow the same toggles
+        desktopNotifications.setTypes(saved);
       }
     }
   }, [preferences]);
@@ -96,6 +102,7 @@ export const NotificationSettings: React.FC = () => {
         preferences: updatedPrefs,
       });
 
+      desktopNotifications.setTypes(notifications);
       setMessage({ type: "success", text: "Notification preferences saved!" });
 
       // Refresh preferences
@@ -240,6 +247,10 @@ export const NotificationSettings: React.FC = () => {
           {isLoading ? "Saving..." : "Save Preferences"}
         </button>
       </div>
+
+      <DesktopNotificationSettings />
+
+      <NotificationGroupingSettings />
     </div>
   );
 };
@@ -1,4 +1,12 @@
-import { Bell, Bookmark, Database, Palette, Shield, User } from "lucide-react";
+import {
+  Bell,
+  Bookmark,
+  Database,
+  ListFilter,
+  Palette,
+  Shield,
+  User,
+} from "lucide-react";
 import React from "react";
 import { NavLink } from "react-router";
 
@@ -25,6 +33,12 @@ export const SettingsLayout: React.FC<SettingsLayoutProps> = ({
       icon: Bell,
       path: "/settings/notifications",
     },
+    {
+      id: "rules",
+      label: "Notification Rules",
+      icon: ListFilter,
+      path: "/settings/rules",
+    },
     {
       id: "privacy",
       label: "Privacy & Safety",
@@ -16,14 +16,19 @@ import React, {
   useRef,
   useState,
 } from "react";
+import { accountStore, type StoredAccount } from "../services/account-store";
 import { analytics } from "../services/analytics";
 import { appPreferencesService } from "../services/app-preferences-service";
 import { atProtoClient, ATProtoClient } from "../services/atproto";
+import { oauthClient } from "../services/atproto/oauth";
 import {
   bookmarkService,
   initializeBookmarkService,
 } from "../services/bookmark-service-wrapper";
 import { dmService } from "../services/dm-service";
+import { ExtendedFetchCache } from "../utils/extendedFetchCache";
+import { NotificationCache } from "../utils/notificationCache";
+import { NotificationObjectCache } from "../utils/notificationObjectCache";
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -34,11 +39,19 @@ interface AuthContextType {
     pdsUrl?: string,
     authFactorToken?: string,
   ) => Promise<boolean>;
+  // Leaves for the account's authorization server, returns after sign in
+  loginWithOAuth: (identifier: string) => Promise<void>;
+  // Why the last OAuth sign in didn't complete, shown on the landing page
+  authError: string | null;
   logout: () => void;
   session: Session | null;
   client: ATProtoClient;
   agent: BskyAgent | null;
   refreshSession: () => Promise<boolean>;
+  // Every account signed in on this device, including the active one
+  accounts: StoredAccount[];
+  switchAccount: (did: string) => Promise<void>;
+  addAccount: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -55,18 +68,119 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
+// localStorage caches that aren't partitioned per account
+const clearAccountCaches = () => {
+  NotificationCache.clearAll();
+  NotificationObjectCache.clear();
+  ExtendedFetchCache.clearAll();
+};
+
+// Keep the stored account's handle and avatar current for the switcher
+const refreshStoredProfile = (agent: BskyAgent, did: string) => {
+  agent
+    .getProfile({ actor: did })
+    .then(({ data }) =>
+      accountStore.updateProfile(did, {
+        handle: data.handle,
+        displayName: data.displayName,
+        avatar: data.avatar,
+      }),
+    )
+    .catch((error) => debug.error("Failed to load account profile:", error));
+};
+
+/**
+ * Per-account storage is named when it's first opened, so the page has to
+ * reload when the session becoming active doesn't own the names in use.
+ * Returns true when a reload is needed.
+ */
+const activateSession = (session: Session, service?: string): boolean => {
+  const scopeBefore = accountStore.scopedName("");
+  accountStore.setActiveSession(session, service);
+  return accountStore.scopedName("") !== scopeBefore;
+};
+
+// Save the newest tokens of the active account before leaving it
+const syncActiveSession = () => {
+  const current = ATProtoClient.loadSavedSession(
+    atProtoClient.getSessionPrefix(),
+  );
+  if (current) {
+    accountStore.saveSession(current);
+  }
+  return current;
+};
+
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [session, setSession] = useState<Session | null>(null);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<StoredAccount[]>(() =>
+    accountStore.getAccounts(),
+  );
   const initAttempts = useRef(0);
   const maxRetries = 3;
 
+  useEffect(() => {
+    return accountStore.subscribe(() =>
+      setAccounts(accountStore.getAccounts()),
+    );
+  }, []);
+
+  /**
+   * Make another stored account the active one. The page reloads afterwards
+   * so every service and cache starts over with that account's storage.
+   */
+  const switchAccount = useCallback(async (did: string) => {
+    if (!accountStore.getAccount(did)) return;
+
+    const previous = syncActiveSession();
+    if (previous?.did === did) return;
+
+    // Resuming on a separate agent first validates (and refreshes) the
+    // stored session without touching the active one
+    await accountStore.getAgent(did);
+    try {
+      await atProtoClient.resumeSession(accountStore.getAccount(did)!.session);
+    } catch (error) {
+      if (previous) {
+        await atProtoClient.resumeSession(previous).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    accountStore.setActiveDid(did);
+    clearAccountCaches();
+    queryClient.clear();
+    window.location.href = "/";
+  }, []);
+
+  // Sign in to another account while keeping the current one stored
+  const addAccount = useCallback(() => {
+    syncActiveSession();
+    atProtoClient.logout();
+    accountStore.setActiveDid(null);
+    clearAccountCaches();
+    queryClient.clear();
+    window.location.href = "/";
+  }, []);
+
   const logout = useCallback(() => {
     // Track logout event
     analytics.trackLogout();
 
+    // Another stored account takes over if there is one
+    const currentDid = accountStore.getActiveDid();
+    if (currentDid) {
+      accountStore.removeAccount(currentDid);
+    }
+    const nextAccount = accountStore.getAccounts()[0];
+
     // Clear all auth state
+    atProtoClient
+      .revokeSession()
+      .catch((error) => debug.error("Failed to revoke session:", error));
     atProtoClient.logout();
     setIsAuthenticated(false);
     setSession(null);
@@ -78,10 +192,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
     // Clear React Query cache
     queryClient.clear();
+    clearAccountCaches();
+
+    if (nextAccount) {
+      switchAccount(nextAccount.did).catch((error) => {
+        debug.error("Failed to switch to the next account:", error);
+        window.location.href = "/";
+      });
+      return;
+    }
 
     // Force a page reload to ensure all state is cleared
     window.location.href = "/";
-  }, []);
+  }, [switchAccount]);
 
   const refreshSession = useCallback(async (): Promise<boolean> => {
     try {
@@ -103,8 +226,65 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [logout]);
 
+  /**
+   * Shared by both sign in methods once a session exists. Returns early when
+   * the page reloads into the account's own storage instead.
+   */
+  const completeSignIn = useCallback(
+    async (newSession: Session, method: string) => {
+      // Only a fresh sign in knows which service the session belongs to
+      const needsReload = activateSession(
+        newSession,
+        atProtoClient.agent.serviceUrl.toString(),
+      );
+      refreshStoredProfile(atProtoClient.agent, newSession.did);
+      if (needsReload) {
+        analytics.trackLogin(method);
+        window.location.href = "/";
+        return;
+      }
+
+      setIsAuthenticated(true);
+      setSession(newSession);
+
+      // Initialize bookmark service with user preferences
+      await initializeBookmarkService(atProtoClient.agent);
+      dmService.setAgent(atProtoClient.agent);
+
+      // Track successful login
+      analytics.trackLogin(method);
+      analytics.setUserId(newSession.did);
+    },
+    [],
+  );
+
   useEffect(() => {
+    // Back from the authorization server
+    const completeOAuthSignIn = async () => {
+      try {
+        const oauthSession = await oauthClient.completeAuthorization(
+          window.location.search,
+        );
+        const newSession = await atProtoClient.resumeSession(oauthSession);
+        window.history.replaceState(null, "", "/");
+        await completeSignIn(newSession, "oauth");
+      } catch (error) {
+        debug.error("OAuth sign in failed:", error);
+        window.history.replaceState(null, "", "/");
+        setAuthError(
+          error instanceof Error ? error.message : "Sign in with OAuth failed",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
     const initializeAuth = async () => {
+      if (oauthClient.isCallback()) {
+        await completeOAuthSignIn();
+        return;
+      }
+
       try {
         const savedSession = ATProtoClient.loadSavedSession(
           atProtoClient.getSessionPrefix(),
@@ -115,6 +295,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           try {
             const resumedSession =
               await atProtoClient.resumeSession(savedSession);
+
+            if (activateSession(resumedSession)) {
+              window.location.reload();
+              return;
+            }
+            refreshStoredProfile(atProtoClient.agent, resumedSession.did);
+
             setIsAuthenticated(true);
             setSession(resumedSession);
             initAttempts.current = 0; // Reset on success
@@ -166,7 +353,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
 
     initializeAuth();
-  }, []);
+  }, [completeSignIn]);
 
   const login = useCallback(
     async (
@@ -187,17 +374,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           password,
           authFactorToken,
         );
-        setIsAuthenticated(true);
-        setSession(newSession);
-
-        // Initialize bookmark service with user preferences
-        await initializeBookmarkService(atProtoClient.agent);
-        dmService.setAgent(atProtoClient.agent);
-
-        // Track successful login
-        analytics.trackLogin(pdsUrl ? "custom_pds" : "bluesky");
-        analytics.setUserId(newSession.did);
 
+        await completeSignIn(newSession, pdsUrl ? "custom_pds" : "bluesky");
         return true;
       } catch (error) {
         debug.error("Login error:", error);
@@ -205,20 +383,101 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw error;
       }
     },
-    [],
+    [completeSignIn],
   );
 
+  const loginWithOAuth = useCallback(async (identifier: string) => {
+    setAuthError(null);
+    await oauthClient.authorize(identifier);
+  }, []);
+
   return (
     <AuthContext.Provider
       value={{
         isAuthenticated,
         isLoading,
         login,
+        loginWithOAuth,
+        authError,
         logout,
         session,
         client: atProtoClient,
         agent: isAuthenticated ? atProtoClient.agent : null,
         refreshSession,
+        accounts,
+        switchAccount,
+        addAccount,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+interface AccountScopeProps {
+  did: string;
+  children: ReactNode;
+}
+
+/**
+ * Renders `children` as another signed-in account: useAuth() inside returns
+ * that account's session and agent. SkyDeck uses this for columns bound to
+ * an account other than the active one.
+ */
+export const AccountScope: React.FC<AccountScopeProps> = ({
+  did,
+  children,
+}) => {
+  const auth = useAuth();
+  const isActive = auth.session?.did === did;
+  const [agent, setAgent] = useState<BskyAgent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isActive) return;
+
+    let cancelled = false;
+    setAgent(null);
+    setError(null);
+    accountStore
+      .getAgent(did)
+      .then((resumed) => {
+        if (!cancelled) setAgent(resumed);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError(
+            accountStore.getAccount(did)
+              ? "This account's session has expired. Sign in to it again to use this column."
+              : "This account is no longer signed in on this device.",
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [did, isActive]);
+
+  if (isActive) return <>{children}</>;
+
+  if (error || !agent?.session) {
+    return (
+      <div
+        className="p-4 text-center text-sm"
+        style={{ color: "var(--bsky-text-secondary)" }}
+      >
+        {error || "Loading account…"}
+      </div>
+    );
+  }
+
+  return (
+    <AuthContext.Provider
+      value={{
+        ...auth,
+        session: agent.session as Session,
+        agent,
       }}
     >
       {children}
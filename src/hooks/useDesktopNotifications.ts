@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import {
+  desktopNotifications,
+  type DesktopNotificationPrefs,
+} from "../services/desktop-notifications";
+
+export function useDesktopNotificationPrefs(): DesktopNotificationPrefs {
+  return useSyncExternalStore(
+    desktopNotifications.subscribe,
+    desktopNotifications.getPrefs,
+  );
+}
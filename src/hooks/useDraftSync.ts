@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { draftSync, type DraftSyncStatus } from "../services/draft-sync";
+
+/** Syncs drafts through the repo while signed in, when turned on */
+export function useDraftSyncRunner() {
+  const { session, agent } = useAuth();
+  const did = session?.did;
+
+  useEffect(() => {
+    if (!did || !agent) return;
+
+    draftSync.start(agent);
+    return () => draftSync.stop();
+  }, [did, agent]);
+}
+
+export function useDraftSyncStatus(): DraftSyncStatus {
+  return useSyncExternalStore(draftSync.subscribe, draftSync.getStatus);
+}
@@ -0,0 +1,44 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { draftSync } from "../services/draft-sync";
+import { getDraftRevisions, getDrafts } from "../services/drafts";
+import { useDraftSyncStatus } from "./useDraftSync";
+
+// Drafts are read from the local store, so the queries run offline too
+export function useDrafts() {
+  const { session } = useAuth();
+  const queryClient = useQueryClient();
+  const { changedAt } = useDraftSyncStatus();
+
+  // Pick up drafts a sync brought in from other devices
+  useEffect(() => {
+    if (changedAt) {
+      void queryClient.invalidateQueries({ queryKey: ["drafts"] });
+    }
+  }, [changedAt, queryClient]);
+
+  return useQuery({
+    queryKey: ["drafts", session?.did],
+    queryFn: getDrafts,
+    networkMode: "always",
+  });
+}
+
+export function useDraftRevisions(draftId: string | null) {
+  return useQuery({
+    queryKey: ["drafts", "revisions", draftId],
+    queryFn: () => getDraftRevisions(draftId!),
+    enabled: !!draftId,
+    networkMode: "always",
+  });
+}
+
+/** Refetch drafts and revisions after writing to the store */
+export function useInvalidateDrafts() {
+  const queryClient = useQueryClient();
+  return useCallback(() => {
+    draftSync.requestSync();
+    return queryClient.invalidateQueries({ queryKey: ["drafts"] });
+  }, [queryClient]);
+}
@@ -0,0 +1,31 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  followerSnapshots,
+  type FollowerSnapshotStatus,
+} from "../services/follower-snapshots";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("useFollowerSnapshots");
+
+/** Takes the periodic follower and following snapshots while signed in */
+export function useFollowerSnapshotRunner() {
+  const { session, agent } = useAuth();
+  const did = session?.did;
+
+  useEffect(() => {
+    if (!did || !agent) return;
+
+    followerSnapshots.start(agent).catch((error) => {
+      logger.error("Failed to start follower snapshots:", error);
+    });
+    return () => followerSnapshots.stop();
+  }, [did, agent]);
+}
+
+export function useFollowerSnapshotStatus(): FollowerSnapshotStatus {
+  return useSyncExternalStore(
+    followerSnapshots.subscribe,
+    followerSnapshots.getStatus,
+  );
+}
@@ -0,0 +1,173 @@
+import type { AppBskyNotificationListNotifications } from "@atproto/api";
+import { debug } from "@bsky/shared";
+import type { InfiniteData, QueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
+import { useEffect, useSyncExternalStore } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { jetstreamService } from "../services/jetstream-service";
+import { NotificationCacheService } from "../services/notification-cache-service";
+
+type Notification = AppBskyNotificationListNotifications.Notification;
+
+interface NotificationPage {
+  notifications: Notification[];
+  cursor?: string;
+}
+
+const DEFAULT_POLL_INTERVAL = 60 * 1000;
+
+// Prepend live notifications to a page, skipping ones we already have
+const mergeIntoPage = (
+  page: NotificationPage,
+  incoming: Notification[],
+): NotificationPage => {
+  const existing = new Set(page.notifications.map((n) => n.uri));
+  const fresh = incoming.filter((n) => !existing.has(n.uri));
+  if (fresh.length === 0) return page;
+  return { ...page, notifications: [...fresh, ...page.notifications] };
+};
+
+const mergeIntoInfinite = (
+  data: InfiniteData<NotificationPage> | undefined,
+  incoming: Notification[],
+) => {
+  if (!data?.pages?.length) return data;
+  const first = mergeIntoPage(data.pages[0], incoming);
+  if (first === data.pages[0]) return data;
+  return { ...data, pages: [first, ...data.pages.slice(1)] };
+};
+
+// Priority notifications are the ones from accounts the viewer follows
+const isPriority = (notification: Notification) =>
+  !!notification.author.viewer?.following;
+
+// URIs of every notification already in the notification caches
+const cachedUris = (queryClient: QueryClient): Set<string> => {
+  const uris = new Set<string>();
+  const add = (data: unknown) => {
+    const pages =
+      (data as InfiniteData<NotificationPage> | undefined)?.pages ||
+      (data ? [data as NotificationPage] : []);
+    pages.forEach((page) =>
+      page.notifications?.forEach((n) => uris.add(n.uri)),
+    );
+  };
+  queryClient
+    .getQueriesData({ queryKey: ["notifications"] })
+    .forEach(([, data]) => add(data));
+  add(queryClient.getQueryData(["notifications-extended"]));
+  add(queryClient.getQueryData(["notifications-visual-timeline"]));
+  return uris;
+};
+
+/**
+ * Keeps the Jetstream connection alive for the logged-in account and writes
+ * live notifications into IndexedDB and the React Query cache.
+ */
+export function useJetstream() {
+  const { session, agent } = useAuth();
+  const queryClient = useQueryClient();
+  const did = session?.did;
+
+  useEffect(() => {
+    if (!did || !agent) return;
+
+    const cacheService = NotificationCacheService.getInstance();
+    // Reconnects rewind the cursor, so the same event can arrive twice
+    const counted = new Set<string>();
+
+    const unsubscribe = jetstreamService.onNotifications(
+      async (notifications) => {
+        const sorted = [...notifications].sort(
+          (a, b) =>
+            new Date(b.indexedAt).getTime() - new Date(a.indexedAt).getTime(),
+        );
+
+        try {
+          await cacheService.init();
+          await cacheService.cacheNotifications(sorted, 1);
+        } catch (error) {
+          debug.error("[useJetstream] Failed to persist notifications:", error);
+        }
+
+        // Work out what is new before the merges below add it
+        const known = cachedUris(queryClient);
+        const unseen = sorted.filter(
+          (n) => !known.has(n.uri) && !counted.has(n.uri),
+        );
+        unseen.forEach((n) => counted.add(n.uri));
+
+        queryClient.setQueryData<InfiniteData<NotificationPage>>(
+          ["notifications-extended"],
+          (data) => mergeIntoInfinite(data, sorted),
+        );
+        queryClient.setQueryData<InfiniteData<NotificationPage>>(
+          ["notifications", false],
+          (data) => mergeIntoInfinite(data, sorted),
+        );
+        queryClient.setQueryData<InfiniteData<NotificationPage>>(
+          ["notifications", true],
+          (data) => mergeIntoInfinite(data, sorted.filter(isPriority)),
+        );
+        // Keyed ["notifications", "byType", reasons, priority]
+        queryClient
+          .getQueriesData<InfiniteData<NotificationPage>>({
+            queryKey: ["notifications", "byType"],
+          })
+          .forEach(([queryKey]) => {
+            const [, , reasons, priority] = queryKey as [
+              string,
+              string,
+              string[] | undefined,
+              boolean | undefined,
+            ];
+            const matching = sorted.filter(
+              (n) =>
+                (!reasons?.length || reasons.includes(n.reason)) &&
+                (!priority || isPriority(n)),
+            );
+            queryClient.setQueryData<InfiniteData<NotificationPage>>(
+              queryKey,
+              (data) => mergeIntoInfinite(data, matching),
+            );
+          });
+        queryClient.setQueryData<NotificationPage>(
+          ["notifications-visual-timeline"],
+          (data) => (data ? mergeIntoPage(data, sorted) : data),
+        );
+        queryClient.setQueryData<number>(["notificationCount"], (count) =>
+          count === undefined ? count : count + unseen.length,
+        );
+        queryClient.invalidateQueries({
+          queryKey: ["notifications-analytics"],
+          refetchType: "none",
+        });
+      },
+    );
+
+    jetstreamService.connect(agent);
+
+    return () => {
+      unsubscribe();
+      jetstreamService.disconnect();
+    };
+  }, [did, agent, queryClient]);
+}
+
+export function useJetstreamStatus() {
+  return useSyncExternalStore(
+    jetstreamService.subscribe,
+    jetstreamService.getState,
+  );
+}
+
+/**
+ * Polling interval for notification queries: disabled while the Jetstream
+ * socket is delivering live updates, restored as a fallback when it drops.
+ */
+export function useNotificationPollingInterval(
+  interval: number = DEFAULT_POLL_INTERVAL,
+): number | false {
+  const state = useJetstreamStatus();
+  return state === "connected" ? false : interval;
+}
@@ -0,0 +1,31 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  notificationArchive,
+  type NotificationArchiveState,
+} from "../services/notification-archive";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("useNotificationArchive");
+
+/** Runs the archive backfill, gap filling and retention pruning while signed in */
+export function useNotificationArchiveRunner() {
+  const { session, agent } = useAuth();
+  const did = session?.did;
+
+  useEffect(() => {
+    if (!did || !agent) return;
+
+    notificationArchive.start(agent).catch((error) => {
+      logger.error("Failed to start notification archive:", error);
+    });
+    return () => notificationArchive.stop();
+  }, [did, agent]);
+}
+
+export function useNotificationArchiveState(): NotificationArchiveState {
+  return useSyncExternalStore(
+    notificationArchive.subscribe,
+    notificationArchive.getState,
+  );
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import {
+  notificationGrouping,
+  type NotificationGroupingPrefs,
+} from "../services/notification-grouping";
+
+export function useNotificationGroupingPrefs(): NotificationGroupingPrefs {
+  return useSyncExternalStore(
+    notificationGrouping.subscribe,
+    notificationGrouping.getPrefs,
+  );
+}
@@ -0,0 +1,85 @@
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  notificationReadState,
+  type NotificationReadState,
+} from "../services/notification-read-state";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("useNotificationReadState");
+
+/** Pulls the server seenAt while signed in and pushes local reads back */
+export function useNotificationReadStateSync() {
+  const { session, agent } = useAuth();
+  const did = session?.did;
+
+  useEffect(() => {
+    if (!did || !agent) return;
+
+    notificationReadState.start(agent).catch((error) => {
+      logger.error("Failed to sync notification read state:", error);
+    });
+    return () => notificationReadState.stop();
+  }, [did, agent]);
+}
+
+export function useNotificationReadState(): NotificationReadState {
+  return useSyncExternalStore(
+    notificationReadState.subscribe,
+    notificationReadState.getState,
+  );
+}
+
+/**
+ * Marks notifications read once the user scrolls past them. Returns a ref
+ * factory: `ref={trackRead(notifications)}` on the element showing them.
+ * `loaded` is everything the view has loaded, see markRead.
+ */
+export function useMarkReadOnScroll(loaded: Notification[]) {
+  const loadedRef = useRef(loaded);
+  const elements = useRef(new Map<Element, Notification[]>());
+  const lastTops = useRef(new WeakMap<Element, number>());
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  useEffect(() => {
+    loadedRef.current = loaded;
+  }, [loaded]);
+
+  useEffect(() => {
+    observer.current = new IntersectionObserver((entries) => {
+      const passed: Notification[] = [];
+      for (const entry of entries) {
+        const top = entry.boundingClientRect.top;
+        const lastTop = lastTops.current.get(entry.target);
+        lastTops.current.set(entry.target, top);
+        // Left the view moving up, rather than being pushed down by new items
+        if (!entry.isIntersecting && lastTop !== undefined && top < lastTop) {
+          passed.push(...(elements.current.get(entry.target) || []));
+        }
+      }
+      if (passed.length > 0) {
+        notificationReadState.markRead(passed, loadedRef.current);
+      }
+    });
+    elements.current.forEach((_, element) =>
+      observer.current?.observe(element),
+    );
+    return () => observer.current?.disconnect();
+  }, []);
+
+  return useCallback((notifications: Notification[]) => {
+    let tracked: Element | null = null;
+    return (element: Element | null) => {
+      if (tracked) {
+        observer.current?.unobserve(tracked);
+        elements.current.delete(tracked);
+      }
+      tracked = element;
+      if (element) {
+        elements.current.set(element, notifications);
+        observer.current?.observe(element);
+      }
+    };
+  }, []);
+}
@@ -0,0 +1,102 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { useQuery } from "@tanstack/react-query";
+import React, { useEffect, useRef, useSyncExternalStore } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { NotificationCacheService } from "../services/notification-cache-service";
+import {
+  evaluateRules,
+  loadRuleProfiles,
+  needsProfiles,
+  notificationRulesService,
+  type NotificationRule,
+  type NotificationRuleOutcome,
+} from "../services/notification-rules";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("useNotificationRules");
+
+export function useNotificationRules(): NotificationRule[] {
+  return useSyncExternalStore(
+    notificationRulesService.subscribe,
+    notificationRulesService.getRules,
+  );
+}
+
+interface RuleOutcomeOptions {
+  postMap?: Map<string, AppBskyFeedDefs.PostView>;
+  followingSet?: Set<string>;
+  // Limit evaluation to these rules, e.g. the one a rule column shows
+  ruleIds?: string[];
+}
+
+/**
+ * Outcomes of the enabled rules for each notification that matched one,
+ * keyed by notification URI. Unread notifications matched by a mark-read
+ * rule are also marked read in the local archive.
+ */
+export function useNotificationRuleOutcomes(
+  notifications: Notification[],
+  { postMap, followingSet, ruleIds }: RuleOutcomeOptions = {},
+): Map<string, NotificationRuleOutcome> {
+  const { session } = useAuth();
+  const allRules = useNotificationRules();
+  const rules = React.useMemo(
+    () =>
+      allRules.filter(
+        (rule) => rule.enabled && (!ruleIds || ruleIds.includes(rule.id)),
+      ),
+    [allRules, ruleIds],
+  );
+  const markedRead = useRef(new Set<string>());
+
+  // Follower counts come from the follower cache, only read when a rule needs them
+  const { data: profiles } = useQuery({
+    queryKey: [
+      "notificationRuleProfiles",
+      session?.did,
+      notifications.length,
+      notifications[0]?.uri,
+    ],
+    queryFn: () => loadRuleProfiles(notifications),
+    enabled: needsProfiles(rules) && notifications.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const outcomes = React.useMemo(() => {
+    const matches = new Map<string, NotificationRuleOutcome>();
+    if (rules.length === 0) return matches;
+
+    const context = { followingSet, profiles, postMap };
+    for (const notification of notifications) {
+      const outcome = evaluateRules(rules, notification, context);
+      if (outcome.matchedRuleIds.length > 0) {
+        matches.set(notification.uri, outcome);
+      }
+    }
+    return matches;
+  }, [rules, notifications, followingSet, profiles, postMap]);
+
+  useEffect(() => {
+    const uris = notifications
+      .filter(
+        (n) =>
+          !n.isRead &&
+          outcomes.get(n.uri)?.markRead &&
+          !markedRead.current.has(n.uri),
+      )
+      .map((n) => n.uri);
+    if (uris.length === 0) return;
+
+    uris.forEach((uri) => markedRead.current.add(uri));
+    const cacheService = NotificationCacheService.getInstance();
+    cacheService
+      .init()
+      .then(() => cacheService.markMultipleAsRead(uris))
+      .catch((error) => {
+        logger.error("Failed to mark rule matches as read:", error);
+      });
+  }, [notifications, outcomes]);
+
+  return outcomes;
+}
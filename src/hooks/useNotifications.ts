@@ -9,9 +9,11 @@ import {
 import React from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { getNotificationService } from "../services/atproto/notifications";
+import { notificationReadState } from "../services/notification-read-state";
 import { NotificationCache } from "../utils/notificationCache";
 import { NotificationObjectCache } from "../utils/notificationObjectCache";
 import { useErrorHandler } from "./useErrorHandler";
+import { useNotificationPollingInterval } from "./useJetstream";
 
 const MAX_NOTIFICATIONS = 10000;
 const MAX_DAYS = 28; // 4 weeks
@@ -19,6 +21,7 @@ const MAX_DAYS = 28; // 4 weeks
 export function useNotifications(priority: boolean = false) {
   const { session } = useAuth();
   const queryClient = useQueryClient();
+  const pollingInterval = useNotificationPollingInterval();
 
   // Try to load cached data first
   const cachedData = session ? NotificationCache.load(priority) : null;
@@ -98,7 +101,7 @@ export function useNotifications(priority: boolean = false) {
     },
     enabled: !!session,
     staleTime: cachedData ? 24 * 60 * 60 * 1000 : 5 * 60 * 1000, // If we have cache, treat as fresh for 24h, otherwise 5min
-    refetchInterval: 60 * 1000, // Refetch every 60 seconds - reduced from 10s
+    refetchInterval: pollingInterval, // Refetch every 60 seconds while Jetstream is down
     refetchOnWindowFocus: false, // Don't refetch on window focus
     refetchOnMount: cachedData ? false : "always", // Only fetch on mount if no cached data
     // Use cached data as initial data if available
@@ -170,6 +173,7 @@ export function useNotifications(priority: boolean = false) {
 
 export function useUnreadNotificationCount() {
   const { session } = useAuth();
+  const pollingInterval = useNotificationPollingInterval();
 
   return useQuery({
     queryKey: ["notificationCount"],
@@ -182,7 +186,7 @@ export function useUnreadNotificationCount() {
     },
     enabled: !!session,
     staleTime: 5 * 60 * 1000, // 5 minutes
-    refetchInterval: 60 * 1000, // Refetch every 60 seconds - reduced from 10s
+    refetchInterval: pollingInterval, // Refetch every 60 seconds while Jetstream is down
     refetchOnMount: "always", // Always fetch fresh data on mount
   });
 }
@@ -196,13 +200,7 @@ export function useMarkNotificationsRead() {
 
   return useMutation({
     mutationFn: async () => {
-      const { atProtoClient } = await import("../services/atproto");
-      const agent = atProtoClient.agent;
-      if (!agent) throw new Error("Not authenticated");
-      const notificationService = getNotificationService(agent);
-      const seenAt = new Date().toISOString();
-      await notificationService.updateSeen(seenAt);
-      return seenAt;
+      await notificationReadState.markAllRead();
     },
     onSuccess: () => {
       // Reset notification count
@@ -3,6 +3,7 @@ import { debug } from "@bsky/shared";
 import { useInfiniteQuery } from "@tanstack/react-query";
 import { useAuth } from "../contexts/AuthContext";
 import { getNotificationService } from "../services/atproto/notifications";
+import { useNotificationPollingInterval } from "./useJetstream";
 
 const MAX_NOTIFICATIONS_PER_TYPE = 5000;
 const MAX_DAYS = 28; // 4 weeks
@@ -25,6 +26,7 @@ export function useNotificationsByType(
   options: UseNotificationsByTypeOptions = {},
 ) {
   const { session } = useAuth();
+  const pollingInterval = useNotificationPollingInterval();
   const { reasons, priority, enabled = true } = options;
 
   return useInfiniteQuery({
@@ -104,7 +106,7 @@ export function useNotificationsByType(
     },
     enabled: !!session && enabled,
     staleTime: 30 * 60 * 1000, // 30 minutes - conversations don't change that often
-    refetchInterval: 60 * 1000, // Refetch every 60 seconds - reduced from 10s
+    refetchInterval: pollingInterval, // Refetch every 60 seconds while Jetstream is down
     refetchOnWindowFocus: false, // Already disabled globally, but be explicit
     refetchOnReconnect: false, // Prevent refetch on network reconnect
     refetchOnMount: false, // Don't refetch on mount - use stale time instead
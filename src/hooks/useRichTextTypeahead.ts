@@ -0,0 +1,309 @@
+import { useQuery } from "@tanstack/react-query";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { getFollowerCacheDB } from "../services/follower-cache-db";
+import { getRecentHashtags } from "../services/hashtag-history";
+import { createLogger } from "../utils/logger";
+import { useDebounce } from "./useDebounce";
+import { useFollowing } from "./useFollowing";
+
+const logger = createLogger("useRichTextTypeahead");
+
+const MAX_SUGGESTIONS = 8;
+
+export interface MentionSuggestion {
+  type: "mention";
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+export interface HashtagSuggestion {
+  type: "hashtag";
+  tag: string;
+  useCount: number;
+}
+
+export type TypeaheadSuggestion = MentionSuggestion | HashtagSuggestion;
+
+interface ActiveToken {
+  trigger: "@" | "#";
+  query: string;
+  start: number;
+  end: number;
+}
+
+// The @handle or #tag the caret is currently inside, if any
+const findActiveToken = (text: string, cursor: number): ActiveToken | null => {
+  const match = text.slice(0, cursor).match(/(^|\s)([@#])([\p{L}\p{N}_.-]*)$/u);
+  if (!match) return null;
+
+  const rest = text.slice(cursor).match(/^[\p{L}\p{N}_.-]*/u)?.[0] || "";
+  const start = cursor - match[2].length - match[3].length;
+  return {
+    trigger: match[2] as "@" | "#",
+    query: match[3] + rest,
+    start,
+    end: cursor + rest.length,
+  };
+};
+
+/**
+ * @-mention and #hashtag suggestions for a composer textarea. Mentions come
+ * from followed accounts in the FollowerCacheDB first, then the typeahead
+ * API; hashtags come from tags recently used in published posts.
+ */
+export function useRichTextTypeahead(
+  text: string,
+  onTextChange: (text: string) => void,
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>,
+) {
+  const { agent } = useAuth();
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dismissedStart, setDismissedStart] = useState<number | null>(null);
+  const [followedProfiles, setFollowedProfiles] = useState<MentionSuggestion[]>(
+    [],
+  );
+  const [cachedMatch, setCachedMatch] = useState<MentionSuggestion | null>(
+    null,
+  );
+  const hasLoadedFollowed = useRef(false);
+
+  const token = useMemo(
+    () => (cursor === null ? null : findActiveToken(text, cursor)),
+    [text, cursor],
+  );
+  const mentionQuery = token?.trigger === "@" ? token.query.toLowerCase() : "";
+  const debouncedMentionQuery = useDebounce(mentionQuery, 200);
+
+  const { data: followingSet } = useFollowing();
+
+  // Load followed profiles from the cache the first time someone types "@"
+  useEffect(() => {
+    if (token?.trigger !== "@" || hasLoadedFollowed.current) return;
+    if (!followingSet || followingSet.size === 0) return;
+    hasLoadedFollowed.current = true;
+
+    const loadFollowed = async () => {
+      try {
+        const db = await getFollowerCacheDB();
+        const dids = Array.from(followingSet);
+        const profiles = await db.getProfiles(dids);
+        const stats = await db.getInteractionStatsForMultiple(dids);
+
+        const suggestions = Array.from(profiles.values())
+          .map((profile) => ({
+            type: "mention" as const,
+            did: profile.did,
+            handle: profile.handle,
+            displayName: profile.displayName,
+            avatar: profile.avatar,
+            score: stats.get(profile.did)?.totalInteractions || 0,
+          }))
+          .sort((a, b) => b.score - a.score)
+          .map(({ score: _score, ...suggestion }) => suggestion);
+
+        setFollowedProfiles(suggestions);
+      } catch (error) {
+        logger.error("Failed to load followed profiles:", error);
+      }
+    };
+
+    loadFollowed();
+  }, [token?.trigger, followingSet]);
+
+  // A full handle might be cached even if we don't follow it
+  useEffect(() => {
+    if (!debouncedMentionQuery.includes(".")) {
+      setCachedMatch(null);
+      return;
+    }
+
+    let cancelled = false;
+    getFollowerCacheDB()
+      .then((db) => db.getProfilesByHandles([debouncedMentionQuery]))
+      .then((profiles) => {
+        const profile = profiles.get(debouncedMentionQuery);
+        if (cancelled) return;
+        setCachedMatch(
+          profile
+            ? {
+                type: "mention",
+                did: profile.did,
+                handle: profile.handle,
+                displayName: profile.displayName,
+                avatar: profile.avatar,
+              }
+            : null,
+        );
+      })
+      .catch((error) => logger.error("Failed to look up handle:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedMentionQuery]);
+
+  const { data: searchResults } = useQuery({
+    queryKey: ["mentionTypeahead", debouncedMentionQuery],
+    queryFn: async (): Promise<MentionSuggestion[]> => {
+      const response = await agent!.app.bsky.actor.searchActorsTypeahead({
+        q: debouncedMentionQuery,
+        limit: MAX_SUGGESTIONS,
+      });
+      return response.data.actors.map((actor) => ({
+        type: "mention",
+        did: actor.did,
+        handle: actor.handle,
+        displayName: actor.displayName,
+        avatar: actor.avatar,
+      }));
+    },
+    enabled: !!agent && debouncedMentionQuery.length >= 2,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const suggestions = useMemo((): TypeaheadSuggestion[] => {
+    if (!token || token.start === dismissedStart) return [];
+
+    if (token.trigger === "#") {
+      const query = token.query.toLowerCase();
+      return getRecentHashtags()
+        .filter(
+          (entry) =>
+            entry.tag.toLowerCase().startsWith(query) &&
+            entry.tag.toLowerCase() !== query,
+        )
+        .slice(0, MAX_SUGGESTIONS)
+        .map((entry) => ({
+          type: "hashtag",
+          tag: entry.tag,
+          useCount: entry.useCount,
+        }));
+    }
+
+    if (!mentionQuery) return [];
+
+    // Followed accounts first, then the cache, then everyone else
+    const followedMatches = followedProfiles.filter(
+      (profile) =>
+        profile.handle.toLowerCase().includes(mentionQuery) ||
+        profile.displayName?.toLowerCase().includes(mentionQuery),
+    );
+    const seen = new Set<string>();
+    return [
+      ...followedMatches,
+      ...(cachedMatch ? [cachedMatch] : []),
+      ...(searchResults || []),
+    ]
+      .filter((suggestion) => {
+        if (seen.has(suggestion.did)) return false;
+        seen.add(suggestion.did);
+        return true;
+      })
+      .slice(0, MAX_SUGGESTIONS);
+  }, [
+    token,
+    dismissedStart,
+    mentionQuery,
+    followedProfiles,
+    cachedMatch,
+    searchResults,
+  ]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [suggestions.length, token?.start]);
+
+  const hasToken = token !== null;
+  useEffect(() => {
+    if (!hasToken) setDismissedStart(null);
+  }, [hasToken]);
+
+  const selectSuggestion = useCallback(
+    (suggestion: TypeaheadSuggestion) => {
+      if (!token) return;
+
+      const insertion =
+        suggestion.type === "mention"
+          ? `@${suggestion.handle} `
+          : `#${suggestion.tag} `;
+      const newText =
+        text.slice(0, token.start) + insertion + text.slice(token.end);
+      const newCursor = token.start + insertion.length;
+
+      onTextChange(newText);
+      setCursor(newCursor);
+
+      setTimeout(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(newCursor, newCursor);
+      }, 0);
+    },
+    [token, text, onTextChange, textareaRef],
+  );
+
+  /**
+   * Keyboard navigation for the suggestion list. Returns true when the key
+   * was used, so the composer should skip its own handling.
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+      if (suggestions.length === 0 || !token) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          e.preventDefault();
+          setSelectedIndex((prev) => (prev + 1) % suggestions.length);
+          return true;
+        case "ArrowUp":
+          e.preventDefault();
+          setSelectedIndex(
+            (prev) => (prev - 1 + suggestions.length) % suggestions.length,
+          );
+          return true;
+        case "Enter":
+        case "Tab":
+          if (e.metaKey || e.ctrlKey) return false;
+          e.preventDefault();
+          selectSuggestion(suggestions[selectedIndex] || suggestions[0]);
+          return true;
+        case "Escape":
+          e.preventDefault();
+          setDismissedStart(token.start);
+          return true;
+        default:
+          return false;
+      }
+    },
+    [suggestions, token, selectedIndex, selectSuggestion],
+  );
+
+  // Wire to the textarea's onSelect so typing and caret moves are tracked
+  const trackCursor = useCallback(
+    (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+      setCursor(e.currentTarget.selectionStart);
+    },
+    [],
+  );
+
+  const handleBlur = useCallback(() => setCursor(null), []);
+
+  return {
+    suggestions,
+    selectedIndex,
+    setSelectedIndex,
+    selectSuggestion,
+    handleKeyDown,
+    trackCursor,
+    handleBlur,
+  };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useModal } from "../contexts/ModalContext";
+import { scheduledPostRunner } from "../services/scheduled-post-runner";
+import {
+  scheduledPostsStorage,
+  type ScheduledThread,
+} from "../services/scheduled-posts-db";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("useScheduledPosts");
+
+/**
+ * Runs the scheduled posts queue while the app is open. Threads that came
+ * due while it was closed are only published after the user confirms.
+ */
+export function useScheduledPostRunner() {
+  const { session, agent } = useAuth();
+  const { showConfirm } = useModal();
+  const did = session?.did;
+
+  useEffect(() => {
+    if (!did || !agent) return;
+
+    let cancelled = false;
+    scheduledPostRunner
+      .start(agent)
+      .then((missed) => {
+        if (cancelled || missed.length === 0) return;
+
+        const count = missed.length;
+        showConfirm(
+          `${count} scheduled thread${count !== 1 ? "s were" : " was"} due while SkyDeck was closed. Publish ${count !== 1 ? "them" : "it"} now? You can also reschedule from the Scheduled page.`,
+          async () => {
+            for (const thread of missed) {
+              await scheduledPostRunner.publishNow(thread.id);
+            }
+          },
+          {
+            title: "Missed Scheduled Posts",
+            confirmText: "Publish now",
+            cancelText: "Later",
+          },
+        );
+      })
+      .catch((error) => {
+        logger.error("Failed to start scheduled post runner:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      scheduledPostRunner.stop();
+    };
+  }, [did, agent, showConfirm]);
+}
+
+export function useScheduledThreads() {
+  const [threads, setThreads] = useState<ScheduledThread[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      setThreads(await scheduledPostsStorage.getAllThreads());
+    } catch (error) {
+      logger.error("Failed to load scheduled threads:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return scheduledPostRunner.subscribe(load);
+  }, [load]);
+
+  return { threads, isLoading };
+}
@@ -3,6 +3,7 @@ import { AccountSettings } from "../components/settings/AccountSettings";
 import { AppearanceSettings } from "../components/settings/AppearanceSettings";
 import { BookmarkSettings } from "../components/settings/BookmarkSettings";
 import { DataSettings } from "../components/settings/DataSettings";
+import { NotificationRulesSettings } from "../components/settings/NotificationRulesSettings";
 import { NotificationSettings } from "../components/settings/NotificationSettings";
 import { PrivacySettings } from "../components/settings/PrivacySettings";
 import { SettingsLayout } from "../components/settings/SettingsLayout";
@@ -18,6 +19,8 @@ export const Settings = () => {
         return <AppearanceSettings />;
       case "notifications":
         return <NotificationSettings />;
+      case "rules":
+        return <NotificationRulesSettings />;
       case "privacy":
         return <PrivacySettings />;
       case "bookmarks":
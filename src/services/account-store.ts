@@ -0,0 +1,219 @@
+/**
+ * Account Store
+ *
+ * Keeps the session of every account signed in on this device so users can
+ * switch between them without signing in again, and so SkyDeck columns can
+ * show another account's data next to the active one. The active account's
+ * session is still owned by atProtoClient; the copy here is refreshed before
+ * switching away from it.
+ *
+ * Local storage that belongs to an account (notification archive, follower
+ * cache, bookmarks, drafts, scheduled posts) is partitioned by DID through
+ * accountScopedName.
+ */
+
+import {
+  BskyAgent,
+  type AtpPersistSessionHandler,
+  type AtpSessionData,
+} from "@atproto/api";
+import type { Session } from "@bsky/shared";
+import { createLogger } from "../utils/logger";
+import { isOAuthSession } from "./atproto/oauth";
+import { createOAuthAgent } from "./atproto/oauth-session";
+
+export interface StoredAccount {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+  session: Session;
+  // Where an app password session was created, a self-hosted PDS or the
+  // bsky.social entryway; OAuth sessions carry their PDS themselves
+  service?: string;
+  addedAt: string;
+}
+
+interface AccountStoreState {
+  accounts: StoredAccount[];
+  activeDid: string | null;
+  // Account that owned this device's data before storage was partitioned,
+  // it keeps the original unsuffixed database names
+  legacyDid: string | null;
+}
+
+const ACCOUNTS_KEY = "bsky_accounts";
+const DEFAULT_SERVICE = "https://bsky.social";
+
+const logger = createLogger("AccountStore");
+
+type Listener = () => void;
+
+class AccountStore {
+  private state: AccountStoreState = this.load();
+  private listeners = new Set<Listener>();
+  // Agents for accounts other than the active one, used by bound columns
+  private agents = new Map<string, Promise<BskyAgent>>();
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getAccounts(): StoredAccount[] {
+    return this.state.accounts;
+  }
+
+  getAccount(did: string): StoredAccount | undefined {
+    return this.state.accounts.find((account) => account.did === did);
+  }
+
+  getActiveDid(): string | null {
+    return this.state.activeDid;
+  }
+
+  /**
+   * Record a session that was just signed in or resumed and make its account
+   * the active one. The first account ever stored inherits the legacy data.
+   */
+  setActiveSession(session: Session, service?: string) {
+    this.upsertSession(session, service);
+    this.state = {
+      ...this.state,
+      activeDid: session.did,
+      legacyDid: this.state.legacyDid || session.did,
+    };
+    this.save();
+  }
+
+  // Keep the newest tokens for an account, e.g. after a refresh
+  saveSession(session: Session) {
+    if (!this.getAccount(session.did)) return;
+    this.upsertSession(session);
+    this.save();
+  }
+
+  updateProfile(
+    did: string,
+    profile: Pick<StoredAccount, "handle" | "displayName" | "avatar">,
+  ) {
+    if (!this.getAccount(did)) return;
+    this.state = {
+      ...this.state,
+      accounts: this.state.accounts.map((account) =>
+        account.did === did ? { ...account, ...profile } : account,
+      ),
+    };
+    this.save();
+  }
+
+  setActiveDid(did: string | null) {
+    this.state = { ...this.state, activeDid: did };
+    this.save();
+  }
+
+  removeAccount(did: string) {
+    this.agents.delete(did);
+    this.state = {
+      ...this.state,
+      accounts: this.state.accounts.filter((account) => account.did !== did),
+      activeDid: this.state.activeDid === did ? null : this.state.activeDid,
+    };
+    this.save();
+  }
+
+  /**
+   * A resumed agent for a stored account. Refreshed tokens are written back
+   * here, so the account can later be switched to with a valid session.
+   * Don't use this for the active account: two agents refreshing the same
+   * session would invalidate each other's tokens.
+   */
+  getAgent(did: string): Promise<BskyAgent> {
+    const existing = this.agents.get(did);
+    if (existing) return existing;
+
+    const account = this.getAccount(did);
+    if (!account) {
+      return Promise.reject(new Error("Account is not signed in"));
+    }
+
+    const persistSession: AtpPersistSessionHandler = (
+      _evt,
+      session?: AtpSessionData,
+    ) => {
+      if (session) {
+        this.saveSession(session as Session);
+      }
+    };
+
+    const pending = (async () => {
+      const agent = isOAuthSession(account.session)
+        ? createOAuthAgent(account.session, persistSession)
+        : new BskyAgent({
+            service: account.service || DEFAULT_SERVICE,
+            persistSession,
+          });
+      await agent.resumeSession(account.session);
+      return agent;
+    })().catch((error) => {
+      logger.error(`Failed to resume session for ${account.handle}:`, error);
+      this.agents.delete(did);
+      throw error;
+    });
+
+    this.agents.set(did, pending);
+    return pending;
+  }
+
+  /**
+   * Name of a database or storage key for the active account. The legacy
+   * account, and the signed out state, keep the original name.
+   */
+  scopedName(base: string): string {
+    const { activeDid, legacyDid } = this.state;
+    if (!activeDid || activeDid === legacyDid) return base;
+    return `${base}__${activeDid}`;
+  }
+
+  private upsertSession(session: Session, service?: string) {
+    const existing = this.getAccount(session.did);
+    const account: StoredAccount = {
+      ...existing,
+      did: session.did,
+      handle: session.handle,
+      session,
+      service: service || existing?.service,
+      addedAt: existing?.addedAt || new Date().toISOString(),
+    };
+    this.state = {
+      ...this.state,
+      accounts: existing
+        ? this.state.accounts.map((a) => (a.did === session.did ? account : a))
+        : [...this.state.accounts, account],
+    };
+  }
+
+  private load(): AccountStoreState {
+    try {
+      const saved = localStorage.getItem(ACCOUNTS_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      logger.error("Failed to load stored accounts:", error);
+    }
+    return { accounts: [], activeDid: null, legacyDid: null };
+  }
+
+  private save() {
+    localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(this.state));
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const accountStore = new AccountStore();
+
+export const accountScopedName = (base: string): string =>
+  accountStore.scopedName(base);
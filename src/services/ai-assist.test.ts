@@ -0,0 +1,150 @@
+import type { AppBskyFeedDefs } from "@atproto/api";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  aiAssist,
+  AnthropicAssistProvider,
+  MockAssistProvider,
+  toThreadContext,
+} from "./ai-assist";
+
+const create = vi.hoisted(() => vi.fn());
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create };
+  },
+}));
+
+const post = (handle: string, text: string | undefined, indexedAt: string) =>
+  ({
+    uri: `at://${handle}/app.bsky.feed.post/${indexedAt}`,
+    cid: "cid",
+    author: { did: `did:plc:${handle}`, handle },
+    record: { text },
+    indexedAt,
+  }) as AppBskyFeedDefs.PostView;
+
+const context = [
+  { handle: "alice", text: "Anyone tried the new release?" },
+  { handle: "bob", text: "Yes, it's fast" },
+];
+
+describe("toThreadContext", () => {
+  it("orders posts by when they were written", () => {
+    const result = toThreadContext([
+      post("bob", "second", "2024-01-02T00:00:00Z"),
+      post("alice", "first", "2024-01-01T00:00:00Z"),
+    ]);
+
+    expect(result.map((p) => p.text)).toEqual(["first", "second"]);
+  });
+
+  it("keeps posts without text under a placeholder", () => {
+    const result = toThreadContext([
+      post("alice", "look at this", "2024-01-01T00:00:00Z"),
+      post("bob", undefined, "2024-01-02T00:00:00Z"),
+    ]);
+
+    expect(result).toHaveLength(2);
+    expect(result[1]).toMatchObject({
+      handle: "bob",
+      text: "[media without text]",
+    });
+  });
+
+  it("shortens long posts", () => {
+    const [result] = toThreadContext([
+      post("alice", "a".repeat(2000), "2024-01-01T00:00:00Z"),
+    ]);
+
+    expect(result.text).toHaveLength(500);
+  });
+});
+
+describe("aiAssist", () => {
+  const original = aiAssist.getProvider();
+
+  afterEach(() => {
+    aiAssist.setProvider(original);
+  });
+
+  it("summarizes through the provider it is given", async () => {
+    const summary = {
+      summary: "A release thread",
+      keyPoints: ["It's fast"],
+      participants: ["alice", "bob"],
+    };
+    const provider = new MockAssistProvider({ summary });
+    aiAssist.setProvider(provider);
+
+    expect(aiAssist.getProvider()).toBe(provider);
+    expect(await aiAssist.summarizeThread(context)).toBe(summary);
+  });
+
+  it("suggests replies to the last post", async () => {
+    aiAssist.setProvider(new MockAssistProvider());
+
+    expect(await aiAssist.suggestReplies(context)).toEqual([
+      "Reply 1 to @bob",
+      "Reply 2 to @bob",
+      "Reply 3 to @bob",
+    ]);
+  });
+
+  it("rejects an empty thread", async () => {
+    aiAssist.setProvider(new MockAssistProvider());
+
+    await expect(aiAssist.summarizeThread([])).rejects.toThrow(
+      "Nothing to summarize",
+    );
+    await expect(aiAssist.suggestReplies([])).rejects.toThrow(
+      "Nothing to reply to",
+    );
+  });
+});
+
+describe("AnthropicAssistProvider", () => {
+  afterEach(() => {
+    create.mockReset();
+    vi.unstubAllEnvs();
+  });
+
+  const reply = (text: string) => ({ content: [{ type: "text", text }] });
+
+  it("parses replies wrapped in a code fence", async () => {
+    vi.stubEnv("VITE_ANTHROPIC_API_KEY", "test-key");
+    create.mockResolvedValue(
+      reply('Sure:\n```json\n["Congrats!", " Nice work ", "", "Agreed"]\n```'),
+    );
+
+    expect(
+      await new AnthropicAssistProvider().suggestReplies(context, 2),
+    ).toEqual(["Congrats!", "Nice work"]);
+  });
+
+  it("parses summaries and strips @ from handles", async () => {
+    vi.stubEnv("VITE_ANTHROPIC_API_KEY", "test-key");
+    create.mockResolvedValue(
+      reply(
+        '{"summary": " A release thread ", "keyPoints": ["fast"], "participants": ["@alice"]}',
+      ),
+    );
+
+    expect(
+      await new AnthropicAssistProvider().summarizeThread(context),
+    ).toEqual({
+      summary: "A release thread",
+      keyPoints: ["fast"],
+      participants: ["alice"],
+    });
+  });
+
+  it("fails on replies that aren't JSON", async () => {
+    vi.stubEnv("VITE_ANTHROPIC_API_KEY", "test-key");
+    create.mockResolvedValue(reply("I can't help with that."));
+
+    await expect(
+      new AnthropicAssistProvider().suggestReplies(context, 3),
+    ).rejects.toThrow("Reply suggestions failed: Unexpected response format");
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * AI Assist
+ *
+ * Thread summaries and reply suggestions through a pluggable provider. The
+ * default uses the Anthropic API and is unavailable without
+ * VITE_ANTHROPIC_API_KEY, which hides both features; a mock with canned
+ * results can be selected with VITE_AI_ASSIST_PROVIDER=mock (or swapped in
+ * with setProvider) for tests and offline development.
+ */
+
+import type { AppBskyFeedDefs } from "@atproto/api";
+import {
+  suggestReplies,
+  summarizeThread,
+  type ThreadContextPost,
+  type ThreadSummary,
+} from "./anthropic";
+
+export type { ThreadContextPost, ThreadSummary };
+
+export interface AssistProvider {
+  name: string;
+  isAvailable(): boolean;
+  summarizeThread(posts: ThreadContextPost[]): Promise<ThreadSummary>;
+  suggestReplies(
+    context: ThreadContextPost[],
+    count: number,
+  ): Promise<string[]>;
+}
+
+// Threads shorter than this are quicker to read than to summarize
+export const MIN_SUMMARY_POSTS = 5;
+// Keeps long threads within a reasonable prompt size
+export const MAX_CONTEXT_POSTS = 100;
+const MAX_POST_TEXT = 500;
+// Stands in for posts that are only an image, video or link
+const NO_TEXT_PLACEHOLDER = "[media without text]";
+const SUGGESTION_COUNT = 3;
+
+export class AnthropicAssistProvider implements AssistProvider {
+  name = "anthropic";
+
+  isAvailable() {
+    return !!import.meta.env.VITE_ANTHROPIC_API_KEY;
+  }
+
+  summarizeThread(posts: ThreadContextPost[]) {
+    return summarizeThread(posts);
+  }
+
+  suggestReplies(context: ThreadContextPost[], count: number) {
+    return suggestReplies(context, count);
+  }
+}
+
+/**
+ * Offline stand-in built from the thread itself, so results are
+ * predictable. Fixed results can be supplied instead.
+ */
+export class MockAssistProvider implements AssistProvider {
+  name = "mock";
+
+  constructor(
+    private fixtures: { summary?: ThreadSummary; replies?: string[] } = {},
+  ) {}
+
+  isAvailable() {
+    return true;
+  }
+
+  async summarizeThread(posts: ThreadContextPost[]) {
+    if (this.fixtures.summary) return this.fixtures.summary;
+    return {
+      summary: `A conversation of ${posts.length} posts started by @${posts[0]?.handle}.`,
+      keyPoints: posts.slice(0, 3).map((post) => post.text.slice(0, 80)),
+      participants: [...new Set(posts.map((post) => post.handle))],
+    };
+  }
+
+  async suggestReplies(context: ThreadContextPost[], count: number) {
+    if (this.fixtures.replies) return this.fixtures.replies.slice(0, count);
+    const last = context[context.length - 1];
+    return Array.from(
+      { length: count },
+      (_, i) => `Reply ${i + 1} to @${last?.handle}`,
+    );
+  }
+}
+
+/**
+ * Posts in the order they were written, as the providers expect them. Every
+ * post is kept so the one being replied to is never lost; callers cap the
+ * length with MAX_CONTEXT_POSTS at whichever end matters to them.
+ */
+export function toThreadContext(
+  posts: AppBskyFeedDefs.PostView[],
+): ThreadContextPost[] {
+  return [...posts]
+    .sort(
+      (a, b) =>
+        new Date(a.indexedAt).getTime() - new Date(b.indexedAt).getTime(),
+    )
+    .map((post) => ({
+      handle: post.author.handle,
+      displayName: post.author.displayName,
+      text:
+        ((post.record as { text?: string })?.text || "")
+          .trim()
+          .slice(0, MAX_POST_TEXT) || NO_TEXT_PLACEHOLDER,
+    }));
+}
+
+class AssistService {
+  private provider: AssistProvider =
+    import.meta.env.VITE_AI_ASSIST_PROVIDER === "mock"
+      ? new MockAssistProvider()
+      : new AnthropicAssistProvider();
+
+  setProvider(provider: AssistProvider) {
+    this.provider = provider;
+  }
+
+  getProvider(): AssistProvider {
+    return this.provider;
+  }
+
+  isAvailable() {
+    return this.provider.isAvailable();
+  }
+
+  summarizeThread(posts: ThreadContextPost[]): Promise<ThreadSummary> {
+    if (posts.length === 0) {
+      return Promise.reject(new Error("Nothing to summarize"));
+    }
+    return this.provider.summarizeThread(posts);
+  }
+
+  suggestReplies(context: ThreadContextPost[]): Promise<string[]> {
+    if (context.length === 0) {
+      return Promise.reject(new Error("Nothing to reply to"));
+    }
+    return this.provider.suggestReplies(context, SUGGESTION_COUNT);
+  }
+}
+
+export const aiAssist = new AssistService();
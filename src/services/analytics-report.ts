@@ -0,0 +1,579 @@
+/**
+ * Analytics Report
+ *
+ * Builds a shareable report for one of the analytics time ranges: activity
+ * by day, the reason breakdown, an hour-of-day heatmap and the accounts we
+ * interacted with most in both directions. It can be saved as a single HTML
+ * file with its styles inlined, as JSON, or one dataset at a time as CSV.
+ *
+ * Received activity comes from notifications. Sent activity is read from
+ * our own feed (replies and reposts) and our likes, whose record keys carry
+ * the time they were made.
+ */
+
+import {
+  AppBskyFeedDefs,
+  type AppBskyActorDefs,
+  type BskyAgent,
+} from "@atproto/api";
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import {
+  eachDayOfInterval,
+  format,
+  getDay,
+  getHours,
+  subHours,
+} from "date-fns";
+import { csvCell } from "./notification-export";
+
+type Actor = AppBskyActorDefs.ProfileViewBasic;
+
+export type AnalyticsTimeRange = "1d" | "3d" | "7d" | "4w";
+
+export const TIME_RANGE_HOURS: Record<AnalyticsTimeRange, number> = {
+  "1d": 24,
+  "3d": 72,
+  "7d": 168,
+  "4w": 672,
+};
+
+export const TIME_RANGE_LABELS: Record<AnalyticsTimeRange, string> = {
+  "1d": "Last 24 hours",
+  "3d": "Last 3 days",
+  "7d": "Last 7 days",
+  "4w": "Last 4 weeks",
+};
+
+export interface SentInteraction {
+  kind: "like" | "repost" | "reply";
+  at: string;
+  subject: Actor;
+}
+
+export interface DayRow {
+  date: string;
+  likes: number;
+  reposts: number;
+  follows: number;
+  replies: number;
+  mentions: number;
+  quotes: number;
+  other: number;
+  total: number;
+}
+
+export interface ReceivedUserRow {
+  handle: string;
+  did: string;
+  displayName: string;
+  likes: number;
+  reposts: number;
+  follows: number;
+  replies: number;
+  mentions: number;
+  quotes: number;
+  total: number;
+}
+
+export interface SentUserRow {
+  handle: string;
+  did: string;
+  displayName: string;
+  likes: number;
+  reposts: number;
+  replies: number;
+  total: number;
+}
+
+export interface ReasonRow {
+  reason: string;
+  count: number;
+  // 0 to 1
+  share: number;
+}
+
+export interface HeatmapCell {
+  weekday: string;
+  hour: number;
+  count: number;
+}
+
+export interface AnalyticsReport {
+  format: "bsky-analytics-report";
+  version: 1;
+  account: { did: string; handle: string };
+  timeRange: AnalyticsTimeRange;
+  start: string;
+  end: string;
+  generatedAt: string;
+  summary: {
+    notifications: number;
+    uniqueUsers: number;
+    averagePerDay: number;
+    sentInteractions: number;
+  };
+  activityByDay: DayRow[];
+  topUsersReceived: ReceivedUserRow[];
+  topUsersSent: SentUserRow[];
+  reasons: ReasonRow[];
+  hourHeatmap: HeatmapCell[];
+}
+
+export type ReportDataset =
+  | "activityByDay"
+  | "topUsersReceived"
+  | "topUsersSent"
+  | "reasons"
+  | "hourHeatmap";
+
+export type ReportExport = "html" | "json" | ReportDataset;
+
+export const REPORT_DATASETS: { dataset: ReportDataset; label: string }[] = [
+  { dataset: "activityByDay", label: "Activity by day" },
+  { dataset: "topUsersReceived", label: "Top users (received)" },
+  { dataset: "topUsersSent", label: "Top users (sent)" },
+  { dataset: "reasons", label: "Reason breakdown" },
+  { dataset: "hourHeatmap", label: "Hour-of-day heatmap" },
+];
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const TOP_USERS = 25;
+const MAX_PAGES = 10;
+const TID_CHARS = "234567abcdefghijklmnopqrstuvwxyz";
+
+// Notification reasons with their own day column, the rest count as other
+const DAY_COLUMNS: Record<string, Exclude<keyof DayRow, "date">> = {
+  like: "likes",
+  repost: "reposts",
+  follow: "follows",
+  reply: "replies",
+  mention: "mentions",
+  quote: "quotes",
+};
+
+const ACTOR_COLUMNS = {
+  like: "likes",
+  repost: "reposts",
+  follow: "follows",
+  reply: "replies",
+  mention: "mentions",
+  quote: "quotes",
+} as const;
+
+// Record keys are TIDs, microseconds since the epoch above 10 clock bits
+const tidToDate = (tid: string): Date | null => {
+  if (!/^[2-7a-z]{13}$/.test(tid)) return null;
+  let value = 0;
+  for (const char of tid) value = value * 32 + TID_CHARS.indexOf(char);
+  return new Date(value / 1024 / 1000);
+};
+
+/** Our likes, replies and reposts of other accounts since `since` */
+export async function fetchSentInteractions(
+  agent: BskyAgent,
+  actor: string,
+  since: Date,
+): Promise<SentInteraction[]> {
+  const sent: SentInteraction[] = [];
+  const sinceIso = since.toISOString();
+
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data } = await agent.getAuthorFeed({ actor, limit: 100, cursor });
+    let oldest = "";
+    for (const item of data.feed) {
+      if (AppBskyFeedDefs.isReasonRepost(item.reason)) {
+        oldest = item.reason.indexedAt;
+        sent.push({
+          kind: "repost",
+          at: item.reason.indexedAt,
+          subject: item.post.author,
+        });
+      } else {
+        oldest = item.post.indexedAt;
+        if (item.reply && AppBskyFeedDefs.isPostView(item.reply.parent)) {
+          sent.push({
+            kind: "reply",
+            at: item.post.indexedAt,
+            subject: item.reply.parent.author,
+          });
+        }
+      }
+    }
+    cursor = data.cursor;
+    if (!cursor || oldest < sinceIso) break;
+  }
+
+  cursor = undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data } = await agent.app.bsky.feed.getActorLikes({
+      actor,
+      limit: 100,
+      cursor,
+    });
+    let reachedSince = false;
+    for (const { post } of data.feed) {
+      const likedAt = tidToDate(post.viewer?.like?.split("/").pop() || "");
+      if (!likedAt) continue;
+      if (likedAt < since) {
+        reachedSince = true;
+        continue;
+      }
+      sent.push({
+        kind: "like",
+        at: likedAt.toISOString(),
+        subject: post.author,
+      });
+    }
+    cursor = data.cursor;
+    if (!cursor || reachedSince) break;
+  }
+
+  return sent.filter(
+    (interaction) =>
+      interaction.at >= sinceIso && interaction.subject.did !== actor,
+  );
+}
+
+export function buildAnalyticsReport({
+  account,
+  timeRange,
+  notifications,
+  sent,
+  now = new Date(),
+}: {
+  account: { did: string; handle: string };
+  timeRange: AnalyticsTimeRange;
+  notifications: Notification[];
+  sent: SentInteraction[];
+  now?: Date;
+}): AnalyticsReport {
+  const start = subHours(now, TIME_RANGE_HOURS[timeRange]);
+  const startIso = start.toISOString();
+  const endIso = now.toISOString();
+  const received = notifications.filter(
+    (n) => n.indexedAt >= startIso && n.indexedAt <= endIso,
+  );
+
+  const days = new Map<string, DayRow>();
+  for (const day of eachDayOfInterval({ start, end: now })) {
+    const date = format(day, "yyyy-MM-dd");
+    days.set(date, {
+      date,
+      likes: 0,
+      reposts: 0,
+      follows: 0,
+      replies: 0,
+      mentions: 0,
+      quotes: 0,
+      other: 0,
+      total: 0,
+    });
+  }
+
+  const reasonCounts = new Map<string, number>();
+  const heatmap = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+  const receivedUsers = new Map<string, ReceivedUserRow>();
+
+  for (const notification of received) {
+    const at = new Date(notification.indexedAt);
+    const { reason, author } = notification;
+
+    const day = days.get(format(at, "yyyy-MM-dd"));
+    if (day) {
+      day[DAY_COLUMNS[reason] || "other"]++;
+      day.total++;
+    }
+    reasonCounts.set(reason, (reasonCounts.get(reason) || 0) + 1);
+    heatmap[(getDay(at) + 6) % 7][getHours(at)]++;
+
+    // Same exclusion as the dashboard's top users
+    if (reason === "starterpack-joined") continue;
+    let user = receivedUsers.get(author.did);
+    if (!user) {
+      user = {
+        handle: author.handle,
+        did: author.did,
+        displayName: author.displayName || "",
+        likes: 0,
+        reposts: 0,
+        follows: 0,
+        replies: 0,
+        mentions: 0,
+        quotes: 0,
+        total: 0,
+      };
+      receivedUsers.set(author.did, user);
+    }
+    const column = ACTOR_COLUMNS[reason as keyof typeof ACTOR_COLUMNS];
+    if (column) user[column]++;
+    user.total++;
+  }
+
+  const sentUsers = new Map<string, SentUserRow>();
+  for (const { kind, subject } of sent) {
+    let user = sentUsers.get(subject.did);
+    if (!user) {
+      user = {
+        handle: subject.handle,
+        did: subject.did,
+        displayName: subject.displayName || "",
+        likes: 0,
+        reposts: 0,
+        replies: 0,
+        total: 0,
+      };
+      sentUsers.set(subject.did, user);
+    }
+    user[ACTOR_COLUMNS[kind]]++;
+    user.total++;
+  }
+
+  const byTotal = (a: { total: number }, b: { total: number }) =>
+    b.total - a.total;
+
+  return {
+    format: "bsky-analytics-report",
+    version: 1,
+    account,
+    timeRange,
+    start: startIso,
+    end: endIso,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      notifications: received.length,
+      uniqueUsers: new Set(received.map((n) => n.author.did)).size,
+      averagePerDay:
+        received.length / Math.max(1, TIME_RANGE_HOURS[timeRange] / 24),
+      sentInteractions: sent.length,
+    },
+    activityByDay: [...days.values()],
+    topUsersReceived: [...receivedUsers.values()]
+      .sort(byTotal)
+      .slice(0, TOP_USERS),
+    topUsersSent: [...sentUsers.values()].sort(byTotal).slice(0, TOP_USERS),
+    reasons: [...reasonCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([reason, count]) => ({
+        reason,
+        count,
+        share: received.length ? count / received.length : 0,
+      })),
+    hourHeatmap: heatmap.flatMap((hours, weekday) =>
+      hours.map((count, hour) => ({
+        weekday: WEEKDAYS[weekday],
+        hour,
+        count,
+      })),
+    ),
+  };
+}
+
+const toCsv = (rows: object[]): string => {
+  if (rows.length === 0) return "";
+  const columns = Object.keys(rows[0]);
+  const lines = rows.map((row) =>
+    columns
+      .map((column) => csvCell(String(row[column as keyof typeof row])))
+      .join(","),
+  );
+  return `${[columns.join(","), ...lines].join("\n")}\n`;
+};
+
+const escapeHtml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const HTML_STYLES = `
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;color:#0f1419;max-width:960px;margin:0 auto;padding:32px 24px;line-height:1.4}
+h1{margin:0 0 4px;font-size:24px}
+h2{margin:32px 0 12px;font-size:18px}
+.muted{color:#536471;font-size:14px}
+.cards{display:grid;grid-template-columns:repeat(4,1fr);gap:12px;margin-top:24px}
+.card{background:#f7f9f9;border-radius:8px;padding:12px;text-align:center}
+.card b{display:block;font-size:24px;color:#0085ff}
+table{border-collapse:collapse;width:100%;font-size:13px}
+th,td{padding:6px 8px;text-align:left;border-bottom:1px solid #eff3f4}
+th{color:#536471;font-weight:600}
+td.num,th.num{text-align:right}
+.bar{height:10px;border-radius:2px;background:#0085ff}
+.heat td{text-align:center;padding:4px 0;border:1px solid #fff;font-size:11px}
+`;
+
+// String cells are markup and must be escaped by the caller
+const htmlTable = (
+  headers: string[],
+  rows: (string | number)[][],
+  numeric: number[] = [],
+) =>
+  `<table><thead><tr>${headers
+    .map(
+      (h, i) =>
+        `<th${numeric.includes(i) ? ' class="num"' : ""}>${escapeHtml(h)}</th>`,
+    )
+    .join("")}</tr></thead><tbody>${rows
+    .map(
+      (row) =>
+        `<tr>${row
+          .map(
+            (cell, i) =>
+              `<td${numeric.includes(i) ? ' class="num"' : ""}>${cell}</td>`,
+          )
+          .join("")}</tr>`,
+    )
+    .join("")}</tbody></table>`;
+
+const userCell = ({ handle, displayName }: ReceivedUserRow | SentUserRow) =>
+  `<span>${escapeHtml(displayName || handle)} <span class="muted">@${escapeHtml(handle)}</span></span>`;
+
+const barCell = (value: number, max: number) =>
+  `<div class="bar" style="width:${Math.round((value / Math.max(1, max)) * 100)}%"></div>`;
+
+/** The report as a standalone HTML page, no external assets */
+export function renderReportHtml(report: AnalyticsReport): string {
+  const maxDay = Math.max(...report.activityByDay.map((d) => d.total));
+  const maxHour = Math.max(1, ...report.hourHeatmap.map((c) => c.count));
+  const range = `${format(new Date(report.start), "MMM d, yyyy h:mm a")} – ${format(new Date(report.end), "MMM d, yyyy h:mm a")}`;
+
+  const heatRows = WEEKDAYS.map(
+    (weekday) =>
+      `<tr><th>${weekday}</th>${report.hourHeatmap
+        .filter((cell) => cell.weekday === weekday)
+        .map(
+          (cell) =>
+            `<td title="${weekday} ${cell.hour}:00 · ${cell.count}" style="background:rgba(0,133,255,${(cell.count / maxHour).toFixed(2)})">${cell.count || ""}</td>`,
+        )
+        .join("")}</tr>`,
+  ).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Bluesky analytics · @${escapeHtml(report.account.handle)} · ${escapeHtml(TIME_RANGE_LABELS[report.timeRange])}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>Analytics for @${escapeHtml(report.account.handle)}</h1>
+<div class="muted">${escapeHtml(TIME_RANGE_LABELS[report.timeRange])} · ${escapeHtml(range)} · generated ${escapeHtml(format(new Date(report.generatedAt), "MMM d, yyyy h:mm a"))}</div>
+
+<div class="cards">
+<div class="card"><b>${report.summary.notifications}</b>notifications</div>
+<div class="card"><b>${report.summary.uniqueUsers}</b>unique accounts</div>
+<div class="card"><b>${report.summary.averagePerDay.toFixed(1)}</b>per day</div>
+<div class="card"><b>${report.summary.sentInteractions}</b>interactions sent</div>
+</div>
+
+<h2>Activity by day</h2>
+${htmlTable(
+  [
+    "Date",
+    "",
+    "Likes",
+    "Reposts",
+    "Follows",
+    "Replies",
+    "Mentions",
+    "Quotes",
+    "Total",
+  ],
+  report.activityByDay.map((d) => [
+    escapeHtml(d.date),
+    barCell(d.total, maxDay),
+    d.likes,
+    d.reposts,
+    d.follows,
+    d.replies,
+    d.mentions,
+    d.quotes,
+    d.total,
+  ]),
+  [2, 3, 4, 5, 6, 7, 8],
+)}
+
+<h2>Reasons</h2>
+${htmlTable(
+  ["Reason", "", "Count", "Share"],
+  report.reasons.map((r) => [
+    escapeHtml(r.reason),
+    barCell(r.share, 1),
+    r.count,
+    `${(r.share * 100).toFixed(1)}%`,
+  ]),
+  [2, 3],
+)}
+
+<h2>Hour of day</h2>
+<table class="heat"><thead><tr><th></th>${Array.from({ length: 24 }, (_, hour) => `<th>${hour}</th>`).join("")}</tr></thead><tbody>${heatRows}</tbody></table>
+
+<h2>Top accounts engaging with you</h2>
+${htmlTable(
+  [
+    "Account",
+    "Likes",
+    "Reposts",
+    "Follows",
+    "Replies",
+    "Mentions",
+    "Quotes",
+    "Total",
+  ],
+  report.topUsersReceived.map((u) => [
+    userCell(u),
+    u.likes,
+    u.reposts,
+    u.follows,
+    u.replies,
+    u.mentions,
+    u.quotes,
+    u.total,
+  ]),
+  [1, 2, 3, 4, 5, 6, 7],
+)}
+
+<h2>Top accounts you engaged with</h2>
+${htmlTable(
+  ["Account", "Likes", "Reposts", "Replies", "Total"],
+  report.topUsersSent.map((u) => [
+    userCell(u),
+    u.likes,
+    u.reposts,
+    u.replies,
+    u.total,
+  ]),
+  [1, 2, 3, 4],
+)}
+</body>
+</html>
+`;
+}
+
+export function exportReport(
+  report: AnalyticsReport,
+  kind: ReportExport,
+): { blob: Blob; fileName: string } {
+  const base = `bluesky-analytics-${report.account.handle}-${report.timeRange}-${report.end.split("T")[0]}`;
+  if (kind === "html") {
+    return {
+      blob: new Blob([renderReportHtml(report)], { type: "text/html" }),
+      fileName: `${base}.html`,
+    };
+  }
+  if (kind === "json") {
+    return {
+      blob: new Blob([JSON.stringify(report, null, 2)], {
+        type: "application/json",
+      }),
+      fileName: `${base}.json`,
+    };
+  }
+  const slug = kind.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+  return {
+    blob: new Blob([toCsv(report[kind])], { type: "text/csv" }),
+    fileName: `${base}-${slug}.csv`,
+  };
+}
@@ -87,6 +87,221 @@ Provide only the rewritten text without any explanation or prefixes.`,
   }
 }
 
+// Models sometimes wrap JSON in a code fence or add a sentence around it
+const parseJsonReply = <T>(text: string, pattern: RegExp): T => {
+  const match = text.match(pattern);
+  if (!match) throw new Error("Unexpected response format");
+  return JSON.parse(match[0]) as T;
+};
+
+export interface TranslationResult {
+  translatedText: string;
+  // Language the text was in, as the model saw it
+  sourceLang?: string;
+}
+
+export async function translateText(
+  text: string,
+  targetLang: string,
+  sourceLang?: string,
+): Promise<TranslationResult> {
+  try {
+    // Check if API key is configured
+    if (!import.meta.env.VITE_ANTHROPIC_API_KEY) {
+      throw new Error("Anthropic API key not configured");
+    }
+
+    const response = await anthropic.messages.create({
+      model: "claude-3-haiku-20240307",
+      max_tokens: 1000,
+      messages: [
+        {
+          role: "user",
+          content: `Translate the following social media post${sourceLang ? ` from the language with code "${sourceLang}"` : ""} into the language with code "${targetLang}". Keep mentions, hashtags, links and emoji as they are.
+
+Post: "${text}"
+
+Reply with only a JSON object of the form {"sourceLang": "language code of the post", "translatedText": "the translation"}.`,
+        },
+      ],
+    });
+
+    const content = response.content[0];
+    if (content.type === "text") {
+      const result = parseJsonReply<Partial<TranslationResult>>(
+        content.text,
+        /\{[\s\S]*\}/,
+      );
+      const translatedText = String(result.translatedText || "").trim();
+      if (!translatedText) throw new Error("Empty translation");
+      return {
+        translatedText,
+        sourceLang:
+          String(result.sourceLang || "")
+            .trim()
+            .toLowerCase() || sourceLang,
+      };
+    }
+
+    throw new Error("Unexpected response format");
+  } catch (error) {
+    logger.error("Error translating text:", error);
+
+    // Track error for analytics
+    analytics.trackError(error as Error, "translation");
+
+    if (!import.meta.env.VITE_ANTHROPIC_API_KEY) {
+      throw new Error("Translation failed: API key not configured");
+    } else if (error instanceof Error && error.message.includes("401")) {
+      throw new Error("Translation failed: Invalid API key");
+    } else if (error instanceof Error && error.message.includes("429")) {
+      throw new Error("Translation failed: Rate limit exceeded");
+    } else {
+      throw new Error(
+        `Translation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+}
+
+export interface ThreadContextPost {
+  handle: string;
+  displayName?: string;
+  text: string;
+}
+
+export interface ThreadSummary {
+  summary: string;
+  keyPoints: string[];
+  // Handles of the people who shaped the conversation
+  participants: string[];
+}
+
+const formatThread = (posts: ThreadContextPost[]) =>
+  posts
+    .map(
+      (post) =>
+        `@${post.handle}${post.displayName ? ` (${post.displayName})` : ""}: ${post.text}`,
+    )
+    .join("\n\n");
+
+export async function summarizeThread(
+  posts: ThreadContextPost[],
+): Promise<ThreadSummary> {
+  try {
+    // Check if API key is configured
+    if (!import.meta.env.VITE_ANTHROPIC_API_KEY) {
+      throw new Error("Anthropic API key not configured");
+    }
+
+    const response = await anthropic.messages.create({
+      model: "claude-3-haiku-20240307",
+      max_tokens: 1000,
+      messages: [
+        {
+          role: "user",
+          content: `Summarize the following social media conversation, posts in order:
+
+${formatThread(posts)}
+
+Reply with only a JSON object of the form {"summary": "two or three sentences", "keyPoints": ["short point", ...], "participants": ["handle", ...]}. Give at most five key points, and list the handles (without @) of the participants who contributed most.`,
+        },
+      ],
+    });
+
+    const content = response.content[0];
+    if (content.type === "text") {
+      const result = parseJsonReply<Partial<ThreadSummary>>(
+        content.text,
+        /\{[\s\S]*\}/,
+      );
+      return {
+        summary: String(result.summary || "").trim(),
+        keyPoints: (result.keyPoints || []).map(String),
+        participants: (result.participants || []).map((handle) =>
+          String(handle).replace(/^@/, ""),
+        ),
+      };
+    }
+
+    throw new Error("Unexpected response format");
+  } catch (error) {
+    logger.error("Error summarizing thread:", error);
+
+    // Track error for analytics
+    analytics.trackError(error as Error, "thread_summary");
+
+    if (!import.meta.env.VITE_ANTHROPIC_API_KEY) {
+      throw new Error("Thread summary failed: API key not configured");
+    } else if (error instanceof Error && error.message.includes("401")) {
+      throw new Error("Thread summary failed: Invalid API key");
+    } else if (error instanceof Error && error.message.includes("429")) {
+      throw new Error("Thread summary failed: Rate limit exceeded");
+    } else {
+      throw new Error(
+        `Thread summary failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+}
+
+export async function suggestReplies(
+  context: ThreadContextPost[],
+  count = 3,
+): Promise<string[]> {
+  try {
+    // Check if API key is configured
+    if (!import.meta.env.VITE_ANTHROPIC_API_KEY) {
+      throw new Error("Anthropic API key not configured");
+    }
+
+    const response = await anthropic.messages.create({
+      model: "claude-3-haiku-20240307",
+      max_tokens: 600,
+      messages: [
+        {
+          role: "user",
+          content: `Here is a social media conversation, posts in order:
+
+${formatThread(context)}
+
+Draft ${count} different replies to the last post. Each should be under 280 characters, fit the tone of the conversation and take a different angle. Don't use hashtags.
+
+Reply with only a JSON array of the ${count} reply strings.`,
+        },
+      ],
+    });
+
+    const content = response.content[0];
+    if (content.type === "text") {
+      const replies = parseJsonReply<unknown[]>(content.text, /\[[\s\S]*\]/);
+      return replies
+        .map((reply) => String(reply).trim())
+        .filter(Boolean)
+        .slice(0, count);
+    }
+
+    throw new Error("Unexpected response format");
+  } catch (error) {
+    logger.error("Error suggesting replies:", error);
+
+    // Track error for analytics
+    analytics.trackError(error as Error, "reply_suggestions");
+
+    if (!import.meta.env.VITE_ANTHROPIC_API_KEY) {
+      throw new Error("Reply suggestions failed: API key not configured");
+    } else if (error instanceof Error && error.message.includes("401")) {
+      throw new Error("Reply suggestions failed: Invalid API key");
+    } else if (error instanceof Error && error.message.includes("429")) {
+      throw new Error("Reply suggestions failed: Rate limit exceeded");
+    } else {
+      throw new Error(
+        `Reply suggestions failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+}
+
 export async function generateAltText(imageDataUrl: string): Promise<string> {
   try {
     // Check if API key is configured
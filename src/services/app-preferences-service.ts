@@ -1,10 +1,13 @@
 import { BskyAgent } from "@atproto/api";
 import { createLogger } from "../utils/logger";
+import type { SkyDeckWorkspace } from "./workspace-service";
 
 // Define the app preferences record type
 export interface AppPreferencesRecord {
   $type: "app.shadowsky.preferences";
   bookmarkStorageType: "local" | "custom";
+  skyDeckWorkspaces?: SkyDeckWorkspace[];
+  activeWorkspaceId?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -29,6 +32,28 @@ export class AppPreferencesService {
       return null;
     }
 
+    try {
+      // Record doesn't exist yet, create default preferences
+      return (
+        (await this.fetchPreferences()) ||
+        (await this.createDefaultPreferences())
+      );
+    } catch (error) {
+      logger.error("Failed to fetch app preferences:", error);
+      return null;
+    }
+  }
+
+  /**
+   * The preferences record, or null only when the PDS confirms there isn't
+   * one. Any other failure throws, so callers can tell a missing record
+   * from one they couldn't read.
+   */
+  async fetchPreferences(): Promise<AppPreferencesRecord | null> {
+    if (!this.agent) {
+      throw new Error("Not authenticated");
+    }
+
     // Return cached preferences if available
     if (this.preferencesCache) {
       return this.preferencesCache;
@@ -49,12 +74,9 @@ export class AppPreferencesService {
         (error as any)?.status === 400 &&
         (error as any)?.error === "RecordNotFound"
       ) {
-        // Record doesn't exist yet, create default preferences
-        const defaultPrefs = await this.createDefaultPreferences();
-        return defaultPrefs;
+        return null;
       }
-      logger.error("Failed to fetch app preferences:", error);
-      return null;
+      throw error;
     }
   }
 
@@ -67,11 +89,11 @@ export class AppPreferencesService {
     }
 
     try {
-      // Get current preferences or create new ones
-      let currentPrefs = await this.getPreferences();
-      if (!currentPrefs) {
-        currentPrefs = await this.createDefaultPreferences();
-      }
+      // Get current preferences or create new ones. A failed read throws
+      // rather than falling back to defaults that would overwrite the record
+      const currentPrefs =
+        (await this.fetchPreferences()) ||
+        (await this.createDefaultPreferences());
 
       // Merge updates
       const updatedPrefs: AppPreferencesRecord = {
@@ -9,8 +9,11 @@ import {
   getInteractionsService,
   getThreadService,
   type ATProtoConfig,
+  type Session,
 } from "@bsky/shared";
 import { ATProtoClientWith2FA } from "./client-with-2fa";
+import { isOAuthSession } from "./oauth";
+import { OAuthSessionManager } from "./oauth-session";
 
 // Create base client instance
 const baseClient = new ATProtoClient({
@@ -34,6 +37,29 @@ const clientWith2FA = new Proxy(baseClient, {
         return wrapper.login(identifier, password, authFactorToken);
       };
     }
+    // Resume OAuth sessions on an agent that speaks DPoP, and go back to a
+    // password agent when switching to an app password session
+    if (prop === "resumeSession") {
+      return async (session: Session) => {
+        if (isOAuthSession(session)) {
+          target.setSessionManager(
+            new OAuthSessionManager(session, target.handleSessionEvent),
+          );
+        } else if (target.agent.sessionManager instanceof OAuthSessionManager) {
+          target.setSessionManager();
+        }
+        return target.resumeSession(session);
+      };
+    }
+    // Revoke the active session's tokens when signing out for good
+    if (prop === "revokeSession") {
+      return async () => {
+        const manager = target.agent.sessionManager;
+        if (manager instanceof OAuthSessionManager) {
+          await manager.revoke();
+        }
+      };
+    }
     // Delegate everything else to the base client
     return target[prop as keyof typeof target];
   },
@@ -45,6 +71,7 @@ export const atProtoClient = clientWith2FA as ATProtoClient & {
     password: string,
     authFactorToken?: string,
   ) => Promise<any>;
+  revokeSession: () => Promise<void>;
 };
 
 export const feedService = new FeedService(baseClient);
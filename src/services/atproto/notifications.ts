@@ -19,6 +19,7 @@ export class NotificationService {
   ): Promise<{
     notifications: Notification[];
     cursor?: string;
+    seenAt?: string;
   }> {
     return rateLimitedNotificationFetch(async () => {
       try {
@@ -32,6 +33,7 @@ export class NotificationService {
         return {
           notifications: response.data.notifications,
           cursor: response.data.cursor,
+          seenAt: response.data.seenAt,
         };
       } catch (error) {
         throw mapATProtoError(error);
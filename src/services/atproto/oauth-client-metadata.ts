@@ -0,0 +1,25 @@
+/**
+ * The OAuth client metadata document, which authorization servers fetch
+ * from the client_id URL. It's built from the same base URL as the client
+ * ID the app sends, by vite.config.ts at build time and by the dev server
+ * per request, so the two always agree.
+ */
+
+export const OAUTH_SCOPE = "atproto transition:generic transition:chat.bsky";
+export const CALLBACK_PATH = "/oauth/callback";
+export const CLIENT_METADATA_PATH = "/oauth-client-metadata.json";
+
+// `base` is the deployment's origin without a trailing slash
+export const buildClientMetadata = (base: string) => ({
+  client_id: `${base}${CLIENT_METADATA_PATH}`,
+  client_name: "ShadowSky",
+  client_uri: base,
+  logo_uri: `${base}/butterfly-icon.svg`,
+  redirect_uris: [`${base}${CALLBACK_PATH}`],
+  scope: OAUTH_SCOPE,
+  grant_types: ["authorization_code", "refresh_token"],
+  response_types: ["code"],
+  application_type: "web",
+  token_endpoint_auth_method: "none",
+  dpop_bound_access_tokens: true,
+});
@@ -0,0 +1,182 @@
+/**
+ * DPoP (RFC 9449) support for atproto OAuth. Every OAuth session gets its own
+ * ES256 key pair; the private key is non-extractable and kept in IndexedDB, so
+ * tokens copied out of storage are useless without this browser.
+ */
+
+import { IDBPDatabase, openDB } from "idb";
+
+const DB_NAME = "bsky_oauth_keys";
+const STORE_NAME = "dpopKeys";
+
+interface StoredDpopKey {
+  id: string;
+  keyPair: CryptoKeyPair;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+const getDB = () => {
+  if (!dbPromise) {
+    dbPromise = openDB(DB_NAME, 1, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      },
+    });
+  }
+  return dbPromise;
+};
+
+export const base64UrlEncode = (bytes: ArrayBuffer | Uint8Array): string => {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  array.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const encodeJson = (value: unknown) =>
+  base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+export const randomToken = (byteLength = 32): string =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const sha256Base64Url = async (value: string): Promise<string> =>
+  base64UrlEncode(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)),
+  );
+
+/** Create and store a new key pair, returning its id */
+export async function createDpopKey(): Promise<string> {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign", "verify"],
+  );
+  const id = randomToken(16);
+  const db = await getDB();
+  const record: StoredDpopKey = {
+    id,
+    keyPair,
+    createdAt: new Date().toISOString(),
+  };
+  await db.put(STORE_NAME, record);
+  return id;
+}
+
+export async function loadDpopKey(id: string): Promise<CryptoKeyPair | null> {
+  const db = await getDB();
+  const record: StoredDpopKey | undefined = await db.get(STORE_NAME, id);
+  return record?.keyPair ?? null;
+}
+
+export async function deleteDpopKey(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete(STORE_NAME, id);
+}
+
+interface DpopProofOptions {
+  method: string;
+  url: string;
+  nonce?: string;
+  // Binds the proof to an access token when calling the resource server
+  accessToken?: string;
+}
+
+async function createDpopProof(
+  keyPair: CryptoKeyPair,
+  { method, url, nonce, accessToken }: DpopProofOptions,
+): Promise<string> {
+  const { kty, crv, x, y } = await crypto.subtle.exportKey(
+    "jwk",
+    keyPair.publicKey,
+  );
+  const target = new URL(url);
+  const header = { typ: "dpop+jwt", alg: "ES256", jwk: { kty, crv, x, y } };
+  const payload = {
+    jti: randomToken(16),
+    htm: method.toUpperCase(),
+    htu: `${target.origin}${target.pathname}`,
+    iat: Math.floor(Date.now() / 1000),
+    ...(nonce ? { nonce } : {}),
+    ...(accessToken ? { ath: await sha256Base64Url(accessToken) } : {}),
+  };
+
+  const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    keyPair.privateKey,
+    new TextEncoder().encode(signingInput),
+  );
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+// Latest nonce handed out by each server, sent with the next proof
+const nonces = new Map<string, string>();
+
+const isUseDpopNonceError = async (response: Response): Promise<boolean> => {
+  if (response.status === 401) {
+    return (
+      response.headers.get("WWW-Authenticate")?.includes("use_dpop_nonce") ??
+      false
+    );
+  }
+  if (response.status === 400) {
+    const body = await response
+      .clone()
+      .json()
+      .catch(() => null);
+    return body?.error === "use_dpop_nonce";
+  }
+  return false;
+};
+
+/**
+ * fetch() with a DPoP proof, and the access token when given. Servers reply
+ * to a missing or stale nonce with a fresh one, in which case the request is
+ * sent once more.
+ */
+export async function dpopFetch(
+  keyPair: CryptoKeyPair,
+  url: string,
+  init: RequestInit = {},
+  accessToken?: string,
+): Promise<Response> {
+  const origin = new URL(url).origin;
+  const method = init.method || "GET";
+
+  const send = async () => {
+    const headers = new Headers(init.headers);
+    headers.set(
+      "DPoP",
+      await createDpopProof(keyPair, {
+        method,
+        url,
+        nonce: nonces.get(origin),
+        accessToken,
+      }),
+    );
+    if (accessToken) {
+      headers.set("Authorization", `DPoP ${accessToken}`);
+    }
+    const response = await fetch(url, { ...init, method, headers });
+    const nonce = response.headers.get("DPoP-Nonce");
+    if (nonce) nonces.set(origin, nonce);
+    return response;
+  };
+
+  const response = await send();
+  // A streamed body was consumed by the first attempt and can't be resent
+  if (init.body instanceof ReadableStream) return response;
+  if (!(await isUseDpopNonceError(response))) return response;
+
+  await response.body?.cancel();
+  return send();
+}
@@ -0,0 +1,197 @@
+/**
+ * Session manager for OAuth sessions, used in place of the app password
+ * CredentialSession behind a BskyAgent. Requests carry the access token with
+ * a DPoP proof, and tokens are refreshed shortly before they expire or when
+ * the PDS rejects them. Session events go through the same persistSession
+ * handler, so storage and the rest of the app don't need to know which kind
+ * of session is active.
+ */
+
+import {
+  BskyAgent,
+  ComAtprotoServerGetSession,
+  CredentialSession,
+  type AtpPersistSessionHandler,
+  type AtpSessionData,
+} from "@atproto/api";
+import { ATProtoError, NetworkError, SessionExpiredError } from "@bsky/shared";
+import { createLogger } from "../../utils/logger";
+import { isOAuthSession, oauthClient, type OAuthSession } from "./oauth";
+import { dpopFetch, loadDpopKey } from "./oauth-dpop";
+
+const logger = createLogger("OAuthSession");
+
+export class OAuthSessionManager extends CredentialSession {
+  declare session?: OAuthSession;
+  private keyPairs = new Map<string, Promise<CryptoKeyPair>>();
+
+  constructor(
+    session: OAuthSession,
+    persistSession?: AtpPersistSessionHandler,
+  ) {
+    super(new URL(session.oauth.pdsUrl), globalThis.fetch, persistSession);
+    this.pdsUrl = new URL(session.oauth.pdsUrl);
+  }
+
+  async fetchHandler(url: string, init: RequestInit = {}): Promise<Response> {
+    await this.refreshSessionPromise;
+    if (this.session && oauthClient.isExpiring(this.session)) {
+      await this.refreshSession();
+    }
+
+    const target = new URL(url, this.dispatchUrl).toString();
+    const session = this.session;
+    if (!session) return globalThis.fetch(target, init);
+
+    const keyPair = await this.getKeyPair(session);
+    const response = await dpopFetch(keyPair, target, init, session.accessJwt);
+    if (response.status !== 401 || init.body instanceof ReadableStream) {
+      return response;
+    }
+
+    // Revoked or expired early, one refresh and retry
+    await this.refreshSession();
+    const updated = this.session;
+    if (!updated || updated.accessJwt === session.accessJwt) return response;
+    await response.body?.cancel();
+    return dpopFetch(keyPair, target, init, updated.accessJwt);
+  }
+
+  async resumeSession(
+    session: AtpSessionData,
+  ): Promise<ComAtprotoServerGetSession.Response> {
+    if (!isOAuthSession(session)) {
+      throw new ATProtoError("Not an OAuth session");
+    }
+    this.session = session;
+
+    try {
+      let response: Response;
+      try {
+        response = await this.fetchHandler(
+          "/xrpc/com.atproto.server.getSession",
+        );
+      } catch (error) {
+        if (error instanceof ATProtoError) throw error;
+        throw new NetworkError("Couldn't reach your PDS");
+      }
+
+      const data = await response.json().catch(() => ({}));
+      if (response.status === 401 || !this.session) {
+        throw new SessionExpiredError();
+      }
+      if (!response.ok) {
+        throw new ATProtoError(
+          data.message || "Failed to resume session",
+          response.status,
+          data.error,
+        );
+      }
+      if (data.did !== session.did) {
+        throw new SessionExpiredError("Session belongs to another account");
+      }
+
+      // Tokens may have been refreshed on the way
+      this.session = {
+        ...this.session,
+        handle: data.handle,
+        email: data.email,
+        emailConfirmed: data.emailConfirmed,
+        emailAuthFactor: data.emailAuthFactor,
+        active: data.active ?? true,
+        status: data.status,
+      };
+      this.persistSession?.("update", this.session);
+
+      return {
+        success: true,
+        headers: Object.fromEntries(response.headers.entries()),
+        data,
+      };
+    } catch (error) {
+      this.session = undefined;
+      this.persistSession?.(
+        error instanceof SessionExpiredError ? "expired" : "network-error",
+        undefined,
+      );
+      throw error;
+    }
+  }
+
+  async refreshSession(): Promise<void> {
+    if (!this.refreshSessionPromise) {
+      this.refreshSessionPromise = this.refreshTokens().finally(() => {
+        this.refreshSessionPromise = undefined;
+      });
+    }
+    return this.refreshSessionPromise;
+  }
+
+  // OAuth sessions start with oauthClient.authorize, not a password
+  async login(): Promise<never> {
+    throw new ATProtoError("Sign in with OAuth to start this session");
+  }
+
+  async createAccount(): Promise<never> {
+    throw new ATProtoError("Accounts can't be created over OAuth");
+  }
+
+  async logout(): Promise<void> {
+    if (!this.session) return;
+    await this.revoke();
+    this.session = undefined;
+    this.persistSession?.("expired", undefined);
+  }
+
+  // Revoke the tokens and forget the DPoP key without clearing the session
+  async revoke(): Promise<void> {
+    if (this.session) {
+      await oauthClient.revoke(this.session);
+    }
+  }
+
+  private async refreshTokens() {
+    const session = this.session;
+    if (!session) return;
+
+    try {
+      const keyPair = await this.getKeyPair(session);
+      const refreshed = await oauthClient.refresh(session, keyPair);
+      // Don't clobber a session that was replaced while refreshing
+      if (this.session !== session) return;
+      this.session = refreshed;
+      this.persistSession?.("update", refreshed);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        this.session = undefined;
+        this.persistSession?.("expired", undefined);
+      } else {
+        // Keep the session, the next request tries again
+        logger.error("Failed to refresh OAuth session:", error);
+      }
+    }
+  }
+
+  private getKeyPair(session: OAuthSession): Promise<CryptoKeyPair> {
+    const { dpopKeyId } = session.oauth;
+    let keyPair = this.keyPairs.get(dpopKeyId);
+    if (!keyPair) {
+      keyPair = loadDpopKey(dpopKeyId).then((loaded) => {
+        if (!loaded) {
+          // e.g. site data cleared, or a session copied from another origin
+          throw new SessionExpiredError("This browser no longer has the key");
+        }
+        return loaded;
+      });
+      keyPair.catch(() => this.keyPairs.delete(dpopKeyId));
+      this.keyPairs.set(dpopKeyId, keyPair);
+    }
+    return keyPair;
+  }
+}
+
+/** An agent for a stored OAuth session, to be resumed by the caller */
+export const createOAuthAgent = (
+  session: OAuthSession,
+  persistSession?: AtpPersistSessionHandler,
+): BskyAgent => new BskyAgent(new OAuthSessionManager(session, persistSession));
@@ -0,0 +1,468 @@
+/**
+ * atproto OAuth client
+ *
+ * Signs users in through their PDS's authorization server instead of asking
+ * for an app password: the handle is resolved to a DID and PDS, the PDS names
+ * its authorization server, and the app sends a pushed authorization request
+ * (PAR) with PKCE. Tokens come back bound to a DPoP key held in this browser.
+ *
+ * The resulting session has the same shape as an app password session, with
+ * the OAuth details under `oauth`, so it is stored, listed and switched
+ * between like any other. OAuthSessionManager makes requests with it.
+ */
+
+import type { AtpSessionData } from "@atproto/api";
+import type { Session } from "@bsky/shared";
+import { ATProtoError, SessionExpiredError } from "@bsky/shared";
+import { createLogger } from "../../utils/logger";
+import {
+  CALLBACK_PATH,
+  CLIENT_METADATA_PATH,
+  OAUTH_SCOPE,
+} from "./oauth-client-metadata";
+import {
+  createDpopKey,
+  deleteDpopKey,
+  dpopFetch,
+  loadDpopKey,
+  randomToken,
+  sha256Base64Url,
+} from "./oauth-dpop";
+
+const PENDING_KEY_PREFIX = "bsky_oauth_pending_";
+const HANDLE_RESOLVER = "https://public.api.bsky.app";
+const PLC_DIRECTORY = "https://plc.directory";
+// Refresh this long before the access token runs out
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const logger = createLogger("OAuthClient");
+
+export interface OAuthSessionInfo {
+  issuer: string;
+  tokenEndpoint: string;
+  revocationEndpoint?: string;
+  clientId: string;
+  dpopKeyId: string;
+  pdsUrl: string;
+  scope: string;
+  expiresAt: number; // ms timestamp
+}
+
+// accessJwt and refreshJwt hold the OAuth access and refresh tokens
+export type OAuthSession = Session & { oauth: OAuthSessionInfo };
+
+export const isOAuthSession = (
+  session: Session | AtpSessionData | null | undefined,
+): session is OAuthSession => !!(session as OAuthSession | undefined)?.oauth;
+
+interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  pushed_authorization_request_endpoint: string;
+  revocation_endpoint?: string;
+  dpop_signing_alg_values_supported?: string[];
+}
+
+interface ResolvedIdentity {
+  did: string;
+  handle?: string;
+  pdsUrl: string;
+}
+
+interface PendingAuthorization {
+  issuer: string;
+  tokenEndpoint: string;
+  revocationEndpoint?: string;
+  clientId: string;
+  redirectUri: string;
+  verifier: string;
+  dpopKeyId: string;
+  // Set when signing in by handle, the token must be for this account
+  expectedDid?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type: string;
+  expires_in?: number;
+  scope: string;
+  sub: string;
+}
+
+const fetchJson = async <T>(url: string, what: string): Promise<T> => {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new ATProtoError(
+      `Couldn't load ${what} (${response.status})`,
+      response.status,
+    );
+  }
+  return response.json();
+};
+
+const isLoopback = (hostname: string) =>
+  hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]";
+
+class OAuthClient {
+  /**
+   * client_id and redirect URI for this deployment. Local development uses
+   * the loopback client, which authorization servers accept without hosted
+   * metadata but only with a 127.0.0.1 redirect.
+   */
+  getClientConfig(): { clientId: string; redirectUri: string } {
+    const { hostname, port, origin } = window.location;
+    if (isLoopback(hostname)) {
+      const redirectUri = `http://127.0.0.1${port ? `:${port}` : ""}${CALLBACK_PATH}`;
+      const params = new URLSearchParams({
+        redirect_uri: redirectUri,
+        scope: OAUTH_SCOPE,
+      });
+      return { clientId: `http://localhost?${params}`, redirectUri };
+    }
+
+    const base = (import.meta.env.VITE_PUBLIC_URL || origin).replace(/\/$/, "");
+    return {
+      clientId: `${base}${CLIENT_METADATA_PATH}`,
+      redirectUri: `${base}${CALLBACK_PATH}`,
+    };
+  }
+
+  isCallback(location: Location = window.location): boolean {
+    return location.pathname === CALLBACK_PATH;
+  }
+
+  /**
+   * Start signing in `input` (a handle, DID or PDS URL) and leave for the
+   * authorization server. Resolves only if the redirect doesn't happen.
+   */
+  async authorize(input: string): Promise<void> {
+    const { hostname, port } = window.location;
+    if (hostname === "localhost") {
+      // The loopback redirect lands on 127.0.0.1, a different origin that
+      // wouldn't have the PKCE verifier or DPoP key
+      throw new ATProtoError(
+        `Open the app at http://127.0.0.1${port ? `:${port}` : ""} to sign in with OAuth during development`,
+      );
+    }
+
+    const identifier = input.trim().replace(/^@/, "");
+    if (!identifier) throw new ATProtoError("Enter your handle");
+
+    let identity: ResolvedIdentity | null = null;
+    let issuer: string;
+    if (/^https?:\/\//.test(identifier)) {
+      issuer = await this.resolveIssuerForServer(identifier);
+    } else {
+      identity = await this.resolveIdentity(identifier);
+      issuer = await this.resolveIssuer(identity.pdsUrl);
+    }
+
+    const metadata = await this.getServerMetadata(issuer);
+    const { clientId, redirectUri } = this.getClientConfig();
+    const verifier = randomToken(32);
+    const state = randomToken(16);
+    const dpopKeyId = await createDpopKey();
+    const keyPair = (await loadDpopKey(dpopKeyId))!;
+
+    const params = new URLSearchParams({
+      client_id: clientId,
+      response_type: "code",
+      redirect_uri: redirectUri,
+      scope: OAUTH_SCOPE,
+      state,
+      code_challenge: await sha256Base64Url(verifier),
+      code_challenge_method: "S256",
+    });
+    if (identity) {
+      params.set("login_hint", identity.handle || identity.did);
+    }
+
+    const response = await dpopFetch(
+      keyPair,
+      metadata.pushed_authorization_request_endpoint,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params.toString(),
+      },
+    );
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.request_uri) {
+      await deleteDpopKey(dpopKeyId);
+      throw new ATProtoError(
+        body.error_description || body.error || "Authorization request failed",
+        response.status,
+        body.error,
+      );
+    }
+
+    const pending: PendingAuthorization = {
+      issuer,
+      tokenEndpoint: metadata.token_endpoint,
+      revocationEndpoint: metadata.revocation_endpoint,
+      clientId,
+      redirectUri,
+      verifier,
+      dpopKeyId,
+      expectedDid: identity?.did,
+    };
+    sessionStorage.setItem(PENDING_KEY_PREFIX + state, JSON.stringify(pending));
+
+    const authorizeUrl = new URL(metadata.authorization_endpoint);
+    authorizeUrl.searchParams.set("client_id", clientId);
+    authorizeUrl.searchParams.set("request_uri", body.request_uri);
+    window.location.assign(authorizeUrl.toString());
+  }
+
+  /**
+   * Finish signing in from the callback URL's query string and return the
+   * new session. The account the tokens were issued for must be served by
+   * the authorization server that issued them.
+   */
+  async completeAuthorization(search: string): Promise<OAuthSession> {
+    const params = new URLSearchParams(search);
+    const state = params.get("state");
+    const pendingJson = state
+      ? sessionStorage.getItem(PENDING_KEY_PREFIX + state)
+      : null;
+    if (state) sessionStorage.removeItem(PENDING_KEY_PREFIX + state);
+    if (!pendingJson) {
+      throw new ATProtoError("This sign in link has expired, try again");
+    }
+    const pending: PendingAuthorization = JSON.parse(pendingJson);
+
+    const fail = async (message: string, error?: string): Promise<never> => {
+      await deleteDpopKey(pending.dpopKeyId).catch(() => undefined);
+      throw new ATProtoError(message, 400, error);
+    };
+
+    const error = params.get("error");
+    if (error) {
+      return fail(
+        error === "access_denied"
+          ? "Sign in was cancelled"
+          : params.get("error_description") || error,
+        error,
+      );
+    }
+    const iss = params.get("iss");
+    if (iss && iss !== pending.issuer) {
+      return fail("Sign in response came from an unexpected server");
+    }
+    const code = params.get("code");
+    if (!code) return fail("Sign in response is missing its code");
+
+    const keyPair = await loadDpopKey(pending.dpopKeyId);
+    if (!keyPair) return fail("Sign in key is missing, try again");
+
+    const tokens = await this.requestTokens(keyPair, pending.tokenEndpoint, {
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: pending.redirectUri,
+      code_verifier: pending.verifier,
+      client_id: pending.clientId,
+    });
+
+    if (pending.expectedDid && tokens.sub !== pending.expectedDid) {
+      return fail("Signed in to a different account than requested");
+    }
+    const identity = await this.resolveIdentity(tokens.sub);
+    if ((await this.resolveIssuer(identity.pdsUrl)) !== pending.issuer) {
+      return fail("Account isn't served by the server that signed it in");
+    }
+
+    logger.log(`Signed in ${identity.handle || tokens.sub} with OAuth`);
+    return {
+      did: tokens.sub,
+      handle: identity.handle || tokens.sub,
+      accessJwt: tokens.access_token,
+      refreshJwt: tokens.refresh_token || "",
+      active: true,
+      oauth: {
+        issuer: pending.issuer,
+        tokenEndpoint: pending.tokenEndpoint,
+        revocationEndpoint: pending.revocationEndpoint,
+        clientId: pending.clientId,
+        dpopKeyId: pending.dpopKeyId,
+        pdsUrl: identity.pdsUrl,
+        scope: tokens.scope,
+        expiresAt: this.expiresAt(tokens),
+      },
+    };
+  }
+
+  isExpiring(session: OAuthSession): boolean {
+    return session.oauth.expiresAt - EXPIRY_MARGIN_MS < Date.now();
+  }
+
+  /**
+   * Swap the refresh token for new tokens. Refresh tokens are single use, so
+   * the returned session must replace the old one everywhere it's stored.
+   */
+  async refresh(
+    session: OAuthSession,
+    keyPair: CryptoKeyPair,
+  ): Promise<OAuthSession> {
+    if (!session.refreshJwt) {
+      throw new SessionExpiredError("OAuth session can't be refreshed");
+    }
+    const tokens = await this.requestTokens(
+      keyPair,
+      session.oauth.tokenEndpoint,
+      {
+        grant_type: "refresh_token",
+        refresh_token: session.refreshJwt,
+        client_id: session.oauth.clientId,
+      },
+    );
+    if (tokens.sub !== session.did) {
+      throw new SessionExpiredError("OAuth session changed accounts");
+    }
+
+    return {
+      ...session,
+      accessJwt: tokens.access_token,
+      refreshJwt: tokens.refresh_token || session.refreshJwt,
+      oauth: {
+        ...session.oauth,
+        scope: tokens.scope,
+        expiresAt: this.expiresAt(tokens),
+      },
+    };
+  }
+
+  // Best effort, the session is dropped locally either way
+  async revoke(session: OAuthSession): Promise<void> {
+    const { revocationEndpoint, clientId, dpopKeyId } = session.oauth;
+    try {
+      const keyPair = await loadDpopKey(dpopKeyId);
+      if (revocationEndpoint && keyPair && session.refreshJwt) {
+        await dpopFetch(keyPair, revocationEndpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({
+            token: session.refreshJwt,
+            client_id: clientId,
+          }).toString(),
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to revoke OAuth session:", error);
+    } finally {
+      await deleteDpopKey(dpopKeyId).catch(() => undefined);
+    }
+  }
+
+  private async requestTokens(
+    keyPair: CryptoKeyPair,
+    tokenEndpoint: string,
+    params: Record<string, string>,
+  ): Promise<TokenResponse> {
+    const response = await dpopFetch(keyPair, tokenEndpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(params).toString(),
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      const message =
+        body.error_description || body.error || "Token request failed";
+      if (body.error === "invalid_grant") {
+        throw new SessionExpiredError(message);
+      }
+      throw new ATProtoError(message, response.status, body.error);
+    }
+    if (body.token_type !== "DPoP" || !body.access_token || !body.sub) {
+      throw new ATProtoError("Authorization server sent unusable tokens");
+    }
+    return body as TokenResponse;
+  }
+
+  private expiresAt(tokens: TokenResponse): number {
+    // Servers usually say; assume a short lifetime when they don't
+    return Date.now() + (tokens.expires_in ?? 5 * 60) * 1000;
+  }
+
+  /** Handle or DID → DID, handle and PDS, from the DID document */
+  private async resolveIdentity(identifier: string): Promise<ResolvedIdentity> {
+    let did = identifier;
+    if (!identifier.startsWith("did:")) {
+      const { did: resolved } = await fetchJson<{ did: string }>(
+        `${HANDLE_RESOLVER}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(identifier.toLowerCase())}`,
+        `the account for ${identifier}`,
+      );
+      did = resolved;
+    }
+
+    let docUrl: string;
+    if (did.startsWith("did:plc:")) {
+      docUrl = `${PLC_DIRECTORY}/${did}`;
+    } else if (did.startsWith("did:web:")) {
+      docUrl = `https://${decodeURIComponent(did.slice("did:web:".length))}/.well-known/did.json`;
+    } else {
+      throw new ATProtoError(`Unsupported account identifier: ${did}`);
+    }
+
+    const doc = await fetchJson<{
+      alsoKnownAs?: string[];
+      service?: Array<{ id: string; type: string; serviceEndpoint: string }>;
+    }>(docUrl, "the account's DID document");
+    const pds = doc.service?.find(
+      (service) =>
+        service.id === "#atproto_pds" || service.id === `${did}#atproto_pds`,
+    );
+    if (!pds) throw new ATProtoError("Account has no PDS");
+
+    const handle = doc.alsoKnownAs
+      ?.find((aka) => aka.startsWith("at://"))
+      ?.slice("at://".length);
+    return { did, handle, pdsUrl: pds.serviceEndpoint.replace(/\/$/, "") };
+  }
+
+  // The authorization server a PDS delegates sign in to
+  private async resolveIssuer(pdsUrl: string): Promise<string> {
+    const resource = await fetchJson<{ authorization_servers?: string[] }>(
+      `${pdsUrl}/.well-known/oauth-protected-resource`,
+      "the PDS's OAuth settings",
+    );
+    const issuer = resource.authorization_servers?.[0];
+    if (!issuer) throw new ATProtoError("This PDS doesn't support OAuth");
+    return issuer;
+  }
+
+  // A server URL may be a PDS or the authorization server itself
+  private async resolveIssuerForServer(serverUrl: string): Promise<string> {
+    const url = serverUrl.replace(/\/$/, "");
+    try {
+      return await this.resolveIssuer(url);
+    } catch {
+      return new URL(url).origin;
+    }
+  }
+
+  private async getServerMetadata(
+    issuer: string,
+  ): Promise<AuthorizationServerMetadata> {
+    const metadata = await fetchJson<AuthorizationServerMetadata>(
+      `${issuer}/.well-known/oauth-authorization-server`,
+      "the authorization server's settings",
+    );
+    if (metadata.issuer !== issuer) {
+      throw new ATProtoError("Authorization server metadata doesn't match");
+    }
+    if (!metadata.pushed_authorization_request_endpoint) {
+      throw new ATProtoError("Authorization server doesn't support PAR");
+    }
+    if (!metadata.dpop_signing_alg_values_supported?.includes("ES256")) {
+      throw new ATProtoError("Authorization server doesn't support DPoP");
+    }
+    return metadata;
+  }
+}
+
+export const oauthClient = new OAuthClient();
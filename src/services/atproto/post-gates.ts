@@ -0,0 +1,237 @@
+import {
+  AppBskyFeedPostgate,
+  AppBskyFeedThreadgate,
+  AtUri,
+  BskyAgent,
+} from "@atproto/api";
+import { createLogger } from "../../utils/logger";
+
+export interface ReplyAllowance {
+  mention: boolean;
+  follower: boolean;
+  following: boolean;
+  lists: string[]; // List AT URIs
+}
+
+export interface PostGateSettings {
+  // null lets everyone reply; nothing allowed means nobody can
+  allowReplies: ReplyAllowance | null;
+  quotesDisabled: boolean;
+}
+
+export const DEFAULT_POST_GATE_SETTINGS: PostGateSettings = {
+  allowReplies: null,
+  quotesDisabled: false,
+};
+
+const THREADGATE_COLLECTION = "app.bsky.feed.threadgate";
+const POSTGATE_COLLECTION = "app.bsky.feed.postgate";
+
+const logger = createLogger("PostGateService");
+
+export const isDefaultPostGateSettings = (settings: PostGateSettings) =>
+  settings.allowReplies === null && !settings.quotesDisabled;
+
+// Short label for buttons, e.g. "Followers, mentioned · No quotes"
+export const describePostGateSettings = (settings: PostGateSettings) => {
+  const { allowReplies } = settings;
+  let replies = "Everyone can reply";
+  if (allowReplies) {
+    const parts = [
+      allowReplies.mention && "mentioned",
+      allowReplies.follower && "followers",
+      allowReplies.following && "following",
+      allowReplies.lists.length > 0 &&
+        `${allowReplies.lists.length} list${allowReplies.lists.length !== 1 ? "s" : ""}`,
+    ].filter(Boolean) as string[];
+    replies =
+      parts.length > 0 ? `Replies: ${parts.join(", ")}` : "Replies turned off";
+  }
+  return settings.quotesDisabled ? `${replies} · No quotes` : replies;
+};
+
+// XRPC errors carry the lexicon error name and the HTTP status
+const isRecordNotFound = (error: unknown) => {
+  const { error: name, status } = (error ?? {}) as {
+    error?: unknown;
+    status?: unknown;
+  };
+  return name === "RecordNotFound" || status === 404;
+};
+
+/**
+ * Reads and writes the threadgate (who can reply) and postgate (quoting)
+ * records for a thread root. Both live in our repo under the same rkey as
+ * the post they gate.
+ */
+export class PostGateService {
+  private agent: BskyAgent;
+
+  constructor(agent: BskyAgent) {
+    this.agent = agent;
+  }
+
+  async getSettings(postUri: string): Promise<PostGateSettings> {
+    const [threadgate, postgate] = await Promise.all([
+      this.getRecord<AppBskyFeedThreadgate.Record>(
+        THREADGATE_COLLECTION,
+        postUri,
+      ),
+      this.getRecord<AppBskyFeedPostgate.Record>(POSTGATE_COLLECTION, postUri),
+    ]);
+
+    return {
+      allowReplies: threadgate?.allow
+        ? this.parseAllow(threadgate.allow)
+        : null,
+      quotesDisabled: !!postgate?.embeddingRules?.some(
+        (rule) => rule.$type === "app.bsky.feed.postgate#disableRule",
+      ),
+    };
+  }
+
+  /**
+   * Write both gates for `postUri`. Gates that fall back to the defaults are
+   * deleted, unless they still carry hidden replies or detached quotes that
+   * were set elsewhere.
+   */
+  async applySettings(
+    postUri: string,
+    settings: PostGateSettings,
+  ): Promise<void> {
+    const [threadgate, postgate] = await Promise.all([
+      this.getRecord<AppBskyFeedThreadgate.Record>(
+        THREADGATE_COLLECTION,
+        postUri,
+      ),
+      this.getRecord<AppBskyFeedPostgate.Record>(POSTGATE_COLLECTION, postUri),
+    ]);
+    const createdAt = new Date().toISOString();
+
+    const hiddenReplies = threadgate?.hiddenReplies;
+    if (settings.allowReplies || hiddenReplies?.length) {
+      const record: AppBskyFeedThreadgate.Record = {
+        $type: THREADGATE_COLLECTION,
+        post: postUri,
+        allow: settings.allowReplies
+          ? this.buildAllow(settings.allowReplies)
+          : undefined,
+        hiddenReplies,
+        createdAt: threadgate?.createdAt || createdAt,
+      };
+      await this.putRecord(THREADGATE_COLLECTION, postUri, record);
+    } else if (threadgate) {
+      await this.deleteRecord(THREADGATE_COLLECTION, postUri);
+    }
+
+    const detachedEmbeddingUris = postgate?.detachedEmbeddingUris;
+    if (settings.quotesDisabled || detachedEmbeddingUris?.length) {
+      const record: AppBskyFeedPostgate.Record = {
+        $type: POSTGATE_COLLECTION,
+        post: postUri,
+        embeddingRules: settings.quotesDisabled
+          ? [{ $type: "app.bsky.feed.postgate#disableRule" }]
+          : undefined,
+        detachedEmbeddingUris,
+        createdAt: postgate?.createdAt || createdAt,
+      };
+      await this.putRecord(POSTGATE_COLLECTION, postUri, record);
+    } else if (postgate) {
+      await this.deleteRecord(POSTGATE_COLLECTION, postUri);
+    }
+
+    logger.log(`Applied reply settings to ${postUri}`);
+  }
+
+  private buildAllow(
+    allowance: ReplyAllowance,
+  ): AppBskyFeedThreadgate.Record["allow"] {
+    return [
+      ...(allowance.mention
+        ? [{ $type: "app.bsky.feed.threadgate#mentionRule" as const }]
+        : []),
+      ...(allowance.follower
+        ? [{ $type: "app.bsky.feed.threadgate#followerRule" as const }]
+        : []),
+      ...(allowance.following
+        ? [{ $type: "app.bsky.feed.threadgate#followingRule" as const }]
+        : []),
+      ...allowance.lists.map((list) => ({
+        $type: "app.bsky.feed.threadgate#listRule" as const,
+        list,
+      })),
+    ];
+  }
+
+  private parseAllow(
+    allow: NonNullable<AppBskyFeedThreadgate.Record["allow"]>,
+  ): ReplyAllowance {
+    const allowance: ReplyAllowance = {
+      mention: false,
+      follower: false,
+      following: false,
+      lists: [],
+    };
+
+    for (const rule of allow) {
+      if (AppBskyFeedThreadgate.isMentionRule(rule)) {
+        allowance.mention = true;
+      } else if (AppBskyFeedThreadgate.isFollowerRule(rule)) {
+        allowance.follower = true;
+      } else if (AppBskyFeedThreadgate.isFollowingRule(rule)) {
+        allowance.following = true;
+      } else if (AppBskyFeedThreadgate.isListRule(rule)) {
+        allowance.lists.push(rule.list);
+      }
+    }
+    return allowance;
+  }
+
+  private async getRecord<T>(
+    collection: string,
+    postUri: string,
+  ): Promise<T | null> {
+    try {
+      const response = await this.agent.com.atproto.repo.getRecord({
+        repo: this.repoFor(postUri),
+        collection,
+        rkey: new AtUri(postUri).rkey,
+      });
+      return response.data.value as unknown as T;
+    } catch (error) {
+      if (isRecordNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private async putRecord(
+    collection: string,
+    postUri: string,
+    record: AppBskyFeedThreadgate.Record | AppBskyFeedPostgate.Record,
+  ) {
+    await this.agent.com.atproto.repo.putRecord({
+      repo: this.repoFor(postUri),
+      collection,
+      rkey: new AtUri(postUri).rkey,
+      record: record as unknown as Record<string, unknown>,
+    });
+  }
+
+  private async deleteRecord(collection: string, postUri: string) {
+    await this.agent.com.atproto.repo.deleteRecord({
+      repo: this.repoFor(postUri),
+      collection,
+      rkey: new AtUri(postUri).rkey,
+    });
+  }
+
+  // Gates can only be written by the author, into their own repo
+  private repoFor(postUri: string): string {
+    const did = this.agent.session?.did;
+    if (!did) throw new Error("Not logged in");
+    if (new AtUri(postUri).host !== did) {
+      throw new Error("Reply settings can only be changed on your own posts");
+    }
+    return did;
+  }
+}
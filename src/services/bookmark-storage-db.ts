@@ -1,5 +1,6 @@
 import { IDBPDatabase, openDB } from "idb";
 import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
 
 export interface Bookmark {
   id: string;
@@ -24,10 +25,10 @@ export interface BookmarkPost extends Bookmark {
 const logger = createLogger("BookmarkStorageDB");
 
 class BookmarkStorageDB {
-  private dbName = "bsky_bookmarks_db";
+  private dbName = accountScopedName("bsky_bookmarks_db");
   private dbVersion = 1;
   private db: IDBPDatabase | null = null;
-  private localStorageKey = "bsky_bookmarked_uris";
+  private localStorageKey = accountScopedName("bsky_bookmarked_uris");
 
   async init() {
     try {
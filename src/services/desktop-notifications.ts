@@ -0,0 +1,343 @@
+/**
+ * Desktop Notifications
+ *
+ * Shows system notifications for new Bluesky notifications while the app is
+ * in the background. Which types are shown follows the toggles on the
+ * notification settings page; notification rules with the alert action add
+ * their matches on top. Notifications arriving together are batched per
+ * type ("12 new likes"), and nothing is shown during the do-not-disturb
+ * hours.
+ *
+ * Notifications are shown by the service worker in public/notification-sw.js
+ * so clicking one can focus the app, or open it, on the thread.
+ */
+
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+
+export type DesktopNotificationType =
+  | "mentions"
+  | "replies"
+  | "likes"
+  | "reposts"
+  | "follows"
+  | "quotes";
+
+export interface DoNotDisturbSchedule {
+  enabled: boolean;
+  // "HH:mm" local time, the window may run past midnight
+  start: string;
+  end: string;
+}
+
+export interface DesktopNotificationPrefs {
+  enabled: boolean;
+  types: Record<DesktopNotificationType, boolean>;
+  doNotDisturb: DoNotDisturbSchedule;
+}
+
+// Posted by the service worker to an open tab when a notification is clicked
+export interface NotificationClickMessage {
+  type: "notification-click";
+  url: string;
+}
+
+// Dispatched on window with the target URL when the tab shows notifications
+// itself, without the service worker
+export const NOTIFICATION_CLICK_EVENT = "desktopNotificationClick";
+// Query parameter that opens a thread in the thread modal
+export const THREAD_PARAM = "thread";
+
+const PREFS_KEY = "bsky_desktop_notifications";
+const SERVICE_WORKER_URL = "/notification-sw.js";
+// Notifications arriving this close together are shown as one batch
+const BATCH_WINDOW_MS = 5 * 1000;
+// A type with more than this many new notifications gets a summary
+const BATCH_THRESHOLD = 3;
+
+const TYPE_BY_REASON: Record<string, DesktopNotificationType> = {
+  mention: "mentions",
+  reply: "replies",
+  like: "likes",
+  repost: "reposts",
+  follow: "follows",
+  quote: "quotes",
+};
+
+const ACTIONS: Record<string, string> = {
+  mention: "mentioned you",
+  reply: "replied to you",
+  like: "liked your post",
+  repost: "reposted your post",
+  follow: "followed you",
+  quote: "quoted your post",
+};
+
+const BATCH_NOUNS: Record<string, string> = {
+  mention: "mentions",
+  reply: "replies",
+  like: "likes",
+  repost: "reposts",
+  follow: "followers",
+  quote: "quotes",
+};
+
+const DEFAULT_PREFS: DesktopNotificationPrefs = {
+  enabled: false,
+  types: {
+    mentions: true,
+    replies: true,
+    likes: false,
+    reposts: false,
+    follows: true,
+    quotes: true,
+  },
+  doNotDisturb: { enabled: false, start: "22:00", end: "08:00" },
+};
+
+const logger = createLogger("DesktopNotifications");
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const isWithinDoNotDisturb = (
+  schedule: DoNotDisturbSchedule,
+  now = new Date(),
+): boolean => {
+  if (!schedule.enabled) return false;
+  const start = toMinutes(schedule.start);
+  const end = toMinutes(schedule.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return true;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+/** Where clicking a notification should take the user */
+export const getNotificationTarget = (notification: Notification): string => {
+  if (notification.reason === "follow") {
+    return `/profile/${notification.author.handle}`;
+  }
+  const uri =
+    (notification.reason === "like" || notification.reason === "repost") &&
+    notification.reasonSubject
+      ? notification.reasonSubject
+      : notification.uri;
+  return `/?${THREAD_PARAM}=${encodeURIComponent(uri)}`;
+};
+
+const isSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+type Listener = () => void;
+
+class DesktopNotificationService {
+  private prefs: DesktopNotificationPrefs = this.load();
+  private listeners = new Set<Listener>();
+  private pending: Notification[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getPrefs = (): DesktopNotificationPrefs => this.prefs;
+
+  getPermission(): NotificationPermission | "unsupported" {
+    return isSupported() ? window.Notification.permission : "unsupported";
+  }
+
+  /** Turn desktop notifications on, asking for permission if needed */
+  async enable(): Promise<boolean> {
+    if (!isSupported()) return false;
+    const permission =
+      window.Notification.permission === "default"
+        ? await window.Notification.requestPermission()
+        : window.Notification.permission;
+    if (permission !== "granted") {
+      this.notify();
+      return false;
+    }
+    await this.registerServiceWorker();
+    this.update({ enabled: true });
+    return true;
+  }
+
+  disable() {
+    this.update({ enabled: false });
+  }
+
+  setTypes(types: Partial<Record<DesktopNotificationType, boolean>>) {
+    this.update({ types: { ...this.prefs.types, ...types } });
+  }
+
+  setDoNotDisturb(changes: Partial<DoNotDisturbSchedule>) {
+    this.update({
+      doNotDisturb: { ...this.prefs.doNotDisturb, ...changes },
+    });
+  }
+
+  registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (!this.registration) {
+      this.registration =
+        typeof navigator !== "undefined" && "serviceWorker" in navigator
+          ? navigator.serviceWorker
+              .register(SERVICE_WORKER_URL)
+              .catch((error) => {
+                logger.error("Failed to register service worker:", error);
+                return null;
+              })
+          : Promise.resolve(null);
+    }
+    return this.registration;
+  }
+
+  /**
+   * Queue newly arrived notifications. `alertUris` are matches of rules with
+   * the alert action, shown even when desktop notifications or their type
+   * are switched off.
+   */
+  enqueue(notifications: Notification[], alertUris?: Set<string>) {
+    if (this.getPermission() !== "granted") return;
+
+    const wanted = notifications.filter(
+      (n) =>
+        !n.isRead &&
+        (alertUris?.has(n.uri) ||
+          (this.prefs.enabled && this.prefs.types[TYPE_BY_REASON[n.reason]])),
+    );
+    if (wanted.length === 0) return;
+
+    this.pending.push(...wanted);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), BATCH_WINDOW_MS);
+    }
+  }
+
+  async sendTest(): Promise<void> {
+    await this.show("ShadowSky", {
+      body: "Desktop notifications are working",
+      tag: "test",
+      data: { url: "/notifications" },
+    });
+  }
+
+  private async flush() {
+    this.flushTimer = null;
+    const batch = this.pending;
+    this.pending = [];
+
+    if (isWithinDoNotDisturb(this.prefs.doNotDisturb)) return;
+    // No need to interrupt while the app is in front of the user
+    if (document.visibilityState === "visible" && document.hasFocus()) return;
+
+    const byReason = new Map<string, Notification[]>();
+    for (const notification of batch) {
+      const group = byReason.get(notification.reason) || [];
+      group.push(notification);
+      byReason.set(notification.reason, group);
+    }
+
+    for (const [reason, group] of byReason) {
+      if (group.length > BATCH_THRESHOLD) {
+        const names = group
+          .slice(0, 3)
+          .map((n) => n.author.displayName || n.author.handle);
+        await this.show(
+          `${group.length} new ${BATCH_NOUNS[reason] || "notifications"}`,
+          {
+            body: `From ${names.join(", ")} and others`,
+            tag: `batch-${reason}`,
+            data: { url: "/notifications" },
+          },
+        );
+        continue;
+      }
+
+      for (const notification of group) {
+        const author =
+          notification.author.displayName || notification.author.handle;
+        const text = (notification.record as { text?: string })?.text;
+        await this.show(
+          `${author} ${ACTIONS[notification.reason] || notification.reason}`,
+          {
+            body: text || undefined,
+            icon: notification.author.avatar,
+            tag: notification.uri,
+            data: { url: getNotificationTarget(notification) },
+          },
+        );
+      }
+    }
+  }
+
+  private async show(title: string, options: NotificationOptions) {
+    try {
+      const registration = await this.registerServiceWorker();
+      if (registration) {
+        await registration.showNotification(title, {
+          icon: "/butterfly-icon.svg",
+          ...options,
+        });
+        return;
+      }
+
+      // Without a service worker, handle the click in this tab
+      const notification = new window.Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        const url: string = options.data?.url || "/notifications";
+        window.dispatchEvent(
+          new CustomEvent(NOTIFICATION_CLICK_EVENT, { detail: url }),
+        );
+        notification.close();
+      };
+    } catch (error) {
+      logger.error("Failed to show notification:", error);
+    }
+  }
+
+  private update(changes: Partial<DesktopNotificationPrefs>) {
+    this.prefs = { ...this.prefs, ...changes };
+    localStorage.setItem(
+      accountScopedName(PREFS_KEY),
+      JSON.stringify(this.prefs),
+    );
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private load(): DesktopNotificationPrefs {
+    try {
+      const saved = localStorage.getItem(accountScopedName(PREFS_KEY));
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        return {
+          ...DEFAULT_PREFS,
+          ...parsed,
+          types: { ...DEFAULT_PREFS.types, ...parsed.types },
+          doNotDisturb: {
+            ...DEFAULT_PREFS.doNotDisturb,
+            ...parsed.doNotDisturb,
+          },
+        };
+      }
+    } catch (error) {
+      logger.error("Failed to load desktop notification settings:", error);
+    }
+    return DEFAULT_PREFS;
+  }
+}
+
+export const desktopNotifications = new DesktopNotificationService();
@@ -0,0 +1,535 @@
+/**
+ * Draft Sync
+ *
+ * Optional sync of drafts between devices through records in the user's
+ * repo, one com.shadowsky.draft record per draft keyed by the draft id.
+ * Media goes up as blobs the record refers to. Records are public like the
+ * rest of the repo; Bluesky apps just don't show them.
+ *
+ * When both sides changed a draft since it last synced, each post is merged
+ * on its own and the later edit wins. A post edited on both sides keeps the
+ * other edit as a conflict to show in the drafts panel.
+ */
+
+import { BlobRef, BskyAgent } from "@atproto/api";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+import {
+  clearSyncDeletion,
+  getDrafts,
+  getSyncDeletions,
+  joinDraftPosts,
+  loadDraftMedia,
+  removeSyncedDraft,
+  storeSyncedDraft,
+  type DraftConflict,
+  type DraftMediaFile,
+  type DraftMediaRef,
+  type ThreadDraft,
+} from "./drafts";
+import { draftsStorage } from "./drafts-db";
+
+const DRAFT_COLLECTION = "com.shadowsky.draft";
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Local edits come in bursts while typing
+const SYNC_DEBOUNCE_MS = 15 * 1000;
+
+const logger = createLogger("DraftSync");
+
+// Whether this device syncs its drafts
+const enabledKey = () => accountScopedName("bsky_draft_sync_enabled");
+
+export interface DraftSyncStatus {
+  enabled: boolean;
+  syncing: boolean;
+  lastSyncedAt?: string;
+  // Last time a sync changed the drafts stored here
+  changedAt?: string;
+  lastError?: string;
+}
+
+interface DraftRecordPost {
+  text: string;
+  updatedAt: string;
+}
+
+interface DraftRecordMedia extends DraftMediaRef {
+  blob: unknown;
+}
+
+interface DraftRecord {
+  $type: typeof DRAFT_COLLECTION;
+  title: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  scheduledFor?: string;
+  quoteUri?: string;
+  postOrder?: number[];
+  posts: DraftRecordPost[];
+  media: DraftRecordMedia[];
+}
+
+interface RemoteDraft {
+  cid: string;
+  record: DraftRecord;
+}
+
+export interface DraftSegment {
+  text: string;
+  updatedAt: string;
+}
+
+const toSegments = (draft: ThreadDraft): DraftSegment[] =>
+  (draft.posts || []).map((text, index) => ({
+    text,
+    updatedAt: draft.segmentUpdatedAt?.[index] || draft.updatedAt,
+  }));
+
+/**
+ * Merge two sets of posts that both moved on from `base`. A post only one
+ * side changed takes that change; one both changed takes the later edit and
+ * reports the other as a conflict.
+ */
+export function mergeDraftSegments(
+  base: string[],
+  local: DraftSegment[],
+  remote: DraftSegment[],
+): { segments: DraftSegment[]; conflicts: DraftConflict[] } {
+  const segments: DraftSegment[] = [];
+  const conflicts: DraftConflict[] = [];
+
+  for (let i = 0; i < Math.max(local.length, remote.length); i++) {
+    const mine = local[i];
+    const theirs = remote[i];
+
+    if (!mine || !theirs) {
+      const present = mine || theirs;
+      // Unchanged on the side that has it means the other side removed it
+      if (present.text !== base[i]) segments.push(present);
+      continue;
+    }
+
+    if (mine.text === theirs.text || theirs.text === base[i]) {
+      segments.push(mine);
+    } else if (mine.text === base[i]) {
+      segments.push(theirs);
+    } else {
+      const localWins = mine.updatedAt >= theirs.updatedAt;
+      const loser = localWins ? theirs : mine;
+      segments.push(localWins ? mine : theirs);
+      conflicts.push({
+        index: segments.length - 1,
+        text: loser.text,
+        updatedAt: loser.updatedAt,
+        from: localWins ? "remote" : "local",
+      });
+    }
+  }
+
+  return { segments, conflicts };
+}
+
+const sameTexts = (a: DraftSegment[], b: string[] | undefined) =>
+  a.length === (b?.length || 0) && a.every((s, i) => s.text === b?.[i]);
+
+/** Combine a draft edited here and in the repo since they last synced */
+export function mergeDrafts(local: ThreadDraft, remote: ThreadDraft) {
+  const { segments, conflicts } = mergeDraftSegments(
+    local.sync?.posts || [],
+    toSegments(local),
+    toSegments(remote),
+  );
+  // Title, schedule, quote and media go with whichever was saved last
+  const newer = remote.updatedAt > local.updatedAt ? remote : local;
+  const posts = segments.map((s) => s.text);
+
+  let content = joinDraftPosts(posts);
+  let postOrder: number[] | undefined;
+  if (sameTexts(segments, newer.posts)) {
+    ({ content, postOrder } = newer);
+  } else if (sameTexts(segments, local.posts)) {
+    ({ content, postOrder } = local);
+  } else if (sameTexts(segments, remote.posts)) {
+    ({ content, postOrder } = remote);
+  }
+
+  const merged: ThreadDraft = {
+    ...newer,
+    id: local.id,
+    content,
+    posts,
+    postOrder,
+    createdAt:
+      local.createdAt < remote.createdAt ? local.createdAt : remote.createdAt,
+    updatedAt: newer.updatedAt,
+    segmentUpdatedAt: segments.map((s) => s.updatedAt),
+    sync: local.sync,
+    conflicts: [
+      ...(local.conflicts || []).filter(
+        (old) =>
+          old.index < posts.length &&
+          !conflicts.some((c) => c.index === old.index),
+      ),
+      ...conflicts,
+    ],
+  };
+  return {
+    draft: merged,
+    // Whether the repo is missing anything merged in from here
+    changedRemote: !sameTexts(segments, remote.posts) || newer === local,
+  };
+}
+
+const fromRecord = (id: string, record: DraftRecord): ThreadDraft => ({
+  id,
+  title: record.title,
+  content: record.content,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  scheduledFor: record.scheduledFor,
+  quoteUri: record.quoteUri,
+  postOrder: record.postOrder,
+  posts: record.posts.map((post) => post.text),
+  segmentUpdatedAt: record.posts.map((post) => post.updatedAt),
+  media: record.media.map(({ blob: _blob, ...ref }) => ref),
+});
+
+type BlobJson = ReturnType<BlobRef["toJSON"]>;
+
+// Refs read from the repo are BlobRefs, the ones kept here are JSON
+const toBlobJson = (blob: unknown): BlobJson | null => {
+  if (blob instanceof BlobRef) return blob.toJSON();
+  const json = blob as BlobJson | undefined;
+  return json?.ref?.$link ? json : null;
+};
+
+type Listener = () => void;
+
+class DraftSyncService {
+  private status: DraftSyncStatus = { enabled: false, syncing: false };
+  private listeners = new Set<Listener>();
+  private agent: BskyAgent | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private debounce: ReturnType<typeof setTimeout> | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private pending = false;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getStatus = (): DraftSyncStatus => this.status;
+
+  start(agent: BskyAgent) {
+    this.stop();
+    this.agent = agent;
+    this.update({ enabled: localStorage.getItem(enabledKey()) === "true" });
+    if (!this.status.enabled) return;
+
+    this.timer = setInterval(() => void this.sync(), SYNC_INTERVAL_MS);
+    void this.sync();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.debounce) {
+      clearTimeout(this.debounce);
+      this.debounce = null;
+    }
+    this.agent = null;
+  }
+
+  setEnabled(enabled: boolean) {
+    localStorage.setItem(enabledKey(), String(enabled));
+    const agent = this.agent;
+    if (!agent) {
+      this.update({ enabled });
+      return;
+    }
+    if (enabled) {
+      this.start(agent);
+    } else {
+      this.stop();
+      this.agent = agent;
+      this.update({ enabled: false, lastError: undefined });
+    }
+  }
+
+  /** Sync soon after a local change */
+  requestSync() {
+    if (!this.status.enabled || !this.agent) return;
+    if (this.debounce) clearTimeout(this.debounce);
+    this.debounce = setTimeout(() => {
+      this.debounce = null;
+      void this.sync();
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  sync(): Promise<void> {
+    if (this.syncPromise) {
+      // Changes made during this sync get one more round after it
+      this.pending = true;
+      return this.syncPromise;
+    }
+    this.syncPromise = this.runSync().finally(() => {
+      this.syncPromise = null;
+      if (this.pending) {
+        this.pending = false;
+        void this.sync();
+      }
+    });
+    return this.syncPromise;
+  }
+
+  private async runSync() {
+    const agent = this.agent;
+    if (!agent?.session || !this.status.enabled) return;
+
+    this.update({ syncing: true, lastError: undefined });
+    let changed = false;
+    let failed = 0;
+    try {
+      const remote = await this.listRemote(agent);
+      const local = new Map((await getDrafts()).map((d) => [d.id, d]));
+      const deletions = new Set(getSyncDeletions());
+
+      const ids = new Set([...local.keys(), ...remote.keys(), ...deletions]);
+      for (const id of ids) {
+        if (this.agent !== agent) return;
+        try {
+          changed =
+            (await this.syncDraft(
+              agent,
+              id,
+              local.get(id),
+              remote.get(id),
+              deletions.has(id),
+            )) || changed;
+        } catch (error) {
+          failed++;
+          logger.error(`Failed to sync draft ${id}:`, error);
+        }
+      }
+
+      this.update({
+        lastSyncedAt: new Date().toISOString(),
+        lastError: failed
+          ? `${failed} draft${failed === 1 ? "" : "s"} failed to sync`
+          : undefined,
+      });
+    } catch (error) {
+      logger.error("Draft sync failed:", error);
+      this.update({
+        lastError: error instanceof Error ? error.message : "Sync failed",
+      });
+    } finally {
+      this.update({
+        syncing: false,
+        ...(changed ? { changedAt: new Date().toISOString() } : {}),
+      });
+    }
+  }
+
+  // Returns whether the drafts stored here changed
+  private async syncDraft(
+    agent: BskyAgent,
+    id: string,
+    local: ThreadDraft | undefined,
+    remote: RemoteDraft | undefined,
+    deletedHere: boolean,
+  ): Promise<boolean> {
+    if (!local && remote) {
+      if (deletedHere) {
+        await agent.com.atproto.repo.deleteRecord({
+          repo: agent.session!.did,
+          collection: DRAFT_COLLECTION,
+          rkey: id,
+          swapRecord: remote.cid,
+        });
+        clearSyncDeletion(id);
+        return false;
+      }
+      await this.importDraft(agent, fromRecord(id, remote.record), remote);
+      return true;
+    }
+
+    if (!local) {
+      clearSyncDeletion(id);
+      return false;
+    }
+
+    if (!remote) {
+      // Synced before and untouched since, so it was deleted elsewhere
+      if (local.sync && local.updatedAt <= local.sync.syncedAt) {
+        await removeSyncedDraft(id);
+        return true;
+      }
+      await this.upload(agent, local, local.updatedAt);
+      return false;
+    }
+
+    if (local.sync?.cid === remote.cid) {
+      if (local.updatedAt > local.sync.syncedAt) {
+        await this.upload(agent, local, local.updatedAt, remote.cid);
+      }
+      return false;
+    }
+
+    const { draft, changedRemote } = mergeDrafts(
+      local,
+      fromRecord(id, remote.record),
+    );
+    if (changedRemote) {
+      await this.upload(agent, draft, local.updatedAt, remote.cid, remote);
+    } else {
+      await this.importDraft(agent, draft, remote, local.updatedAt);
+    }
+    return true;
+  }
+
+  private async listRemote(agent: BskyAgent) {
+    const drafts = new Map<string, RemoteDraft>();
+    let cursor: string | undefined;
+    do {
+      const { data } = await agent.com.atproto.repo.listRecords({
+        repo: agent.session!.did,
+        collection: DRAFT_COLLECTION,
+        cursor,
+        limit: 100,
+      });
+      for (const record of data.records) {
+        const rkey = record.uri.split("/").pop()!;
+        drafts.set(rkey, {
+          cid: record.cid,
+          record: record.value as unknown as DraftRecord,
+        });
+      }
+      cursor = data.cursor;
+    } while (cursor);
+    return drafts;
+  }
+
+  // Stores a draft as it is in the repo, fetching media not held here
+  private async importDraft(
+    agent: BskyAgent,
+    draft: ThreadDraft,
+    remote: RemoteDraft,
+    basedOn?: string,
+  ) {
+    const held = new Set(
+      (await draftsStorage.getMedia(draft.media.map((m) => m.id))).map(
+        (m) => m.id,
+      ),
+    );
+    const blobs: Record<string, unknown> = {};
+    const media: DraftMediaFile[] = [];
+    for (const item of remote.record.media) {
+      const ref = toBlobJson(item.blob);
+      if (!ref) continue;
+      blobs[item.id] = ref;
+      if (held.has(item.id)) continue;
+
+      const { data } = await agent.com.atproto.sync.getBlob({
+        did: agent.session!.did,
+        cid: ref.ref.$link,
+      });
+      const { blob: _blob, ...mediaRef } = item;
+      media.push({
+        ...mediaRef,
+        blob: new Blob([new Uint8Array(data)], { type: ref.mimeType }),
+      });
+    }
+
+    await storeSyncedDraft(
+      {
+        ...draft,
+        sync: {
+          cid: remote.cid,
+          syncedAt: draft.updatedAt,
+          posts: draft.posts || [],
+          blobs,
+        },
+      },
+      media,
+      basedOn,
+    );
+  }
+
+  // Writes the draft to the repo, failing if the record moved on from `swap`
+  private async upload(
+    agent: BskyAgent,
+    draft: ThreadDraft,
+    basedOn: string,
+    swap?: string,
+    remote?: RemoteDraft,
+  ) {
+    const blobs: Record<string, unknown> = { ...draft.sync?.blobs };
+    for (const item of remote?.record.media || []) {
+      const ref = toBlobJson(item.blob);
+      if (ref) blobs[item.id] ??= ref;
+    }
+
+    // Media the repo has no blob for yet
+    const missing = draft.media.filter((m) => !blobs[m.id]);
+    const held = await loadDraftMedia(missing);
+    for (const item of held) {
+      const { data } = await agent.uploadBlob(
+        new Uint8Array(await item.blob.arrayBuffer()),
+        { encoding: item.mimeType },
+      );
+      blobs[item.id] = data.blob.toJSON();
+    }
+
+    const record: DraftRecord = {
+      $type: DRAFT_COLLECTION,
+      title: draft.title,
+      content: draft.content,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+      scheduledFor: draft.scheduledFor,
+      quoteUri: draft.quoteUri,
+      postOrder: draft.postOrder,
+      posts: toSegments(draft),
+      media: draft.media
+        .filter((m) => blobs[m.id])
+        .map((m) => ({ ...m, blob: blobs[m.id] })),
+    };
+    const { data } = await agent.com.atproto.repo.putRecord({
+      repo: agent.session!.did,
+      collection: DRAFT_COLLECTION,
+      rkey: draft.id,
+      record: record as unknown as Record<string, unknown>,
+      swapRecord: swap,
+    });
+
+    const synced: ThreadDraft = {
+      ...draft,
+      sync: {
+        cid: data.cid,
+        syncedAt: draft.updatedAt,
+        posts: draft.posts || [],
+        blobs,
+      },
+    };
+    if (remote) {
+      // Merged, so media from the repo may still need fetching
+      await this.importDraft(agent, synced, { cid: data.cid, record }, basedOn);
+    } else {
+      await storeSyncedDraft(synced, [], basedOn);
+    }
+  }
+
+  private update(changes: Partial<DraftSyncStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const draftSync = new DraftSyncService();
@@ -0,0 +1,158 @@
+import { IDBPDatabase, openDB } from "idb";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+import type { DraftRevision, ThreadDraft } from "./drafts";
+
+export interface StoredDraftMedia {
+  id: string;
+  blob: Blob;
+}
+
+const logger = createLogger("DraftsDB");
+
+const DRAFTS_STORE = "drafts";
+const REVISIONS_STORE = "revisions";
+const MEDIA_STORE = "media";
+
+/**
+ * Drafts, their revision history and the media both refer to. Media blobs
+ * live in their own store keyed by id so revisions share them instead of
+ * holding copies; anything no draft or revision refers to is collected.
+ */
+class DraftsDB {
+  private dbName = accountScopedName("bsky_drafts_db");
+  private dbVersion = 1;
+  private db: IDBPDatabase | null = null;
+
+  async init() {
+    try {
+      this.db = await openDB(this.dbName, this.dbVersion, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+            const store = db.createObjectStore(DRAFTS_STORE, {
+              keyPath: "id",
+            });
+            store.createIndex("updatedAt", "updatedAt", { unique: false });
+          }
+          if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+            const store = db.createObjectStore(REVISIONS_STORE, {
+              keyPath: "id",
+              autoIncrement: true,
+            });
+            store.createIndex("draftId", "draftId", { unique: false });
+          }
+          if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+            db.createObjectStore(MEDIA_STORE, { keyPath: "id" });
+          }
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to initialize drafts DB:", error);
+    }
+  }
+
+  private async getDB(): Promise<IDBPDatabase> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error("Failed to initialize database");
+    return this.db;
+  }
+
+  // Most recently updated first
+  async getAllDrafts(): Promise<ThreadDraft[]> {
+    const db = await this.getDB();
+    return (await db.getAllFromIndex(DRAFTS_STORE, "updatedAt")).reverse();
+  }
+
+  async getDraft(id: string): Promise<ThreadDraft | undefined> {
+    const db = await this.getDB();
+    return await db.get(DRAFTS_STORE, id);
+  }
+
+  // Media already stored under the same id is left as is
+  async putDraft(draft: ThreadDraft, media: StoredDraftMedia[]): Promise<void> {
+    const db = await this.getDB();
+    const tx = db.transaction([DRAFTS_STORE, MEDIA_STORE], "readwrite");
+    const mediaStore = tx.objectStore(MEDIA_STORE);
+    for (const item of media) {
+      if (!(await mediaStore.getKey(item.id))) {
+        await mediaStore.put(item);
+      }
+    }
+    await tx.objectStore(DRAFTS_STORE).put(draft);
+    await tx.done;
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    const db = await this.getDB();
+    const tx = db.transaction([DRAFTS_STORE, REVISIONS_STORE], "readwrite");
+    await tx.objectStore(DRAFTS_STORE).delete(id);
+    const revisions = tx.objectStore(REVISIONS_STORE);
+    for (const key of await revisions.index("draftId").getAllKeys(id)) {
+      await revisions.delete(key);
+    }
+    await tx.done;
+  }
+
+  // Newest first
+  async getRevisions(draftId: string): Promise<DraftRevision[]> {
+    const db = await this.getDB();
+    const revisions: DraftRevision[] = await db.getAllFromIndex(
+      REVISIONS_STORE,
+      "draftId",
+      draftId,
+    );
+    return revisions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  // Replaces the revision when it has an id
+  async putRevision(revision: DraftRevision): Promise<void> {
+    const db = await this.getDB();
+    await db.put(REVISIONS_STORE, revision);
+  }
+
+  async deleteRevisions(ids: number[]): Promise<void> {
+    const db = await this.getDB();
+    const tx = db.transaction(REVISIONS_STORE, "readwrite");
+    for (const id of ids) {
+      await tx.store.delete(id);
+    }
+    await tx.done;
+  }
+
+  async getMedia(ids: string[]): Promise<StoredDraftMedia[]> {
+    const db = await this.getDB();
+    const media = await Promise.all(ids.map((id) => db.get(MEDIA_STORE, id)));
+    return media.filter((item): item is StoredDraftMedia => !!item);
+  }
+
+  /** Delete media no draft or revision refers to, returns how many */
+  async collectGarbage(): Promise<number> {
+    const db = await this.getDB();
+    const tx = db.transaction(
+      [DRAFTS_STORE, REVISIONS_STORE, MEDIA_STORE],
+      "readwrite",
+    );
+    const referenced = new Set<string>();
+    for (const storeName of [DRAFTS_STORE, REVISIONS_STORE]) {
+      const records: { media: { id: string }[] }[] = await tx
+        .objectStore(storeName)
+        .getAll();
+      records.forEach((record) =>
+        record.media.forEach((item) => referenced.add(item.id)),
+      );
+    }
+
+    const mediaStore = tx.objectStore(MEDIA_STORE);
+    let deleted = 0;
+    for (const key of await mediaStore.getAllKeys()) {
+      if (!referenced.has(key as string)) {
+        await mediaStore.delete(key);
+        deleted++;
+      }
+    }
+    await tx.done;
+    return deleted;
+  }
+}
+
+export const draftsStorage = new DraftsDB();
@@ -1,3 +1,22 @@
+import { createLogger } from "../utils/logger";
+import { MANUAL_SPLIT_MARKER } from "../utils/thread-splitter";
+import { accountScopedName } from "./account-store";
+import { draftsStorage } from "./drafts-db";
+
+export interface DraftMediaRef {
+  // Key of the blob in the drafts media store
+  id: string;
+  mimeType: string;
+  alt: string;
+  type: "image" | "video";
+  postIndex?: number; // Which post this media belongs to
+}
+
+/** Draft media with its content, what the composer saves and loads */
+export interface DraftMediaFile extends DraftMediaRef {
+  blob: Blob;
+}
+
 export interface ThreadDraft {
   id: string;
   title: string;
@@ -5,24 +24,82 @@ export interface ThreadDraft {
   createdAt: string;
   updatedAt: string;
   scheduledFor?: string; // ISO date string for delayed send
-  // Legacy field for backward compatibility
-  images?: Array<{
-    file: string; // base64 or blob URL
-    alt: string;
-  }>;
-  // New structure for multi-post threads
   posts?: string[]; // Individual post texts
   postOrder?: number[]; // Order of posts if reordered
+  media: DraftMediaRef[];
+  quoteUri?: string; // Post quoted by the first post of the thread
+  segmentUpdatedAt?: string[]; // When each of posts last changed
+  sync?: DraftSyncState;
+  conflicts?: DraftConflict[];
+}
+
+/** What the draft looked like in the repo after it last synced */
+export interface DraftSyncState {
+  cid: string;
+  syncedAt: string;
+  posts: string[];
+  // Uploaded blob refs (JSON form) by media id
+  blobs: Record<string, unknown>;
+}
+
+/**
+ * A post edited on two devices since they last synced. The later edit is
+ * kept in the draft, this holds the one that lost.
+ */
+export interface DraftConflict {
+  index: number;
+  text: string;
+  updatedAt: string;
+  from: "local" | "remote";
+}
+
+export type DraftRevisionReason = "manual" | "autosave" | "restore" | "sync";
+
+/** A saved state of a draft, restorable from the drafts browser */
+export interface DraftRevision {
+  id?: number;
+  draftId: string;
+  savedAt: string;
+  reason: DraftRevisionReason;
+  title: string;
+  content: string;
+  scheduledFor?: string;
+  posts?: string[];
+  postOrder?: number[];
+  media: DraftMediaRef[];
+  quoteUri?: string;
+}
+
+// Drafts used to be one JSON array in localStorage, media as data URLs
+interface LegacyThreadDraft {
+  id: string;
+  title: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  scheduledFor?: string;
+  images?: Array<{ file: string; alt: string }>;
+  posts?: string[];
+  postOrder?: number[];
   media?: Array<{
-    file: string; // base64 or blob URL
+    file: string;
     alt: string;
     type: "image" | "video";
-    postIndex?: number; // Which post this media belongs to
+    postIndex?: number;
   }>;
+  quoteUri?: string;
 }
 
-const DRAFTS_KEY = "bsky_thread_drafts";
+// Drafts belong to the account they were written with
+const legacyDraftsKey = () => accountScopedName("bsky_thread_drafts");
+// Synced drafts deleted here, still to be deleted from the repo
+const syncDeletionsKey = () => accountScopedName("bsky_draft_sync_deletions");
 const SETTINGS_KEY = "bsky_composer_settings";
+const MAX_REVISIONS = 30;
+// Autosaves this close together update one revision instead of adding more
+const AUTOSAVE_COALESCE_MS = 5 * 60 * 1000;
+
+const logger = createLogger("Drafts");
 
 export interface ComposerSettings {
   numberingFormat: "none" | "simple" | "brackets" | "thread" | "dots";
@@ -30,6 +107,9 @@ export interface ComposerSettings {
   showSettingsPanel: boolean;
   numberingPosition: "beginning" | "end";
   autoGenerateAltText: boolean;
+  autoSplit: boolean;
+  // Tagged on posts when detection can't tell, empty for the browser's
+  defaultLanguage: string;
 }
 
 const DEFAULT_SETTINGS: ComposerSettings = {
@@ -38,44 +118,351 @@ const DEFAULT_SETTINGS: ComposerSettings = {
   showSettingsPanel: false,
   numberingPosition: "end",
   autoGenerateAltText: false,
+  autoSplit: true,
+  defaultLanguage: "",
 };
 
 // Draft management
-export const saveDraft = (draft: ThreadDraft): void => {
-  const drafts = getDrafts();
-  const existingIndex = drafts.findIndex((d) => d.id === draft.id);
-
-  if (existingIndex >= 0) {
-    drafts[existingIndex] = { ...draft, updatedAt: new Date().toISOString() };
-  } else {
-    drafts.push({
-      ...draft,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+const draftFields = (
+  draft: ThreadDraft | DraftRevision,
+): Omit<DraftRevision, "id" | "draftId" | "savedAt" | "reason"> => ({
+  title: draft.title,
+  content: draft.content,
+  scheduledFor: draft.scheduledFor,
+  posts: draft.posts,
+  postOrder: draft.postOrder,
+  media: draft.media,
+  quoteUri: draft.quoteUri,
+});
+
+const sameContent = (a: DraftRevision, b: ThreadDraft) =>
+  JSON.stringify(draftFields(a)) === JSON.stringify(draftFields(b));
+
+const toMediaRef = ({ blob: _blob, ...ref }: DraftMediaFile): DraftMediaRef =>
+  ref;
+
+async function writeDraft(
+  draft: ThreadDraft,
+  media: DraftMediaFile[],
+  reason: DraftRevisionReason,
+): Promise<void> {
+  const previous = await draftsStorage.getDraft(draft.id);
+  await draftsStorage.putDraft(
+    draft,
+    media.map(({ id, blob }) => ({ id, blob })),
+  );
+
+  const revisions = await draftsStorage.getRevisions(draft.id);
+  const [latest] = revisions;
+  let pruned = false;
+  if (!latest || !sameContent(latest, draft)) {
+    const coalesce =
+      reason === "autosave" &&
+      latest?.reason === "autosave" &&
+      new Date(draft.updatedAt).getTime() - new Date(latest.savedAt).getTime() <
+        AUTOSAVE_COALESCE_MS;
+    await draftsStorage.putRevision({
+      ...(coalesce ? { id: latest.id } : {}),
+      ...draftFields(draft),
+      draftId: draft.id,
+      // A synced draft keeps the time it was edited, which can be earlier
+      savedAt: reason === "sync" ? new Date().toISOString() : draft.updatedAt,
+      reason,
     });
+
+    const stale = revisions
+      .slice(coalesce ? MAX_REVISIONS : MAX_REVISIONS - 1)
+      .map((revision) => revision.id!);
+    if (stale.length > 0) {
+      await draftsStorage.deleteRevisions(stale);
+      pruned = true;
+    }
   }
 
-  localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  const mediaChanged =
+    JSON.stringify(previous?.media.map((m) => m.id)) !==
+    JSON.stringify(draft.media.map((m) => m.id));
+  if (pruned || mediaChanged) {
+    await draftsStorage.collectGarbage();
+  }
+}
+
+/** Posts that changed get a new timestamp, the rest keep theirs */
+const stampSegments = (
+  posts: string[] | undefined,
+  previous: ThreadDraft | undefined,
+  now: string,
+): string[] | undefined =>
+  posts?.map((post, index) =>
+    previous?.posts?.[index] === post
+      ? previous.segmentUpdatedAt?.[index] || previous.updatedAt
+      : now,
+  );
+
+/**
+ * Save a draft with its media and record a revision when the content
+ * changed. Returns the draft as stored.
+ */
+export const saveDraft = async (
+  draft: Omit<
+    ThreadDraft,
+    | "createdAt"
+    | "updatedAt"
+    | "media"
+    | "segmentUpdatedAt"
+    | "sync"
+    | "conflicts"
+  >,
+  media: DraftMediaFile[],
+  reason: DraftRevisionReason = "manual",
+): Promise<ThreadDraft> => {
+  const now = new Date().toISOString();
+  const existing = await draftsStorage.getDraft(draft.id);
+  const saved: ThreadDraft = {
+    ...draft,
+    media: media.map(toMediaRef),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    segmentUpdatedAt: stampSegments(draft.posts, existing, now),
+    sync: existing?.sync,
+    conflicts: existing?.conflicts,
+  };
+  await writeDraft(saved, media, reason);
+  return saved;
 };
 
-export const getDrafts = (): ThreadDraft[] => {
+let migration: Promise<void> | null = null;
+
+async function migrateLegacyDraft(legacy: LegacyThreadDraft) {
+  const legacyMedia =
+    legacy.media ||
+    legacy.images?.map((image) => ({
+      ...image,
+      type: "image" as const,
+      postIndex: 0,
+    })) ||
+    [];
+
+  const media: DraftMediaFile[] = [];
+  for (const [index, item] of legacyMedia.entries()) {
+    // Blob URLs died with the page that made them
+    if (!item.file.startsWith("data:")) continue;
+    const blob = await (await fetch(item.file)).blob();
+    media.push({
+      // Stable, so an interrupted migration can safely run again
+      id: `${legacy.id}_media_${index}`,
+      blob,
+      mimeType: blob.type,
+      alt: item.alt,
+      type: item.type,
+      postIndex: item.postIndex,
+    });
+  }
+
+  await writeDraft(
+    {
+      id: legacy.id,
+      title: legacy.title,
+      content: legacy.content,
+      createdAt: legacy.createdAt,
+      updatedAt: legacy.updatedAt,
+      scheduledFor: legacy.scheduledFor,
+      posts: legacy.posts,
+      postOrder: legacy.postOrder,
+      media: media.map(toMediaRef),
+      quoteUri: legacy.quoteUri,
+    },
+    media,
+    "manual",
+  );
+}
+
+/** Move drafts from the old localStorage array into IndexedDB, once */
+const migrateLegacyDrafts = (): Promise<void> => {
+  if (!migration) {
+    migration = (async () => {
+      const saved = localStorage.getItem(legacyDraftsKey());
+      if (!saved) return;
+
+      let failed = 0;
+      try {
+        const legacyDrafts: LegacyThreadDraft[] = JSON.parse(saved);
+        for (const legacy of legacyDrafts) {
+          try {
+            await migrateLegacyDraft(legacy);
+          } catch (error) {
+            failed++;
+            logger.error(`Failed to migrate draft ${legacy.id}:`, error);
+          }
+        }
+      } catch (error) {
+        logger.error("Failed to read legacy drafts:", error);
+        return;
+      }
+      // Kept for another try when some didn't make it
+      if (failed === 0) {
+        localStorage.removeItem(legacyDraftsKey());
+      }
+    })();
+  }
+  return migration;
+};
+
+// Most recently updated first
+export const getDrafts = async (): Promise<ThreadDraft[]> => {
+  await migrateLegacyDrafts();
+  return draftsStorage.getAllDrafts();
+};
+
+export const getDraft = async (id: string): Promise<ThreadDraft | null> => {
+  await migrateLegacyDrafts();
+  return (await draftsStorage.getDraft(id)) || null;
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  const draft = await draftsStorage.getDraft(id);
+  await draftsStorage.deleteDraft(id);
+  await draftsStorage.collectGarbage();
+  if (draft?.sync) {
+    const deletions = getSyncDeletions();
+    localStorage.setItem(
+      syncDeletionsKey(),
+      JSON.stringify([...new Set([...deletions, id])]),
+    );
+  }
+};
+
+// Ids of synced drafts deleted on this device since the last sync
+export const getSyncDeletions = (): string[] => {
   try {
-    const drafts = localStorage.getItem(DRAFTS_KEY);
-    return drafts ? JSON.parse(drafts) : [];
+    return JSON.parse(localStorage.getItem(syncDeletionsKey()) || "[]");
   } catch {
     return [];
   }
 };
 
-export const getDraft = (id: string): ThreadDraft | null => {
-  const drafts = getDrafts();
-  return drafts.find((d) => d.id === id) || null;
+export const clearSyncDeletion = (id: string): void => {
+  localStorage.setItem(
+    syncDeletionsKey(),
+    JSON.stringify(getSyncDeletions().filter((deleted) => deleted !== id)),
+  );
 };
 
-export const deleteDraft = (id: string): void => {
-  const drafts = getDrafts();
-  const filtered = drafts.filter((d) => d.id !== id);
-  localStorage.setItem(DRAFTS_KEY, JSON.stringify(filtered));
+/**
+ * Write a draft coming from sync. If it was edited here while the sync ran,
+ * the edit is kept and only the sync state is taken, so the next sync
+ * picks the edit up.
+ */
+export const storeSyncedDraft = async (
+  draft: ThreadDraft,
+  media: DraftMediaFile[],
+  basedOn?: string,
+): Promise<void> => {
+  const current = await draftsStorage.getDraft(draft.id);
+  if (current && current.updatedAt !== basedOn) {
+    await draftsStorage.putDraft({ ...current, sync: draft.sync }, []);
+    return;
+  }
+  await writeDraft(draft, media, "sync");
+};
+
+// Deleted on another device, so not recorded for deletion from the repo
+export const removeSyncedDraft = async (id: string): Promise<void> => {
+  await draftsStorage.deleteDraft(id);
+  await draftsStorage.collectGarbage();
+};
+
+/** Settle a sync conflict, optionally taking the edit that lost */
+export const resolveDraftConflict = async (
+  draftId: string,
+  conflict: DraftConflict,
+  useOther: boolean,
+): Promise<ThreadDraft> => {
+  const draft = await draftsStorage.getDraft(draftId);
+  if (!draft) throw new Error("Draft not found");
+  const conflicts = draft.conflicts?.filter((c) => c.index !== conflict.index);
+  if (!useOther || !draft.posts) {
+    const resolved = { ...draft, conflicts };
+    await draftsStorage.putDraft(resolved, []);
+    return resolved;
+  }
+
+  const now = new Date().toISOString();
+  const posts = draft.posts.map((post, index) =>
+    index === conflict.index ? conflict.text : post,
+  );
+  const resolved: ThreadDraft = {
+    ...draft,
+    content: joinDraftPosts(posts),
+    posts,
+    postOrder: undefined,
+    updatedAt: now,
+    segmentUpdatedAt: stampSegments(posts, draft, now),
+    conflicts,
+  };
+  await writeDraft(resolved, await loadDraftMedia(draft.media), "manual");
+  return resolved;
+};
+
+// Composer text that splits into exactly these posts
+export const joinDraftPosts = (posts: string[]) =>
+  posts.join(MANUAL_SPLIT_MARKER);
+
+export const loadDraftMedia = async (
+  media: DraftMediaRef[],
+): Promise<DraftMediaFile[]> => {
+  const blobs = new Map(
+    (await draftsStorage.getMedia(media.map((m) => m.id))).map((m) => [
+      m.id,
+      m.blob,
+    ]),
+  );
+  return media.flatMap((ref) => {
+    const blob = blobs.get(ref.id);
+    return blob ? [{ ...ref, blob }] : [];
+  });
+};
+
+// Revisions start again with the copy, the media blobs are shared
+export const duplicateDraft = async (id: string): Promise<ThreadDraft> => {
+  const draft = await draftsStorage.getDraft(id);
+  if (!draft) throw new Error("Draft not found");
+  const {
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    segmentUpdatedAt: _segmentUpdatedAt,
+    sync: _sync,
+    conflicts: _conflicts,
+    ...copy
+  } = draft;
+  return saveDraft(
+    { ...copy, id: generateDraftId(), title: `${draft.title} (copy)` },
+    await loadDraftMedia(draft.media),
+  );
+};
+
+// Newest first
+export const getDraftRevisions = (draftId: string): Promise<DraftRevision[]> =>
+  draftsStorage.getRevisions(draftId);
+
+/** Bring a draft back to a revision, recorded as a revision itself */
+export const restoreDraftRevision = async (
+  revision: DraftRevision,
+): Promise<ThreadDraft> =>
+  saveDraft(
+    { id: revision.draftId, ...draftFields(revision) },
+    await loadDraftMedia(revision.media),
+    "restore",
+  );
+
+export const matchesDraftQuery = (draft: ThreadDraft, query: string) => {
+  const needle = query.trim().toLowerCase();
+  return (
+    !needle ||
+    draft.title.toLowerCase().includes(needle) ||
+    draft.content.toLowerCase().includes(needle) ||
+    !!draft.posts?.some((post) => post.toLowerCase().includes(needle))
+  );
 };
 
 // Settings management
@@ -1,5 +1,6 @@
 import type { AppBskyActorDefs } from "@atproto/api";
 import { debug } from "@bsky/shared";
+import { accountScopedName } from "./account-store";
 
 // Database schema types
 export interface CachedProfile {
@@ -52,14 +53,43 @@ export interface InteractionStats {
   quotedPosts: string[];
 }
 
+export type GraphKind = "followers" | "following";
+
+export interface GraphAccount {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+// One point in the follower or following history. Only the accounts that
+// changed since the previous snapshot are kept; the first snapshot of each
+// kind is the baseline and holds the whole list.
+export interface GraphSnapshot {
+  id?: number;
+  kind: GraphKind;
+  takenAt: string;
+  count: number;
+  baseline: boolean;
+  added: GraphAccount[];
+  removed: GraphAccount[];
+}
+
+// The list as of the latest snapshot, what the next one is diffed against
+export interface GraphState {
+  kind: GraphKind;
+  takenAt: string;
+  accounts: GraphAccount[];
+}
+
 // Cache configuration
 const CACHE_DURATION_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
 
 // Main database class
 export class FollowerCacheDB {
   private db: IDBDatabase | null = null;
-  private readonly DB_NAME = "BlueskyFollowerCache";
-  private readonly DB_VERSION = 1;
+  private readonly DB_NAME = accountScopedName("BlueskyFollowerCache");
+  private readonly DB_VERSION = 2;
 
   async initialize(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -105,6 +135,20 @@ export class FollowerCacheDB {
             { unique: false },
           );
         }
+
+        // Follower and following history
+        if (!db.objectStoreNames.contains("graphSnapshots")) {
+          const snapshotStore = db.createObjectStore("graphSnapshots", {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          snapshotStore.createIndex("kind_takenAt", ["kind", "takenAt"], {
+            unique: false,
+          });
+        }
+        if (!db.objectStoreNames.contains("graphState")) {
+          db.createObjectStore("graphState", { keyPath: "kind" });
+        }
       };
     });
   }
@@ -439,6 +483,68 @@ export class FollowerCacheDB {
     return enriched.sort((a, b) => b.followersCount - a.followersCount);
   }
 
+  // Follower graph history
+  async getGraphState(kind: GraphKind): Promise<GraphState | undefined> {
+    if (!this.db) {
+      debug.warn("Database not initialized, returning undefined");
+      return undefined;
+    }
+    const request = this.db
+      .transaction(["graphState"], "readonly")
+      .objectStore("graphState")
+      .get(kind);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Records the snapshot and moves the state forward in one transaction
+  async saveGraphSnapshot(
+    snapshot: GraphSnapshot,
+    state: GraphState,
+  ): Promise<void> {
+    if (!this.db) {
+      debug.error("Database not initialized, cannot save graph snapshot");
+      return;
+    }
+    const tx = this.db.transaction(
+      ["graphSnapshots", "graphState"],
+      "readwrite",
+    );
+    tx.objectStore("graphSnapshots").add(snapshot);
+    tx.objectStore("graphState").put(state);
+
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Oldest first
+  async getGraphSnapshots(
+    kind: GraphKind,
+    since?: Date,
+  ): Promise<GraphSnapshot[]> {
+    if (!this.db) {
+      debug.warn("Database not initialized, returning empty snapshots");
+      return [];
+    }
+    const request = this.db
+      .transaction(["graphSnapshots"], "readonly")
+      .objectStore("graphSnapshots")
+      .index("kind_takenAt")
+      .getAll(
+        IDBKeyRange.bound([kind, since?.toISOString() ?? ""], [kind, "\uffff"]),
+      );
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Utility methods
   async clearCache(): Promise<void> {
     if (!this.db) {
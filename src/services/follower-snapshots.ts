@@ -0,0 +1,248 @@
+/**
+ * Follower Snapshots
+ *
+ * Records who follows the account, and who it follows, every few hours so
+ * growth can be charted and unfollows named. Each snapshot stores only the
+ * accounts added and removed since the one before, diffed against the
+ * latest list kept in FollowerCacheDB's graphState.
+ */
+
+import type { AppBskyActorDefs, BskyAgent } from "@atproto/api";
+import { format } from "date-fns";
+import { createLogger } from "../utils/logger";
+import {
+  getFollowerCacheDB,
+  type GraphAccount,
+  type GraphKind,
+  type GraphSnapshot,
+} from "./follower-cache-db";
+import { median } from "./post-analytics";
+import { rateLimitedProfileFetch } from "./rate-limiter";
+
+export interface FollowerSnapshotStatus {
+  running: boolean;
+  lastSnapshotAt?: string;
+  lastError?: string;
+}
+
+/** Follower changes on one local day */
+export interface FollowerDay {
+  day: string;
+  gained: GraphAccount[];
+  lost: GraphAccount[];
+  // Followers at the last snapshot of the day
+  count: number;
+}
+
+export interface Unfollow {
+  account: GraphAccount;
+  at: string;
+}
+
+const GRAPH_KINDS: GraphKind[] = ["followers", "following"];
+const SNAPSHOT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+const PAGE_SIZE = 100;
+const PAGE_SPACING_MS = 300;
+// A day counts as a spike with at least this many new followers and twice
+// the usual daily gain
+const MIN_SPIKE_GAIN = 3;
+
+const logger = createLogger("FollowerSnapshots");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toGraphAccount = ({
+  did,
+  handle,
+  displayName,
+  avatar,
+}: AppBskyActorDefs.ProfileView): GraphAccount => ({
+  did,
+  handle,
+  displayName,
+  avatar,
+});
+
+/** Group snapshots (oldest first) into days of gained and lost followers */
+export function getFollowerDays(snapshots: GraphSnapshot[]): FollowerDay[] {
+  const days = new Map<string, FollowerDay>();
+  for (const snapshot of snapshots) {
+    const day = format(new Date(snapshot.takenAt), "yyyy-MM-dd");
+    let entry = days.get(day);
+    if (!entry) {
+      entry = { day, gained: [], lost: [], count: snapshot.count };
+      days.set(day, entry);
+    }
+    if (!snapshot.baseline) {
+      entry.gained.push(...snapshot.added);
+      entry.lost.push(...snapshot.removed);
+    }
+    entry.count = snapshot.count;
+  }
+  return [...days.values()];
+}
+
+/** Days that gained clearly more followers than usual */
+export function findFollowerSpikes(days: FollowerDay[]): FollowerDay[] {
+  const usual = median(days.map((day) => day.gained.length));
+  return days.filter(
+    (day) =>
+      day.gained.length >= MIN_SPIKE_GAIN && day.gained.length >= usual * 2,
+  );
+}
+
+/** Accounts that stopped following and haven't come back, newest first */
+export function getUnfollows(snapshots: GraphSnapshot[]): Unfollow[] {
+  const unfollows = new Map<string, Unfollow>();
+  for (const snapshot of snapshots) {
+    if (snapshot.baseline) continue;
+    snapshot.added.forEach((account) => unfollows.delete(account.did));
+    snapshot.removed.forEach((account) =>
+      unfollows.set(account.did, { account, at: snapshot.takenAt }),
+    );
+  }
+  return [...unfollows.values()].reverse();
+}
+
+type Listener = () => void;
+
+class FollowerSnapshotService {
+  private status: FollowerSnapshotStatus = { running: false };
+  private listeners = new Set<Listener>();
+  private agent: BskyAgent | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private snapshotPromise: Promise<void> | null = null;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getStatus = (): FollowerSnapshotStatus => this.status;
+
+  /** Take a snapshot with `agent` whenever the last one is old enough */
+  async start(agent: BskyAgent): Promise<void> {
+    this.stop();
+    this.agent = agent;
+
+    const db = await getFollowerCacheDB();
+    const state = await db.getGraphState("followers");
+    this.update({ lastSnapshotAt: state?.takenAt });
+
+    this.timer = setInterval(
+      () => void this.snapshotIfDue(),
+      CHECK_INTERVAL_MS,
+    );
+    await this.snapshotIfDue();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // A running snapshot checks the agent and gives up after its current page
+    this.agent = null;
+  }
+
+  snapshot(): Promise<void> {
+    if (!this.snapshotPromise) {
+      this.snapshotPromise = this.takeSnapshot().finally(() => {
+        this.snapshotPromise = null;
+      });
+    }
+    return this.snapshotPromise;
+  }
+
+  private async snapshotIfDue() {
+    const last = this.status.lastSnapshotAt
+      ? new Date(this.status.lastSnapshotAt).getTime()
+      : 0;
+    if (Date.now() - last >= SNAPSHOT_INTERVAL_MS) {
+      await this.snapshot();
+    }
+  }
+
+  private async takeSnapshot() {
+    const agent = this.agent;
+    const did = agent?.session?.did;
+    if (!agent || !did) return;
+
+    this.update({ running: true, lastError: undefined });
+    try {
+      const db = await getFollowerCacheDB();
+      for (const kind of GRAPH_KINDS) {
+        const accounts = await this.fetchGraph(agent, did, kind);
+        // Stopped part way, a partial list would read as mass unfollows
+        if (!accounts) return;
+
+        const takenAt = new Date().toISOString();
+        const previous = await db.getGraphState(kind);
+        const previousDids = new Set(previous?.accounts.map((a) => a.did));
+        const currentDids = new Set(accounts.map((a) => a.did));
+
+        await db.saveGraphSnapshot(
+          {
+            kind,
+            takenAt,
+            count: accounts.length,
+            baseline: !previous,
+            added: accounts.filter((a) => !previousDids.has(a.did)),
+            removed: (previous?.accounts || []).filter(
+              (a) => !currentDids.has(a.did),
+            ),
+          },
+          { kind, takenAt, accounts },
+        );
+      }
+      this.update({ lastSnapshotAt: new Date().toISOString() });
+    } catch (error) {
+      logger.error("Follower snapshot failed:", error);
+      this.update({
+        lastError:
+          error instanceof Error ? error.message : "Failed to take snapshot",
+      });
+    } finally {
+      this.update({ running: false });
+    }
+  }
+
+  private async fetchGraph(
+    agent: BskyAgent,
+    actor: string,
+    kind: GraphKind,
+  ): Promise<GraphAccount[] | null> {
+    const accounts: GraphAccount[] = [];
+    let cursor: string | undefined;
+
+    do {
+      if (this.agent !== agent) return null;
+      if (kind === "followers") {
+        const { data } = await rateLimitedProfileFetch(() =>
+          agent.getFollowers({ actor, limit: PAGE_SIZE, cursor }),
+        );
+        accounts.push(...data.followers.map(toGraphAccount));
+        cursor = data.cursor;
+      } else {
+        const { data } = await rateLimitedProfileFetch(() =>
+          agent.getFollows({ actor, limit: PAGE_SIZE, cursor }),
+        );
+        accounts.push(...data.follows.map(toGraphAccount));
+        cursor = data.cursor;
+      }
+      if (cursor) await sleep(PAGE_SPACING_MS);
+    } while (cursor);
+
+    return accounts;
+  }
+
+  private update(changes: Partial<FollowerSnapshotStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const followerSnapshots = new FollowerSnapshotService();
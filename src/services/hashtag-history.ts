@@ -0,0 +1,44 @@
+const HASHTAGS_KEY = "bsky_recent_hashtags";
+const MAX_RECENT_HASHTAGS = 50;
+
+export interface RecentHashtag {
+  tag: string; // Without the leading "#"
+  lastUsedAt: string;
+  useCount: number;
+}
+
+// Most recently used first
+export const getRecentHashtags = (): RecentHashtag[] => {
+  try {
+    const saved = localStorage.getItem(HASHTAGS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const recordHashtags = (tags: string[]): void => {
+  if (tags.length === 0) return;
+
+  const now = new Date().toISOString();
+  const recent = getRecentHashtags();
+
+  for (const tag of tags) {
+    const existing = recent.find(
+      (entry) => entry.tag.toLowerCase() === tag.toLowerCase(),
+    );
+    if (existing) {
+      existing.tag = tag;
+      existing.lastUsedAt = now;
+      existing.useCount += 1;
+    } else {
+      recent.push({ tag, lastUsedAt: now, useCount: 1 });
+    }
+  }
+
+  recent.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  localStorage.setItem(
+    HASHTAGS_KEY,
+    JSON.stringify(recent.slice(0, MAX_RECENT_HASHTAGS)),
+  );
+};
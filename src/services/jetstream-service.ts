@@ -0,0 +1,572 @@
+/**
+ * Jetstream Service
+ *
+ * Maintains a WebSocket subscription to a Jetstream instance and turns
+ * commits that target the logged-in account (likes, reposts, replies,
+ * quotes, mentions and follows) into notification objects, so the app no
+ * longer has to poll listNotifications while the socket is healthy.
+ *
+ * Jetstream can only filter by collection and by author, and notifications
+ * come from anyone, so the socket carries every like, repost, post and follow
+ * on the network. To pay for that once rather than per tab, the tabs of an
+ * account elect a leader with a Web Lock; only the leader opens the socket,
+ * and it shares its connection state and notifications with the other tabs
+ * over a BroadcastChannel. Events that don't mention the viewer's DID are
+ * skipped without being parsed, and the leader logs the event rate.
+ */
+
+import {
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyRichtextFacet,
+  type AppBskyActorDefs,
+  type AppBskyFeedLike,
+  type AppBskyFeedPost,
+  type AppBskyFeedRepost,
+  type AppBskyGraphFollow,
+  type AppBskyNotificationListNotifications,
+  type BskyAgent,
+} from "@atproto/api";
+import { createLogger } from "../utils/logger";
+import { rateLimitedProfileFetch } from "./rate-limiter";
+
+type Notification = AppBskyNotificationListNotifications.Notification;
+
+export type JetstreamConnectionState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting";
+
+export interface JetstreamCommitEvent {
+  did: string;
+  time_us: number;
+  kind: "commit";
+  commit: {
+    rev: string;
+    operation: "create" | "update" | "delete";
+    collection: string;
+    rkey: string;
+    record?: { [key: string]: unknown };
+    cid?: string;
+  };
+}
+
+export interface JetstreamOtherEvent {
+  did: string;
+  time_us: number;
+  kind: "identity" | "account";
+}
+
+export type JetstreamEvent = JetstreamCommitEvent | JetstreamOtherEvent;
+
+export interface JetstreamOptions {
+  endpoint?: string;
+  // Collections to subscribe to, defaults to everything that can notify us
+  wantedCollections?: string[];
+  // Only receive commits authored by these DIDs. Notifications come from
+  // any account, so the app doesn't set this; it is for narrower streams.
+  wantedDids?: string[];
+}
+
+export interface DetectedNotification {
+  reason: Notification["reason"];
+  reasonSubject?: string;
+}
+
+const DEFAULT_ENDPOINT = "wss://jetstream2.us-east.bsky.network/subscribe";
+const DEFAULT_COLLECTIONS = [
+  "app.bsky.feed.like",
+  "app.bsky.feed.repost",
+  "app.bsky.feed.post",
+  "app.bsky.graph.follow",
+];
+
+const CURSOR_KEY_PREFIX = "bsky_jetstream_cursor_";
+const CURSOR_SAVE_INTERVAL_MS = 5000;
+// Rewind a little on resume so events in flight during the drop aren't lost
+const CURSOR_REWIND_US = 5 * 1000 * 1000;
+// Jetstream only keeps a limited window of events, older cursors are useless
+const MAX_CURSOR_AGE_US = 24 * 60 * 60 * 1000 * 1000;
+
+// One tab per account holds the lock and the socket
+const LEADER_LOCK_PREFIX = "bsky_jetstream_leader_";
+const CHANNEL_PREFIX = "bsky_jetstream_";
+const STATS_INTERVAL_MS = 60 * 1000;
+// Events are {"did":...,"time_us":...}, the cursor needs no full parse
+const TIME_US_PATTERN = /"time_us":(\d+)/;
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+const FLUSH_DELAY_MS = 1000;
+
+const logger = createLogger("JetstreamService");
+
+const targetsRepo = (uri: unknown, did: string): boolean =>
+  typeof uri === "string" && uri.startsWith(`at://${did}/`);
+
+/**
+ * Work out whether a Jetstream commit is a notification for `viewerDid`.
+ * Mirrors the precedence the AppView uses: reply, then quote, then mention.
+ */
+export function detectNotification(
+  event: JetstreamEvent,
+  viewerDid: string,
+): DetectedNotification | null {
+  if (event.kind !== "commit") return null;
+  if (event.did === viewerDid) return null;
+
+  const { operation, collection, record } = event.commit;
+  if (operation !== "create" || !record) return null;
+
+  switch (collection) {
+    case "app.bsky.feed.like":
+    case "app.bsky.feed.repost": {
+      // Records off the firehose aren't validated, so nothing is guaranteed
+      const subjectUri = (
+        record as Partial<AppBskyFeedLike.Record | AppBskyFeedRepost.Record>
+      ).subject?.uri;
+      if (targetsRepo(subjectUri, viewerDid)) {
+        return {
+          reason: collection === "app.bsky.feed.like" ? "like" : "repost",
+          reasonSubject: subjectUri,
+        };
+      }
+      return null;
+    }
+
+    case "app.bsky.graph.follow":
+      return (record as AppBskyGraphFollow.Record).subject === viewerDid
+        ? { reason: "follow" }
+        : null;
+
+    case "app.bsky.feed.post": {
+      const post = record as Partial<AppBskyFeedPost.Record>;
+      const parentUri = post.reply?.parent?.uri;
+      if (targetsRepo(parentUri, viewerDid)) {
+        return { reason: "reply", reasonSubject: parentUri };
+      }
+
+      const embed = post.embed;
+      const quotedUri = AppBskyEmbedRecordWithMedia.isMain(embed)
+        ? embed.record?.record?.uri
+        : AppBskyEmbedRecord.isMain(embed)
+          ? embed.record?.uri
+          : undefined;
+      if (targetsRepo(quotedUri, viewerDid)) {
+        return { reason: "quote", reasonSubject: quotedUri };
+      }
+
+      const mentioned = (post.facets || []).some(
+        (facet: AppBskyRichtextFacet.Main) =>
+          (facet.features || []).some(
+            (feature) =>
+              AppBskyRichtextFacet.isMention(feature) &&
+              feature.did === viewerDid,
+          ),
+      );
+      return mentioned ? { reason: "mention" } : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+type StateListener = (state: JetstreamConnectionState) => void;
+type NotificationListener = (notifications: Notification[]) => void;
+
+interface PendingNotification {
+  event: JetstreamCommitEvent;
+  detected: DetectedNotification;
+}
+
+// What the leader tab tells the others
+type TabMessage =
+  | { type: "state-request" }
+  | { type: "state"; state: JetstreamConnectionState }
+  | { type: "notifications"; notifications: Notification[] };
+
+class JetstreamService {
+  private agent: BskyAgent | null = null;
+  private viewerDid: string | null = null;
+  private options: JetstreamOptions = {};
+  private socket: WebSocket | null = null;
+  private state: JetstreamConnectionState = "idle";
+  private stateListeners = new Set<StateListener>();
+  private notificationListeners = new Set<NotificationListener>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: PendingNotification[] = [];
+  private cursor: number | null = null;
+  private lastCursorSave = 0;
+  private profileCache = new Map<string, AppBskyActorDefs.ProfileView>();
+  private channel: BroadcastChannel | null = null;
+  private isLeader = false;
+  private releaseLeadership: (() => void) | null = null;
+  private stats = { received: 0, parsed: 0, since: Date.now() };
+
+  connect(agent: BskyAgent, options: JetstreamOptions = {}) {
+    const did = agent.session?.did;
+    if (!did) {
+      logger.warn("Cannot connect without an authenticated session");
+      return;
+    }
+
+    if (this.viewerDid === did) {
+      return;
+    }
+
+    this.disconnect();
+    this.agent = agent;
+    this.viewerDid = did;
+    this.options = options;
+    this.joinTabs(did);
+  }
+
+  disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.close();
+    }
+
+    this.saveCursor(true);
+    this.cursor = null;
+    this.pending = [];
+    this.reconnectAttempts = 0;
+    this.agent = null;
+    this.viewerDid = null;
+
+    // Let the next tab in line take over the socket
+    this.isLeader = false;
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+    this.channel?.close();
+    this.channel = null;
+    this.setState("idle");
+  }
+
+  getState = (): JetstreamConnectionState => this.state;
+
+  isConnected(): boolean {
+    return this.state === "connected";
+  }
+
+  subscribe = (listener: StateListener) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  onNotifications(listener: NotificationListener) {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  private joinTabs(did: string) {
+    if (
+      typeof navigator === "undefined" ||
+      !navigator.locks ||
+      typeof BroadcastChannel === "undefined"
+    ) {
+      // No way to coordinate, every tab keeps its own socket
+      this.lead();
+      return;
+    }
+
+    const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${did}`);
+    this.channel = channel;
+    channel.onmessage = (message: MessageEvent<TabMessage>) =>
+      this.handleTabMessage(message.data);
+
+    // Follow the current leader's state until this tab takes over
+    this.setState("connecting");
+    channel.postMessage({ type: "state-request" } satisfies TabMessage);
+
+    navigator.locks
+      .request(`${LEADER_LOCK_PREFIX}${did}`, () => {
+        // Disconnected (or switched accounts) while waiting in line
+        if (this.channel !== channel) return;
+        return new Promise<void>((resolve) => {
+          this.releaseLeadership = resolve;
+          this.lead();
+        });
+      })
+      .catch((error) => {
+        logger.error("Failed to request Jetstream leadership:", error);
+      });
+  }
+
+  private lead() {
+    logger.log("Leading Jetstream for this account");
+    this.isLeader = true;
+    this.cursor = this.loadCursor();
+    this.stats = { received: 0, parsed: 0, since: Date.now() };
+    this.openSocket();
+  }
+
+  private handleTabMessage(message: TabMessage) {
+    switch (message.type) {
+      case "state-request":
+        if (this.isLeader) this.broadcast({ type: "state", state: this.state });
+        break;
+      case "state":
+        if (!this.isLeader) this.setState(message.state);
+        break;
+      case "notifications":
+        if (!this.isLeader) this.emit(message.notifications);
+        break;
+    }
+  }
+
+  private broadcast(message: TabMessage) {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      logger.error("Failed to share Jetstream update with other tabs:", error);
+    }
+  }
+
+  private emit(notifications: Notification[]) {
+    this.notificationListeners.forEach((listener) => listener(notifications));
+  }
+
+  private buildUrl(): string {
+    const url = new URL(this.options.endpoint || DEFAULT_ENDPOINT);
+    const collections = this.options.wantedCollections || DEFAULT_COLLECTIONS;
+    collections.forEach((collection) =>
+      url.searchParams.append("wantedCollections", collection),
+    );
+    this.options.wantedDids?.forEach((did) =>
+      url.searchParams.append("wantedDids", did),
+    );
+
+    if (this.cursor) {
+      url.searchParams.set(
+        "cursor",
+        String(Math.max(0, this.cursor - CURSOR_REWIND_US)),
+      );
+    }
+
+    return url.toString();
+  }
+
+  private openSocket() {
+    this.setState(this.reconnectAttempts > 0 ? "reconnecting" : "connecting");
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.buildUrl());
+    } catch (error) {
+      logger.error("Failed to open Jetstream socket:", error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+
+    socket.onopen = () => {
+      logger.log("Connected to Jetstream");
+      this.reconnectAttempts = 0;
+      this.setState("connected");
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        this.handleMessage(String(message.data));
+      } catch (error) {
+        logger.error("Failed to handle Jetstream message:", error);
+      }
+    };
+
+    socket.onerror = (error) => {
+      logger.error("Jetstream socket error:", error);
+    };
+
+    socket.onclose = () => {
+      logger.log("Jetstream socket closed");
+      this.socket = null;
+      this.saveCursor(true);
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.viewerDid) return;
+
+    this.setState("reconnecting");
+    const backoff = Math.min(
+      MAX_BACKOFF_MS,
+      INITIAL_BACKOFF_MS * 2 ** this.reconnectAttempts,
+    );
+    // Jitter so many tabs don't reconnect in lockstep
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.reconnectAttempts++;
+
+    logger.log(`Reconnecting in ${Math.round(delay)}ms`, {
+      attempt: this.reconnectAttempts,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private handleMessage(data: string) {
+    this.recordStats(false);
+
+    // A notification for the viewer names their DID somewhere in the event
+    if (!this.viewerDid || !data.includes(this.viewerDid)) {
+      const time = TIME_US_PATTERN.exec(data);
+      if (time) this.advanceCursor(Number(time[1]));
+      return;
+    }
+
+    this.recordStats(true);
+    this.handleEvent(JSON.parse(data) as JetstreamEvent);
+  }
+
+  private recordStats(parsed: boolean) {
+    if (parsed) {
+      this.stats.parsed++;
+      return;
+    }
+    this.stats.received++;
+
+    const elapsed = Date.now() - this.stats.since;
+    if (elapsed < STATS_INTERVAL_MS) return;
+    logger.log(
+      `Received ${this.stats.received} events in ${Math.round(elapsed / 1000)}s, parsed ${this.stats.parsed}`,
+    );
+    this.stats = { received: 0, parsed: 0, since: Date.now() };
+  }
+
+  private advanceCursor(timeUs: number) {
+    this.cursor = timeUs;
+    this.saveCursor();
+  }
+
+  private handleEvent(event: JetstreamEvent) {
+    this.advanceCursor(event.time_us);
+
+    if (!this.viewerDid) return;
+    const detected = detectNotification(event, this.viewerDid);
+    if (!detected) return;
+
+    this.pending.push({ event: event as JetstreamCommitEvent, detected });
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  private async flush() {
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) return;
+
+    const profiles = await this.resolveProfiles(
+      batch.map(({ event }) => event.did),
+    );
+
+    const notifications: Notification[] = batch.map(({ event, detected }) => ({
+      uri: `at://${event.did}/${event.commit.collection}/${event.commit.rkey}`,
+      cid: event.commit.cid || "",
+      author: profiles.get(event.did) || { did: event.did, handle: event.did },
+      reason: detected.reason,
+      reasonSubject: detected.reasonSubject,
+      record: event.commit.record || {},
+      isRead: false,
+      indexedAt: new Date(event.time_us / 1000).toISOString(),
+      labels: [],
+    }));
+
+    logger.log(`Emitting ${notifications.length} live notifications`);
+    this.emit(notifications);
+    this.broadcast({ type: "notifications", notifications });
+  }
+
+  private async resolveProfiles(
+    dids: string[],
+  ): Promise<Map<string, AppBskyActorDefs.ProfileView>> {
+    const missing = [...new Set(dids)].filter(
+      (did) => !this.profileCache.has(did),
+    );
+
+    // getProfiles accepts at most 25 actors per call
+    for (let i = 0; i < missing.length && this.agent; i += 25) {
+      const actors = missing.slice(i, i + 25);
+      try {
+        const response = await rateLimitedProfileFetch(() =>
+          this.agent!.getProfiles({ actors }),
+        );
+        response.data.profiles.forEach((profile) =>
+          this.profileCache.set(profile.did, {
+            did: profile.did,
+            handle: profile.handle,
+            displayName: profile.displayName,
+            avatar: profile.avatar,
+            viewer: profile.viewer,
+            labels: profile.labels,
+          }),
+        );
+      } catch (error) {
+        logger.error("Failed to hydrate Jetstream authors:", error);
+      }
+    }
+
+    return this.profileCache;
+  }
+
+  private loadCursor(): number | null {
+    if (!this.viewerDid) return null;
+
+    const saved = Number(
+      localStorage.getItem(`${CURSOR_KEY_PREFIX}${this.viewerDid}`),
+    );
+    if (!saved || Date.now() * 1000 - saved > MAX_CURSOR_AGE_US) {
+      return null;
+    }
+    return saved;
+  }
+
+  private saveCursor(force = false) {
+    if (!this.viewerDid || !this.cursor) return;
+
+    const now = Date.now();
+    if (!force && now - this.lastCursorSave < CURSOR_SAVE_INTERVAL_MS) return;
+
+    this.lastCursorSave = now;
+    localStorage.setItem(
+      `${CURSOR_KEY_PREFIX}${this.viewerDid}`,
+      String(this.cursor),
+    );
+  }
+
+  private setState(state: JetstreamConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+    if (this.isLeader) this.broadcast({ type: "state", state });
+  }
+}
+
+export const jetstreamService = new JetstreamService();
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  LocalLinkMetadataResolver,
+  linkMetadataService,
+  type LinkMetadataResolver,
+} from "./link-metadata";
+
+describe("LocalLinkMetadataResolver", () => {
+  it("builds a card from the URL", async () => {
+    const resolver = new LocalLinkMetadataResolver();
+
+    expect(
+      await resolver.resolve("https://www.example.com/blog/hello%20world/"),
+    ).toEqual({
+      url: "https://www.example.com/blog/hello%20world/",
+      title: "example.com",
+      description: "/blog/hello world",
+    });
+  });
+
+  it("returns fixtures for known URLs", async () => {
+    const resolver = new LocalLinkMetadataResolver({
+      "https://example.com": { title: "Example", image: "thumb.png" },
+    });
+
+    expect(await resolver.resolve("https://example.com")).toEqual({
+      url: "https://example.com",
+      title: "Example",
+      description: "",
+      image: "thumb.png",
+    });
+  });
+
+  it("ignores text that isn't a URL", async () => {
+    expect(
+      await new LocalLinkMetadataResolver().resolve("not a url"),
+    ).toBeNull();
+  });
+});
+
+describe("linkMetadataService", () => {
+  const original = linkMetadataService.getResolver();
+
+  afterEach(() => {
+    linkMetadataService.setResolver(original);
+  });
+
+  it("resolves through the resolver it is given", async () => {
+    const resolver = new LocalLinkMetadataResolver({
+      "https://example.com": { title: "Fixture" },
+    });
+    linkMetadataService.setResolver(resolver);
+
+    expect(linkMetadataService.getResolver()).toBe(resolver);
+    expect(
+      (await linkMetadataService.resolve("https://example.com"))?.title,
+    ).toBe("Fixture");
+  });
+
+  it("caches results per URL until the resolver changes", async () => {
+    const resolver = new LocalLinkMetadataResolver();
+    const resolve = vi.spyOn(resolver, "resolve");
+    linkMetadataService.setResolver(resolver);
+
+    await linkMetadataService.resolve("https://example.com/a");
+    await linkMetadataService.resolve("https://example.com/a");
+    expect(resolve).toHaveBeenCalledTimes(1);
+
+    const next = new LocalLinkMetadataResolver({
+      "https://example.com/a": { title: "Changed" },
+    });
+    linkMetadataService.setResolver(next);
+    expect(
+      (await linkMetadataService.resolve("https://example.com/a"))?.title,
+    ).toBe("Changed");
+  });
+
+  it("retries URLs whose lookup failed", async () => {
+    const resolver: LinkMetadataResolver = {
+      name: "flaky",
+      resolve: vi
+        .fn()
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockResolvedValueOnce({
+          url: "https://example.com",
+          title: "Back",
+          description: "",
+        }),
+    };
+    linkMetadataService.setResolver(resolver);
+
+    expect(await linkMetadataService.resolve("https://example.com")).toBeNull();
+    expect(
+      (await linkMetadataService.resolve("https://example.com"))?.title,
+    ).toBe("Back");
+  });
+});
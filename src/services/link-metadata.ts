@@ -0,0 +1,169 @@
+/**
+ * Link Metadata Service
+ *
+ * Resolves title/description/thumbnail for URLs so posts can carry an
+ * app.bsky.embed.external link card. Resolvers are pluggable: the default
+ * uses Bluesky's public card extractor, and a local stand-in that never
+ * touches the network can be selected with VITE_LINK_PREVIEW_RESOLVER=local
+ * (or swapped in with setResolver) for tests and offline development.
+ */
+
+import type { $Typed, AppBskyEmbedExternal, BskyAgent } from "@atproto/api";
+import { compressImage, isCompressibleImage } from "../utils/image-compression";
+import { createLogger } from "../utils/logger";
+
+export interface LinkMetadata {
+  url: string;
+  title: string;
+  description: string;
+  // Thumbnail URL, fetched and uploaded as a blob when posting
+  image?: string;
+}
+
+export interface LinkMetadataResolver {
+  name: string;
+  resolve(url: string): Promise<LinkMetadata | null>;
+}
+
+const CARDYB_ENDPOINT = "https://cardyb.bsky.app/v1/extract";
+const MAX_THUMB_SIZE = 1000000; // Same 1MB limit as post images
+
+const logger = createLogger("LinkMetadata");
+
+/**
+ * Resolver backed by cardyb, the extractor the official app uses. Its image
+ * URLs are proxied, so thumbnails can be fetched without CORS trouble.
+ */
+export class CardyBResolver implements LinkMetadataResolver {
+  name = "cardyb";
+
+  async resolve(url: string): Promise<LinkMetadata | null> {
+    const response = await fetch(
+      `${CARDYB_ENDPOINT}?url=${encodeURIComponent(url)}`,
+    );
+    if (!response.ok) {
+      throw new Error(`Link preview request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.error || !data.title) {
+      return null;
+    }
+
+    return {
+      url: data.url || url,
+      title: data.title,
+      description: data.description || "",
+      image: data.image || undefined,
+    };
+  }
+}
+
+/**
+ * Offline stand-in that builds a card from the URL itself. Fixtures can be
+ * supplied to return specific metadata for known URLs.
+ */
+export class LocalLinkMetadataResolver implements LinkMetadataResolver {
+  name = "local";
+
+  constructor(private fixtures: Record<string, Partial<LinkMetadata>> = {}) {}
+
+  async resolve(url: string): Promise<LinkMetadata | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const path = parsed.pathname.replace(/\/$/, "");
+    return {
+      url,
+      title: parsed.hostname.replace(/^www\./, ""),
+      description: path ? decodeURIComponent(path) : "",
+      ...this.fixtures[url],
+    };
+  }
+}
+
+class LinkMetadataService {
+  private resolver: LinkMetadataResolver =
+    import.meta.env.VITE_LINK_PREVIEW_RESOLVER === "local"
+      ? new LocalLinkMetadataResolver()
+      : new CardyBResolver();
+  private cache = new Map<string, Promise<LinkMetadata | null>>();
+
+  setResolver(resolver: LinkMetadataResolver) {
+    this.resolver = resolver;
+    this.cache.clear();
+  }
+
+  getResolver(): LinkMetadataResolver {
+    return this.resolver;
+  }
+
+  resolve(url: string): Promise<LinkMetadata | null> {
+    const cached = this.cache.get(url);
+    if (cached) return cached;
+
+    const pending = this.resolver.resolve(url).catch((error) => {
+      logger.error(`Failed to resolve link metadata for ${url}:`, error);
+      // Let the next attempt try again
+      this.cache.delete(url);
+      return null;
+    });
+    this.cache.set(url, pending);
+    return pending;
+  }
+
+  /**
+   * Build the external embed for a post, uploading the thumbnail as a blob.
+   * A thumbnail that can't be fetched is skipped rather than failing the post.
+   */
+  async buildExternalEmbed(
+    agent: BskyAgent,
+    metadata: LinkMetadata,
+  ): Promise<$Typed<AppBskyEmbedExternal.Main>> {
+    const external: AppBskyEmbedExternal.External = {
+      uri: metadata.url,
+      title: metadata.title,
+      description: metadata.description,
+    };
+
+    if (metadata.image) {
+      try {
+        external.thumb = await this.uploadThumbnail(agent, metadata.image);
+      } catch (error) {
+        logger.warn("Posting link card without thumbnail:", error);
+      }
+    }
+
+    return { $type: "app.bsky.embed.external", external };
+  }
+
+  private async uploadThumbnail(agent: BskyAgent, imageUrl: string) {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw new Error(`Thumbnail request failed: ${response.status}`);
+    }
+
+    const blob = await response.blob();
+    let file = new File([blob], "thumbnail", {
+      type: blob.type || "image/jpeg",
+    });
+    if (file.size > MAX_THUMB_SIZE && isCompressibleImage(file)) {
+      file = await compressImage(file);
+    }
+    if (file.size > MAX_THUMB_SIZE) {
+      throw new Error("Thumbnail is larger than 1MB");
+    }
+
+    const upload = await agent.uploadBlob(
+      new Uint8Array(await file.arrayBuffer()),
+      { encoding: file.type },
+    );
+    return upload.data.blob;
+  }
+}
+
+export const linkMetadataService = new LinkMetadataService();
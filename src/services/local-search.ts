@@ -0,0 +1,258 @@
+/**
+ * Local Search
+ *
+ * Searches notifications and cached posts on this device through the index
+ * in SearchIndexDB, so it works offline and reaches back as far as the
+ * archive does. Queries are words plus optional operators:
+ *
+ *   from:alice.bsky.social  reason:reply  after:2024-01-01  before:2024-06-01
+ *   has:image  "exact phrase"
+ *
+ * Every word has to match the start of a word in the text, so "photo" also
+ * finds "photography".
+ */
+
+import type {
+  AppBskyFeedDefs,
+  AppBskyNotificationListNotifications,
+} from "@atproto/api";
+import { createLogger } from "../utils/logger";
+import { NotificationCacheService } from "./notification-cache-service";
+import { NotificationStorageDB } from "./notification-storage-db";
+import { PostCacheService } from "./post-cache-service";
+import { PostStorageDB } from "./post-storage-db";
+import {
+  foldText,
+  SEARCH_INDEX_VERSION,
+  SearchIndexDB,
+  tokenize,
+  type SearchDocument,
+} from "./search-index-db";
+
+type Notification = AppBskyNotificationListNotifications.Notification;
+type Post = AppBskyFeedDefs.PostView;
+
+export interface LocalSearchQuery {
+  terms: string[];
+  phrases: string[];
+  from: string[];
+  reasons: string[];
+  before?: string;
+  after?: string;
+  hasImage: boolean;
+}
+
+export type LocalSearchResult =
+  | { kind: "notification"; uri: string; notification: Notification }
+  | { kind: "post"; uri: string; post: Post };
+
+const BUILD_BATCH_SIZE = 500;
+const DEFAULT_LIMIT = 100;
+
+const logger = createLogger("LocalSearch");
+
+// Accepts the plural forms people tend to type, "reason:likes"
+const normalizeReason = (reason: string) =>
+  reason
+    .toLowerCase()
+    .replace(/s$/, "")
+    .replace(/^replie$/, "reply");
+
+const parseDate = (value: string): string | undefined => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+export function parseLocalSearchQuery(input: string): LocalSearchQuery {
+  const query: LocalSearchQuery = {
+    terms: [],
+    phrases: [],
+    from: [],
+    reasons: [],
+    hasImage: false,
+  };
+
+  const rest = input.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    query.phrases.push(foldText(phrase.trim()));
+    query.terms.push(...tokenize(phrase));
+    return " ";
+  });
+
+  for (const part of rest.split(/\s+/).filter(Boolean)) {
+    const [operator, ...valueParts] = part.split(":");
+    const value = valueParts.join(":");
+    switch (value ? operator.toLowerCase() : "") {
+      case "from":
+        query.from.push(value.replace(/^@/, "").toLowerCase());
+        break;
+      case "reason":
+        query.reasons.push(normalizeReason(value));
+        break;
+      case "before":
+        query.before = parseDate(value);
+        break;
+      case "after":
+        query.after = parseDate(value);
+        break;
+      case "has":
+        if (value.toLowerCase().startsWith("image")) query.hasImage = true;
+        break;
+      default:
+        query.terms.push(...tokenize(part));
+    }
+  }
+
+  query.terms = [...new Set(query.terms)];
+  return query;
+}
+
+const matchesFilters = (
+  document: SearchDocument,
+  query: LocalSearchQuery,
+): boolean => {
+  if (
+    query.from.length > 0 &&
+    !query.from.some(
+      (author) =>
+        author === document.authorHandle || author === document.authorDid,
+    )
+  ) {
+    return false;
+  }
+  // Reasons only exist on notifications, so they rule out cached posts
+  if (
+    query.reasons.length > 0 &&
+    !(document.reason && query.reasons.includes(document.reason))
+  ) {
+    return false;
+  }
+  if (query.after && document.indexedAt < query.after) return false;
+  if (query.before && document.indexedAt >= query.before) return false;
+  if (query.hasImage && !document.hasImage) return false;
+  if (query.phrases.length > 0) {
+    const text = foldText(document.text);
+    if (!query.phrases.every((phrase) => text.includes(phrase))) return false;
+  }
+  return true;
+};
+
+const isEmptyQuery = (query: LocalSearchQuery) =>
+  query.terms.length === 0 &&
+  query.from.length === 0 &&
+  query.reasons.length === 0 &&
+  !query.before &&
+  !query.after &&
+  !query.hasImage;
+
+async function findDocuments(
+  query: LocalSearchQuery,
+  limit: number,
+): Promise<SearchDocument[]> {
+  const index = SearchIndexDB.getInstance();
+
+  // Operators alone: walk the newest documents instead of the word index
+  if (query.terms.length === 0) {
+    return index.scanRecent((doc) => matchesFilters(doc, query), limit);
+  }
+
+  let ids = new Set<string>();
+  // Rarest-looking (longest) words first keeps the intersection small
+  const terms = [...query.terms].sort((a, b) => b.length - a.length);
+  for (const [i, term] of terms.entries()) {
+    const matches = await index.getIdsForPrefix(term);
+    ids = i === 0 ? matches : new Set([...ids].filter((id) => matches.has(id)));
+    if (ids.size === 0) return [];
+  }
+
+  const documents = await index.getDocuments(ids);
+  return documents
+    .filter((doc) => matchesFilters(doc, query))
+    .sort((a, b) => b.indexedAt.localeCompare(a.indexedAt))
+    .slice(0, limit);
+}
+
+/** Run a query and load what the matching documents point at */
+export async function searchLocalHistory(
+  input: string,
+  limit = DEFAULT_LIMIT,
+): Promise<LocalSearchResult[]> {
+  const query = parseLocalSearchQuery(input);
+  if (isEmptyQuery(query)) return [];
+
+  await Promise.all([
+    NotificationCacheService.getInstance().init(),
+    PostCacheService.getInstance().init(),
+  ]);
+  const notificationDb = NotificationStorageDB.getInstance();
+  const postDb = PostStorageDB.getInstance();
+
+  const documents = await findDocuments(query, limit);
+  const results: LocalSearchResult[] = [];
+  const seen = new Set<string>();
+
+  // A reply is indexed as both a notification and a post, show it once
+  const notificationUris = new Set(
+    documents
+      .filter((doc) => doc.kind === "notification")
+      .map((doc) => doc.uri),
+  );
+  for (const document of documents) {
+    if (seen.has(document.uri)) continue;
+    if (document.kind === "post" && notificationUris.has(document.uri)) {
+      continue;
+    }
+    // Sources removed since indexing (cache cleanup) drop out here
+    if (document.kind === "notification") {
+      const notification = await notificationDb.getNotification(document.uri);
+      if (!notification) continue;
+      results.push({ kind: "notification", uri: document.uri, notification });
+    } else {
+      const post = await postDb.getPost(document.uri);
+      if (!post) continue;
+      results.push({ kind: "post", uri: document.uri, post });
+    }
+    seen.add(document.uri);
+  }
+
+  return results;
+}
+
+/**
+ * Index everything already stored before incremental indexing existed, or
+ * after the tokenizer changed. Later saves keep the index current.
+ */
+export async function ensureSearchIndex(): Promise<void> {
+  const index = SearchIndexDB.getInstance();
+  const meta = await index.getMetadata();
+  if (meta?.version === SEARCH_INDEX_VERSION) return;
+
+  logger.log("Building local search index");
+  await index.clearAll();
+
+  const notificationCache = NotificationCacheService.getInstance();
+  await notificationCache.init();
+  const notificationDb = NotificationStorageDB.getInstance();
+  for (let offset = 0; ; offset += BUILD_BATCH_SIZE) {
+    const batch = await notificationDb.getAllNotifications(
+      BUILD_BATCH_SIZE,
+      offset,
+    );
+    await index.indexNotifications(batch);
+    if (batch.length < BUILD_BATCH_SIZE) break;
+  }
+
+  const postCache = PostCacheService.getInstance();
+  await postCache.init();
+  const postDb = PostStorageDB.getInstance();
+  for (let offset = 0; ; offset += BUILD_BATCH_SIZE) {
+    const batch = await postDb.getAllPosts(BUILD_BATCH_SIZE, offset);
+    await index.indexPosts(batch);
+    if (batch.length < BUILD_BATCH_SIZE) break;
+  }
+
+  await index.saveMetadata({
+    version: SEARCH_INDEX_VERSION,
+    builtAt: Date.now(),
+  });
+  logger.log(`Local search index built, ${await index.getCount()} documents`);
+}
@@ -0,0 +1,434 @@
+/**
+ * Notification Archive
+ *
+ * Archive mode keeps the whole notification history in NotificationStorageDB
+ * instead of the ~4-week window the background loader fetches. The backfill
+ * walks listNotifications from newest to oldest and checkpoints the cursor
+ * after every page, so it resumes where it stopped after a reload.
+ *
+ * The archive tracks the stretch it holds without holes, from `head` (newest)
+ * down to `frontier` (oldest). When a polled window no longer reaches back
+ * to the head, e.g. after the app was closed for a while, the missing
+ * notifications are fetched from the top until they meet it again.
+ *
+ * Retention, when set, stops the backfill at the cutoff and a daily job
+ * prunes anything older, whether or not archive mode is on.
+ */
+
+import type { BskyAgent } from "@atproto/api";
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { subMonths } from "date-fns";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+import { getNotificationService } from "./atproto/notifications";
+import { NotificationCacheService } from "./notification-cache-service";
+import { NotificationStorageDB } from "./notification-storage-db";
+
+export type ArchiveStatus =
+  | "idle"
+  | "running"
+  | "paused"
+  | "complete"
+  | "error";
+
+export interface NotificationArchiveState {
+  enabled: boolean;
+  status: ArchiveStatus;
+  // Checkpoint, the cursor of the next older page
+  cursor?: string;
+  // indexedAt of the newest and oldest notifications held without gaps
+  head?: string;
+  frontier?: string;
+  // When the account was created, where the history starts
+  historyStart?: string;
+  fetchedCount: number;
+  // Time spent backfilling across reloads, for the ETA
+  elapsedMs: number;
+  completedAt?: string;
+  lastError?: string;
+  // Set while notifications between the polled window and the head are
+  // being fetched
+  gapDetectedAt?: string;
+  // Months to keep, null keeps everything
+  retentionMonths: number | null;
+  lastPrunedAt?: string;
+  prunedCount: number;
+}
+
+export interface NotificationArchiveProgress {
+  // 0 to 1, null until there's a known start to measure against
+  fraction: number | null;
+  etaMs: number | null;
+}
+
+const ARCHIVE_KEY = "bsky_notification_archive";
+const PAGE_SIZE = 100;
+const PAGE_SPACING_MS = 300;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const logger = createLogger("NotificationArchive");
+
+const DEFAULT_STATE: NotificationArchiveState = {
+  enabled: false,
+  status: "idle",
+  fetchedCount: 0,
+  elapsedMs: 0,
+  retentionMonths: null,
+  prunedCount: 0,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const getRetentionCutoff = (
+  retentionMonths: number | null,
+  now = new Date(),
+): Date | null => (retentionMonths ? subMonths(now, retentionMonths) : null);
+
+/**
+ * How much of the history the backfill has covered, measured in time from
+ * the head back to the account's creation (or the retention cutoff), and
+ * the time left at the rate so far.
+ */
+export const getArchiveProgress = (
+  state: NotificationArchiveState,
+): NotificationArchiveProgress => {
+  if (state.status === "complete") return { fraction: 1, etaMs: 0 };
+  if (!state.head || !state.frontier || !state.historyStart) {
+    return { fraction: null, etaMs: null };
+  }
+
+  const cutoff = getRetentionCutoff(state.retentionMonths);
+  const start = Math.max(
+    new Date(state.historyStart).getTime(),
+    cutoff?.getTime() ?? 0,
+  );
+  const head = new Date(state.head).getTime();
+  const covered = head - new Date(state.frontier).getTime();
+  const total = head - start;
+  if (total <= 0) return { fraction: 1, etaMs: 0 };
+
+  const fraction = Math.min(1, Math.max(0, covered / total));
+  const etaMs =
+    covered > 0 && state.elapsedMs > 0
+      ? Math.round((state.elapsedMs * (total - covered)) / covered)
+      : null;
+  return { fraction, etaMs };
+};
+
+type Listener = () => void;
+
+class NotificationArchiveService {
+  private state: NotificationArchiveState = this.load();
+  private listeners = new Set<Listener>();
+  private agent: BskyAgent | null = null;
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+  private backfillPromise: Promise<void> | null = null;
+  private headSyncPromise: Promise<void> | null = null;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = (): NotificationArchiveState => this.state;
+
+  /**
+   * Run archive jobs with `agent`: catch up on notifications that arrived
+   * while the app was closed, resume an interrupted backfill and prune by
+   * the retention setting.
+   */
+  async start(agent: BskyAgent): Promise<void> {
+    this.stop();
+    this.agent = agent;
+
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
+    const lastPruned = this.state.lastPrunedAt
+      ? new Date(this.state.lastPrunedAt).getTime()
+      : 0;
+    if (Date.now() - lastPruned > PRUNE_INTERVAL_MS) {
+      await this.prune();
+    }
+
+    if (!this.state.enabled) return;
+    if (this.state.head) {
+      await this.syncHead();
+    }
+    if (this.state.status === "running" || this.state.status === "error") {
+      this.update({ status: "running", lastError: undefined });
+      void this.runBackfill();
+    }
+  }
+
+  stop() {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    // Running loops check the agent and stop after their current page
+    this.agent = null;
+  }
+
+  enable() {
+    if (this.state.enabled) return;
+    this.update({
+      ...DEFAULT_STATE,
+      retentionMonths: this.state.retentionMonths,
+      lastPrunedAt: this.state.lastPrunedAt,
+      prunedCount: this.state.prunedCount,
+      enabled: true,
+      status: "running",
+    });
+    void this.runBackfill();
+  }
+
+  // Notifications already archived are kept, only the backfill is reset
+  disable() {
+    this.update({
+      ...DEFAULT_STATE,
+      retentionMonths: this.state.retentionMonths,
+      lastPrunedAt: this.state.lastPrunedAt,
+      prunedCount: this.state.prunedCount,
+    });
+  }
+
+  pause() {
+    if (this.state.status === "running") {
+      this.update({ status: "paused" });
+    }
+  }
+
+  resume() {
+    if (!this.state.enabled || this.state.status === "complete") return;
+    this.update({ status: "running", lastError: undefined });
+    void this.runBackfill();
+  }
+
+  async setRetention(retentionMonths: number | null): Promise<void> {
+    const previous = this.state.retentionMonths;
+    this.update({ retentionMonths });
+    await this.prune();
+
+    // A longer retention leaves older history to fetch. Pruning may have
+    // removed notifications newer than the checkpoint since, so start over
+    // from the top rather than resume.
+    const widened =
+      previous !== null &&
+      (retentionMonths === null || retentionMonths > previous);
+    if (widened && this.state.enabled && this.state.status === "complete") {
+      this.update({
+        status: "running",
+        cursor: undefined,
+        frontier: undefined,
+        completedAt: undefined,
+      });
+      void this.runBackfill();
+    }
+  }
+
+  async prune(): Promise<number> {
+    const cutoff = getRetentionCutoff(this.state.retentionMonths);
+    if (!cutoff) return 0;
+
+    try {
+      await NotificationCacheService.getInstance().init();
+      const deleted =
+        await NotificationStorageDB.getInstance().deleteOlderThan(cutoff);
+      const frontier =
+        this.state.frontier && this.state.frontier < cutoff.toISOString()
+          ? cutoff.toISOString()
+          : this.state.frontier;
+      this.update({
+        frontier,
+        lastPrunedAt: new Date().toISOString(),
+        prunedCount: this.state.prunedCount + deleted,
+      });
+      if (deleted > 0) {
+        logger.log(`Pruned ${deleted} notifications older than ${cutoff}`);
+      }
+      return deleted;
+    } catch (error) {
+      logger.error("Failed to prune notifications:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Check a freshly polled window (newest first) against the archive head.
+   * If it doesn't reach back to the head, the notifications in between were
+   * never fetched and are filled in from the top.
+   */
+  reconcileWindow(notifications: Notification[]) {
+    const { enabled, head } = this.state;
+    if (!enabled || !head || notifications.length === 0) return;
+
+    const newest = notifications[0].indexedAt;
+    const oldest = notifications[notifications.length - 1].indexedAt;
+    if (oldest <= head) {
+      if (newest > head) this.update({ head: newest });
+      return;
+    }
+
+    this.update({ gapDetectedAt: new Date().toISOString() });
+    void this.syncHead();
+  }
+
+  private syncHead(): Promise<void> {
+    if (!this.headSyncPromise) {
+      this.headSyncPromise = this.fetchUntilHead().finally(() => {
+        this.headSyncPromise = null;
+      });
+    }
+    return this.headSyncPromise;
+  }
+
+  private async fetchUntilHead() {
+    const agent = this.agent;
+    const head = this.state.head;
+    if (!agent || !head) return;
+
+    const service = getNotificationService(agent);
+    const db = await this.getDB();
+    let cursor: string | undefined;
+    let newest: string | undefined;
+
+    try {
+      while (this.agent === agent) {
+        const page = await service.listNotifications(cursor, false, PAGE_SIZE);
+        await db.saveNotifications(page.notifications);
+        newest = newest || page.notifications[0]?.indexedAt;
+
+        const reachedHead = page.notifications.some((n) => n.indexedAt <= head);
+        if (reachedHead || !page.cursor) {
+          this.update({
+            head: newest && newest > head ? newest : head,
+            gapDetectedAt: undefined,
+          });
+          return;
+        }
+        cursor = page.cursor;
+        await sleep(PAGE_SPACING_MS);
+      }
+    } catch (error) {
+      // The gap stays flagged and is retried on the next poll
+      logger.error("Failed to fill notification gap:", error);
+    }
+  }
+
+  private runBackfill(): Promise<void> {
+    if (!this.backfillPromise) {
+      const agent = this.agent;
+      this.backfillPromise = this.backfill().finally(() => {
+        this.backfillPromise = null;
+        // Restarted with a new agent while the last page was in flight
+        if (
+          this.agent &&
+          this.agent !== agent &&
+          this.state.status === "running"
+        ) {
+          void this.runBackfill();
+        }
+      });
+    }
+    return this.backfillPromise;
+  }
+
+  private async backfill() {
+    const agent = this.agent;
+    if (!agent) return;
+
+    const service = getNotificationService(agent);
+    const db = await this.getDB();
+
+    if (!this.state.historyStart && agent.session?.did) {
+      try {
+        const profile = await agent.getProfile({ actor: agent.session.did });
+        this.update({ historyStart: profile.data.createdAt });
+      } catch (error) {
+        logger.warn("Couldn't load account creation date:", error);
+      }
+    }
+
+    while (
+      this.agent === agent &&
+      this.state.enabled &&
+      this.state.status === "running"
+    ) {
+      const startedAt = Date.now();
+      try {
+        const page = await service.listNotifications(
+          this.state.cursor,
+          false,
+          PAGE_SIZE,
+        );
+        await db.saveNotifications(page.notifications);
+
+        const { notifications } = page;
+        const oldest = notifications[notifications.length - 1]?.indexedAt;
+        const cutoff = getRetentionCutoff(this.state.retentionMonths);
+        const reachedCutoff =
+          !!cutoff && !!oldest && oldest < cutoff.toISOString();
+        const done = !page.cursor || notifications.length === 0;
+
+        this.update({
+          cursor: page.cursor,
+          head: this.state.head || notifications[0]?.indexedAt,
+          frontier: oldest || this.state.frontier,
+          fetchedCount: this.state.fetchedCount + notifications.length,
+          elapsedMs:
+            this.state.elapsedMs + (Date.now() - startedAt) + PAGE_SPACING_MS,
+          ...(done || reachedCutoff
+            ? { status: "complete", completedAt: new Date().toISOString() }
+            : {}),
+        });
+
+        if (reachedCutoff) {
+          await this.prune();
+        }
+      } catch (error) {
+        logger.error("Notification backfill failed:", error);
+        this.update({
+          status: "error",
+          lastError:
+            error instanceof Error ? error.message : "Failed to fetch page",
+        });
+        return;
+      }
+
+      await sleep(PAGE_SPACING_MS);
+    }
+  }
+
+  private async getDB(): Promise<NotificationStorageDB> {
+    await NotificationCacheService.getInstance().init();
+    return NotificationStorageDB.getInstance();
+  }
+
+  private update(changes: Partial<NotificationArchiveState>) {
+    this.state = { ...this.state, ...changes };
+    this.save();
+  }
+
+  private load(): NotificationArchiveState {
+    try {
+      const saved = localStorage.getItem(accountScopedName(ARCHIVE_KEY));
+      if (saved) {
+        return { ...DEFAULT_STATE, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      logger.error("Failed to load archive state:", error);
+    }
+    return DEFAULT_STATE;
+  }
+
+  private save() {
+    localStorage.setItem(
+      accountScopedName(ARCHIVE_KEY),
+      JSON.stringify(this.state),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const notificationArchive = new NotificationArchiveService();
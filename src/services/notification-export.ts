@@ -0,0 +1,378 @@
+/**
+ * Notification Export
+ *
+ * Writes the notifications in NotificationStorageDB, optionally with the
+ * posts they refer to from PostStorageDB, to CSV, JSON or NDJSON. The store
+ * is read a page at a time and the browser gets a turn between pages, so
+ * exporting tens of thousands of notifications doesn't freeze the tab.
+ *
+ * JSON and NDJSON exports are archives: importNotificationArchive restores
+ * them, e.g. into a fresh browser. CSV is for spreadsheets and can't be
+ * imported back.
+ */
+
+import type { AppBskyFeedDefs } from "@atproto/api";
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { NotificationCacheService } from "./notification-cache-service";
+import {
+  isNotificationRead,
+  notificationReadState,
+} from "./notification-read-state";
+import { NotificationStorageDB } from "./notification-storage-db";
+import { PostCacheService } from "./post-cache-service";
+import { PostStorageDB } from "./post-storage-db";
+
+type Post = AppBskyFeedDefs.PostView;
+
+export type NotificationExportFormat = "csv" | "json" | "ndjson";
+
+export interface NotificationExportFilters {
+  start?: Date;
+  end?: Date;
+  // Empty means every reason
+  reasons: string[];
+  // Handles or DIDs, empty means everyone
+  authors: string[];
+}
+
+export interface NotificationExportOptions {
+  format: NotificationExportFormat;
+  filters: NotificationExportFilters;
+  includePosts: boolean;
+}
+
+export interface NotificationExportProgress {
+  scanned: number;
+  exported: number;
+  // Everything stored, the scan covers at most this many
+  total: number;
+}
+
+/** One exported notification and, when included, the post it's about */
+export interface NotificationArchiveRecord {
+  notification: Notification;
+  post?: Post;
+}
+
+export interface NotificationImportResult {
+  notifications: number;
+  posts: number;
+  skipped: number;
+}
+
+export const EXPORT_FORMATS: {
+  format: NotificationExportFormat;
+  label: string;
+  description: string;
+}[] = [
+  {
+    format: "json",
+    label: "JSON",
+    description: "A single archive file, can be imported again",
+  },
+  {
+    format: "ndjson",
+    label: "NDJSON",
+    description: "One notification per line, can be imported again",
+  },
+  {
+    format: "csv",
+    label: "CSV",
+    description: "For spreadsheets, can't be imported",
+  },
+];
+
+const ARCHIVE_FORMAT = "bsky-notification-archive";
+const ARCHIVE_VERSION = 1;
+const PAGE_SIZE = 500;
+
+const MIME_TYPES: Record<NotificationExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+const CSV_COLUMNS = [
+  "indexed_at",
+  "reason",
+  "author_handle",
+  "author_did",
+  "author_name",
+  "is_read",
+  "uri",
+  "subject_uri",
+  "text",
+  "subject_text",
+];
+
+// Lets the browser paint and handle input between pages
+const yieldToBrowser = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// The post a notification is about: the liked or reposted post, or the
+// reply, quote or mention itself
+const getSubjectUri = (notification: Notification): string | undefined => {
+  if (notification.reason === "like" || notification.reason === "repost") {
+    return notification.reasonSubject;
+  }
+  return notification.reason === "follow" ? undefined : notification.uri;
+};
+
+const getText = (record: unknown): string =>
+  (record as { text?: string } | undefined)?.text || "";
+
+export const csvCell = (value: string): string => {
+  // Keep spreadsheets from running text as formulas
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toCsvRow = ({ notification, post }: NotificationArchiveRecord) =>
+  [
+    notification.indexedAt,
+    notification.reason,
+    notification.author.handle,
+    notification.author.did,
+    notification.author.displayName || "",
+    String(notification.isRead),
+    notification.uri,
+    getSubjectUri(notification) || "",
+    getText(notification.record),
+    post ? getText(post.record) : "",
+  ]
+    .map(csvCell)
+    .join(",");
+
+const normalizeAuthor = (author: string) =>
+  author.trim().replace(/^@/, "").toLowerCase();
+
+const matchesFilters = (
+  notification: Notification,
+  reasons: Set<string>,
+  authors: Set<string>,
+) =>
+  (reasons.size === 0 || reasons.has(notification.reason)) &&
+  (authors.size === 0 ||
+    authors.has(notification.author.did) ||
+    authors.has(notification.author.handle.toLowerCase()));
+
+/**
+ * Export the stored notifications matching `filters`, newest first.
+ * Aborting `signal` stops at the next page.
+ */
+export async function exportNotifications(
+  { format, filters, includePosts }: NotificationExportOptions,
+  {
+    onProgress,
+    signal,
+  }: {
+    onProgress?: (progress: NotificationExportProgress) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<Blob> {
+  await NotificationCacheService.getInstance().init();
+  if (includePosts) await PostCacheService.getInstance().init();
+  const notificationDb = NotificationStorageDB.getInstance();
+  const postDb = PostStorageDB.getInstance();
+
+  const reasons = new Set(filters.reasons);
+  const authors = new Set(filters.authors.map(normalizeAuthor).filter(Boolean));
+  const range = {
+    start: filters.start?.toISOString(),
+    end: filters.end?.toISOString(),
+  };
+  const progress = {
+    scanned: 0,
+    exported: 0,
+    total: await notificationDb.getCount(),
+  };
+
+  const parts: string[] = [];
+  if (format === "csv") {
+    parts.push(`${CSV_COLUMNS.join(",")}\n`);
+  } else if (format === "json") {
+    parts.push(
+      `{"format":"${ARCHIVE_FORMAT}","version":${ARCHIVE_VERSION},"exportedAt":"${new Date().toISOString()}","records":[`,
+    );
+  }
+
+  let last: Notification | undefined;
+  for (;;) {
+    signal?.throwIfAborted();
+    const page = await notificationDb.getNotificationsPage(
+      range,
+      PAGE_SIZE,
+      last,
+    );
+    if (page.length === 0) break;
+    last = page[page.length - 1];
+    progress.scanned += page.length;
+
+    const matches = page.filter((n) => matchesFilters(n, reasons, authors));
+    const postMap = new Map<string, Post>();
+    if (includePosts && matches.length > 0) {
+      const uris = [
+        ...new Set(
+          matches.map(getSubjectUri).filter((uri): uri is string => !!uri),
+        ),
+      ];
+      (await postDb.getPosts(uris)).forEach((post) =>
+        postMap.set(post.uri, post),
+      );
+    }
+
+    for (const notification of matches) {
+      const subjectUri = getSubjectUri(notification);
+      const record: NotificationArchiveRecord = {
+        notification,
+        post: subjectUri ? postMap.get(subjectUri) : undefined,
+      };
+      if (format === "csv") {
+        parts.push(`${toCsvRow(record)}\n`);
+      } else if (format === "json") {
+        parts.push(
+          `${progress.exported > 0 ? "," : ""}\n${JSON.stringify(record)}`,
+        );
+      } else {
+        parts.push(`${JSON.stringify(record)}\n`);
+      }
+      progress.exported++;
+    }
+
+    onProgress?.({ ...progress });
+    if (page.length < PAGE_SIZE) break;
+    await yieldToBrowser();
+  }
+
+  if (format === "json") parts.push("\n]}\n");
+  return new Blob(parts, { type: MIME_TYPES[format] });
+}
+
+export const getExportFileName = (format: NotificationExportFormat) =>
+  `bluesky-notifications-${new Date().toISOString().split("T")[0]}.${format}`;
+
+const isArchiveRecord = (
+  value: unknown,
+): value is NotificationArchiveRecord => {
+  const notification = (value as NotificationArchiveRecord | null)
+    ?.notification;
+  return (
+    typeof notification?.uri === "string" &&
+    typeof notification.indexedAt === "string" &&
+    typeof notification.reason === "string" &&
+    typeof notification.author?.did === "string"
+  );
+};
+
+async function* readNdjsonLines(file: File): AsyncGenerator<string> {
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+    yield* lines;
+  }
+  if (buffered) yield buffered;
+}
+
+async function* readRecords(file: File): AsyncGenerator<unknown> {
+  const head = (await file.slice(0, 256).text()).trimStart();
+
+  if (head.startsWith(`{"format":"${ARCHIVE_FORMAT}"`)) {
+    const archive = JSON.parse(await file.text());
+    if (archive.version > ARCHIVE_VERSION) {
+      throw new Error("This archive was made by a newer version of the app");
+    }
+    yield* archive.records || [];
+    return;
+  }
+  if (head.startsWith(CSV_COLUMNS[0])) {
+    throw new Error(
+      "CSV exports can't be imported, export as JSON or NDJSON to keep a restorable archive",
+    );
+  }
+
+  for await (const line of readNdjsonLines(file)) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch {
+      // Counted as skipped, like any other line that isn't a record
+      yield null;
+    }
+  }
+}
+
+/**
+ * Restore a JSON or NDJSON export into the notification and post stores.
+ * Records already stored are overwritten with the archived copy, except
+ * for read state: the archive's is advisory, and a notification read in
+ * this browser (or covered by its seenAt) stays read.
+ */
+export async function importNotificationArchive(
+  file: File,
+  {
+    onProgress,
+  }: { onProgress?: (result: NotificationImportResult) => void } = {},
+): Promise<NotificationImportResult> {
+  await Promise.all([
+    NotificationCacheService.getInstance().init(),
+    PostCacheService.getInstance().init(),
+  ]);
+  const notificationDb = NotificationStorageDB.getInstance();
+  const postDb = PostStorageDB.getInstance();
+
+  const result: NotificationImportResult = {
+    notifications: 0,
+    posts: 0,
+    skipped: 0,
+  };
+  let notifications: Notification[] = [];
+  let posts: Post[] = [];
+
+  const flush = async () => {
+    const readState = notificationReadState.getState();
+    const merged = await Promise.all(
+      notifications.map(async (notification) => {
+        const stored = await notificationDb.getNotification(notification.uri);
+        return {
+          ...notification,
+          isRead:
+            !!stored?.isRead || isNotificationRead(notification, readState),
+        };
+      }),
+    );
+    await notificationDb.saveNotifications(merged);
+    if (posts.length > 0) await postDb.savePosts(posts);
+    result.notifications += notifications.length;
+    result.posts += posts.length;
+    notifications = [];
+    posts = [];
+    onProgress?.({ ...result });
+    await yieldToBrowser();
+  };
+
+  for await (const record of readRecords(file)) {
+    if (!isArchiveRecord(record)) {
+      result.skipped++;
+      continue;
+    }
+    notifications.push(record.notification);
+    if (record.post?.uri) posts.push(record.post);
+    if (notifications.length >= PAGE_SIZE) await flush();
+  }
+  await flush();
+
+  // A fresh browser has no metadata yet, without it the cache counts as empty
+  const meta = await notificationDb.getMetadata();
+  await notificationDb.saveMetadata({
+    id: "main",
+    lastFetch: meta?.lastFetch || 0,
+    pages: meta?.pages || [],
+    totalCount: await notificationDb.getCount(),
+  });
+
+  return result;
+}
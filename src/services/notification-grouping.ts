@@ -0,0 +1,101 @@
+/**
+ * Notification Grouping
+ *
+ * How the notifications feed rolls up likes, reposts, quotes and follows:
+ * by type (all likes on a post), by post (every interaction with a post)
+ * or by person (everything one account did), and how far apart two
+ * notifications can be to still land in the same group. Kept in local
+ * storage per account.
+ */
+
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+
+export type AggregationStrategy = "type" | "post" | "user";
+
+export interface NotificationGroupingPrefs {
+  strategy: AggregationStrategy;
+  // Largest gap between neighbours in a group, null for no limit
+  windowHours: number | null;
+}
+
+export const AGGREGATION_STRATEGIES: {
+  strategy: AggregationStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    strategy: "type",
+    label: "By type",
+    description: "Likes, reposts and quotes of a post grouped separately",
+  },
+  {
+    strategy: "post",
+    label: "By post",
+    description: '"Your post got 40 likes, 5 reposts"',
+  },
+  {
+    strategy: "user",
+    label: "By person",
+    description: '"@alice liked 6 of your posts"',
+  },
+];
+
+export const AGGREGATION_WINDOWS: { hours: number | null; label: string }[] = [
+  { hours: 1, label: "1 hour" },
+  { hours: 6, label: "6 hours" },
+  { hours: 24, label: "24 hours" },
+  { hours: 24 * 7, label: "1 week" },
+  { hours: null, label: "No limit" },
+];
+
+const PREFS_KEY = "bsky_notification_grouping";
+
+const DEFAULT_PREFS: NotificationGroupingPrefs = {
+  strategy: "type",
+  windowHours: 24,
+};
+
+const logger = createLogger("NotificationGrouping");
+
+export const getAggregationWindowMs = (prefs: NotificationGroupingPrefs) =>
+  prefs.windowHours === null ? Infinity : prefs.windowHours * 60 * 60 * 1000;
+
+type Listener = () => void;
+
+class NotificationGroupingService {
+  private prefs: NotificationGroupingPrefs = this.load();
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getPrefs = (): NotificationGroupingPrefs => this.prefs;
+
+  update(changes: Partial<NotificationGroupingPrefs>) {
+    this.prefs = { ...this.prefs, ...changes };
+    localStorage.setItem(
+      accountScopedName(PREFS_KEY),
+      JSON.stringify(this.prefs),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private load(): NotificationGroupingPrefs {
+    try {
+      const saved = localStorage.getItem(accountScopedName(PREFS_KEY));
+      if (saved) {
+        return { ...DEFAULT_PREFS, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      logger.error("Failed to load notification grouping settings:", error);
+    }
+    return DEFAULT_PREFS;
+  }
+}
+
+export const notificationGrouping = new NotificationGroupingService();
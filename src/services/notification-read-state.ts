@@ -0,0 +1,248 @@
+/**
+ * Notification Read State
+ *
+ * The server keeps a single seenAt timestamp per account, everything indexed
+ * at or before it is read. Locally, notifications get marked read one by one
+ * as the user scrolls past them. This service reconciles the two:
+ *
+ * - seenAt only moves forward, and only as far as every loaded notification
+ *   up to it has been read, so reading the newest few doesn't mark older
+ *   unread ones read on the server
+ * - notifications read here but newer than seenAt are remembered by URI
+ *   until seenAt passes them
+ * - a newer seenAt from the server, set by another client, bulk-marks the
+ *   local store read up to it; a newer local one is pushed
+ */
+
+import type { BskyAgent } from "@atproto/api";
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+import { getNotificationService } from "./atproto/notifications";
+import { NotificationCacheService } from "./notification-cache-service";
+import { NotificationStorageDB } from "./notification-storage-db";
+
+export interface NotificationReadState {
+  seenAt: string | null;
+  // Read here but newer than seenAt, URI to indexedAt
+  readUris: Record<string, string>;
+  // seenAt moved forward here and the server hasn't accepted it yet
+  pendingPush: boolean;
+}
+
+const STATE_KEY = "bsky_notification_read_state";
+// Scrolling marks items read in quick succession, push once it settles
+const PUSH_DELAY_MS = 3 * 1000;
+
+const DEFAULT_STATE: NotificationReadState = {
+  seenAt: null,
+  readUris: {},
+  pendingPush: false,
+};
+
+const logger = createLogger("NotificationReadState");
+
+const toTime = (iso: string) => new Date(iso).getTime();
+
+export const isNotificationRead = (
+  notification: Notification,
+  state: NotificationReadState,
+): boolean =>
+  notification.isRead ||
+  (!!state.seenAt && toTime(notification.indexedAt) <= toTime(state.seenAt)) ||
+  notification.uri in state.readUris;
+
+/** `notifications` with isRead set from the read state, unchanged items kept as is */
+export const applyReadState = (
+  notifications: Notification[],
+  state: NotificationReadState,
+): Notification[] =>
+  notifications.map((n) =>
+    !n.isRead && isNotificationRead(n, state) ? { ...n, isRead: true } : n,
+  );
+
+type Listener = () => void;
+
+class NotificationReadStateService {
+  private state: NotificationReadState = this.load();
+  private listeners = new Set<Listener>();
+  private agent: BskyAgent | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = (): NotificationReadState => this.state;
+
+  /** Sync with the server seenAt with `agent`, and push local changes from now on */
+  async start(agent: BskyAgent): Promise<void> {
+    this.agent = agent;
+    const { seenAt } = await getNotificationService(agent).listNotifications(
+      undefined,
+      false,
+      1,
+    );
+    await this.applyServerSeenAt(seenAt);
+  }
+
+  stop() {
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+    this.agent = null;
+  }
+
+  /** Reconcile with the seenAt the server returned alongside notifications */
+  async applyServerSeenAt(serverSeenAt?: string): Promise<void> {
+    const { seenAt } = this.state;
+    if (seenAt && (!serverSeenAt || toTime(seenAt) > toTime(serverSeenAt))) {
+      if (this.state.pendingPush) this.schedulePush();
+      return;
+    }
+    if (!serverSeenAt || seenAt === serverSeenAt) return;
+
+    this.moveSeenAt(serverSeenAt, false);
+  }
+
+  /**
+   * Mark `notifications` read, e.g. after the user scrolled past them.
+   * `loaded` is everything the view has loaded, seenAt advances through the
+   * stretch of it that is now read.
+   */
+  markRead(notifications: Notification[], loaded: Notification[]) {
+    const unread = notifications.filter(
+      (n) => !isNotificationRead(n, this.state),
+    );
+    if (unread.length === 0) return;
+
+    const readUris = { ...this.state.readUris };
+    unread.forEach((n) => {
+      readUris[n.uri] = n.indexedAt;
+    });
+    this.update({ readUris });
+    this.markStored(unread.map((n) => n.uri));
+    this.advance(loaded);
+  }
+
+  /** "Mark all read up to here", `notification` and everything older */
+  markReadUpTo(notification: Notification, loaded: Notification[]) {
+    this.moveSeenAt(notification.indexedAt, true);
+    this.advance(loaded);
+  }
+
+  async markAllRead(): Promise<void> {
+    this.moveSeenAt(new Date().toISOString(), true);
+    await this.push();
+  }
+
+  /** Push a pending seenAt to the server now */
+  async push(): Promise<void> {
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+    const { seenAt, pendingPush } = this.state;
+    if (!seenAt || !pendingPush) return;
+    if (!this.agent) throw new Error("Not authenticated");
+
+    await getNotificationService(this.agent).updateSeen(seenAt);
+    // Another move while the request was in flight is still pending
+    if (this.state.seenAt === seenAt) {
+      this.update({ pendingPush: false });
+    }
+  }
+
+  private advance(loaded: Notification[]) {
+    const { seenAt } = this.state;
+    const newer = loaded
+      .filter((n) => !seenAt || toTime(n.indexedAt) > toTime(seenAt))
+      .sort((a, b) => toTime(a.indexedAt) - toTime(b.indexedAt));
+
+    let through: string | null = null;
+    for (const notification of newer) {
+      if (!isNotificationRead(notification, this.state)) break;
+      through = notification.indexedAt;
+    }
+    if (through) this.moveSeenAt(through, true);
+  }
+
+  private moveSeenAt(seenAt: string, push: boolean) {
+    const previous = this.state.seenAt;
+    if (previous && toTime(seenAt) <= toTime(previous)) return;
+
+    // URIs at or before seenAt are covered by it now
+    const readUris = Object.fromEntries(
+      Object.entries(this.state.readUris).filter(
+        ([, indexedAt]) => toTime(indexedAt) > toTime(seenAt),
+      ),
+    );
+    this.update({
+      seenAt,
+      readUris,
+      pendingPush: push || this.state.pendingPush,
+    });
+    this.markStoredThrough(seenAt, previous);
+    if (push) this.schedulePush();
+  }
+
+  private schedulePush() {
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => {
+      this.push().catch((error) => {
+        logger.error("Failed to update seenAt:", error);
+      });
+    }, PUSH_DELAY_MS);
+  }
+
+  private markStored(uris: string[]) {
+    const cacheService = NotificationCacheService.getInstance();
+    cacheService
+      .init()
+      .then(() => cacheService.markMultipleAsRead(uris))
+      .catch((error) => {
+        logger.error("Failed to mark notifications read:", error);
+      });
+  }
+
+  private markStoredThrough(seenAt: string, previous: string | null) {
+    NotificationCacheService.getInstance()
+      .init()
+      .then(() =>
+        NotificationStorageDB.getInstance().markReadThrough(
+          seenAt,
+          previous || undefined,
+        ),
+      )
+      .catch((error) => {
+        logger.error("Failed to mark stored notifications read:", error);
+      });
+  }
+
+  private load(): NotificationReadState {
+    try {
+      const saved = localStorage.getItem(accountScopedName(STATE_KEY));
+      if (saved) {
+        return { ...DEFAULT_STATE, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      logger.error("Failed to load notification read state:", error);
+    }
+    return DEFAULT_STATE;
+  }
+
+  private update(changes: Partial<NotificationReadState>) {
+    this.state = { ...this.state, ...changes };
+    localStorage.setItem(
+      accountScopedName(STATE_KEY),
+      JSON.stringify(this.state),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const notificationReadState = new NotificationReadStateService();
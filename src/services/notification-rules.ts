@@ -0,0 +1,351 @@
+/**
+ * Notification Rules
+ *
+ * User-defined rules that run over notifications: each rule has a set of
+ * conditions (reason, author, follower count, keywords, whether the author
+ * is followed, thread root) and the actions to take when they match (hide,
+ * highlight, pin to top, mark read, route to a SkyDeck column, desktop
+ * alert). Rules are kept in local storage per account, and evaluation is a
+ * plain function so the feed, rule columns, the background loader and the
+ * settings preview all agree on what matches.
+ */
+
+import type { AppBskyFeedDefs } from "@atproto/api";
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+import { getFollowerCacheDB, type CachedProfile } from "./follower-cache-db";
+import { NotificationCacheService } from "./notification-cache-service";
+import { PostCacheService } from "./post-cache-service";
+
+export type NotificationRuleCondition =
+  | { type: "reason"; reasons: string[] }
+  // DID or handle, matched against the notification author
+  | { type: "author"; value: string }
+  | { type: "authorFollowers"; min?: number; max?: number }
+  | { type: "keyword"; keywords: string[] }
+  | { type: "authorFollowed"; followed: boolean }
+  | { type: "threadRoot"; uri: string };
+
+export type NotificationRuleConditionType = NotificationRuleCondition["type"];
+
+export type NotificationRuleAction =
+  | "hide"
+  | "highlight"
+  | "pin"
+  | "markRead"
+  | "column"
+  | "alert";
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Whether every condition has to match, or just one
+  match: "all" | "any";
+  conditions: NotificationRuleCondition[];
+  actions: NotificationRuleAction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What a condition can be checked against besides the notification itself.
+ * Conditions whose data is missing (e.g. an author not in the follower
+ * cache yet) don't match.
+ */
+export interface NotificationRuleContext {
+  followingSet?: Set<string>;
+  profiles?: Map<string, CachedProfile>;
+  // Posts the notifications are about, keyed by URI
+  postMap?: Map<string, AppBskyFeedDefs.PostView>;
+}
+
+export interface NotificationRuleOutcome {
+  matchedRuleIds: string[];
+  hide: boolean;
+  highlight: boolean;
+  pin: boolean;
+  markRead: boolean;
+  alert: boolean;
+  // Rules with the column action, each feeds the rule column of that id
+  columnRuleIds: string[];
+}
+
+export const NOTIFICATION_RULE_ACTIONS: {
+  action: NotificationRuleAction;
+  label: string;
+}[] = [
+  { action: "hide", label: "Hide" },
+  { action: "highlight", label: "Highlight" },
+  { action: "pin", label: "Pin to top" },
+  { action: "markRead", label: "Mark as read" },
+  { action: "column", label: "Show in a SkyDeck column" },
+  { action: "alert", label: "Desktop alert" },
+];
+
+const RULES_KEY = "bsky_notification_rules";
+
+const logger = createLogger("NotificationRules");
+
+export const generateRuleId = (): string =>
+  `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/** Text of the post a notification is about, or the notification's own post */
+const getNotificationText = (
+  notification: Notification,
+  context: NotificationRuleContext,
+): string => {
+  const ownText = (notification.record as { text?: string })?.text;
+  if (notification.reason === "like" || notification.reason === "repost") {
+    const subject = notification.reasonSubject
+      ? context.postMap?.get(notification.reasonSubject)
+      : undefined;
+    return (subject?.record as { text?: string })?.text || "";
+  }
+  return ownText || "";
+};
+
+/** URI of the thread a notification belongs to */
+export const getNotificationThreadRoot = (
+  notification: Notification,
+  context: NotificationRuleContext = {},
+): string => {
+  const reply = (notification.record as { reply?: { root?: { uri: string } } })
+    ?.reply;
+  if (reply?.root?.uri) return reply.root.uri;
+
+  // Likes and reposts are about a post that may itself be a reply
+  if (notification.reasonSubject) {
+    const subject = context.postMap?.get(notification.reasonSubject);
+    const subjectReply = (
+      subject?.record as { reply?: { root?: { uri: string } } }
+    )?.reply;
+    return subjectReply?.root?.uri || notification.reasonSubject;
+  }
+  return notification.uri;
+};
+
+const matchesCondition = (
+  condition: NotificationRuleCondition,
+  notification: Notification,
+  context: NotificationRuleContext,
+): boolean => {
+  switch (condition.type) {
+    case "reason":
+      return condition.reasons.includes(notification.reason);
+    case "author": {
+      const value = condition.value.trim().replace(/^@/, "").toLowerCase();
+      return (
+        value === notification.author.did.toLowerCase() ||
+        value === notification.author.handle.toLowerCase()
+      );
+    }
+    case "authorFollowers": {
+      const profile = context.profiles?.get(notification.author.did);
+      if (!profile) return false;
+      const count = profile.followersCount;
+      return (
+        (condition.min === undefined || count >= condition.min) &&
+        (condition.max === undefined || count <= condition.max)
+      );
+    }
+    case "keyword": {
+      const text = getNotificationText(notification, context).toLowerCase();
+      if (!text) return false;
+      return condition.keywords.some((keyword) => {
+        const needle = keyword.trim().toLowerCase();
+        return !!needle && text.includes(needle);
+      });
+    }
+    case "authorFollowed":
+      if (!context.followingSet) return false;
+      return (
+        context.followingSet.has(notification.author.did) === condition.followed
+      );
+    case "threadRoot":
+      return getNotificationThreadRoot(notification, context) === condition.uri;
+    default:
+      return false;
+  }
+};
+
+export const evaluateRule = (
+  rule: NotificationRule,
+  notification: Notification,
+  context: NotificationRuleContext,
+): boolean => {
+  if (!rule.enabled || rule.conditions.length === 0) return false;
+  const check = (condition: NotificationRuleCondition) =>
+    matchesCondition(condition, notification, context);
+  return rule.match === "all"
+    ? rule.conditions.every(check)
+    : rule.conditions.some(check);
+};
+
+export const evaluateRules = (
+  rules: NotificationRule[],
+  notification: Notification,
+  context: NotificationRuleContext,
+): NotificationRuleOutcome => {
+  const outcome: NotificationRuleOutcome = {
+    matchedRuleIds: [],
+    hide: false,
+    highlight: false,
+    pin: false,
+    markRead: false,
+    alert: false,
+    columnRuleIds: [],
+  };
+
+  for (const rule of rules) {
+    if (!evaluateRule(rule, notification, context)) continue;
+    outcome.matchedRuleIds.push(rule.id);
+    for (const action of rule.actions) {
+      if (action === "column") {
+        outcome.columnRuleIds.push(rule.id);
+      } else {
+        outcome[action] = true;
+      }
+    }
+  }
+
+  return outcome;
+};
+
+/** Cached profiles of the notification authors, for follower count rules */
+export async function loadRuleProfiles(
+  notifications: Notification[],
+): Promise<Map<string, CachedProfile>> {
+  const dids = [...new Set(notifications.map((n) => n.author.did))];
+  if (dids.length === 0) return new Map();
+  try {
+    const db = await getFollowerCacheDB();
+    return await db.getProfiles(dids);
+  } catch (error) {
+    logger.error("Failed to load cached profiles:", error);
+    return new Map();
+  }
+}
+
+export const needsProfiles = (rules: NotificationRule[]): boolean =>
+  rules.some(
+    (rule) =>
+      rule.enabled &&
+      rule.conditions.some((condition) => condition.type === "authorFollowers"),
+  );
+
+export interface NotificationRulePreview {
+  matches: Notification[];
+  // How many archived notifications were checked
+  scanned: number;
+}
+
+/**
+ * Run a rule, saved or not, over the notification archive to see what it
+ * would match. Liked and reposted posts are looked up in the post cache, so
+ * keyword and thread conditions only see the ones loaded before.
+ */
+export async function previewNotificationRule(
+  rule: NotificationRule,
+  {
+    followingSet,
+    limit = 1000,
+  }: { followingSet?: Set<string>; limit?: number },
+): Promise<NotificationRulePreview> {
+  const cacheService = NotificationCacheService.getInstance();
+  await cacheService.init();
+  const { notifications } = await cacheService.getCachedNotifications(limit);
+
+  const subjectUris = [
+    ...new Set(
+      notifications
+        .map((n) => n.reasonSubject)
+        .filter((uri): uri is string => !!uri),
+    ),
+  ];
+  const postMap = new Map<string, AppBskyFeedDefs.PostView>();
+  try {
+    const postCache = PostCacheService.getInstance();
+    await postCache.init();
+    for (const post of await postCache.getPosts(subjectUris)) {
+      postMap.set(post.uri, post);
+    }
+  } catch (error) {
+    logger.error("Failed to load cached posts for preview:", error);
+  }
+
+  // Preview turned off rules too
+  const candidate = { ...rule, enabled: true };
+  const context: NotificationRuleContext = {
+    followingSet,
+    postMap,
+    profiles: needsProfiles([candidate])
+      ? await loadRuleProfiles(notifications)
+      : undefined,
+  };
+  return {
+    matches: notifications.filter((n) => evaluateRule(candidate, n, context)),
+    scanned: notifications.length,
+  };
+}
+
+type Listener = () => void;
+
+class NotificationRulesService {
+  private rules: NotificationRule[] = this.load();
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getRules = (): NotificationRule[] => this.rules;
+
+  getRule(id: string): NotificationRule | undefined {
+    return this.rules.find((rule) => rule.id === id);
+  }
+
+  saveRule(rule: NotificationRule) {
+    const updated = { ...rule, updatedAt: new Date().toISOString() };
+    this.rules = this.getRule(rule.id)
+      ? this.rules.map((r) => (r.id === rule.id ? updated : r))
+      : [...this.rules, updated];
+    this.save();
+  }
+
+  deleteRule(id: string) {
+    this.rules = this.rules.filter((rule) => rule.id !== id);
+    this.save();
+  }
+
+  setEnabled(id: string, enabled: boolean) {
+    const rule = this.getRule(id);
+    if (rule) this.saveRule({ ...rule, enabled });
+  }
+
+  private load(): NotificationRule[] {
+    try {
+      const saved = localStorage.getItem(accountScopedName(RULES_KEY));
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      logger.error("Failed to load notification rules:", error);
+    }
+    return [];
+  }
+
+  private save() {
+    localStorage.setItem(
+      accountScopedName(RULES_KEY),
+      JSON.stringify(this.rules),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const notificationRulesService = new NotificationRulesService();
@@ -1,5 +1,7 @@
 import { AppBskyNotificationListNotifications } from "@atproto/api";
 import { debug } from "@bsky/shared";
+import { accountScopedName } from "./account-store";
+import { SearchIndexDB } from "./search-index-db";
 
 type Notification = AppBskyNotificationListNotifications.Notification;
 
@@ -13,7 +15,7 @@ interface NotificationMeta {
 export class NotificationStorageDB {
   private static instance: NotificationStorageDB;
   private db: IDBDatabase | null = null;
-  private readonly DB_NAME = "bsky_notifications_db";
+  private readonly DB_NAME = accountScopedName("bsky_notifications_db");
   private readonly DB_VERSION = 1;
 
   // Store names
@@ -99,6 +101,7 @@ export class NotificationStorageDB {
       "readwrite",
     );
     const store = transaction.objectStore(this.NOTIFICATIONS_STORE);
+    this.indexForSearch([notification]);
 
     return new Promise((resolve, reject) => {
       const request = store.put(notification);
@@ -116,6 +119,7 @@ export class NotificationStorageDB {
       "readwrite",
     );
     const store = transaction.objectStore(this.NOTIFICATIONS_STORE);
+    this.indexForSearch(notifications);
 
     return new Promise((resolve, reject) => {
       let completed = 0;
@@ -139,6 +143,15 @@ export class NotificationStorageDB {
     });
   }
 
+  // Keep the local search index up to date without holding up the save
+  private indexForSearch(notifications: Notification[]): void {
+    SearchIndexDB.getInstance()
+      .indexNotifications(notifications)
+      .catch((error) =>
+        debug.error("Failed to index notifications for search:", error),
+      );
+  }
+
   // Get notification by URI
   async getNotification(uri: string): Promise<Notification | null> {
     this.ensureDB();
@@ -194,6 +207,83 @@ export class NotificationStorageDB {
     });
   }
 
+  // Get notifications indexed in [start, end), newest first
+  async getNotificationsBetween(
+    start: Date,
+    end: Date,
+  ): Promise<Notification[]> {
+    this.ensureDB();
+
+    const transaction = this.db!.transaction(
+      [this.NOTIFICATIONS_STORE],
+      "readonly",
+    );
+    const index = transaction
+      .objectStore(this.NOTIFICATIONS_STORE)
+      .index(this.INDEXED_AT_INDEX);
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(
+        IDBKeyRange.bound(start.toISOString(), end.toISOString(), false, true),
+      );
+      request.onsuccess = () =>
+        resolve((request.result as Notification[]).reverse());
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // A page of notifications indexed in [start, end), newest first. Pass the
+  // last notification of the previous page as `after` to continue from it.
+  async getNotificationsPage(
+    { start, end }: { start?: string; end?: string },
+    limit: number,
+    after?: Notification,
+  ): Promise<Notification[]> {
+    this.ensureDB();
+
+    const transaction = this.db!.transaction(
+      [this.NOTIFICATIONS_STORE],
+      "readonly",
+    );
+    const index = transaction
+      .objectStore(this.NOTIFICATIONS_STORE)
+      .index(this.INDEXED_AT_INDEX);
+
+    const upper = after?.indexedAt ?? end;
+    const upperOpen = !after;
+    const range =
+      start && upper
+        ? IDBKeyRange.bound(start, upper, false, upperOpen)
+        : start
+          ? IDBKeyRange.lowerBound(start)
+          : upper
+            ? IDBKeyRange.upperBound(upper, upperOpen)
+            : null;
+
+    return new Promise((resolve, reject) => {
+      const notifications: Notification[] = [];
+      const request = index.openCursor(range, "prev");
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+        if (!cursor || notifications.length >= limit) {
+          resolve(notifications);
+          return;
+        }
+        // Equal timestamps come in descending URI order, skip the ones up to
+        // and including `after`
+        const skip =
+          after &&
+          cursor.key === after.indexedAt &&
+          (cursor.primaryKey as string) >= after.uri;
+        if (!skip) notifications.push(cursor.value);
+        cursor.continue();
+      };
+
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Get notifications by reason
   async getNotificationsByReason(
     reason: string,
@@ -266,6 +356,100 @@ export class NotificationStorageDB {
     }
   }
 
+  // Mark everything indexed at or before `seenAt` as read, starting after
+  // `after` when the older ones are known to be read. Returns how many changed.
+  async markReadThrough(seenAt: string, after?: string): Promise<number> {
+    this.ensureDB();
+
+    const transaction = this.db!.transaction(
+      [this.NOTIFICATIONS_STORE],
+      "readwrite",
+    );
+    const index = transaction
+      .objectStore(this.NOTIFICATIONS_STORE)
+      .index(this.INDEXED_AT_INDEX);
+
+    return new Promise((resolve, reject) => {
+      let updated = 0;
+      const request = index.openCursor(
+        after
+          ? IDBKeyRange.bound(after, seenAt, true, false)
+          : IDBKeyRange.upperBound(seenAt),
+      );
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+        if (cursor) {
+          if (!cursor.value.isRead) {
+            cursor.update({ ...cursor.value, isRead: true });
+            updated++;
+          }
+          cursor.continue();
+        }
+      };
+
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Count stored notifications
+  async getCount(): Promise<number> {
+    this.ensureDB();
+
+    const transaction = this.db!.transaction(
+      [this.NOTIFICATIONS_STORE],
+      "readonly",
+    );
+    const store = transaction.objectStore(this.NOTIFICATIONS_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Delete notifications indexed before a date, returns how many were removed
+  async deleteOlderThan(date: Date): Promise<number> {
+    this.ensureDB();
+
+    const transaction = this.db!.transaction(
+      [this.NOTIFICATIONS_STORE],
+      "readwrite",
+    );
+    const index = transaction
+      .objectStore(this.NOTIFICATIONS_STORE)
+      .index(this.INDEXED_AT_INDEX);
+
+    return new Promise((resolve, reject) => {
+      const deletedUris: string[] = [];
+      const request = index.openCursor(
+        IDBKeyRange.upperBound(date.toISOString(), true),
+      );
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+        if (cursor) {
+          deletedUris.push(cursor.primaryKey as string);
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+
+      transaction.oncomplete = () => {
+        SearchIndexDB.getInstance()
+          .removeDocuments("notification", deletedUris)
+          .catch((error) =>
+            debug.error("Failed to remove pruned notifications:", error),
+          );
+        resolve(deletedUris.length);
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   // Save metadata
   async saveMetadata(meta: NotificationMeta): Promise<void> {
     this.ensureDB();
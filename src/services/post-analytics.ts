@@ -0,0 +1,212 @@
+/**
+ * Post Analytics
+ *
+ * Engagement on the user's own posts, built from the notifications stored on
+ * this device. Likes, reposts, replies and quotes are grouped by the post
+ * they're about, so the curves only know what arrived as a notification:
+ * older activity than the local archive reaches isn't counted.
+ *
+ * Reposts and likes record the repost they came through (`via`), which is
+ * how a repost is credited with the engagement it drove.
+ */
+
+import type { AppBskyActorDefs } from "@atproto/api";
+import type { Notification } from "@atproto/api/dist/client/types/app/bsky/notification/listNotifications";
+
+export type EngagementKind = "like" | "repost" | "reply" | "quote";
+
+export const ENGAGEMENT_KINDS: EngagementKind[] = [
+  "like",
+  "repost",
+  "reply",
+  "quote",
+];
+
+export interface EngagementEvent {
+  kind: EngagementKind;
+  at: number;
+  notification: Notification;
+}
+
+export interface RepostDriver {
+  author: AppBskyActorDefs.ProfileView;
+  repostedAt: string;
+  // Likes and reposts that came through this repost
+  driven: number;
+}
+
+export interface PostEngagement {
+  uri: string;
+  counts: Record<EngagementKind, number>;
+  total: number;
+  // Oldest first
+  events: EngagementEvent[];
+  repostDrivers: RepostDriver[];
+}
+
+export interface EngagementCurvePoint {
+  at: number;
+  // Running totals up to `at`
+  counts: Record<EngagementKind, number>;
+}
+
+const emptyCounts = (): Record<EngagementKind, number> => ({
+  like: 0,
+  repost: 0,
+  reply: 0,
+  quote: 0,
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type EngagementRecord = {
+  reply?: { parent?: { uri: string } };
+  embed?: { record?: { uri?: string; record?: { uri?: string } } };
+  via?: { uri: string };
+};
+
+/** The post a like, repost, reply or quote is about */
+export const getEngagementSubject = (
+  notification: Notification,
+): string | undefined => {
+  const record = notification.record as EngagementRecord | undefined;
+  switch (notification.reason) {
+    case "like":
+    case "repost":
+      return notification.reasonSubject;
+    case "reply":
+      return notification.reasonSubject || record?.reply?.parent?.uri;
+    case "quote":
+      return (
+        notification.reasonSubject ||
+        record?.embed?.record?.uri ||
+        // Quotes with media nest the quoted record one level deeper
+        record?.embed?.record?.record?.uri
+      );
+    default:
+      return undefined;
+  }
+};
+
+const getViaUri = (notification: Notification) =>
+  (notification.record as EngagementRecord | undefined)?.via?.uri;
+
+/** Group engagement notifications by the post of `ownDid` they're about */
+export function collectPostEngagement(
+  notifications: Notification[],
+  ownDid: string,
+): PostEngagement[] {
+  const ownPrefix = `at://${ownDid}/`;
+  const posts = new Map<string, PostEngagement>();
+
+  for (const notification of notifications) {
+    const kind = notification.reason as EngagementKind;
+    if (!ENGAGEMENT_KINDS.includes(kind)) continue;
+    const uri = getEngagementSubject(notification);
+    if (!uri?.startsWith(ownPrefix)) continue;
+
+    let post = posts.get(uri);
+    if (!post) {
+      post = {
+        uri,
+        counts: emptyCounts(),
+        total: 0,
+        events: [],
+        repostDrivers: [],
+      };
+      posts.set(uri, post);
+    }
+    post.counts[kind]++;
+    post.total++;
+    post.events.push({
+      kind,
+      at: new Date(notification.indexedAt).getTime(),
+      notification,
+    });
+  }
+
+  for (const post of posts.values()) {
+    post.events.sort((a, b) => a.at - b.at);
+    post.repostDrivers = getRepostDrivers(post.events);
+  }
+  return [...posts.values()];
+}
+
+function getRepostDrivers(events: EngagementEvent[]): RepostDriver[] {
+  const drivers = new Map<string, RepostDriver>();
+  for (const { kind, notification } of events) {
+    if (kind === "repost") {
+      drivers.set(notification.uri, {
+        author: notification.author,
+        repostedAt: notification.indexedAt,
+        driven: 0,
+      });
+    }
+  }
+  for (const { notification } of events) {
+    const via = getViaUri(notification);
+    const driver = via && drivers.get(via);
+    if (driver) driver.driven++;
+  }
+  return [...drivers.values()].sort(
+    (a, b) => b.driven - a.driven || a.repostedAt.localeCompare(b.repostedAt),
+  );
+}
+
+/** Running totals at `points` evenly spaced times from `start` to `end` */
+export function buildEngagementCurve(
+  events: EngagementEvent[],
+  start: number,
+  end: number,
+  points = 48,
+): EngagementCurvePoint[] {
+  const step = Math.max(end - start, 1) / (points - 1);
+  const counts = emptyCounts();
+  const curve: EngagementCurvePoint[] = [];
+  let next = 0;
+
+  for (let i = 0; i < points; i++) {
+    const at = start + step * i;
+    while (next < events.length && events[next].at <= at) {
+      counts[events[next].kind]++;
+      next++;
+    }
+    curve.push({ at, counts: { ...counts } });
+  }
+  return curve;
+}
+
+/** Time from posting to the first reply, null without replies */
+export function getTimeToFirstReply(
+  engagement: PostEngagement,
+  postedAt: string,
+): number | null {
+  const reply = engagement.events.find((event) => event.kind === "reply");
+  return reply ? Math.max(0, reply.at - new Date(postedAt).getTime()) : null;
+}
+
+/** The clock hour that saw the most engagement */
+export function getPeakHour(
+  engagement: PostEngagement,
+): { start: number; count: number } | null {
+  const hours = new Map<number, number>();
+  for (const { at } of engagement.events) {
+    const hour = Math.floor(at / HOUR_MS) * HOUR_MS;
+    hours.set(hour, (hours.get(hour) || 0) + 1);
+  }
+
+  let peak: { start: number; count: number } | null = null;
+  for (const [start, count] of hours) {
+    if (!peak || count > peak.count) peak = { start, count };
+  }
+  return peak;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -1,5 +1,6 @@
 import { AppBskyFeedDefs } from "@atproto/api";
 import { debug } from "@bsky/shared";
+import { SearchIndexDB } from "./search-index-db";
 
 type Post = AppBskyFeedDefs.PostView;
 
@@ -91,6 +92,12 @@ export class PostStorageDB {
       store.put(postWithTimestamp);
     }
 
+    SearchIndexDB.getInstance()
+      .indexPosts(posts)
+      .catch((error) =>
+        debug.error("Failed to index posts for search:", error),
+      );
+
     return new Promise((resolve, reject) => {
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
@@ -252,7 +259,7 @@ export class PostStorageDB {
     const transaction = db.transaction([POST_STORE], "readwrite");
     const store = transaction.objectStore(POST_STORE);
 
-    let deletedCount = 0;
+    const deletedUris: string[] = [];
     const cutoffTime = date.getTime();
 
     return new Promise((resolve, reject) => {
@@ -266,12 +273,17 @@ export class PostStorageDB {
           const cachedAt = post._cachedAt || new Date(post.indexedAt).getTime();
 
           if (cachedAt < cutoffTime) {
+            deletedUris.push(post.uri);
             cursor.delete();
-            deletedCount++;
           }
           cursor.continue();
         } else {
-          resolve(deletedCount);
+          SearchIndexDB.getInstance()
+            .removeDocuments("post", deletedUris)
+            .catch((error) =>
+              debug.error("Failed to remove deleted posts:", error),
+            );
+          resolve(deletedUris.length);
         }
       };
 
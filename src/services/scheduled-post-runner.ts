@@ -0,0 +1,424 @@
+/**
+ * Scheduled Post Runner
+ *
+ * Publishes threads from the scheduled posts queue once they come due while
+ * the app is open. Each post in a thread tracks its own state, so a thread
+ * that fails halfway resumes from the first unpublished post on retry
+ * instead of posting duplicates. Tabs take a Web Lock on a thread while
+ * publishing it, so two open tabs never publish the same thread, and a
+ * thread left "publishing" without a lock holder was abandoned mid-way.
+ * Editing and cancelling take the same lock and fail while it is held.
+ */
+
+import type { AppBskyFeedPost, BlobRef, BskyAgent } from "@atproto/api";
+import { createLogger } from "../utils/logger";
+import { buildQuoteEmbed } from "../utils/quote-embed";
+import { buildPostRichText, type PostRichText } from "../utils/rich-text";
+import { applyThreadNumbering } from "../utils/thread-numbering";
+import { PostGateService } from "./atproto/post-gates";
+import { VideoUploadService } from "./atproto/video-upload";
+import { linkMetadataService } from "./link-metadata";
+import {
+  scheduledPostsStorage,
+  type ScheduledPost,
+  type ScheduledThread,
+} from "./scheduled-posts-db";
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+// Threads due longer ago than this when the app starts count as missed
+const MISSED_GRACE_MS = 2 * 60 * 1000;
+const POST_SPACING_MS = 500;
+const LOCK_PREFIX = "bsky_scheduled_thread_";
+const PUBLISHING_ERROR = "This thread is being published right now";
+
+const logger = createLogger("ScheduledPostRunner");
+
+type Listener = () => void;
+
+interface PostRef {
+  uri: string;
+  cid: string;
+}
+
+class ScheduledPostRunner {
+  private agent: BskyAgent | null = null;
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private inFlight = new Set<string>();
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Start publishing due threads with `agent`. Threads that came due while
+   * the app was closed aren't published automatically; they are marked as
+   * missed and returned so the caller can ask the user first.
+   */
+  async start(agent: BskyAgent): Promise<ScheduledThread[]> {
+    this.stop();
+    this.agent = agent;
+
+    const missed = await this.markMissedThreads();
+    this.checkTimer = setInterval(
+      () => this.publishDueThreads(),
+      CHECK_INTERVAL_MS,
+    );
+    await this.publishDueThreads();
+    return missed;
+  }
+
+  stop() {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.agent = null;
+  }
+
+  async schedule(thread: ScheduledThread): Promise<void> {
+    await scheduledPostsStorage.saveThread(thread);
+    this.notify();
+  }
+
+  async reschedule(id: string, scheduledFor: Date): Promise<void> {
+    await this.editThread(id, async (thread) => {
+      if (thread.status === "published") {
+        throw new Error("This thread has already been published");
+      }
+      await scheduledPostsStorage.saveThread({
+        ...thread,
+        scheduledFor: scheduledFor.toISOString(),
+        status: "scheduled",
+      });
+    });
+    this.notify();
+  }
+
+  // Replace the text of posts that haven't been published yet
+  async updatePostTexts(id: string, texts: string[]): Promise<void> {
+    await this.editThread(id, (thread) =>
+      scheduledPostsStorage.saveThread({
+        ...thread,
+        posts: thread.posts.map((post, index) =>
+          post.status === "published" || texts[index] === undefined
+            ? post
+            : { ...post, text: texts[index] },
+        ),
+      }),
+    );
+    this.notify();
+  }
+
+  async cancel(id: string): Promise<void> {
+    await this.editThread(id, () => scheduledPostsStorage.deleteThread(id));
+    this.notify();
+  }
+
+  // Publish right away, also used to retry failed threads
+  async publishNow(id: string): Promise<void> {
+    await this.publishThread(id, (thread) => thread.status !== "published");
+  }
+
+  private async markMissedThreads(): Promise<ScheduledThread[]> {
+    const cutoff = Date.now() - MISSED_GRACE_MS;
+    const held = await this.heldLocks();
+    const candidates = [
+      ...(await scheduledPostsStorage.getThreadsByStatus("scheduled")),
+      // Left mid-publish when the app closed, not still going in another tab
+      ...(await scheduledPostsStorage.getThreadsByStatus("publishing")),
+    ].filter(
+      (thread) =>
+        new Date(thread.scheduledFor).getTime() < cutoff &&
+        !held.has(`${LOCK_PREFIX}${thread.id}`),
+    );
+
+    for (const thread of candidates) {
+      await scheduledPostsStorage.saveThread({ ...thread, status: "missed" });
+    }
+
+    if (candidates.length > 0) {
+      logger.log(`${candidates.length} scheduled threads were missed`);
+      this.notify();
+    }
+    return (await scheduledPostsStorage.getThreadsByStatus("missed")).sort(
+      (a, b) => a.scheduledFor.localeCompare(b.scheduledFor),
+    );
+  }
+
+  private async publishDueThreads() {
+    try {
+      const now = Date.now();
+      const due = [
+        ...(await scheduledPostsStorage.getThreadsByStatus("scheduled")),
+        // Abandoned by a closed tab; ones another tab is on stay locked
+        ...(await scheduledPostsStorage.getThreadsByStatus("publishing")),
+      ].filter((thread) => new Date(thread.scheduledFor).getTime() <= now);
+
+      for (const thread of due) {
+        await this.publishThread(
+          thread.id,
+          (current) =>
+            current.status === "scheduled" || current.status === "publishing",
+        );
+      }
+    } catch (error) {
+      logger.error("Failed to check scheduled threads:", error);
+    }
+  }
+
+  /**
+   * Claim the thread across tabs and publish it if `canPublish` still holds
+   * for the stored copy. Does nothing while another tab has it claimed.
+   */
+  private async publishThread(
+    id: string,
+    canPublish: (thread: ScheduledThread) => boolean,
+  ) {
+    const agent = this.agent;
+    if (!agent) return;
+
+    await this.withThreadLock(id, async () => {
+      // Read under the lock, another tab may have published it meanwhile
+      const thread = await scheduledPostsStorage.getThread(id);
+      if (thread && canPublish(thread)) {
+        await this.publishClaimed(agent, thread);
+      }
+    });
+  }
+
+  /**
+   * Change a stored thread while no tab is publishing it, so the runner
+   * can't write its own copy back over the change (or over a deletion).
+   * Throws if the thread is being published.
+   */
+  private async editThread(
+    id: string,
+    edit: (thread: ScheduledThread) => Promise<unknown>,
+  ) {
+    const claimed = await this.withThreadLock(id, async () => {
+      if (this.inFlight.has(id)) throw new Error(PUBLISHING_ERROR);
+      const thread = await scheduledPostsStorage.getThread(id);
+      if (thread) await edit(thread);
+    });
+    if (!claimed) throw new Error(PUBLISHING_ERROR);
+  }
+
+  /**
+   * Runs `task` holding the thread's lock, or not at all if it's taken.
+   * Resolves to whether the task ran.
+   */
+  private async withThreadLock(
+    id: string,
+    task: () => Promise<void>,
+  ): Promise<boolean> {
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      // No Web Locks, fall back to the in-tab guard
+      await task();
+      return true;
+    }
+    return navigator.locks.request(
+      `${LOCK_PREFIX}${id}`,
+      { ifAvailable: true },
+      async (lock) => {
+        if (!lock) return false;
+        await task();
+        return true;
+      },
+    );
+  }
+
+  private async heldLocks(): Promise<Set<string>> {
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      return new Set();
+    }
+    const { held = [] } = await navigator.locks.query();
+    return new Set(held.map((lock) => lock.name || ""));
+  }
+
+  private async publishClaimed(agent: BskyAgent, thread: ScheduledThread) {
+    if (this.inFlight.has(thread.id)) return;
+
+    this.inFlight.add(thread.id);
+    let current: ScheduledThread = { ...thread, status: "publishing" };
+    await this.save(current);
+
+    const texts = applyThreadNumbering(
+      current.posts.map((post) => post.text),
+      current.numberingFormat,
+      current.numberingPosition,
+    );
+
+    let root: PostRef | undefined;
+    let parent: PostRef | undefined;
+
+    try {
+      for (let i = 0; i < current.posts.length; i++) {
+        const post = current.posts[i];
+
+        if (post.status === "published" && post.uri && post.cid) {
+          parent = { uri: post.uri, cid: post.cid };
+          root = root || parent;
+          continue;
+        }
+
+        try {
+          const result = await this.publishPost(
+            agent,
+            post,
+            texts[i],
+            current.langs,
+            root && parent ? { root, parent } : undefined,
+          );
+          parent = { uri: result.uri, cid: result.cid };
+          root = root || parent;
+          current = this.withPost(current, i, {
+            ...post,
+            status: "published",
+            uri: result.uri,
+            cid: result.cid,
+            error: undefined,
+            attempts: post.attempts + 1,
+          });
+          await this.save(current);
+
+          if (i === 0 && current.postGate) {
+            await this.applyPostGate(agent, result.uri, current.postGate);
+          }
+        } catch (error) {
+          logger.error(`Failed to publish post ${i + 1}:`, error);
+          current = this.withPost(current, i, {
+            ...post,
+            status: "failed",
+            error:
+              error instanceof Error ? error.message : "Failed to publish post",
+            attempts: post.attempts + 1,
+          });
+          current = { ...current, status: "failed" };
+          await this.save(current);
+          return;
+        }
+
+        // Small delay between posts to avoid rate limiting
+        if (i < current.posts.length - 1) {
+          await new Promise((resolve) => setTimeout(resolve, POST_SPACING_MS));
+        }
+      }
+
+      current = {
+        ...current,
+        status: "published",
+        publishedAt: new Date().toISOString(),
+      };
+      await this.save(current);
+      logger.log(`Published scheduled thread ${current.id}`);
+    } finally {
+      this.inFlight.delete(thread.id);
+    }
+  }
+
+  private async publishPost(
+    agent: BskyAgent,
+    post: ScheduledPost,
+    text: string,
+    langs: string[] | undefined,
+    reply?: { root: PostRef; parent: PostRef },
+  ): Promise<PostRef> {
+    const postData: PostRichText &
+      Pick<AppBskyFeedPost.Record, "langs" | "reply" | "embed"> =
+      await buildPostRichText(agent, text);
+    if (langs?.length) {
+      postData.langs = langs;
+    }
+    if (reply) {
+      postData.reply = reply;
+    }
+
+    let media: Parameters<typeof buildQuoteEmbed>[1];
+    const video = post.media.find((m) => m.type === "video");
+    if (video) {
+      const videoService = new VideoUploadService(agent);
+      const uploaded = await videoService.uploadVideo(
+        new Uint8Array(await video.blob.arrayBuffer()),
+        video.mimeType,
+      );
+      media = {
+        $type: "app.bsky.embed.video",
+        // The job status hands back the blob in JSON form, as it is sent
+        video: uploaded.blob as unknown as BlobRef,
+        aspectRatio: uploaded.aspectRatio,
+      };
+    } else if (post.media.length > 0) {
+      const images = await Promise.all(
+        post.media.map(async (image) => {
+          const uploadResult = await agent.uploadBlob(
+            new Uint8Array(await image.blob.arrayBuffer()),
+            { encoding: image.mimeType },
+          );
+          return { alt: image.alt || "", image: uploadResult.data.blob };
+        }),
+      );
+      media = { $type: "app.bsky.embed.images", images };
+    }
+
+    if (media) {
+      postData.embed = media;
+    } else if (post.linkCardUrl && !post.quote) {
+      const metadata = await linkMetadataService.resolve(post.linkCardUrl);
+      if (metadata) {
+        postData.embed = await linkMetadataService.buildExternalEmbed(
+          agent,
+          metadata,
+        );
+      }
+    }
+
+    // The quote takes the place of a link card, and wraps any media
+    if (post.quote) {
+      postData.embed = buildQuoteEmbed(post.quote, media);
+    }
+
+    return await agent.post({ ...postData });
+  }
+
+  // A missing gate shouldn't hold back the rest of the thread
+  private async applyPostGate(
+    agent: BskyAgent,
+    rootUri: string,
+    postGate: NonNullable<ScheduledThread["postGate"]>,
+  ) {
+    try {
+      await new PostGateService(agent).applySettings(rootUri, postGate);
+    } catch (error) {
+      logger.error(
+        "Failed to apply reply settings to scheduled thread:",
+        error,
+      );
+    }
+  }
+
+  private withPost(
+    thread: ScheduledThread,
+    index: number,
+    post: ScheduledPost,
+  ): ScheduledThread {
+    return {
+      ...thread,
+      posts: thread.posts.map((p, i) => (i === index ? post : p)),
+    };
+  }
+
+  private async save(thread: ScheduledThread) {
+    await scheduledPostsStorage.saveThread(thread);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const scheduledPostRunner = new ScheduledPostRunner();
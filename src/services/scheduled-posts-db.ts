@@ -0,0 +1,129 @@
+import { IDBPDatabase, openDB } from "idb";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+import type { PostGateSettings } from "./atproto/post-gates";
+import type { ComposerSettings } from "./drafts";
+
+export type ScheduledThreadStatus =
+  | "scheduled"
+  | "publishing"
+  | "published"
+  | "failed"
+  // Came due while the app was closed, waiting for the user to confirm
+  | "missed";
+
+export type ScheduledPostStatus = "pending" | "published" | "failed";
+
+export interface ScheduledMedia {
+  blob: Blob;
+  mimeType: string;
+  alt: string;
+  type: "image" | "video";
+}
+
+export interface ScheduledPost {
+  // Text without thread numbering, that's applied when publishing
+  text: string;
+  media: ScheduledMedia[];
+  // Link card to attach when the post has no media
+  linkCardUrl?: string;
+  // Post being quoted, only ever set on the first post of a thread
+  quote?: { uri: string; cid: string };
+  status: ScheduledPostStatus;
+  uri?: string;
+  cid?: string;
+  error?: string;
+  attempts: number;
+}
+
+export interface ScheduledThread {
+  id: string;
+  title: string;
+  scheduledFor: string; // ISO date string
+  createdAt: string;
+  updatedAt: string;
+  status: ScheduledThreadStatus;
+  // Posts in publishing order
+  posts: ScheduledPost[];
+  numberingFormat: ComposerSettings["numberingFormat"];
+  numberingPosition: ComposerSettings["numberingPosition"];
+  // Reply and quote controls for the thread root
+  postGate?: PostGateSettings;
+  // Draft the thread was scheduled from, if any
+  draftId?: string;
+  // Language tags for every post in the thread
+  langs?: string[];
+  publishedAt?: string;
+}
+
+const logger = createLogger("ScheduledPostsDB");
+
+export const generateScheduledThreadId = (): string =>
+  `scheduled_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+class ScheduledPostsDB {
+  private dbName = accountScopedName("bsky_scheduled_posts_db");
+  private dbVersion = 1;
+  private db: IDBPDatabase | null = null;
+
+  async init() {
+    try {
+      this.db = await openDB(this.dbName, this.dbVersion, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains("threads")) {
+            const store = db.createObjectStore("threads", { keyPath: "id" });
+            store.createIndex("scheduledFor", "scheduledFor", {
+              unique: false,
+            });
+            store.createIndex("status", "status", { unique: false });
+          }
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to initialize scheduled posts DB:", error);
+    }
+  }
+
+  async saveThread(thread: ScheduledThread): Promise<void> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error("Failed to initialize database");
+
+    await this.db.put("threads", {
+      ...thread,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  async getThread(id: string): Promise<ScheduledThread | undefined> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error("Failed to initialize database");
+
+    return await this.db.get("threads", id);
+  }
+
+  // All threads, soonest first
+  async getAllThreads(): Promise<ScheduledThread[]> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error("Failed to initialize database");
+
+    return await this.db.getAllFromIndex("threads", "scheduledFor");
+  }
+
+  async getThreadsByStatus(
+    status: ScheduledThreadStatus,
+  ): Promise<ScheduledThread[]> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error("Failed to initialize database");
+
+    return await this.db.getAllFromIndex("threads", "status", status);
+  }
+
+  async deleteThread(id: string): Promise<void> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error("Failed to initialize database");
+
+    await this.db.delete("threads", id);
+  }
+}
+
+export const scheduledPostsStorage = new ScheduledPostsDB();
@@ -0,0 +1,334 @@
+import type {
+  AppBskyFeedDefs,
+  AppBskyNotificationListNotifications,
+} from "@atproto/api";
+import { debug } from "@bsky/shared";
+import { accountScopedName } from "./account-store";
+
+type Notification = AppBskyNotificationListNotifications.Notification;
+type Post = AppBskyFeedDefs.PostView;
+
+export type SearchDocumentKind = "notification" | "post";
+
+/**
+ * One searchable item. The `tokens` index is multi-entry, so it works as an
+ * inverted index from each word to the documents containing it.
+ */
+export interface SearchDocument {
+  // `${kind}:${uri}`, a reply can be both a notification and a cached post
+  id: string;
+  kind: SearchDocumentKind;
+  uri: string;
+  text: string;
+  tokens: string[];
+  authorDid: string;
+  authorHandle: string;
+  reason?: string;
+  indexedAt: string;
+  hasImage: boolean;
+}
+
+interface SearchIndexMeta {
+  id: string;
+  // Bumped when tokenizing changes and the index has to be rebuilt
+  version: number;
+  builtAt: number;
+}
+
+export const SEARCH_INDEX_VERSION = 1;
+
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = "documents";
+const METADATA_STORE = "metadata";
+const TOKENS_INDEX = "by_token";
+const INDEXED_AT_INDEX = "by_indexed_at";
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40;
+
+/** Lower-cases and strips diacritics, so "Café" and "cafe" match */
+export const foldText = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+export const tokenize = (text: string): string[] => [
+  ...new Set(
+    foldText(text)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(
+        (token) =>
+          token.length >= MIN_TOKEN_LENGTH && token.length <= MAX_TOKEN_LENGTH,
+      ),
+  ),
+];
+
+type EmbedLike = { $type?: string; media?: { $type?: string } } | undefined;
+
+const embedHasImage = (embed: unknown, suffix = ""): boolean => {
+  const { $type, media } = (embed as EmbedLike) || {};
+  return (
+    $type === `app.bsky.embed.images${suffix}` ||
+    ($type === `app.bsky.embed.recordWithMedia${suffix}` &&
+      media?.$type === `app.bsky.embed.images${suffix}`)
+  );
+};
+
+const notificationDocument = (notification: Notification): SearchDocument => {
+  const record = notification.record as { text?: string; embed?: unknown };
+  const text = record?.text || "";
+  return {
+    id: `notification:${notification.uri}`,
+    kind: "notification",
+    uri: notification.uri,
+    text,
+    tokens: tokenize(text),
+    authorDid: notification.author.did,
+    authorHandle: notification.author.handle.toLowerCase(),
+    reason: notification.reason,
+    indexedAt: notification.indexedAt,
+    hasImage: embedHasImage(record?.embed),
+  };
+};
+
+const postDocument = (post: Post): SearchDocument => {
+  const text = (post.record as { text?: string })?.text || "";
+  return {
+    id: `post:${post.uri}`,
+    kind: "post",
+    uri: post.uri,
+    text,
+    tokens: tokenize(text),
+    authorDid: post.author.did,
+    authorHandle: post.author.handle.toLowerCase(),
+    indexedAt: post.indexedAt,
+    hasImage: embedHasImage(post.embed, "#view"),
+  };
+};
+
+export class SearchIndexDB {
+  private static instance: SearchIndexDB;
+  private db: IDBDatabase | null = null;
+  private opening: Promise<void> | null = null;
+  private readonly DB_NAME = accountScopedName("bsky_search_index");
+
+  private constructor() {}
+
+  static getInstance(): SearchIndexDB {
+    if (!SearchIndexDB.instance) {
+      SearchIndexDB.instance = new SearchIndexDB();
+    }
+    return SearchIndexDB.instance;
+  }
+
+  // Safe to call repeatedly, indexing on save calls it before every write
+  async init(): Promise<void> {
+    if (this.db) return;
+    if (this.opening) return this.opening;
+
+    this.opening = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        debug.error("Failed to open SearchIndexDB:", request.error);
+        this.opening = null;
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          const store = db.createObjectStore(DOCUMENTS_STORE, {
+            keyPath: "id",
+          });
+          store.createIndex(TOKENS_INDEX, "tokens", {
+            unique: false,
+            multiEntry: true,
+          });
+          store.createIndex(INDEXED_AT_INDEX, "indexedAt", { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains(METADATA_STORE)) {
+          db.createObjectStore(METADATA_STORE, { keyPath: "id" });
+        }
+      };
+    });
+    return this.opening;
+  }
+
+  private ensureDb(): IDBDatabase {
+    if (!this.db) {
+      throw new Error("SearchIndexDB not initialized. Call init() first.");
+    }
+    return this.db;
+  }
+
+  async indexNotifications(notifications: Notification[]): Promise<void> {
+    await this.putDocuments(notifications.map(notificationDocument));
+  }
+
+  async indexPosts(posts: Post[]): Promise<void> {
+    await this.putDocuments(posts.map(postDocument));
+  }
+
+  private async putDocuments(documents: SearchDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+    await this.init();
+    const transaction = this.ensureDb().transaction(
+      [DOCUMENTS_STORE],
+      "readwrite",
+    );
+    const store = transaction.objectStore(DOCUMENTS_STORE);
+    documents.forEach((document) => store.put(document));
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async removeDocuments(
+    kind: SearchDocumentKind,
+    uris: string[],
+  ): Promise<void> {
+    if (uris.length === 0) return;
+    await this.init();
+    const transaction = this.ensureDb().transaction(
+      [DOCUMENTS_STORE],
+      "readwrite",
+    );
+    const store = transaction.objectStore(DOCUMENTS_STORE);
+    uris.forEach((uri) => store.delete(`${kind}:${uri}`));
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Document ids containing a token that starts with `prefix`
+  async getIdsForPrefix(prefix: string): Promise<Set<string>> {
+    await this.init();
+    const index = this.ensureDb()
+      .transaction([DOCUMENTS_STORE], "readonly")
+      .objectStore(DOCUMENTS_STORE)
+      .index(TOKENS_INDEX);
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAllKeys(
+        IDBKeyRange.bound(prefix, `${prefix}\uffff`),
+      );
+      request.onsuccess = () => resolve(new Set(request.result as string[]));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getDocuments(ids: Iterable<string>): Promise<SearchDocument[]> {
+    await this.init();
+    const store = this.ensureDb()
+      .transaction([DOCUMENTS_STORE], "readonly")
+      .objectStore(DOCUMENTS_STORE);
+
+    const documents = await Promise.all(
+      [...ids].map(
+        (id) =>
+          new Promise<SearchDocument | undefined>((resolve, reject) => {
+            const request = store.get(id);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+          }),
+      ),
+    );
+    return documents.filter((doc): doc is SearchDocument => !!doc);
+  }
+
+  /** Newest first, until `limit` documents passed `filter` */
+  async scanRecent(
+    filter: (document: SearchDocument) => boolean,
+    limit: number,
+  ): Promise<SearchDocument[]> {
+    await this.init();
+    const index = this.ensureDb()
+      .transaction([DOCUMENTS_STORE], "readonly")
+      .objectStore(DOCUMENTS_STORE)
+      .index(INDEXED_AT_INDEX);
+
+    return new Promise((resolve, reject) => {
+      const documents: SearchDocument[] = [];
+      const request = index.openCursor(null, "prev");
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+        if (cursor && documents.length < limit) {
+          if (filter(cursor.value)) documents.push(cursor.value);
+          cursor.continue();
+        } else {
+          resolve(documents);
+        }
+      };
+
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getCount(): Promise<number> {
+    await this.init();
+    const store = this.ensureDb()
+      .transaction([DOCUMENTS_STORE], "readonly")
+      .objectStore(DOCUMENTS_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    await this.init();
+    const transaction = this.ensureDb().transaction(
+      [DOCUMENTS_STORE, METADATA_STORE],
+      "readwrite",
+    );
+    transaction.objectStore(DOCUMENTS_STORE).clear();
+    transaction.objectStore(METADATA_STORE).clear();
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getMetadata(): Promise<SearchIndexMeta | null> {
+    await this.init();
+    const store = this.ensureDb()
+      .transaction([METADATA_STORE], "readonly")
+      .objectStore(METADATA_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get("main");
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveMetadata(meta: Omit<SearchIndexMeta, "id">): Promise<void> {
+    await this.init();
+    const store = this.ensureDb()
+      .transaction([METADATA_STORE], "readwrite")
+      .objectStore(METADATA_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ id: "main", ...meta });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
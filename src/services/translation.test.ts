@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MockTranslationProvider,
+  translationService,
+  type TranslationProvider,
+} from "./translation";
+
+const storage = new Map<string, string>();
+
+vi.stubGlobal("localStorage", {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+});
+
+describe("MockTranslationProvider", () => {
+  it("tags the text with the target language", async () => {
+    const result = await new MockTranslationProvider().translate(
+      "Hallo Welt",
+      "en",
+      "de",
+    );
+
+    expect(result).toEqual({ text: "[en] Hallo Welt", sourceLang: "de" });
+  });
+
+  it("returns fixtures for known text", async () => {
+    const provider = new MockTranslationProvider({ "Hallo Welt": "Hi" });
+
+    expect((await provider.translate("Hallo Welt", "en")).text).toBe("Hi");
+  });
+});
+
+describe("translationService", () => {
+  const original = translationService.getProvider();
+
+  beforeEach(() => {
+    translationService.setProvider(new MockTranslationProvider());
+  });
+
+  afterEach(() => {
+    translationService.setProvider(original);
+  });
+
+  it("translates through the provider it is given", async () => {
+    const provider = new MockTranslationProvider({ Bonjour: "Hello" });
+    translationService.setProvider(provider);
+
+    expect(translationService.getProvider()).toBe(provider);
+    expect(
+      await translationService.translatePost("at://post/1", "Bonjour", "en"),
+    ).toMatchObject({
+      uri: "at://post/1",
+      targetLang: "en",
+      text: "Hello",
+      provider: "mock",
+    });
+  });
+
+  it("caches translations per post and language", async () => {
+    const provider = new MockTranslationProvider();
+    const translate = vi.spyOn(provider, "translate");
+    translationService.setProvider(provider);
+
+    await Promise.all([
+      translationService.translatePost("at://post/1", "Hola", "en"),
+      translationService.translatePost("at://post/1", "Hola", "en"),
+    ]);
+    await translationService.translatePost("at://post/1", "Hola", "en");
+    expect(translate).toHaveBeenCalledTimes(1);
+
+    await translationService.translatePost("at://post/1", "Hola", "fr");
+    expect(translate).toHaveBeenCalledTimes(2);
+    expect(translationService.getCached("at://post/1", "en")?.text).toBe(
+      "[en] Hola",
+    );
+    expect(storage.get("bsky_post_translations")).toContain("[fr] Hola");
+  });
+
+  it("drops cached translations when the provider changes", async () => {
+    await translationService.translatePost("at://post/1", "Hola", "en");
+
+    translationService.setProvider(new MockTranslationProvider());
+    expect(translationService.getCached("at://post/1", "en")).toBeNull();
+    expect(storage.has("bsky_post_translations")).toBe(false);
+  });
+
+  it("keeps translations from a replaced provider out of the cache", async () => {
+    let finish: (result: { text: string }) => void = () => {};
+    const slow: TranslationProvider = {
+      name: "slow",
+      isAvailable: () => true,
+      translate: () => new Promise((resolve) => (finish = resolve)),
+    };
+    translationService.setProvider(slow);
+    const first = translationService.translatePost("at://post/1", "Hola", "en");
+
+    translationService.setProvider(new MockTranslationProvider());
+    const second = translationService.translatePost(
+      "at://post/1",
+      "Hola",
+      "en",
+    );
+    finish({ text: "Hello" });
+
+    expect(await first).toMatchObject({ text: "Hello", provider: "slow" });
+    expect(await second).toMatchObject({ text: "[en] Hola", provider: "mock" });
+    expect(translationService.getCached("at://post/1", "en")?.provider).toBe(
+      "mock",
+    );
+  });
+
+  it("doesn't cache failed translations", async () => {
+    const provider: TranslationProvider = {
+      name: "flaky",
+      isAvailable: () => true,
+      translate: vi
+        .fn()
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockResolvedValueOnce({ text: "Hello" }),
+    };
+    translationService.setProvider(provider);
+
+    await expect(
+      translationService.translatePost("at://post/1", "Hola", "en"),
+    ).rejects.toThrow("offline");
+    expect(
+      (await translationService.translatePost("at://post/1", "Hola", "en"))
+        .text,
+    ).toBe("Hello");
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Post Translation
+ *
+ * Translates post text through a pluggable provider. The default uses the
+ * Anthropic API and needs VITE_ANTHROPIC_API_KEY; a mock that never touches
+ * the network can be selected with VITE_TRANSLATION_PROVIDER=mock (or
+ * swapped in with setProvider) for tests and offline development.
+ *
+ * Translations are cached per post URI and target language, in memory and
+ * in localStorage so a post isn't paid for twice.
+ */
+
+import { detectLanguage } from "../utils/language-detect";
+import { createLogger } from "../utils/logger";
+import { translateText } from "./anthropic";
+
+export interface TranslationProvider {
+  name: string;
+  isAvailable(): boolean;
+  translate(
+    text: string,
+    targetLang: string,
+    sourceLang?: string,
+  ): Promise<{ text: string; sourceLang?: string }>;
+}
+
+export interface PostTranslation {
+  uri: string;
+  targetLang: string;
+  text: string;
+  sourceLang?: string;
+  provider: string;
+  translatedAt: string;
+}
+
+const CACHE_KEY = "bsky_post_translations";
+const MAX_CACHED = 200;
+
+const logger = createLogger("Translation");
+
+export class AnthropicTranslationProvider implements TranslationProvider {
+  name = "anthropic";
+
+  isAvailable() {
+    return !!import.meta.env.VITE_ANTHROPIC_API_KEY;
+  }
+
+  async translate(text: string, targetLang: string, sourceLang?: string) {
+    const result = await translateText(text, targetLang, sourceLang);
+    return { text: result.translatedText, sourceLang: result.sourceLang };
+  }
+}
+
+/**
+ * Offline stand-in that tags the text with the target language. Fixtures
+ * can be supplied to return specific translations for known text.
+ */
+export class MockTranslationProvider implements TranslationProvider {
+  name = "mock";
+
+  constructor(private fixtures: Record<string, string> = {}) {}
+
+  isAvailable() {
+    return true;
+  }
+
+  async translate(text: string, targetLang: string, sourceLang?: string) {
+    return {
+      text: this.fixtures[text] ?? `[${targetLang}] ${text}`,
+      sourceLang: sourceLang || detectLanguage(text) || undefined,
+    };
+  }
+}
+
+const cacheKey = (uri: string, targetLang: string) => `${uri}|${targetLang}`;
+
+class TranslationService {
+  private provider: TranslationProvider =
+    import.meta.env.VITE_TRANSLATION_PROVIDER === "mock"
+      ? new MockTranslationProvider()
+      : new AnthropicTranslationProvider();
+  private cache = new Map<string, PostTranslation>();
+  private pending = new Map<string, Promise<PostTranslation>>();
+  private loaded = false;
+
+  setProvider(provider: TranslationProvider) {
+    this.provider = provider;
+    this.cache.clear();
+    this.pending.clear();
+    localStorage.removeItem(CACHE_KEY);
+  }
+
+  getProvider(): TranslationProvider {
+    return this.provider;
+  }
+
+  isAvailable() {
+    return this.provider.isAvailable();
+  }
+
+  getCached(uri: string, targetLang: string): PostTranslation | null {
+    this.load();
+    return this.cache.get(cacheKey(uri, targetLang)) || null;
+  }
+
+  translatePost(
+    uri: string,
+    text: string,
+    targetLang: string,
+    sourceLang?: string,
+  ): Promise<PostTranslation> {
+    const key = cacheKey(uri, targetLang);
+    const cached = this.getCached(uri, targetLang);
+    if (cached) return Promise.resolve(cached);
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      // The provider can be swapped while this is in flight
+      const provider = this.provider;
+      const request: Promise<PostTranslation> = provider
+        .translate(text, targetLang, sourceLang)
+        .then((result) => {
+          const translation: PostTranslation = {
+            uri,
+            targetLang,
+            text: result.text,
+            sourceLang: result.sourceLang,
+            provider: provider.name,
+            translatedAt: new Date().toISOString(),
+          };
+          if (this.provider === provider) {
+            this.cache.set(key, translation);
+            this.persist();
+          }
+          return translation;
+        })
+        .finally(() => {
+          if (this.pending.get(key) === request) this.pending.delete(key);
+        });
+      pending = request;
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private load() {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const saved: PostTranslation[] = JSON.parse(
+        localStorage.getItem(CACHE_KEY) || "[]",
+      );
+      saved.forEach((t) => this.cache.set(cacheKey(t.uri, t.targetLang), t));
+    } catch (error) {
+      logger.error("Failed to load cached translations:", error);
+    }
+  }
+
+  // Keeps the most recent translations, the Map holds them oldest first
+  private persist() {
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= MAX_CACHED) break;
+      this.cache.delete(key);
+    }
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify([...this.cache.values()]));
+    } catch (error) {
+      logger.error("Failed to cache translations:", error);
+    }
+  }
+}
+
+export const translationService = new TranslationService();
@@ -0,0 +1,275 @@
+import type { Column } from "../components/SkyDeck";
+import { columnFeedPrefs } from "../utils/cookies";
+import { createLogger } from "../utils/logger";
+import { accountScopedName } from "./account-store";
+import { appPreferencesService } from "./app-preferences-service";
+
+export interface ColumnSettings {
+  feedUri?: string;
+}
+
+export interface SkyDeckWorkspace {
+  id: string;
+  name: string;
+  columns: Column[];
+  // Keyed by column id
+  columnSettings: Record<string, ColumnSettings>;
+  updatedAt: string;
+}
+
+interface LocalWorkspaceState {
+  workspaces: SkyDeckWorkspace[];
+  activeWorkspaceId: string | null;
+  // Set while local edits haven't made it to the PDS yet
+  pendingSync: boolean;
+}
+
+const WORKSPACES_KEY = "skyDeckWorkspaces";
+// Attempts at reading the remote record before giving up for this session
+const SYNC_ATTEMPTS = 3;
+const SYNC_RETRY_MS = 2000;
+
+const logger = createLogger("WorkspaceService");
+
+export const generateWorkspaceId = (): string =>
+  `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Capture the per-column settings that live outside Column[] (currently the
+ * feed picked in each feed column) so they travel with the workspace.
+ */
+export const captureColumnSettings = (
+  columns: Column[],
+): Record<string, ColumnSettings> => {
+  const settings: Record<string, ColumnSettings> = {};
+  for (const column of columns) {
+    if (column.type === "feed") {
+      const feedUri = columnFeedPrefs.getFeedForColumn(column.id);
+      if (feedUri) {
+        settings[column.id] = { feedUri };
+      }
+    }
+  }
+  return settings;
+};
+
+export const applyColumnSettings = (workspace: SkyDeckWorkspace): Column[] => {
+  return workspace.columns.map((column) => {
+    const feedUri = workspace.columnSettings[column.id]?.feedUri;
+    if (column.type === "feed" && feedUri) {
+      columnFeedPrefs.setFeedForColumn(column.id, feedUri);
+      return { ...column, data: feedUri };
+    }
+    return column;
+  });
+};
+
+type Listener = () => void;
+
+class WorkspaceService {
+  private state: LocalWorkspaceState = this.loadLocal();
+  private listeners = new Set<Listener>();
+  private isSyncing = false;
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", () => {
+        if (this.state.pendingSync) {
+          this.pushInBackground();
+        }
+      });
+    }
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getWorkspaces(): SkyDeckWorkspace[] {
+    return this.state.workspaces;
+  }
+
+  getActiveWorkspace(): SkyDeckWorkspace | null {
+    return (
+      this.state.workspaces.find(
+        (ws) => ws.id === this.state.activeWorkspaceId,
+      ) || null
+    );
+  }
+
+  /**
+   * Pull workspaces from the preferences record. Local edits that never
+   * reached the PDS win over the remote copy and are pushed instead.
+   */
+  async sync(): Promise<void> {
+    if (this.isSyncing) return;
+    this.isSyncing = true;
+
+    try {
+      if (this.state.pendingSync) {
+        await this.push();
+        return;
+      }
+
+      const prefs = await this.fetchRemote();
+      if (!prefs?.skyDeckWorkspaces) {
+        // Confirmed nothing remote yet, seed it with what we have locally
+        if (this.state.workspaces.length > 0) {
+          await this.push();
+        }
+        return;
+      }
+
+      this.state = {
+        workspaces: prefs.skyDeckWorkspaces,
+        activeWorkspaceId:
+          this.state.activeWorkspaceId &&
+          prefs.skyDeckWorkspaces.some(
+            (ws) => ws.id === this.state.activeWorkspaceId,
+          )
+            ? this.state.activeWorkspaceId
+            : prefs.activeWorkspaceId || null,
+        pendingSync: false,
+      };
+      this.commit();
+    } catch (error) {
+      // Local state is left alone, the remote copy may still be newer
+      logger.error("Failed to sync workspaces:", error);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  saveWorkspace(workspace: SkyDeckWorkspace) {
+    const updated = { ...workspace, updatedAt: new Date().toISOString() };
+    const exists = this.state.workspaces.some((ws) => ws.id === workspace.id);
+
+    this.state = {
+      ...this.state,
+      workspaces: exists
+        ? this.state.workspaces.map((ws) =>
+            ws.id === workspace.id ? updated : ws,
+          )
+        : [...this.state.workspaces, updated],
+    };
+    this.markDirty();
+  }
+
+  createWorkspace(name: string, columns: Column[]): SkyDeckWorkspace {
+    const workspace: SkyDeckWorkspace = {
+      id: generateWorkspaceId(),
+      name,
+      columns,
+      columnSettings: captureColumnSettings(columns),
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.state = {
+      ...this.state,
+      workspaces: [...this.state.workspaces, workspace],
+      activeWorkspaceId: workspace.id,
+    };
+    this.markDirty();
+    return workspace;
+  }
+
+  renameWorkspace(id: string, name: string) {
+    const workspace = this.state.workspaces.find((ws) => ws.id === id);
+    if (workspace) {
+      this.saveWorkspace({ ...workspace, name });
+    }
+  }
+
+  deleteWorkspace(id: string) {
+    const workspaces = this.state.workspaces.filter((ws) => ws.id !== id);
+    this.state = {
+      ...this.state,
+      workspaces,
+      activeWorkspaceId:
+        this.state.activeWorkspaceId === id
+          ? workspaces[0]?.id || null
+          : this.state.activeWorkspaceId,
+    };
+    this.markDirty();
+  }
+
+  setActiveWorkspace(id: string): SkyDeckWorkspace | null {
+    const workspace = this.state.workspaces.find((ws) => ws.id === id);
+    if (!workspace) return null;
+
+    this.state = { ...this.state, activeWorkspaceId: id };
+    this.markDirty();
+    return workspace;
+  }
+
+  private markDirty() {
+    this.state = { ...this.state, pendingSync: true };
+    this.commit();
+    this.pushInBackground();
+  }
+
+  // pendingSync stays set on failure, so the next sync or reconnect retries
+  private pushInBackground() {
+    this.push().catch((error) => {
+      logger.error("Failed to push workspaces:", error);
+    });
+  }
+
+  // Throws once every attempt has failed, a missing record resolves to null
+  private async fetchRemote() {
+    for (let attempt = 1; ; attempt++) {
+      appPreferencesService.clearCache();
+      try {
+        return await appPreferencesService.fetchPreferences();
+      } catch (error) {
+        if (attempt >= SYNC_ATTEMPTS) throw error;
+        logger.warn(`Failed to read workspaces, retrying (${attempt}):`, error);
+        await new Promise((resolve) =>
+          setTimeout(resolve, SYNC_RETRY_MS * attempt),
+        );
+      }
+    }
+  }
+
+  private async push(): Promise<void> {
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      logger.log("Offline, keeping workspaces in localStorage until online");
+      return;
+    }
+
+    const result = await appPreferencesService.updatePreferences({
+      skyDeckWorkspaces: this.state.workspaces,
+      activeWorkspaceId: this.state.activeWorkspaceId || undefined,
+    });
+
+    if (result) {
+      this.state = { ...this.state, pendingSync: false };
+      this.commit();
+    }
+  }
+
+  private commit() {
+    localStorage.setItem(
+      accountScopedName(WORKSPACES_KEY),
+      JSON.stringify(this.state),
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private loadLocal(): LocalWorkspaceState {
+    try {
+      const saved = localStorage.getItem(accountScopedName(WORKSPACES_KEY));
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      logger.error("Failed to load workspaces from localStorage:", error);
+    }
+    return { workspaces: [], activeWorkspaceId: null, pendingSync: false };
+  }
+}
+
+export const workspaceService = new WorkspaceService();
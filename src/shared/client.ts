@@ -2,7 +2,11 @@
  * AT Protocol client wrapper
  */
 
-import type { AtpSessionData, AtpSessionEvent } from "@atproto/api";
+import type {
+  AtpSessionData,
+  AtpSessionEvent,
+  CredentialSession,
+} from "@atproto/api";
 import { BskyAgent } from "@atproto/api";
 import { deleteCookie, getCookie, setCookie } from "../utils/cookies";
 import { debug } from "./debug";
@@ -34,16 +38,32 @@ export class ATProtoClient {
 
     this.agent = new BskyAgent({
       service: config.service,
-      persistSession: (evt: AtpSessionEvent, sess?: AtpSessionData) => {
-        if (config.persistSession && sess) {
-          this.saveSession(sess as Session);
-        } else if (evt === "expired" || evt === "create-failed") {
-          this.clearSession();
-        }
-      },
+      persistSession: this.handleSessionEvent,
     });
   }
 
+  // Session events from the agent, whichever session manager it uses
+  handleSessionEvent = (evt: AtpSessionEvent, sess?: AtpSessionData) => {
+    if (this.config.persistSession && sess) {
+      this.saveSession(sess as Session);
+    } else if (evt === "expired" || evt === "create-failed") {
+      this.clearSession();
+    }
+  };
+
+  /**
+   * Back the agent with another session manager, e.g. one for OAuth
+   * sessions. Without one, goes back to app password sessions.
+   */
+  setSessionManager(manager?: CredentialSession) {
+    this.agent = manager
+      ? new BskyAgent(manager)
+      : new BskyAgent({
+          service: this.config.service,
+          persistSession: this.handleSessionEvent,
+        });
+  }
+
   async login(identifier: string, password: string): Promise<Session> {
     try {
       const response = await this.agent.login({ identifier, password });
@@ -115,11 +135,16 @@ export class ATProtoClient {
         });
       }
 
-      // Use cookies for cross-subdomain access
-      setCookie(this.sessionKey, sessionData, {
-        secure: window.location.protocol === "https:",
-        sameSite: "Lax",
-      });
+      // Use cookies for cross-subdomain access. OAuth sessions are bound
+      // to a key in this origin's IndexedDB, other subdomains can't use them
+      if ("oauth" in session) {
+        deleteCookie(this.sessionKey);
+      } else {
+        setCookie(this.sessionKey, sessionData, {
+          secure: window.location.protocol === "https:",
+          sameSite: "Lax",
+        });
+      }
       // Also save to localStorage for backward compatibility
       localStorage.setItem(this.sessionKey, sessionData);
     }
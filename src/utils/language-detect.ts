@@ -0,0 +1,288 @@
+/**
+ * Best-effort language guess for post text, for the `langs` field and for
+ * deciding whether a post needs translating. Scripts that belong to one
+ * language decide it outright; Latin text is scored on common words.
+ */
+
+export interface PostLanguage {
+  code: string;
+  name: string;
+}
+
+// Offered in the composer's language picker
+export const POST_LANGUAGES: PostLanguage[] = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "pt", name: "Portuguese" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "nl", name: "Dutch" },
+  { code: "sv", name: "Swedish" },
+  { code: "pl", name: "Polish" },
+  { code: "tr", name: "Turkish" },
+  { code: "ru", name: "Russian" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "el", name: "Greek" },
+  { code: "ar", name: "Arabic" },
+  { code: "he", name: "Hebrew" },
+  { code: "hi", name: "Hindi" },
+  { code: "th", name: "Thai" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "zh", name: "Chinese" },
+];
+
+// Scripts used by a single language here, checked in order
+const SCRIPTS: [RegExp, string][] = [
+  // Kana first, Japanese mixes it with kanji
+  [/[぀-ヿ]/g, "ja"],
+  [/[가-힯ᄀ-ᇿ]/g, "ko"],
+  [/[一-鿿]/g, "zh"],
+  [/[؀-ۿ]/g, "ar"],
+  [/[֐-׿]/g, "he"],
+  [/[Ͱ-Ͽ]/g, "el"],
+  [/[ऀ-ॿ]/g, "hi"],
+  [/[฀-๿]/g, "th"],
+];
+
+const CYRILLIC = /[Ѐ-ӿ]/g;
+// Letters Ukrainian has and Russian doesn't
+const UKRAINIAN = /[іїєґ]/i;
+
+const STOPWORDS: Record<string, string[]> = {
+  en: [
+    "the",
+    "and",
+    "is",
+    "are",
+    "of",
+    "to",
+    "in",
+    "that",
+    "it",
+    "you",
+    "for",
+    "this",
+    "was",
+    "with",
+    "have",
+    "not",
+  ],
+  es: [
+    "el",
+    "la",
+    "de",
+    "que",
+    "y",
+    "en",
+    "los",
+    "es",
+    "por",
+    "con",
+    "una",
+    "para",
+    "las",
+    "del",
+    "pero",
+    "muy",
+  ],
+  pt: [
+    "o",
+    "a",
+    "de",
+    "que",
+    "e",
+    "do",
+    "da",
+    "em",
+    "um",
+    "não",
+    "para",
+    "com",
+    "uma",
+    "os",
+    "é",
+    "mas",
+  ],
+  fr: [
+    "le",
+    "la",
+    "les",
+    "de",
+    "et",
+    "est",
+    "un",
+    "une",
+    "que",
+    "pas",
+    "pour",
+    "dans",
+    "ce",
+    "je",
+    "vous",
+    "avec",
+  ],
+  de: [
+    "der",
+    "die",
+    "das",
+    "und",
+    "ist",
+    "nicht",
+    "ich",
+    "zu",
+    "den",
+    "mit",
+    "ein",
+    "eine",
+    "auch",
+    "es",
+    "sie",
+    "auf",
+  ],
+  it: [
+    "il",
+    "di",
+    "che",
+    "e",
+    "la",
+    "non",
+    "un",
+    "per",
+    "è",
+    "sono",
+    "una",
+    "con",
+    "gli",
+    "del",
+    "ma",
+    "anche",
+  ],
+  nl: [
+    "de",
+    "het",
+    "een",
+    "en",
+    "van",
+    "is",
+    "niet",
+    "dat",
+    "ik",
+    "op",
+    "te",
+    "zijn",
+    "met",
+    "voor",
+    "maar",
+    "ook",
+  ],
+  sv: [
+    "och",
+    "att",
+    "det",
+    "är",
+    "som",
+    "en",
+    "på",
+    "jag",
+    "inte",
+    "med",
+    "för",
+    "har",
+    "av",
+    "den",
+    "till",
+    "men",
+  ],
+  pl: [
+    "i",
+    "w",
+    "nie",
+    "się",
+    "na",
+    "jest",
+    "to",
+    "że",
+    "z",
+    "do",
+    "co",
+    "jak",
+    "ale",
+    "tak",
+    "o",
+    "mnie",
+  ],
+  tr: [
+    "ve",
+    "bir",
+    "bu",
+    "da",
+    "de",
+    "için",
+    "ne",
+    "çok",
+    "ben",
+    "mi",
+    "var",
+    "ama",
+    "gibi",
+    "daha",
+    "olan",
+    "değil",
+  ],
+};
+
+// Below this many words, Latin text is too short to tell
+const MIN_WORDS = 3;
+const MIN_SCRIPT_SHARE = 0.3;
+
+const stripNoise = (text: string) =>
+  text
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[@#][^\s]+/g, " ")
+    .replace(/:[a-z_]+:/g, " ");
+
+const countMatches = (text: string, pattern: RegExp) =>
+  text.match(pattern)?.length || 0;
+
+/** The language code for `text`, or null when there isn't enough to go on */
+export function detectLanguage(text: string): string | null {
+  const cleaned = stripNoise(text);
+  const letters = countMatches(cleaned, /\p{L}/gu);
+  if (letters === 0) return null;
+
+  for (const [pattern, code] of SCRIPTS) {
+    if (countMatches(cleaned, pattern) / letters >= MIN_SCRIPT_SHARE) {
+      return code;
+    }
+  }
+  if (countMatches(cleaned, CYRILLIC) / letters >= MIN_SCRIPT_SHARE) {
+    return UKRAINIAN.test(cleaned) ? "uk" : "ru";
+  }
+
+  const words = cleaned.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < MIN_WORDS) return null;
+
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+    const score = words.filter((word) => stopwords.includes(word)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** "en-US" → "en" */
+export const primaryLanguage = (code: string) =>
+  code.split("-")[0].toLowerCase();
+
+export const languageName = (code: string) =>
+  POST_LANGUAGES.find((l) => l.code === primaryLanguage(code))?.name || code;
+
+// The language the reader's browser asks for
+export const getBrowserLanguage = () =>
+  primaryLanguage(navigator.language || "en");
@@ -0,0 +1,30 @@
+import type {
+  $Typed,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyEmbedVideo,
+  ComAtprotoRepoStrongRef,
+} from "@atproto/api";
+
+/**
+ * Build the embed for a post quoting `quote`. Posts only carry one embed, so
+ * images or video go into an app.bsky.embed.recordWithMedia alongside it.
+ */
+export function buildQuoteEmbed(
+  quote: ComAtprotoRepoStrongRef.Main,
+  media?: $Typed<AppBskyEmbedImages.Main> | $Typed<AppBskyEmbedVideo.Main>,
+): $Typed<AppBskyEmbedRecord.Main> | $Typed<AppBskyEmbedRecordWithMedia.Main> {
+  const record: $Typed<AppBskyEmbedRecord.Main> = {
+    $type: "app.bsky.embed.record",
+    record: { uri: quote.uri, cid: quote.cid },
+  };
+
+  if (!media) return record;
+
+  return {
+    $type: "app.bsky.embed.recordWithMedia",
+    record,
+    media,
+  };
+}
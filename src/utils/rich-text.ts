@@ -0,0 +1,114 @@
+import { AppBskyRichtextFacet, RichText, type BskyAgent } from "@atproto/api";
+import { getFollowerCacheDB } from "../services/follower-cache-db";
+import { recordHashtags } from "../services/hashtag-history";
+import { createLogger } from "./logger";
+
+const logger = createLogger("RichText");
+
+export interface PostRichText {
+  text: string;
+  facets?: AppBskyRichtextFacet.Main[];
+}
+
+/**
+ * Resolve handles to DIDs, checking the follower cache before asking the
+ * PDS. Handles that can't be resolved are left out of the result.
+ */
+const resolveHandles = async (
+  agent: BskyAgent,
+  handles: string[],
+): Promise<Map<string, string>> => {
+  const resolved = new Map<string, string>();
+  if (handles.length === 0) return resolved;
+
+  try {
+    const db = await getFollowerCacheDB();
+    const cached = await db.getProfilesByHandles(handles);
+    for (const [handle, profile] of cached) {
+      resolved.set(handle, profile.did);
+    }
+  } catch (error) {
+    logger.warn("Follower cache unavailable for mention lookup:", error);
+  }
+
+  await Promise.all(
+    handles
+      .filter((handle) => !resolved.has(handle))
+      .map(async (handle) => {
+        try {
+          const response = await agent.resolveHandle({ handle });
+          resolved.set(handle, response.data.did);
+        } catch {
+          logger.log(`Could not resolve @${handle}, leaving it as text`);
+        }
+      }),
+  );
+
+  return resolved;
+};
+
+/**
+ * Detect mention, link and hashtag facets in a post so they are clickable on
+ * Bluesky. Hashtags used are remembered for composer suggestions.
+ */
+export async function buildPostRichText(
+  agent: BskyAgent,
+  text: string,
+): Promise<PostRichText> {
+  const rt = new RichText({ text });
+  rt.detectFacetsWithoutResolution();
+  if (!rt.facets?.length) {
+    return { text: rt.text };
+  }
+
+  // Without resolution mention features carry the handle in `did`
+  const handles = new Set<string>();
+  const tags: string[] = [];
+  for (const facet of rt.facets) {
+    for (const feature of facet.features) {
+      if (AppBskyRichtextFacet.isMention(feature)) {
+        handles.add(feature.did);
+      } else if (AppBskyRichtextFacet.isTag(feature)) {
+        tags.push(feature.tag);
+      }
+    }
+  }
+
+  const dids = await resolveHandles(agent, [...handles]);
+  const facets = rt.facets
+    .map((facet) => ({
+      ...facet,
+      features: facet.features.flatMap((feature) => {
+        if (!AppBskyRichtextFacet.isMention(feature)) return [feature];
+        const did = dids.get(feature.did);
+        return did ? [{ ...feature, did }] : [];
+      }),
+    }))
+    .filter((facet) => facet.features.length > 0);
+
+  recordHashtags(tags);
+
+  return {
+    text: rt.text,
+    facets: facets.length > 0 ? facets : undefined,
+  };
+}
+
+// Links in a post, in order, as they'll appear in its link facets
+export function extractLinks(text: string): string[] {
+  const rt = new RichText({ text });
+  rt.detectFacetsWithoutResolution();
+
+  const links: string[] = [];
+  for (const facet of rt.facets || []) {
+    for (const feature of facet.features) {
+      if (
+        AppBskyRichtextFacet.isLink(feature) &&
+        !links.includes(feature.uri)
+      ) {
+        links.push(feature.uri);
+      }
+    }
+  }
+  return links;
+}
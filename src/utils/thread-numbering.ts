@@ -0,0 +1,68 @@
+import type { ComposerSettings } from "../services/drafts";
+
+export interface NumberingFormat {
+  id: ComposerSettings["numberingFormat"];
+  name: string;
+  format: (index: number, total: number) => string;
+  example: string;
+}
+
+export const NUMBERING_FORMATS: NumberingFormat[] = [
+  {
+    id: "none",
+    name: "No numbering",
+    format: () => "",
+    example: "",
+  },
+  {
+    id: "simple",
+    name: "Simple",
+    format: (i, t) => `${i}/${t}`,
+    example: "1/5",
+  },
+  {
+    id: "brackets",
+    name: "Brackets",
+    format: (i, t) => `[${i}/${t}]`,
+    example: "[1/5]",
+  },
+  {
+    id: "thread",
+    name: "Thread",
+    format: (i, t) => (i === 1 ? "🧵 1/" + t : `${i}/${t}`),
+    example: "🧵 1/5",
+  },
+  {
+    id: "dots",
+    name: "Dots",
+    format: (i, t) => `${i}•${t}`,
+    example: "1•5",
+  },
+];
+
+/**
+ * Add thread numbering ("1/5", "[1/5]", …) to each post, optionally
+ * reordering them first. Single posts are never numbered.
+ */
+export const applyThreadNumbering = (
+  posts: string[],
+  numberingFormat: ComposerSettings["numberingFormat"],
+  numberingPosition: ComposerSettings["numberingPosition"],
+  order?: number[],
+): string[] => {
+  if (numberingFormat === "none" || posts.length === 1) return posts;
+
+  const format = NUMBERING_FORMATS.find((f) => f.id === numberingFormat);
+  if (!format) return posts;
+
+  // If we have a custom order, apply it
+  const orderedPosts =
+    order && order.length === posts.length ? order.map((i) => posts[i]) : posts;
+
+  return orderedPosts.map((post, index) => {
+    const numbering = format.format(index + 1, orderedPosts.length);
+    return numberingPosition === "beginning"
+      ? `${numbering} ${post}`
+      : `${post} ${numbering}`;
+  });
+};
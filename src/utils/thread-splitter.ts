@@ -0,0 +1,244 @@
+import { UnicodeString } from "@atproto/api";
+import type { ComposerSettings } from "../services/drafts";
+import { NUMBERING_FORMATS } from "./thread-numbering";
+
+export const MAX_POST_GRAPHEMES = 300;
+// Typed in the composer to end a post by hand
+export const MANUAL_SPLIT_MARKER = "\n---\n";
+
+/** One post of a split thread and where it starts in the composer text */
+export interface ThreadSegment {
+  text: string;
+  start: number;
+}
+
+interface SplitOptions {
+  numberingFormat: ComposerSettings["numberingFormat"];
+  // Off, long text only splits where the marker is typed
+  autoSplit: boolean;
+  maxGraphemes?: number;
+}
+
+interface BreakPoint {
+  // The post ends at cut and the next one starts at next
+  cut: number;
+  next: number;
+  rank: number;
+}
+
+// Best first: paragraph, line, sentence, clause, then any space
+const BREAK_PATTERNS: [RegExp, number][] = [
+  [/\n[ \t]*\n\s*/g, 4],
+  [/\n\s*/g, 3],
+  [/[.!?…]["'”’)\]]*\s+/g, 2],
+  [/[,;:—–]\s+/g, 1],
+  [/\s+/g, 0],
+];
+// Links, mentions and hashtags are never split across posts
+const UNBREAKABLE = /https?:\/\/\S+|@[\w.-]+\w|#[^\s#]+/g;
+// Better breaks only win once the post is at least this full
+const MIN_FILL = 1 / 3;
+const MAX_PASSES = 5;
+
+type GraphemeSegmenter = {
+  segment(text: string): Iterable<{ index: number }>;
+};
+
+// Missing from the ES2020 lib types, and from older browsers
+const segmenter: GraphemeSegmenter | null =
+  "Segmenter" in Intl
+    ? new (
+        Intl as unknown as {
+          Segmenter: new (
+            locale?: string,
+            options?: { granularity: "grapheme" },
+          ) => GraphemeSegmenter;
+        }
+      ).Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+/** Length as Bluesky counts it */
+export const countGraphemes = (text: string) =>
+  new UnicodeString(text).graphemeLength;
+
+// Offset of every grapheme, then the end of the text
+const graphemeOffsets = (text: string): number[] => {
+  const offsets: number[] = [];
+  if (segmenter) {
+    for (const { index } of segmenter.segment(text)) offsets.push(index);
+  } else {
+    let offset = 0;
+    for (const char of text) {
+      offsets.push(offset);
+      offset += char.length;
+    }
+  }
+  offsets.push(text.length);
+  return offsets;
+};
+
+const findBreakPoints = (text: string): BreakPoint[] => {
+  const spans = [...text.matchAll(UNBREAKABLE)].map((m) => [
+    m.index!,
+    m.index! + m[0].length,
+  ]);
+  const points: BreakPoint[] = [];
+  for (const [pattern, rank] of BREAK_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const cut = match.index! + match[0].trimEnd().length;
+      const next = match.index! + match[0].length;
+      if (cut === 0 || next === text.length) continue;
+      if (spans.some(([start, end]) => cut > start && cut < end)) continue;
+      points.push({ cut, next, rank });
+    }
+  }
+  return points;
+};
+
+// Room left for text once the numbering for post `index` of `total` is added
+const numberingRoom = (
+  format: SplitOptions["numberingFormat"],
+  index: number,
+  total: number,
+) => {
+  if (total < 2) return 0;
+  const numbering = NUMBERING_FORMATS.find((f) => f.id === format);
+  if (!numbering || format === "none") return 0;
+  // Plus the space between it and the text
+  return countGraphemes(numbering.format(index + 1, total)) + 1;
+};
+
+const splitSection = (
+  section: string,
+  sectionStart: number,
+  budgetFor: (index: number) => number,
+  firstIndex: number,
+): ThreadSegment[] => {
+  const offsets = graphemeOffsets(section);
+  const points = findBreakPoints(section);
+  const segments: ThreadSegment[] = [];
+  // Offsets index of the grapheme the current post starts at
+  let from = 0;
+
+  while (offsets.length - 1 - from > budgetFor(firstIndex + segments.length)) {
+    const budget = Math.max(1, budgetFor(firstIndex + segments.length));
+    const pos = offsets[from];
+    const limit = offsets[from + budget];
+    const minCut = pos + (limit - pos) * MIN_FILL;
+
+    let best: BreakPoint | null = null;
+    const score = (p: BreakPoint) => (p.cut >= minCut ? p.rank : -1);
+    for (const point of points) {
+      if (point.cut <= pos || point.cut > limit) continue;
+      if (
+        !best ||
+        score(point) > score(best) ||
+        (score(point) === score(best) && point.cut > best.cut)
+      ) {
+        best = point;
+      }
+    }
+    // One unbroken run longer than a post has to be cut anywhere
+    const { cut, next } = best || { cut: limit, next: limit };
+
+    segments.push({
+      text: section.slice(pos, cut).trimEnd(),
+      start: sectionStart + pos,
+    });
+    from = offsets.findIndex((offset) => offset >= next);
+  }
+
+  const rest = section.slice(offsets[from]);
+  if (rest.trim()) {
+    segments.push({ text: rest, start: sectionStart + offsets[from] });
+  }
+  return segments;
+};
+
+/**
+ * Split composer text into posts. Marker-separated sections always become
+ * posts of their own; with auto-split, any that are too long for one post
+ * are divided at the best nearby boundary, leaving room for the numbering.
+ */
+export function splitThread(
+  text: string,
+  {
+    numberingFormat,
+    autoSplit,
+    maxGraphemes = MAX_POST_GRAPHEMES,
+  }: SplitOptions,
+): ThreadSegment[] {
+  const sections: ThreadSegment[] = [];
+  let offset = 0;
+  for (const raw of text.split(MANUAL_SPLIT_MARKER)) {
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) sections.push({ text: trimmed, start: offset + leading });
+    offset += raw.length + MANUAL_SPLIT_MARKER.length;
+  }
+  if (!autoSplit) return sections;
+
+  // The numbering depends on how many posts there are, so split until the
+  // count it was sized for holds
+  let total = sections.length;
+  let segments: ThreadSegment[] = [];
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const sizedFor = total;
+    const budgetFor = (index: number) =>
+      maxGraphemes - numberingRoom(numberingFormat, index, sizedFor);
+    segments = [];
+    for (const section of sections) {
+      segments.push(
+        ...splitSection(
+          section.text,
+          section.start,
+          budgetFor,
+          segments.length,
+        ),
+      );
+    }
+    if (segments.length <= sizedFor) break;
+    total = segments.length;
+  }
+  return segments;
+}
+
+// Where an offset in `before` ended up in `after`, assuming one edit
+const followOffset = (before: string, after: string, offset: number) => {
+  const shortest = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < shortest && before[prefix] === after[prefix]) prefix++;
+  if (offset <= prefix) return offset;
+
+  let suffix = 0;
+  while (
+    suffix < shortest - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  // Inside the edited stretch, which starts where the edit did
+  if (offset < before.length - suffix) return prefix;
+  return offset + after.length - before.length;
+};
+
+/**
+ * The post that holds what began post `index` before the text was edited,
+ * so attachments can follow their text when the split moves.
+ */
+export function followSegment(
+  before: { text: string; segments: ThreadSegment[] },
+  after: { text: string; segments: ThreadSegment[] },
+  index: number,
+): number {
+  const last = Math.max(0, after.segments.length - 1);
+  const segment = before.segments[index];
+  if (!segment) return Math.min(index, last);
+
+  const offset = followOffset(before.text, after.text, segment.start);
+  let found = 0;
+  after.segments.forEach((s, i) => {
+    if (s.start <= offset) found = i;
+  });
+  return found;
+}
@@ -83,6 +83,13 @@ export function constructAtUri(identifier: string, postId: string): string {
   return `at://${identifier}/app.bsky.feed.post/${postId}`;
 }
 
+/**
+ * Get the composer URL for quoting a post
+ */
+export function getQuoteComposerUrl(postUri: string): string {
+  return `/compose?quote=${encodeURIComponent(postUri)}`;
+}
+
 /**
  * Get the appropriate URL for a notification based on its type
  *
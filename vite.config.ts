@@ -1,11 +1,54 @@
+/// <reference types="vitest/config" />
 import react from "@vitejs/plugin-react";
 import path from "path";
-import { defineConfig } from "vite";
+import { defineConfig, type Connect, type Plugin } from "vite";
+import {
+  buildClientMetadata,
+  CLIENT_METADATA_PATH,
+} from "./src/services/atproto/oauth-client-metadata";
+
+/**
+ * Serves the OAuth client metadata for the origin the app runs on: built
+ * from VITE_PUBLIC_URL into dist, and per request from the dev and preview
+ * servers, matching the client ID the app derives at runtime.
+ */
+function oauthClientMetadata(): Plugin {
+  let publicUrl = "";
+  const serve = (middlewares: Connect.Server) => {
+    middlewares.use(CLIENT_METADATA_PATH, (req, res) => {
+      const base = publicUrl || `http://${req.headers.host}`;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(buildClientMetadata(base), null, 2));
+    });
+  };
+
+  return {
+    name: "oauth-client-metadata",
+    configResolved(config) {
+      publicUrl = (config.env.VITE_PUBLIC_URL || "").replace(/\/$/, "");
+    },
+    configureServer: (server) => serve(server.middlewares),
+    configurePreviewServer: (server) => serve(server.middlewares),
+    generateBundle() {
+      if (!publicUrl) {
+        this.warn(
+          "VITE_PUBLIC_URL is not set, so no OAuth client metadata was built; OAuth sign in only works on localhost",
+        );
+        return;
+      }
+      this.emitFile({
+        type: "asset",
+        fileName: CLIENT_METADATA_PATH.slice(1),
+        source: JSON.stringify(buildClientMetadata(publicUrl), null, 2),
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
   base: "/",
-  plugins: [react()],
+  plugins: [react(), oauthClientMetadata()],
   optimizeDeps: {
     exclude: ["@ffmpeg/ffmpeg", "@ffmpeg/util"],
   },
@@ -75,4 +118,8 @@ export default defineConfig({
   },
   // Handle SPA routing - return index.html for all routes
   appType: "spa",
+  // Unit tests sit next to the code; tests/ holds the Playwright suites
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
 });